@@ -0,0 +1,200 @@
+/**
+ * Local Odoo JSON-RPC stub for the Odoo sync worker (src/services/odoo-sync.ts)
+ *
+ * Usage: yarn odoo:stub
+ * Point a store's markket:odoo extension at it:
+ *   url: http://localhost:8069, database: markket, username: admin, api_key: <ODOO_STUB_API_KEY or anything>
+ *
+ * Keeps res.partner, product.product and sale.order in memory.
+ * GET /__stub/state dumps every record; change a sale order from another terminal with
+ * execute_kw sale.order write to exercise the pull side.
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.ODOO_STUB_PORT) || 8069;
+const DATABASE = process.env.ODOO_STUB_DB || 'markket';
+const API_KEY = process.env.ODOO_STUB_API_KEY || '';
+const UID = 2;
+
+const models = {
+  'res.partner': [{ id: 1, name: 'Stub Company', email: 'company@example.com', phone: null, company_id: false }],
+  'product.product': [],
+  'sale.order': [],
+};
+const sequences = { 'res.partner': 1, 'product.product': 0, 'sale.order': 0 };
+
+function odooNow() {
+  return new Date().toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function matches(record, condition) {
+  if (!Array.isArray(condition)) return true;
+
+  const [field, operator, value] = condition;
+  const current = record[field] === undefined ? false : record[field];
+
+  switch (operator) {
+    case '=':
+      return current === value;
+    case '!=':
+      return current !== value;
+    case '=ilike':
+    case 'ilike':
+      return typeof current === 'string' && (operator === 'ilike'
+        ? current.toLowerCase().includes(String(value).toLowerCase())
+        : current.toLowerCase() === String(value).toLowerCase());
+    case 'in':
+      return Array.isArray(value) && value.includes(current);
+    case '>':
+      return current > value;
+    case '>=':
+      return current >= value;
+    case '<':
+      return current < value;
+    case '<=':
+      return current <= value;
+    default:
+      throw new Error(`Unsupported domain operator: ${operator}`);
+  }
+}
+
+function search(model, domain, kwargs = {}) {
+  let rows = models[model].filter((record) => (domain || []).every((condition) => matches(record, condition)));
+
+  if (kwargs.order) {
+    const [field, direction] = String(kwargs.order).split(' ');
+    rows = [...rows].sort((a, b) => (a[field] > b[field] ? 1 : a[field] < b[field] ? -1 : 0) * (direction === 'desc' ? -1 : 1));
+  }
+
+  return kwargs.limit ? rows.slice(0, kwargs.limit) : rows;
+}
+
+function pick(record, fields) {
+  if (!Array.isArray(fields) || !fields.length) return { ...record };
+  return Object.fromEntries(['id', ...fields].map((field) => [field, record[field] === undefined ? false : record[field]]));
+}
+
+function create(model, values) {
+  sequences[model] += 1;
+  const record = { ...values, id: sequences[model], create_date: odooNow(), write_date: odooNow() };
+
+  if (model === 'sale.order') {
+    record.name = `S${String(record.id).padStart(5, '0')}`;
+    record.state = values.state || 'draft';
+    record.invoice_status = values.invoice_status || 'no';
+    record.order_line = (values.order_line || []).map(([, , line], index) => ({ id: index + 1, ...line }));
+    record.amount_total = record.order_line.reduce((sum, line) => sum + (line.product_uom_qty || 0) * (line.price_unit || 0), 0);
+  }
+
+  models[model].push(record);
+  console.log(`[odoo-stub] create ${model}#${record.id}`);
+  return record.id;
+}
+
+function write(model, ids, values) {
+  for (const record of models[model].filter((item) => ids.includes(item.id))) {
+    Object.assign(record, values, { write_date: odooNow() });
+    console.log(`[odoo-stub] write ${model}#${record.id}`, Object.keys(values));
+  }
+  return true;
+}
+
+function executeKw(model, method, args, kwargs = {}) {
+  if (!models[model]) {
+    throw new Error(`Object ${model} doesn't exist`);
+  }
+
+  switch (method) {
+    case 'search':
+      return search(model, args[0], kwargs).map((record) => record.id);
+    case 'search_read':
+      return search(model, args[0], kwargs).map((record) => pick(record, kwargs.fields || args[1]));
+    case 'search_count':
+      return search(model, args[0]).length;
+    case 'read':
+      return search(model, [['id', 'in', args[0]]]).map((record) => pick(record, kwargs.fields || args[1]));
+    case 'create':
+      return create(model, args[0]);
+    case 'write':
+      return write(model, args[0], args[1]);
+    case 'action_confirm':
+      return write(model, args[0], { state: 'sale' });
+    default:
+      throw new Error(`Method ${method} is not supported by the stub`);
+  }
+}
+
+function dispatch(params) {
+  const { service, method, args = [] } = params || {};
+
+  if (service === 'common' && method === 'version') {
+    return { server_version: '17.0-stub', protocol_version: 1 };
+  }
+
+  const [database, , apiKey] = args;
+  if (database !== DATABASE) {
+    throw new Error(`Database ${database} does not exist`);
+  }
+  if (API_KEY && apiKey !== API_KEY) {
+    if (service === 'common') return false;
+    throw new Error('Access Denied');
+  }
+
+  if (service === 'common' && method === 'authenticate') {
+    return UID;
+  }
+
+  if (service === 'object' && method === 'execute_kw') {
+    const [, , , model, modelMethod, modelArgs = [], kwargs = {}] = args;
+    return executeKw(model, modelMethod, modelArgs, kwargs);
+  }
+
+  // Positional variant used by testOdooConnection
+  if (service === 'object' && method === 'execute') {
+    const [, , , model, modelMethod, ...modelArgs] = args;
+    return executeKw(model, modelMethod, modelArgs);
+  }
+
+  throw new Error(`Unsupported call ${service}.${method}`);
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && req.url === '/__stub/state') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(models, null, 2));
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/jsonrpc') {
+    res.writeHead(404);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let id = null;
+    let payload;
+
+    try {
+      const request = JSON.parse(body || '{}');
+      id = request.id ?? null;
+      payload = { jsonrpc: '2.0', id, result: dispatch(request.params) };
+    } catch (error) {
+      payload = {
+        jsonrpc: '2.0',
+        id,
+        error: { code: 200, message: 'Odoo Server Error', data: { message: error.message } },
+      };
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[odoo-stub] JSON-RPC stub on http://localhost:${PORT}/jsonrpc (database: ${DATABASE})`);
+});
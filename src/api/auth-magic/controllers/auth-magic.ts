@@ -4,6 +4,7 @@
  * Uses store.settings records for customization and shortener for SMS-friendly links
  */
 import { enrollStoreOwnerContact } from '../../../services/sendgrid-marketing';
+import { sendMail } from '../../../services/mail-transport';
 
 export default ({ strapi }) => ({
   async preview(ctx) {
@@ -298,7 +299,18 @@ export default ({ strapi }) => ({
               limit: 1,
             }) as any[];
 
-            if (!existingMembership?.length) {
+            if (existingMembership?.[0]?.status === 'inactive') {
+              // Removed members who accept a new invite come back as editors
+              await strapi.documents('api::store-membership.store-membership').update({
+                documentId: existingMembership[0].documentId,
+                data: {
+                  role: 'editor',
+                  status: 'active',
+                  invited_by: Number(magic.meta?.invitedByUserId) || undefined,
+                  joined_at: new Date().toISOString(),
+                } as any,
+              });
+            } else if (!existingMembership?.length) {
               await strapi.documents('api::store-membership.store-membership').create({
                 data: {
                   store: storeDocumentId,
@@ -340,11 +352,11 @@ export default ({ strapi }) => ({
                 storeSlug: store.slug,
                 invitedByName: magic.meta?.invitedByName as string | undefined,
               });
-              await strapi.plugin('email').service('email').send({
+              await sendMail(strapi, {
                 to: magic.email,
                 subject: `You've joined ${store.title || 'a store'} on Markketplace`,
                 html,
-              });
+              }, { storeDocumentId: store.documentId });
             }
           }
         } catch (inviteErr: any) {
@@ -1,6 +1,7 @@
 import crypto from 'crypto';
-import { AccountCreatedHTML , MagicLinkHTML} from './email.template';
+import { AccountCreatedHTML , MagicLinkHTML, SubscribeConfirmHTML } from './email.template';
 import { generateRandomSlug } from '../../shortner/services/slug-generator';
+import { sendMail } from '../../../services/mail-transport';
 
 // Initialize Twilio client if configured
 const TWILIO_AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
@@ -364,6 +365,36 @@ export default ({ strapi }) => ({
       };
     }
 
+    // Run the purpose side effect first so a failed operation does not burn the code.
+    let operation: any = {
+      status: 'placeholder',
+      purpose: magic?.purpose || 'auth_login',
+      note: 'No side effect has been executed yet. Wire this purpose to unsubscribe or invite acceptance next.'
+    };
+
+    if (magic?.purpose === 'subscribe_confirm') {
+      const result = await strapi.service('api::subscriber.subscriber').confirmSubscription({
+        email: magic.email,
+        storeDocumentId: magic?.store?.documentId,
+        membershipDocumentId: magic?.meta?.membershipDocumentId,
+      });
+
+      if (!result?.success) {
+        return {
+          success: false,
+          state: 'failed',
+          message: result?.message || 'Subscription could not be confirmed',
+          data: this.buildCodeSummary(magic),
+        };
+      }
+
+      operation = {
+        status: 'completed',
+        purpose: 'subscribe_confirm',
+        result: result.data || null,
+      };
+    }
+
     const nextUseCount = Number(magic.useCount || 0) + 1;
     const maxUses = Number(magic.maxUses || 1);
     const shouldMarkUsed = magic.reusable ? maxUses > 0 && nextUseCount >= maxUses : true;
@@ -380,7 +411,7 @@ export default ({ strapi }) => ({
     return {
       success: true,
       state: 'confirmed',
-      message: 'Code confirmed. Action placeholder executed.',
+      message: operation.status === 'completed' ? 'Code confirmed.' : 'Code confirmed. Action placeholder executed.',
       data: {
         ...this.buildCodeSummary({ ...magic, useCount: nextUseCount, used: shouldMarkUsed }),
         actor: actor ? {
@@ -388,11 +419,7 @@ export default ({ strapi }) => ({
           email: actor.email || null,
           username: actor.username || null,
         } : null,
-        operation: {
-          status: 'placeholder',
-          purpose: magic?.purpose || 'auth_login',
-          note: 'No side effect has been executed yet. Wire this purpose to subscribe, unsubscribe, or invite acceptance next.'
-        }
+        operation,
       }
     };
   },
@@ -511,12 +538,28 @@ export default ({ strapi }) => ({
     const url = new URL(`/auth/magic?code=${code}`, store?.settings?.domain || 'https://markket.place')?.toString() || '';
     const subject = `${store?.title || 'Markkët'} Magic Login Link`
 
-    await strapi.plugin('email').service('email').send({
+    await sendMail(strapi, {
       to: email,
       subject,
       text: `Click to login: ${url}`,
       html: MagicLinkHTML(email, url, store),
-    });
+    }, { storeDocumentId: store?.documentId });
+  },
+
+  /**
+   * Send a newsletter double opt-in link (purpose subscribe_confirm)
+   */
+  async sendSubscribeConfirmLink(email: string, codeData: any, store: any, expiresInHours: number) {
+    const { code } = codeData;
+    const url = new URL(`/subscribe/confirm?code=${code}`, store?.settings?.domain || 'https://markket.place')?.toString() || '';
+    const subject = `Confirm your ${store?.title || 'Markkët'} subscription`;
+
+    await sendMail(strapi, {
+      to: email,
+      subject,
+      text: `Confirm your subscription: ${url}`,
+      html: SubscribeConfirmHTML(email, url, store, expiresInHours),
+    }, { storeDocumentId: store?.documentId });
   },
 
   /**
@@ -686,12 +729,12 @@ export default ({ strapi }) => ({
    */
   async welcomeEmail(email: string, store: any) {
     try {
-      await strapi.plugin('email').service('email').send({
+      await sendMail(strapi, {
         to: email,
         subject: `Welcome to ${store?.title || 'Markkët'}`,
         text: `Welcome to ${store?.title || 'Markkët'}`,
         html: AccountCreatedHTML(email, store),
-      });
+      }, { storeDocumentId: store?.documentId });
       console.log('[AUTH_MAGIC] welcome email sent', { email, store: store?.documentId || store?.id });
     } catch (error: any) {
       console.error('[AUTH_MAGIC] welcome email failed (non-fatal):', error?.message);
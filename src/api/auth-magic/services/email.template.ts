@@ -67,3 +67,33 @@ export const AccountCreatedHTML = (email: string, store: Store) => {
   const title = `Welcome to ${store?.title || 'Markkët'}! 🎉`;
   return emailLayout({ content, title, store });
 };
+
+/**
+ * Newsletter double opt-in confirmation
+ */
+export const SubscribeConfirmHTML = (email: string, url: string, store: any, expiresInHours: number) => {
+  const accent = store?.settings?.email_theme?.primaryColor || store?.settings?.branding?.primaryColor || '#db2777';
+  const storeTitle = store?.title || 'Markkët';
+  const content = `
+    <p style="margin:0 0 14px 0;">Hi <strong>${email}</strong>, please confirm you want to receive emails from <strong>${storeTitle}</strong>.</p>
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="margin:20px 0;background:#f8fafc;border:1px solid #d1d5db;border-radius:18px;">
+      <tr>
+        <td style="padding:20px 22px;">
+          <div style="font-family:Arial,Helvetica,sans-serif;font-size:15px;line-height:1.7;color:#334155;">
+            This link stays valid for ${expiresInHours} hours. If you did not sign up, ignore this email and you will not be subscribed.
+          </div>
+          <table role="presentation" cellspacing="0" cellpadding="0" border="0" style="margin:20px 0 8px 0;">
+            <tr>
+              <td bgcolor="${accent}" style="border-radius:999px;">
+                <a href="${url}" style="display:inline-block;padding:14px 26px;font-family:Arial,Helvetica,sans-serif;font-size:14px;font-weight:bold;letter-spacing:0.6px;color:#ffffff;text-decoration:none;border-radius:999px;">Confirm subscription</a>
+              </td>
+            </tr>
+          </table>
+          <div style="font-family:'Courier New',Courier,monospace;font-size:12px;line-height:1.7;color:#0369a1;word-break:break-all;margin-top:12px;">${url}</div>
+        </td>
+      </tr>
+    </table>
+  `;
+  const title = `Confirm your ${storeTitle} subscription`;
+  return emailLayout({ content, title, store, label: 'Newsletter' });
+};
@@ -1,5 +1,7 @@
 import { requireUser } from '../../../services/api-auth';
 import { maskEmail } from '../../markket/services/notification/email.template';
+import { resolveListUnsubscribePolicy } from '../../../services/list-settings';
+import { cancelSubscriptionAtPeriodEnd, getStoredSubscription, getSubscriptionState } from '../../../services/order-subscription';
 
 function getBuyerEmail(ctx: any): string | null {
   const user = requireUser(ctx);
@@ -39,7 +41,36 @@ function sanitizeBuyerOrder(order: any): any {
     ...rest
   } = order;
 
-  return rest;
+  return {
+    ...rest,
+    subscription_id: extra?.subscription_id || null,
+  };
+}
+
+function serializeRecurringSubscription(record: any, synced: boolean): any {
+  const store = record.store || null;
+
+  return {
+    documentId: record.documentId,
+    kind: 'recurring_payment',
+    email: record.email ? maskEmail(record.email) : null,
+    status: record.status,
+    active: ['active', 'trialing', 'past_due'].includes(record.status),
+    cancel_at_period_end: !!record.cancel_at_period_end,
+    current_period_start: record.current_period_start || null,
+    current_period_end: record.current_period_end || null,
+    canceled_at: record.canceled_at || null,
+    ended_at: record.ended_at || null,
+    amount: record.amount !== null && record.amount !== undefined ? Number(record.amount) : null,
+    currency: record.currency || null,
+    billing_interval: record.billing_interval || null,
+    billing_interval_count: record.billing_interval_count || 1,
+    failed_payments: record.failed_payments || 0,
+    synced_with_stripe: synced,
+    store: store
+      ? { documentId: store.documentId, Name: store.Name || null, slug: store.slug || null }
+      : null,
+  };
 }
 
 export default {
@@ -95,6 +126,8 @@ export default {
   /**
    * GET /api/cliente/subscription/:documentId
    * Public — returns masked subscriber info for a "manage subscription" frontend page.
+   * Recurring payment subscriptions (order `subscription_id`) return the stored record; Stripe webhooks and the
+   * authenticated cancel route keep it fresh.
    */
   async subscription(ctx: any) {
     const documentId = String(ctx.params?.documentId || '').trim();
@@ -108,7 +141,20 @@ export default {
     }) as any;
 
     if (!subscriber) {
-      return ctx.notFound('Subscription not found');
+      try {
+        const record = await getStoredSubscription(strapi, documentId);
+        if (!record) {
+          return ctx.notFound('Subscription not found');
+        }
+
+        return ctx.send({
+          ok: true,
+          data: serializeRecurringSubscription(record, false),
+        });
+      } catch (error: any) {
+        console.error('[CLIENTE_SUBSCRIPTION] Failed:', error?.message);
+        return ctx.internalServerError('Request failed');
+      }
     }
 
     const store = Array.isArray(subscriber.stores) ? subscriber.stores[0] : null;
@@ -116,10 +162,23 @@ export default {
 
     const isActive = subscriber.active !== false && !subscriber.unsubscribed_at;
 
+    // Per-list memberships + unsubscribe policy so the page can offer list-only or store-wide opt-out.
+    const memberships = store?.documentId
+      ? await (strapi.documents as any)('api::subscriber.subscriber-list-membership').findMany({
+        filters: {
+          subscriber: { documentId: { $eq: subscriber.documentId } },
+          list: { store: { documentId: { $eq: store.documentId } } },
+        },
+        populate: ['list'],
+        limit: 100,
+      }) as any[]
+      : [];
+
     return ctx.send({
       ok: true,
       data: {
         documentId: subscriber.documentId,
+        kind: 'newsletter',
         email: maskedEmail,
         active: isActive,
         status: isActive ? 'active' : 'unsubscribed',
@@ -127,13 +186,22 @@ export default {
         store: store
           ? { documentId: store.documentId, Name: store.Name || null, slug: store.slug || null }
           : null,
+        lists: memberships
+          .filter((membership: any) => membership?.list?.documentId)
+          .map((membership: any) => ({
+            documentId: membership.list.documentId,
+            name: membership.list.name || null,
+            status: membership.status,
+            unsubscribe: resolveListUnsubscribePolicy(membership.list),
+          })),
       },
     });
   },
 
   /**
-   * DELETE /api/cliente/subscription/:documentId
+   * DELETE /api/cliente/subscription/:documentId?list=<listDocumentId>&reason=...
    * Public — unsubscribes a subscriber by their documentId without requiring auth.
+   * With a list, that list's unsubscribe_settings decide list-only vs store-wide.
    */
   async unsubscribeSubscription(ctx: any) {
     const documentId = String(ctx.params?.documentId || '').trim();
@@ -155,16 +223,77 @@ export default {
       return ctx.badRequest('No store associated with this subscription');
     }
 
+    const body = ctx.request?.body || {};
+    const payload = body.data && typeof body.data === 'object' ? body.data : body;
+    const listDocumentId = String(ctx.query?.list || payload?.list || payload?.listDocumentId || '').trim();
+    const reason = String(ctx.query?.reason || payload?.reason || '').trim();
+
     const result = await (strapi.service('api::subscriber.subscriber') as any).unsubscribeFromStore({
       email: subscriber.Email,
       storeDocumentId: store.documentId,
+      listDocumentId: listDocumentId || undefined,
+      reason: reason || undefined,
     });
 
     if (!result?.success) {
       return ctx.badRequest(result?.message || 'Failed to unsubscribe');
     }
 
-    return ctx.send({ ok: true, message: 'Unsubscribed successfully' });
+    return ctx.send({
+      ok: true,
+      message: 'Unsubscribed successfully',
+      data: {
+        scope: result.data?.scope || 'store',
+        listDocumentId: result.data?.listDocumentId || null,
+        confirmation_page_url: result.data?.confirmation_page_url || null,
+      },
+    });
+  },
+
+  /**
+   * POST /api/cliente/subscription/:documentId/cancel
+   * Cancels a recurring payment subscription at the end of the current period.
+   * The authenticated user email must match the subscription buyer.
+   */
+  async cancelSubscription(ctx: any) {
+    const email = getBuyerEmail(ctx);
+    if (!email) {
+      return;
+    }
+
+    const documentId = String(ctx.params?.documentId || '').trim();
+    if (!documentId) {
+      return ctx.badRequest('documentId is required');
+    }
+
+    const state = await getSubscriptionState(strapi, documentId);
+    if (!state || String(state.record.email || '').toLowerCase() !== email) {
+      return ctx.notFound('Subscription not found');
+    }
+
+    if (state.record.cancel_at_period_end) {
+      return ctx.send({
+        ok: true,
+        message: 'Subscription already ends at period end',
+        data: serializeRecurringSubscription(state.record, state.synced),
+      });
+    }
+
+    try {
+      const result = await cancelSubscriptionAtPeriodEnd(strapi, state.record);
+      if (result.ok === false) {
+        return ctx.badRequest(result.error);
+      }
+
+      return ctx.send({
+        ok: true,
+        message: 'Subscription will cancel at period end',
+        data: serializeRecurringSubscription(result.record, true),
+      });
+    } catch (error: any) {
+      console.error('[CLIENTE_SUBSCRIPTION_CANCEL] Failed:', error?.message);
+      return ctx.internalServerError('Request failed');
+    }
   },
 
   /**
@@ -308,6 +437,8 @@ export default {
       email,
       storeDocumentId,
       source: 'cliente_order_subscribe',
+      // Buyer email comes from the authenticated account, no extra confirmation step.
+      skipConfirmation: true,
     });
 
     return ctx.send({
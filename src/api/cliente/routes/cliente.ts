@@ -35,6 +35,12 @@ export default {
       handler: 'cliente.subscription',
       config: { auth: false, policies: [], middlewares: [] },
     },
+    {
+      method: 'POST',
+      path: '/cliente/subscription/:documentId/cancel',
+      handler: 'cliente.cancelSubscription',
+      config: { policies: [], middlewares: [] },
+    },
     {
       method: 'DELETE',
       path: '/cliente/subscription/:documentId',
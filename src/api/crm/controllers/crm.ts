@@ -1,10 +1,19 @@
-import { checkStoreAccess, ERRORS, requireUser } from '../../../services/api-auth';
+import { promises as fs } from 'fs';
+import { checkStoreAccess, ERRORS, requireStorePermission, requireUser, type StorePermission } from '../../../services/api-auth';
 import {
+  cancelStoreNewsletter,
   createStripeConnectDashboardLink,
   createStripeConnectLink,
+  exportStoreListMembers,
   getIntegrationPlan,
-  placeholderSendNewsletter,
+  getStoreSubscriberImport,
+  importStoreSubscribers,
+  listStoreSubscriberImports,
   placeholderSyncSubscriber,
+  previewStoreListAutoSubscribe,
+  recomputeStoreListHealth,
+  scheduleStoreNewsletter,
+  sendStoreNewsletter,
   syncStripeConnectStatus,
 } from '../services/crm';
 
@@ -22,6 +31,43 @@ function getPagination(ctx: any): { skip: number; limit: number; page: number }
   };
 }
 
+/**
+ * CSV text from a multipart `file` upload or a JSON `csv` field, plus multipart/JSON fields.
+ * Multipart fields arrive as strings, so JSON-ish ones (mapping, listDocumentIds) are parsed.
+ */
+async function readImportPayload(ctx: any): Promise<{ csv: string; filename?: string; payload: any }> {
+  const body = ctx.request?.body || {};
+  const payload = body.data && typeof body.data === 'object' ? body.data : body;
+  const upload = ctx.request?.files?.file;
+  const file = Array.isArray(upload) ? upload[0] : upload;
+
+  const parseField = (value: any) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  };
+
+  const fields = {
+    ...payload,
+    mapping: parseField(payload.mapping),
+    listDocumentIds: parseField(payload.listDocumentIds),
+  };
+
+  if (file) {
+    const filepath = file.filepath || file.path;
+    return {
+      csv: filepath ? await fs.readFile(filepath, 'utf8') : '',
+      filename: file.originalFilename || file.name,
+      payload: fields,
+    };
+  }
+
+  return { csv: String(payload.csv || ''), filename: payload.filename, payload: fields };
+}
+
 function getRelationStoreDocumentIds(resource: any, relationField: string): string[] {
   const relationValue = resource?.[relationField];
   const values = Array.isArray(relationValue) ? relationValue : relationValue ? [relationValue] : [];
@@ -94,7 +140,7 @@ async function requireStoreScopedResource(
   return resource;
 }
 
-async function requireStoreScope(ctx: any): Promise<any | null> {
+async function requireStoreScope(ctx: any, permission: StorePermission): Promise<any | null> {
   const user = requireUser(ctx);
   if (!user) {
     return null;
@@ -112,7 +158,11 @@ async function requireStoreScope(ctx: any): Promise<any | null> {
     return null;
   }
 
-  return { user, store: access.store, isAdmin: access.isAdmin };
+  if (!requireStorePermission(ctx, access, permission)) {
+    return null;
+  }
+
+  return { user, store: access.store, isAdmin: access.isAdmin, role: access.role };
 }
 
 export default {
@@ -120,7 +170,7 @@ export default {
    * GET /api/crm/orders?storeRef=...&status=...&q=...&page=1&pageSize=25
    */
   async orders(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'orders.read');
     if (!scope) {
       return;
     }
@@ -181,7 +231,7 @@ export default {
    * GET /api/crm/subscribers?storeRef=...&syncStatus=...&q=...&page=1&pageSize=25
    */
   async subscribers(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'crm.read');
     if (!scope) {
       return;
     }
@@ -237,7 +287,7 @@ export default {
    * GET /api/crm/newsletters?storeRef=...&status=...&q=...&page=1&pageSize=25
    */
   async newsletters(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'crm.read');
     if (!scope) {
       return;
     }
@@ -290,12 +340,68 @@ export default {
     });
   },
 
+  /**
+   * GET /api/crm/lists?storeRef=...&health=...&q=...&page=1&pageSize=25
+   * Subscriber lists with their last computed stats + health.
+   */
+  async lists(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.read');
+    if (!scope) {
+      return;
+    }
+
+    const { page, skip, limit } = getPagination(ctx);
+    const health = String(ctx.query?.health || '').trim();
+    const q = String(ctx.query?.q || '').trim();
+
+    const filters: any = {
+      store: { documentId: scope.store.documentId },
+    };
+
+    if (health) {
+      filters.health = health;
+    }
+
+    if (q) {
+      filters.$or = [
+        { name: { $containsi: q } },
+        { slug: { $containsi: q } },
+      ];
+    }
+
+    const [items, total] = await Promise.all([
+      (strapi.documents as any)('api::subscriber.subscriber-list').findMany({
+        filters,
+        sort: ['createdAt:desc'],
+        skip,
+        limit,
+      }) as Promise<any[]>,
+      (strapi.documents as any)('api::subscriber.subscriber-list').count({ filters }),
+    ]);
+
+    const data = (items || []).map((item: any) => {
+      const { extensions, ...rest } = item;
+      return rest;
+    });
+
+    return ctx.send({
+      ok: true,
+      data,
+      pagination: {
+        page,
+        pageSize: limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  },
+
   /**
    * GET /api/crm/customers?storeRef=...&q=...&page=1&pageSize=25
    * Lightweight rollup from orders + subscribers for CRM list views.
    */
   async customers(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'orders.read');
     if (!scope) {
       return;
     }
@@ -446,7 +552,7 @@ export default {
    * GET /api/pagos/connect?storeRef=...
    */
   async stripeConnectStatus(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'store.read');
     if (!scope) {
       return;
     }
@@ -482,7 +588,7 @@ export default {
    * Placeholder for Stripe Connect account/onboarding link creation.
    */
   async createStripeConnectOnboardingLink(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'payouts.manage');
     if (!scope) {
       return;
     }
@@ -511,7 +617,7 @@ export default {
    * Alias to create/recreate onboarding link for incomplete accounts.
    */
   async resumeStripeConnectOnboarding(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'payouts.manage');
     if (!scope) {
       return;
     }
@@ -540,7 +646,7 @@ export default {
    * Create Stripe account_update link for requirements review.
    */
   async createStripeConnectReviewLink(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'payouts.manage');
     if (!scope) {
       return;
     }
@@ -568,7 +674,7 @@ export default {
    * Create temporary Express dashboard login link.
    */
   async createStripeConnectDashboardLink(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'payouts.manage');
     if (!scope) {
       return;
     }
@@ -594,7 +700,7 @@ export default {
    * Placeholder for SendGrid subscriber sync orchestration.
    */
   async syncSubscriber(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'crm.manage');
     if (!scope) {
       return;
     }
@@ -623,10 +729,46 @@ export default {
 
   /**
    * POST /api/crm/newsletters/:documentId/send?storeRef=...
-   * Placeholder for SendGrid newsletter send orchestration.
+   * Renders the edition and sends it to active members of its target lists.
    */
   async sendNewsletter(ctx: any) {
-    const scope = await requireStoreScope(ctx);
+    const scope = await requireStoreScope(ctx, 'crm.manage');
+    if (!scope) {
+      return;
+    }
+
+    const newsletterDocumentId = String(ctx.params?.documentId || '').trim();
+    const newsletter = await requireStoreScopedResource(
+      ctx,
+      scope,
+      'api::subscriber.newsletter',
+      newsletterDocumentId,
+      'store',
+      'newsletter',
+    );
+
+    if (!newsletter) {
+      return;
+    }
+
+    const body = ctx.request?.body || {};
+    const payload = body.data && typeof body.data === 'object' ? body.data : body;
+
+    const result = await sendStoreNewsletter({
+      storeDocumentId: scope.store.documentId,
+      newsletterDocumentId,
+      force: payload.force === true,
+    });
+
+    return ctx.send(result);
+  },
+
+  /**
+   * POST /api/crm/newsletters/:documentId/schedule?storeRef=...
+   * Schedule or reschedule a send; picked up by the newsletter cron.
+   */
+  async scheduleNewsletter(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.manage');
     if (!scope) {
       return;
     }
@@ -648,14 +790,227 @@ export default {
     const body = ctx.request?.body || {};
     const payload = body.data && typeof body.data === 'object' ? body.data : body;
 
-    const mode = payload.mode === 'transactional' ? 'transactional' : 'single_send';
+    const result = await scheduleStoreNewsletter({
+      storeDocumentId: scope.store.documentId,
+      newsletterDocumentId,
+      scheduledAt: String(payload.scheduled_at || payload.scheduledAt || '').trim(),
+    });
+
+    return ctx.send(result);
+  },
+
+  /**
+   * POST /api/crm/newsletters/:documentId/cancel?storeRef=...
+   * Cancel a scheduled send.
+   */
+  async cancelNewsletter(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.manage');
+    if (!scope) {
+      return;
+    }
+
+    const newsletterDocumentId = String(ctx.params?.documentId || '').trim();
+    const newsletter = await requireStoreScopedResource(
+      ctx,
+      scope,
+      'api::subscriber.newsletter',
+      newsletterDocumentId,
+      'store',
+      'newsletter',
+    );
+
+    if (!newsletter) {
+      return;
+    }
 
-    const result = await placeholderSendNewsletter({
+    const result = await cancelStoreNewsletter({
       storeDocumentId: scope.store.documentId,
       newsletterDocumentId,
-      mode,
     });
 
     return ctx.send(result);
   },
+
+  /**
+   * POST /api/crm/lists/:documentId/auto-subscribe/preview?storeRef=...
+   * Dry-run auto_subscribe_rules against the store's orders, RSVPs and form responses.
+   * Uses body.rules when given, otherwise the list's saved rules.
+   */
+  async previewListAutoSubscribe(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.read');
+    if (!scope) {
+      return;
+    }
+
+    const listDocumentId = String(ctx.params?.documentId || '').trim();
+    const list = await requireStoreScopedResource(
+      ctx,
+      scope,
+      'api::subscriber.subscriber-list',
+      listDocumentId,
+      'store',
+      'list',
+    );
+
+    if (!list) {
+      return;
+    }
+
+    const body = ctx.request?.body || {};
+    const payload = body.data && typeof body.data === 'object' ? body.data : body;
+
+    const result = await previewStoreListAutoSubscribe({
+      storeDocumentId: scope.store.documentId,
+      listDocumentId,
+      rules: Array.isArray(payload.rules) ? payload.rules : list?.auto_subscribe_rules?.rules,
+    });
+
+    return ctx.send(result);
+  },
+
+  /**
+   * POST /api/crm/lists/stats?storeRef=...
+   * POST /api/crm/lists/:documentId/stats?storeRef=...
+   * Recompute stats + health now for every store list, or a single list.
+   */
+  async recomputeListStats(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.manage');
+    if (!scope) {
+      return;
+    }
+
+    const listDocumentId = String(ctx.params?.documentId || '').trim();
+    if (listDocumentId) {
+      const list = await requireStoreScopedResource(
+        ctx,
+        scope,
+        'api::subscriber.subscriber-list',
+        listDocumentId,
+        'store',
+        'list',
+      );
+
+      if (!list) {
+        return;
+      }
+    }
+
+    const result = await recomputeStoreListHealth({
+      storeDocumentId: scope.store.documentId,
+      listDocumentId: listDocumentId || undefined,
+    });
+
+    return ctx.send(result);
+  },
+
+  /**
+   * POST /api/crm/subscribers/import?storeRef=...
+   * Queue a CSV import (multipart `file` or JSON `csv`); poll the returned job for progress.
+   */
+  async importSubscribers(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.manage');
+    if (!scope) {
+      return;
+    }
+
+    const { csv, filename, payload } = await readImportPayload(ctx);
+    const listDocumentIds = Array.isArray(payload.listDocumentIds)
+      ? payload.listDocumentIds
+      : typeof payload.listDocumentIds === 'string' && payload.listDocumentIds
+        ? payload.listDocumentIds.split(',')
+        : [];
+
+    const result = await importStoreSubscribers({
+      storeDocumentId: scope.store.documentId,
+      csv,
+      filename,
+      mapping: payload.mapping,
+      listDocumentIds,
+      consentSource: String(payload.consent_source || payload.consentSource || ''),
+      updateExisting: payload.update_existing !== false && payload.update_existing !== 'false',
+      sendWelcome: payload.send_welcome === true || payload.send_welcome === 'true',
+      requestedBy: scope.user?.email || String(scope.user?.id || ''),
+    });
+
+    return ctx.send(result);
+  },
+
+  /**
+   * GET /api/crm/subscribers/imports?storeRef=...&page=1&pageSize=25
+   */
+  async subscriberImports(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.read');
+    if (!scope) {
+      return;
+    }
+
+    const { page, limit } = getPagination(ctx);
+    const result = await listStoreSubscriberImports({
+      storeDocumentId: scope.store.documentId,
+      page,
+      pageSize: limit,
+    });
+
+    return ctx.send({ ok: true, ...result });
+  },
+
+  /**
+   * GET /api/crm/subscribers/imports/:documentId?storeRef=...
+   * Progress, counters and per-row error report of one import.
+   */
+  async subscriberImport(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.read');
+    if (!scope) {
+      return;
+    }
+
+    const importDocumentId = String(ctx.params?.documentId || '').trim();
+    const job = await requireStoreScopedResource(
+      ctx,
+      scope,
+      'api::subscriber.subscriber-import',
+      importDocumentId,
+      'store',
+      'import',
+    );
+
+    if (!job) {
+      return;
+    }
+
+    const data = await getStoreSubscriberImport({ importDocumentId });
+    return ctx.send({ ok: true, data });
+  },
+
+  /**
+   * GET /api/crm/lists/:documentId/export?storeRef=...
+   * CSV download of the list's memberships with status and engagement fields.
+   */
+  async exportListMembers(ctx: any) {
+    const scope = await requireStoreScope(ctx, 'crm.read');
+    if (!scope) {
+      return;
+    }
+
+    const listDocumentId = String(ctx.params?.documentId || '').trim();
+    const list = await requireStoreScopedResource(
+      ctx,
+      scope,
+      'api::subscriber.subscriber-list',
+      listDocumentId,
+      'store',
+      'list',
+    );
+
+    if (!list) {
+      return;
+    }
+
+    const { filename, csv } = await exportStoreListMembers({ list });
+
+    ctx.set('Content-Disposition', `attachment; filename="${filename}"`);
+    ctx.set('Cache-Control', 'no-store');
+    ctx.type = 'text/csv; charset=utf-8';
+    ctx.body = csv;
+  },
 };
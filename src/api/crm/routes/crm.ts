@@ -23,6 +23,12 @@ export default {
       handler: 'crm.newsletters',
       config: { policies: [], middlewares: [] },
     },
+    {
+      method: 'GET',
+      path: '/crm/lists',
+      handler: 'crm.lists',
+      config: { policies: [], middlewares: [] },
+    },
     {
       method: 'GET',
       path: '/crm/customers',
@@ -41,6 +47,60 @@ export default {
       handler: 'crm.sendNewsletter',
       config: { policies: [], middlewares: [] },
     },
+    {
+      method: 'POST',
+      path: '/crm/newsletters/:documentId/schedule',
+      handler: 'crm.scheduleNewsletter',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'POST',
+      path: '/crm/newsletters/:documentId/cancel',
+      handler: 'crm.cancelNewsletter',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'POST',
+      path: '/crm/lists/stats',
+      handler: 'crm.recomputeListStats',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'POST',
+      path: '/crm/lists/:documentId/stats',
+      handler: 'crm.recomputeListStats',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'POST',
+      path: '/crm/subscribers/import',
+      handler: 'crm.importSubscribers',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'GET',
+      path: '/crm/subscribers/imports',
+      handler: 'crm.subscriberImports',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'GET',
+      path: '/crm/subscribers/imports/:documentId',
+      handler: 'crm.subscriberImport',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'GET',
+      path: '/crm/lists/:documentId/export',
+      handler: 'crm.exportListMembers',
+      config: { policies: [], middlewares: [] },
+    },
+    {
+      method: 'POST',
+      path: '/crm/lists/:documentId/auto-subscribe/preview',
+      handler: 'crm.previewListAutoSubscribe',
+      config: { policies: [], middlewares: [] },
+    },
     // Pagos — Stripe Connect / payouts
     {
       method: 'GET',
@@ -5,6 +5,21 @@
 
 import type { Stripe as StripeClient } from 'stripe';
 import { getStripeClient } from '../../../services/stripe';
+import { sendNewsletter, type SendNewsletterResult } from '../../../services/newsletter-send';
+import { previewAutoSubscribeRules } from '../../../services/list-auto-subscribe';
+import { recomputeListStats, recomputeStoreListStats } from '../../../services/list-health';
+import {
+  createSubscriberImport,
+  exportListMembershipsCsv,
+  getSubscriberImport,
+  listSubscriberImports,
+  type SubscriberImportResult,
+} from '../../../services/subscriber-import';
+import {
+  cancelScheduledNewsletter,
+  scheduleNewsletter,
+  type NewsletterScheduleResult,
+} from '../../../services/newsletter-scheduler';
 
 export type PlaceholderResponse = {
   ok: boolean;
@@ -556,17 +571,76 @@ export async function placeholderSyncSubscriber(input: {
   };
 }
 
-export async function placeholderSendNewsletter(input: {
+export async function sendStoreNewsletter(input: {
   storeDocumentId: string;
   newsletterDocumentId: string;
-  mode?: 'single_send' | 'transactional';
-}): Promise<PlaceholderResponse> {
-  return {
-    ok: false,
-    action: 'sendgrid.newsletter.send',
-    status: 'placeholder',
-    reason: 'Newsletter send endpoint exists but third-party send execution is deferred to phase 2 implementation.',
-    required: INTEGRATION_REQUIREMENTS.sendgridMarketing,
-    payload: input,
-  };
+  force?: boolean;
+}): Promise<SendNewsletterResult> {
+  return sendNewsletter(strapi, input);
+}
+
+export async function scheduleStoreNewsletter(input: {
+  storeDocumentId: string;
+  newsletterDocumentId: string;
+  scheduledAt: string;
+}): Promise<NewsletterScheduleResult> {
+  return scheduleNewsletter(strapi, input);
+}
+
+export async function cancelStoreNewsletter(input: {
+  storeDocumentId: string;
+  newsletterDocumentId: string;
+}): Promise<NewsletterScheduleResult> {
+  return cancelScheduledNewsletter(strapi, input);
+}
+
+export async function previewStoreListAutoSubscribe(input: {
+  storeDocumentId: string;
+  listDocumentId: string;
+  rules: any;
+}) {
+  return previewAutoSubscribeRules(strapi, input);
+}
+
+export async function recomputeStoreListHealth(input: {
+  storeDocumentId: string;
+  listDocumentId?: string;
+}) {
+  if (input.listDocumentId) {
+    const result = await recomputeListStats(strapi, input.listDocumentId);
+    return { ok: !!result, action: 'list.stats.recompute', data: result ? [result] : [] };
+  }
+
+  const results = await recomputeStoreListStats(strapi, input.storeDocumentId);
+  return { ok: true, action: 'list.stats.recompute', data: results };
+}
+
+export async function importStoreSubscribers(input: {
+  storeDocumentId: string;
+  csv: string;
+  filename?: string;
+  mapping?: any;
+  listDocumentIds?: string[];
+  consentSource: string;
+  updateExisting?: boolean;
+  sendWelcome?: boolean;
+  requestedBy?: string;
+}): Promise<SubscriberImportResult> {
+  return createSubscriberImport(strapi, input);
+}
+
+export async function listStoreSubscriberImports(input: {
+  storeDocumentId: string;
+  page?: number;
+  pageSize?: number;
+}) {
+  return listSubscriberImports(strapi, input.storeDocumentId, input);
+}
+
+export async function getStoreSubscriberImport(input: { importDocumentId: string }) {
+  return getSubscriberImport(strapi, input.importDocumentId);
+}
+
+export async function exportStoreListMembers(input: { list: any }) {
+  return exportListMembershipsCsv(strapi, input.list);
 }
@@ -0,0 +1,7 @@
+/**
+ * discount controller
+ */
+
+import { factories } from '@strapi/strapi'
+
+export default factories.createCoreController('api::discount.discount');
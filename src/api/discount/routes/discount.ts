@@ -0,0 +1,7 @@
+/**
+ * discount router
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::discount.discount');
@@ -0,0 +1,7 @@
+/**
+ * discount service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreService('api::discount.discount');
@@ -3,7 +3,7 @@
  */
 
 import { factories } from '@strapi/strapi';
-import { checkStoreAccess, requireUser, ERRORS } from '../../../services/api-auth';
+import { checkStoreAccess, requireStorePermission, requireUser, ERRORS } from '../../../services/api-auth';
 import {
   createInboxThreadRecord,
   getInboxThreadById,
@@ -41,6 +41,9 @@ export default factories.createCoreController('api::inbox.inbox', ({ strapi }) =
       return ctx.send(result);
     } catch (error: any) {
       strapi.log.error('Inbox outbound failed', error);
+      if (error.status === 403) {
+        return ctx.forbidden(error.message, error.details);
+      }
       return ctx.badRequest(error.message || 'Failed to send outbound email');
     }
   },
@@ -51,6 +54,9 @@ export default factories.createCoreController('api::inbox.inbox', ({ strapi }) =
       return ctx.send(result);
     } catch (error: any) {
       strapi.log.error('Inbox thread outbound failed', error);
+      if (error.status === 403) {
+        return ctx.forbidden(error.message, error.details);
+      }
       return ctx.badRequest(error.message || 'Failed to send outbound thread reply');
     }
   },
@@ -86,6 +92,7 @@ export default factories.createCoreController('api::inbox.inbox', ({ strapi }) =
       if (!access?.store || !access?.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'inbox.read')) return;
 
       ctx.state.inboxStore = access.store;
 
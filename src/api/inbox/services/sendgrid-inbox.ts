@@ -3,7 +3,8 @@ interface InboxContext {
   ctx: any;
 }
 
-import { checkStoreAccess } from '../../../services/api-auth';
+import { checkStoreAccess, hasStorePermission } from '../../../services/api-auth';
+import { sendMail } from '../../../services/mail-transport';
 
 function extractEmailAddress(value?: string | null): string | null {
   if (!value) return null;
@@ -272,11 +273,16 @@ async function resolveInboxUser(strapi: any, store: any, ctx: any) {
   return null;
 }
 
+/**
+ * Opens the inbox thread of an order (once per thread key).
+ * `topic` opens a separate thread on the same order, e.g. a dispute: ThreadKey `order::<id>::<topic.key>`.
+ */
 export async function ensureOrderInboxThreadRecord(params: {
   strapi: any;
   order: any;
+  topic?: { key: string; subject: string; message: string };
 }): Promise<{ created: boolean; threadKey: string | null; recordId?: string | null }> {
-  const { strapi, order } = params;
+  const { strapi, order, topic } = params;
   const orderDocumentId = String(order?.documentId || '').trim();
   const store = order?.store || null;
   const storeDocumentId = String(store?.documentId || '').trim();
@@ -292,7 +298,7 @@ export async function ensureOrderInboxThreadRecord(params: {
     return { created: false, threadKey: null };
   }
 
-  const threadKey = `order::${orderDocumentId}`;
+  const threadKey = topic ? `order::${orderDocumentId}::${topic.key}` : `order::${orderDocumentId}`;
   const existing = await strapi.documents('api::inbox.inbox').findMany({
     filters: {
       ThreadKey: threadKey,
@@ -307,18 +313,20 @@ export async function ensureOrderInboxThreadRecord(params: {
 
   const inboxUserId = await resolveInboxUser(strapi, store, { state: {} });
   const storeMailbox = `${routingKey || 'store'}@${getMailDomain()}`;
-  const subject = `Order ${orderDocumentId.slice(0, 8)} created`;
+  const subject = topic?.subject || `Order ${orderDocumentId.slice(0, 8)} created`;
   const amount = order?.Amount;
   const currency = String(order?.Currency || '').trim().toUpperCase() || 'USD';
   const amountText = typeof amount === 'number' || typeof amount === 'string' ? `${amount} ${currency}` : currency;
-  const messageBody = [
+  const messageBody = topic?.message || [
     `Customer ${customerEmail} placed order ${orderDocumentId}.`,
     `Status: ${String(order?.Status || 'paid')}.`,
     `Amount: ${amountText}.`,
     'Reply from inbox to continue communication.',
   ].join(' ');
 
-  const messageId = `order-${orderDocumentId}@${getMailDomain()}`;
+  const messageId = topic
+    ? `order-${orderDocumentId}-${topic.key}@${getMailDomain()}`
+    : `order-${orderDocumentId}@${getMailDomain()}`;
 
   const inboxRecord = await strapi.documents('api::inbox.inbox').create({
     data: {
@@ -358,6 +366,77 @@ export async function ensureOrderInboxThreadRecord(params: {
   return { created: true, threadKey, recordId: inboxRecord?.documentId || null };
 }
 
+/**
+ * System notice for a store (no customer on the other side), e.g. low stock alerts.
+ * One inbox record per `threadKey`; later notices on the same key are skipped.
+ */
+export async function ensureStoreNoticeInboxRecord(params: {
+  strapi: any;
+  store: any;
+  threadKey: string;
+  subject: string;
+  message: string;
+  source: string;
+}): Promise<{ created: boolean; threadKey: string | null; recordId?: string | null }> {
+  const { strapi, store, threadKey, subject, message, source } = params;
+  const storeDocumentId = String(store?.documentId || '').trim();
+  const routingKey = String(store?.slug || '').trim() || null;
+
+  if (!storeDocumentId || !threadKey) {
+    return { created: false, threadKey: null };
+  }
+
+  const existing = await strapi.documents('api::inbox.inbox').findMany({
+    filters: { ThreadKey: threadKey, RoutingKey: routingKey },
+    limit: 1,
+  });
+
+  if (existing?.[0]?.documentId) {
+    return { created: false, threadKey, recordId: existing[0].documentId };
+  }
+
+  const inboxUserId = await resolveInboxUser(strapi, store, { state: {} });
+  const storeMailbox = `${routingKey || 'store'}@${getMailDomain()}`;
+  const systemAddress = `notifications@${getMailDomain()}`;
+  const messageId = `${threadKey.replace(/[^a-zA-Z0-9._-]+/g, '-')}@${getMailDomain()}`;
+
+  const inboxRecord = await strapi.documents('api::inbox.inbox').create({
+    data: {
+      Name: subject,
+      Message: message,
+      email: systemAddress,
+      store: { connect: [{ documentId: storeDocumentId }] },
+      user: inboxUserId ? { connect: [{ id: inboxUserId }] } : undefined,
+      Direction: 'incoming',
+      ThreadKey: threadKey,
+      RoutingKey: routingKey,
+      FromAddress: systemAddress,
+      ToAddress: storeMailbox,
+      MessageId: messageId,
+      Metadata: buildInboxMetadata({
+        source,
+        threadKey,
+        routingKey,
+        messageId,
+        subject,
+        rawTo: storeMailbox,
+        rawFrom: systemAddress,
+        receivedAt: new Date().toISOString(),
+        envelope: { from: systemAddress, to: storeMailbox },
+      }),
+      Estado: 'new',
+    },
+  });
+
+  if (inboxRecord?.documentId) {
+    await strapi.documents('api::inbox.inbox').publish({
+      documentId: inboxRecord.documentId,
+    });
+  }
+
+  return { created: true, threadKey, recordId: inboxRecord?.documentId || null };
+}
+
 function parseBooleanQuery(value: unknown): boolean | null {
   if (typeof value === 'boolean') return value;
   if (typeof value !== 'string') return null;
@@ -560,6 +639,13 @@ export async function sendSendGridOutboundEmail({ strapi, ctx }: InboxContext) {
     if (!access?.store || !access?.hasAccess) {
       throw new Error('Store not found or access denied');
     }
+    if (!hasStorePermission(access, 'inbox.manage')) {
+      // Controllers answer 403 with the missing permission
+      throw Object.assign(new Error('Missing permission: inbox.manage'), {
+        status: 403,
+        details: { code: 'missing_permission', permission: 'inbox.manage', role: access.role },
+      });
+    }
   }
 
   const inboxUserId = await resolveInboxUser(strapi, store, ctx);
@@ -611,16 +697,7 @@ export async function sendSendGridOutboundEmail({ strapi, ctx }: InboxContext) {
   };
 
   if (!isDraftRequest) {
-    const sgMail = await import('@sendgrid/mail');
-    const mail = sgMail.default;
-    const apiKey = process.env.SENDGRID_API_KEY;
-
-    if (!apiKey) {
-      throw new Error('SendGrid API key is not configured');
-    }
-
-    mail.setApiKey(apiKey);
-    await mail.send(emailData);
+    await sendMail(strapi, emailData, { storeDocumentId: store?.documentId });
   }
 
   const outboundRecord = await strapi.documents('api::inbox.inbox').create({
@@ -6,5 +6,6 @@ export const ACTION_KEYS = {
   inventoryDecrement: 'product.price.inventory.decrement',
   inventoryChanged: 'product.price.inventory.changed',
   stripeLink: 'stripe.link',
+  stripeCart: 'stripe.cart',
   stripeCheckoutSessionCompleted: 'stripe:checkout.session.completed',
 };
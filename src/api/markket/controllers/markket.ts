@@ -16,7 +16,8 @@ import { version } from '../../../../package.json';
 import * as crypto from 'crypto';
 const { createCoreController } = require('@strapi/strapi').factories;
 const modelId = "api::markket.markket";
-import { createAction } from '../services/actions';
+import { createAction, replayStripeWebhook } from '../services/actions';
+import { listStripeEvents } from '../../../services/stripe-events';
 import {
   verifyStripeWebhook,
 } from '../services/stripe';
@@ -24,6 +25,7 @@ import {
 
 import { retrieveAndStoreActualFees } from '../services/stripe-fees-retriever';
 import { emailLayout } from '../services/notification/email.template';
+import { sendMail } from '../../../services/mail-transport';
 import { forceOneSentence, openRouterChatCompletion } from '../../../services/openrouter';
 
 const NODE_ENV = process.env.NODE_ENV || 'development';
@@ -837,7 +839,7 @@ module.exports = createCoreController(modelId, ({ strapi }) => ({
       const storeName = from_name || store?.settings?.store_name_override || store?.title;
       const replyToEmail = reply_to || store?.settings?.reply_to_email || fromEmail;
 
-      await strapi.plugins['email'].services.email.send({
+      await sendMail(strapi, {
         to: Array.isArray(to) ? to : [to],
         from: `${storeName} <${fromEmail}>`,
         replyTo: replyToEmail,
@@ -847,7 +849,7 @@ module.exports = createCoreController(modelId, ({ strapi }) => ({
           title: title || subject,
           store
         }),
-      });
+      }, { storeDocumentId: store?.documentId });
 
       console.info(`markket:email:${censor(to)}:store:${store_id}`);
 
@@ -962,6 +964,43 @@ module.exports = createCoreController(modelId, ({ strapi }) => ({
       ]
     });
   },
+  /**
+   * GET /markket/webhooks/events?status=failed&type=&page=1&pageSize=25 (admin)
+   * Stripe event ledger, to find failed events to replay
+   */
+  async listWebhookEvents(ctx: any) {
+    const page = Math.max(1, parseInt(String(ctx.query?.page || '1'), 10));
+    const pageSize = Math.min(100, Math.max(1, parseInt(String(ctx.query?.pageSize || '25'), 10)));
+    const status = String(ctx.query?.status || '').trim();
+
+    if (status && !['processing', 'processed', 'failed'].includes(status)) {
+      return ctx.badRequest('status must be one of: processing, processed, failed');
+    }
+
+    const { items, total } = await listStripeEvents(strapi, {
+      status,
+      type: String(ctx.query?.type || '').trim(),
+      page,
+      pageSize,
+    });
+
+    return ctx.send({
+      data: items,
+      meta: { pagination: { page, pageSize, total, pageCount: Math.ceil(total / pageSize) } },
+    });
+  },
+  /**
+   * POST /markket/webhooks/events/:eventId/replay (admin)
+   * Run a Stripe event stored in the event ledger through the current handlers
+   */
+  async replayWebhook(ctx: any) {
+    const eventId = String(ctx.params?.eventId || '').trim();
+    if (!eventId) {
+      return ctx.badRequest('eventId is required');
+    }
+
+    return await replayStripeWebhook(ctx, eventId);
+  },
   /**
    * POST /api/markket/stripe-webhook
    * Dedicated webhook endpoint with raw body handling
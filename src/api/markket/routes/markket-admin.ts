@@ -0,0 +1,26 @@
+/**
+ * Markket admin router
+ * Served on the admin API (admin panel JWT), not under /api
+ */
+
+export default {
+  type: 'admin',
+  routes: [
+    {
+      method: 'GET',
+      path: '/markket/webhooks/events',
+      handler: 'markket.listWebhookEvents',
+      config: {
+        policies: ['admin::isAuthenticatedAdmin'],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/markket/webhooks/events/:eventId/replay',
+      handler: 'markket.replayWebhook',
+      config: {
+        policies: ['admin::isAuthenticatedAdmin'],
+      },
+    },
+  ],
+};
@@ -1,7 +1,22 @@
 import { generateRandomSlug } from '../../shortner/services/slug-generator';
 import { ACTION_KEYS } from '../controllers/action-keys';
 import { handleCheckoutSessionCompleted } from '../services/stripe-webhook-handler';
+import { processStripeRefunds } from '../../../services/order-refund';
+import { recordStripeDispute } from '../../../services/order-dispute';
+import { recordSubscriptionInvoice, syncStripeSubscription } from '../../../services/order-subscription';
+import { claimStripeEvent, findStripeEvent, settleStripeEvent } from '../../../services/stripe-events';
 import {
+  acquireInventoryLock,
+  checkInventoryAvailability,
+  releaseInventoryLock,
+  releaseOrderReservations,
+  reserveInventory,
+} from '../../../services/inventory-reservation';
+import { resolveCheckoutShipping } from '../../../services/shipping-rates';
+import { applyDiscountCode, releaseDiscountHold, type OrderDiscountRecord } from '../../../services/discount-codes';
+import { buildCartDetails, reserveCartInventory, validateCart, withCartInventory } from '../../../services/cart-checkout';
+import {
+  createCartPaymentLink,
   createPaymentLinkWithPriceIds,
   getAccount,
   getStripeClient,
@@ -12,9 +27,33 @@ import {
 
 const modelId = "api::markket.markket";
 
-const createAction = async (ctx: any) => {
+/**
+ * Subtotal of the lines Stripe will charge, from the product PRICES (client totals are not trusted).
+ * Custom `unit_amount` lines (discounted or pay-what-you-want) count at the amount they are charged.
+ */
+function linkSubtotal(product: any, lines: any[]): number {
+  const cents = (lines || []).reduce((sum: number, line: any) => {
+    const quantity = Math.max(1, parseInt(String(line?.quantity ?? ''), 10) || 1);
+    const unit = line?.price
+      ? Number((product?.PRICES || []).find((entry: any) => entry.STRIPE_ID === line.price)?.Price)
+      : Number(line?.unit_amount);
+
+    return sum + (Number.isFinite(unit) && unit > 0 ? Math.round(unit * 100) * quantity : 0);
+  }, 0);
+
+  return cents / 100;
+}
+
+interface ActionOptions {
+  /** Stored Stripe event to run again (signature was verified when it was first received) */
+  replayEvent?: any;
+  /** markket record the replayed event came from */
+  replayOf?: string;
+}
+
+const handleAction = async (ctx: any, options: ActionOptions = {}) => {
   console.info('markket.create');
-  const body = ctx.request?.body || {};
+  const body = options.replayEvent || ctx.request?.body || {};
 
   let message = 'action started';
   let logPayload: any = null; // Decoupled from incoming body to prevent database bloat
@@ -34,7 +73,10 @@ const createAction = async (ctx: any) => {
   let verifiedEvent: any = null;
   let is_test = false;
 
-  if (isWebhook || action.startsWith('stripe:')) {
+  if (options.replayEvent) {
+    verifiedEvent = options.replayEvent;
+    is_test = options.replayEvent.livemode === false;
+  } else if (isWebhook || action.startsWith('stripe:')) {
     const signature = ctx.request.headers['stripe-signature'];
     // Safely extract the raw unparsed string buffer required by Stripe
     const rawBuffer = ctx.request.body[Symbol.for('unparsedBody')];
@@ -43,6 +85,8 @@ const createAction = async (ctx: any) => {
     // Fallback detection logic for test environment flags
     const testIdCheck = body.data?.object?.id || '';
     is_test = !!(testIdCheck.startsWith('cs_test_') || testIdCheck.startsWith('txn_test_') || testIdCheck.startsWith('ch_test_') || testIdCheck.startsWith('po_test_'));
+    // Subscription and invoice ids carry no test prefix, events do say livemode
+    is_test = is_test || body.livemode === false;
 
     verifiedEvent = verifyStripeWebhook(signature, rawBodyString, is_test);
 
@@ -52,6 +96,25 @@ const createAction = async (ctx: any) => {
     }
   }
 
+  // Event ledger: processed events are acknowledged without running handlers again
+  if (verifiedEvent?.id) {
+    const claimed = await claimStripeEvent(strapi, verifiedEvent, { replay: !!options.replayEvent });
+
+    if (claimed.status === 'in_progress') {
+      return ctx.conflict('Stripe event is being processed, retry later');
+    }
+
+    if (claimed.status === 'duplicate') {
+      return ctx.send({
+        message: `action ${action} already processed`,
+        data: { info: 'duplicate', event_id: verifiedEvent.id, record_id: claimed.entry.last_record_id || null },
+      });
+    }
+
+    ctx.state = ctx.state || {};
+    ctx.state.stripeEventClaim = claimed.claim;
+  }
+
   const extraMeta = {
     session_id: body.session_id || null,
     user_id: body.user_id || null,
@@ -72,7 +135,7 @@ const createAction = async (ctx: any) => {
     }
 
     case ACTION_KEYS.stripeLink: {
-      const { product, prices = [], includes_shipping, stripe_test, store_id, redirect_to_url, total, countries } = body;
+      const { product, prices = [], includes_shipping, stripe_test, store_id, redirect_to_url, total, countries, shipping_country, shipping_region, discount_code, email } = body;
 
       const productData = product
         ? await strapi.documents('api::product.product').findOne({ documentId: product, populate: ['PRICES'] })
@@ -88,39 +151,88 @@ const createAction = async (ctx: any) => {
         billing_interval_count: 0,
       }
 
-      // Inventory check validation
       if (Array.isArray(productData.PRICES)) {
         for (const orderPrice of prices) {
           const matchedPrice = productData.PRICES.find((p: any) => p.STRIPE_ID === orderPrice.price) as any;
 
-          if (matchedPrice.billing_type !== 'one_time') {
+          if (matchedPrice && matchedPrice.billing_type !== 'one_time') {
             recurring.billing_type = matchedPrice.billing_type;
             recurring.billing_interval = matchedPrice.billing_interval;
             recurring.billing_interval_count = matchedPrice.billing_interval_count;
           }
-
-          if (matchedPrice && typeof matchedPrice.inventory === 'number') {
-            const requestedQty = orderPrice.quantity || 1;
-            if (matchedPrice.inventory === 0) {
-              return ctx.badRequest(`Product/price "${matchedPrice.Name}" is out of stock`);
-            }
-            if (requestedQty > matchedPrice.inventory) {
-              return ctx.badRequest(`Product/price "${matchedPrice.Name}" requested quantity (${requestedQty}) exceeds available inventory:[(${matchedPrice.inventory})]`);
-            }
-          }
         }
       }
 
+      // Availability check and hold happen under the product inventory lock
+      const inventoryLock = await acquireInventoryLock(strapi, productData.documentId);
+      if (!inventoryLock) {
+        return ctx.conflict('Another checkout for this product is being created, please retry.');
+      }
+
+      // Discount use held for this link; given back unless the order is created
+      let pendingDiscountHold: OrderDiscountRecord | null = null;
+
       try {
+        // Inventory check validation: stock minus active checkout holds
+        const availability = await checkInventoryAvailability(strapi, productData, prices);
+        if (availability.ok === false) {
+          return ctx.badRequest(availability.error, {
+            code: 'inventory_unavailable',
+            stripe_price_id: availability.stripe_price_id,
+            available: availability.available,
+            requested: availability.requested,
+          });
+        }
+
+        // Store discount code: discounted lines go to Stripe as price_data, the total drops accordingly
+        const discount = discount_code
+          ? await applyDiscountCode(strapi, {
+            storeDocumentId: store_id,
+            code: discount_code,
+            product: productData,
+            lines: prices,
+            email,
+          })
+          : null;
+
+        if (discount?.ok === false) {
+          return discount.code === 'discount_locked'
+            ? ctx.conflict(discount.error, { code: discount.code, discount_code })
+            : ctx.badRequest(discount.error, { code: discount.code, discount_code });
+        }
+
+        const appliedDiscount = discount?.ok ? discount : null;
+        pendingDiscountHold = appliedDiscount?.record || null;
+        const linkTotal = appliedDiscount ? appliedDiscount.total : total;
+        const linkLines = appliedDiscount ? appliedDiscount.lines : prices;
+
+        // Store shipping profile: allowed countries + Stripe shipping options for the destination zone
+        const shipping = includes_shipping
+          ? await resolveCheckoutShipping(strapi, {
+            storeDocumentId: store_id,
+            items: [{ product: productData, priceIds: prices.map((p: any) => p.price).filter(Boolean) }],
+            subtotal: linkSubtotal(productData, linkLines),
+            destination: { country: shipping_country, region: shipping_region },
+            isTest: !!stripe_test,
+          })
+          : null;
+
+        if (shipping?.ok === false) {
+          return ctx.badRequest(shipping.error, { code: shipping.code, country: shipping_country || null });
+        }
+
+        const shippingQuote = shipping?.ok && shipping.configured ? shipping : null;
+
         const response = await createPaymentLinkWithPriceIds({
           product: productData as any as ProductForPaymentLink,
-          prices,
+          prices: linkLines,
           include_shipping: !!includes_shipping,
           stripe_test: !!stripe_test,
           store_id,
           redirect_to_url,
-          total,
-          countries,
+          total: linkTotal,
+          countries: shippingQuote ? shippingQuote.countries as any : countries,
+          shipping_options: shippingQuote?.shipping_rate_ids,
         });
 
         if (!response?.link) {
@@ -130,7 +242,7 @@ const createAction = async (ctx: any) => {
         const order = await strapi.service('api::order.order').create({
           data: {
             store: body.store_id,
-            Amount: body.total,
+            Amount: linkTotal,
             Currency: 'USD',
             Status: 'open',
             Shipping_Address: {},
@@ -142,6 +254,10 @@ const createAction = async (ctx: any) => {
             extra: {
               ...extraMeta,
               fees: response.feeInfo,
+              discount: appliedDiscount ? appliedDiscount.record : null,
+              shipping_quote: shippingQuote
+                ? { zone: shippingQuote.zone, countries: shippingQuote.countries, options: shippingQuote.options }
+                : null,
               link_creation_debug: {
                 requested_total: total,
                 calculated_total: prices?.reduce((sum: number, p: any) => sum + ((p.unit_amount || 0) * (p.quantity || 1)), 0),
@@ -150,12 +266,126 @@ const createAction = async (ctx: any) => {
           }
         });
 
-        logPayload = { payment_link_id: response.link.id, order_id: order.documentId };
+        pendingDiscountHold = null;
+
+        const holds = await reserveInventory(strapi, {
+          product: productData,
+          requested: prices,
+          orderDocumentId: order.documentId,
+          paymentLinkId: response.link.id,
+          isTest: !!stripe_test,
+        });
+
+        logPayload = { payment_link_id: response.link.id, order_id: order.documentId, inventory_holds: holds };
         responseData = response.link;
         message = `order:${order.documentId}`;
       } catch (err: any) {
         console.error('[STRIPE_LINK_CREATION_ERR]', err);
         return ctx.internalServerError(`Payment execution failed: ${err.message}`);
+      } finally {
+        await releaseInventoryLock(strapi, productData.documentId, inventoryLock);
+        if (pendingDiscountHold) {
+          await releaseDiscountHold(strapi, pendingDiscountHold).catch((error: any) => {
+            console.warn('[STRIPE_LINK] discount hold release failed', { error: error?.message });
+          });
+        }
+      }
+      break;
+    }
+
+    case ACTION_KEYS.stripeCart: {
+      const { lines = [], includes_shipping, stripe_test, store_id, redirect_to_url, shipping_country, shipping_region } = body;
+
+      // Products, prices and the total are loaded server-side; client amounts are ignored
+      const cart = await validateCart(strapi, store_id, lines);
+      if (cart.ok === false) {
+        return ctx.badRequest(cart.error, { code: cart.code, line: cart.line ?? null });
+      }
+
+      const total = cart.totalCents / 100;
+      const linkPrices = cart.lines.map((line) => ({ price: line.price.STRIPE_ID, quantity: line.quantity }));
+
+      try {
+        // Availability check and holds happen under every product inventory lock of the cart
+        const checkout = await withCartInventory(strapi, cart.lines, async () => {
+          const shipping = includes_shipping
+            ? await resolveCheckoutShipping(strapi, {
+              storeDocumentId: store_id,
+              items: cart.lines.map((line) => ({ product: line.product, priceIds: [line.price.STRIPE_ID] })),
+              subtotal: total,
+              destination: { country: shipping_country, region: shipping_region },
+              isTest: !!stripe_test,
+            })
+            : null;
+
+          if (shipping?.ok === false) {
+            return { error: shipping.error, meta: { code: shipping.code, country: shipping_country || null } };
+          }
+
+          const shippingQuote = shipping?.ok && shipping.configured ? shipping : null;
+
+          const response = await createCartPaymentLink({
+            prices: linkPrices,
+            include_shipping: !!includes_shipping,
+            stripe_test: !!stripe_test,
+            store_id,
+            redirect_to_url,
+            total,
+            countries: shippingQuote ? shippingQuote.countries as any : undefined,
+            shipping_options: shippingQuote?.shipping_rate_ids,
+            details: buildCartDetails(cart.lines, cart.currency),
+          });
+
+          if (!response?.link) {
+            return { error: 'Stripe failed to return a valid payment link context.', meta: {} };
+          }
+
+          const order = await strapi.service('api::order.order').create({
+            data: {
+              store: store_id,
+              Amount: total,
+              Currency: cart.currency,
+              Status: 'open',
+              Shipping_Address: {},
+              uuid: generateRandomSlug(),
+              STRIPE_PAYMENT_ID: response.link.id,
+              Details: response.details,
+              billing_type: 'one_time',
+              prices_snapshot: [linkPrices],
+              extra: {
+                ...extraMeta,
+                cart: true,
+                fees: response.feeInfo,
+                shipping_quote: shippingQuote
+                  ? { zone: shippingQuote.zone, countries: shippingQuote.countries, options: shippingQuote.options }
+                  : null,
+              },
+            }
+          });
+
+          const holds = await reserveCartInventory(strapi, cart.lines, order.documentId, response.link.id, !!stripe_test);
+          return { link: response.link, order, holds };
+        });
+
+        if (checkout.ok === false) {
+          if (checkout.code === 'locked') {
+            return ctx.conflict('Another checkout for one of these products is being created, please retry.');
+          }
+          const { error, ...meta } = checkout;
+          return ctx.badRequest(error, meta);
+        }
+
+        if ('error' in checkout.result) {
+          return ctx.badRequest(checkout.result.error, checkout.result.meta);
+        }
+
+        const { link, order, holds } = checkout.result;
+        logPayload = { payment_link_id: link.id, order_id: order.documentId, lines: cart.lines.length, inventory_holds: holds };
+        responseData = link;
+        message = `order:${order.documentId}`;
+      } catch (err: any) {
+        console.error('[STRIPE_CART_CREATION_ERR]', err);
+        return ctx.internalServerError(`Payment execution failed: ${err.message}`);
       }
       break;
     }
@@ -185,6 +415,30 @@ const createAction = async (ctx: any) => {
       break;
     }
 
+    case 'stripe:checkout.session.expired': {
+      const sessionObj = verifiedEvent.data?.object;
+      logPayload = { stripe_session_id: sessionObj?.id, payment_link: sessionObj?.payment_link };
+
+      try {
+        const released = await releaseOrderReservations(strapi, { paymentLinkId: sessionObj?.payment_link }, 'checkout_session_expired');
+
+        // The discount use held for the link goes back as well
+        const order = sessionObj?.payment_link
+          ? await strapi.db.query('api::order.order').findOne({
+            where: { STRIPE_PAYMENT_ID: sessionObj.payment_link, Status: 'open' },
+            select: ['id', 'extra'],
+          })
+          : null;
+        const discountReleased = await releaseDiscountHold(strapi, order?.extra?.discount);
+
+        logPayload = { ...logPayload, released, discount_hold_released: discountReleased };
+        message = `inventory_holds_released:${released}`;
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Failed to release inventory holds:', error?.message);
+      }
+      break;
+    }
+
     case 'stripe:balance_transaction.created': {
       const txn = verifiedEvent.data?.object;
       logPayload = { transaction_id: txn?.id };
@@ -302,6 +556,110 @@ const createAction = async (ctx: any) => {
       break;
     }
 
+    case 'stripe:charge.refunded': {
+      const charge = verifiedEvent.data?.object;
+      logPayload = { charge_id: charge?.id, amount_refunded: charge?.amount_refunded };
+
+      try {
+        // Newer API versions omit the embedded refunds list
+        let refunds = charge?.refunds?.data;
+        if (!Array.isArray(refunds) || refunds.length === 0) {
+          const stripe = getStripeClient(is_test);
+          const listed = stripe && charge?.id ? await stripe.refunds.list({ charge: charge.id, limit: 100 }) : null;
+          refunds = listed?.data || [];
+        }
+
+        const results = await processStripeRefunds(strapi, {
+          paymentIntent: charge?.payment_intent,
+          paymentLink: charge?.payment_link,
+          refunds,
+          fullyRefunded: charge?.refunded === true,
+          isTest: is_test,
+        });
+        logPayload = { ...logPayload, order_id: results[0]?.orderDocumentId || null, refunds: results.length };
+        message = results.length
+          ? `refunds:${results.filter((result) => result.recorded).length}`
+          : 'refunds:order_not_found';
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Charge refund processing failure:', error?.message);
+        return ctx.internalServerError('Failed to process refund');
+      }
+      break;
+    }
+
+    case 'stripe:refund.created':
+    case 'stripe:refund.updated': {
+      const refund = verifiedEvent.data?.object;
+      logPayload = { refund_id: refund?.id, status: refund?.status };
+
+      try {
+        const results = await processStripeRefunds(strapi, {
+          paymentIntent: refund?.payment_intent,
+          refunds: [refund],
+          isTest: is_test,
+        });
+        logPayload = { ...logPayload, order_id: results[0]?.orderDocumentId || null };
+        message = results.length ? `refund:${refund?.status}` : 'refund:order_not_found';
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Refund update processing failure:', error?.message);
+        return ctx.internalServerError('Failed to process refund');
+      }
+      break;
+    }
+
+    case 'stripe:charge.dispute.created':
+    case 'stripe:charge.dispute.updated':
+    case 'stripe:charge.dispute.closed': {
+      const dispute = verifiedEvent.data?.object;
+      logPayload = { dispute_id: dispute?.id, status: dispute?.status, reason: dispute?.reason };
+
+      try {
+        const result = await recordStripeDispute(strapi, dispute);
+        logPayload = { ...logPayload, order_id: result.orderDocumentId || null };
+        message = result.reason === 'order_not_found' ? 'dispute:order_not_found' : `dispute:${dispute?.status}`;
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Dispute processing failure:', error?.message);
+        return ctx.internalServerError('Failed to process dispute');
+      }
+      break;
+    }
+
+    case 'stripe:customer.subscription.created':
+    case 'stripe:customer.subscription.updated':
+    case 'stripe:customer.subscription.deleted':
+    case 'stripe:customer.subscription.paused':
+    case 'stripe:customer.subscription.resumed': {
+      const subscription = verifiedEvent.data?.object;
+      logPayload = { stripe_subscription_id: subscription?.id, status: subscription?.status };
+
+      try {
+        const record = await syncStripeSubscription(strapi, subscription, is_test);
+        logPayload = { ...logPayload, subscription_id: record?.documentId || null };
+        message = `subscription:${subscription?.status}`;
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Subscription sync failure:', error?.message);
+        return ctx.internalServerError('Failed to process subscription');
+      }
+      break;
+    }
+
+    case 'stripe:invoice.paid':
+    case 'stripe:invoice.payment_failed': {
+      const invoice = verifiedEvent.data?.object;
+      const outcome = action === 'stripe:invoice.paid' ? 'paid' : 'failed';
+      logPayload = { invoice_id: invoice?.id, billing_reason: invoice?.billing_reason, attempt_count: invoice?.attempt_count };
+
+      try {
+        const result = await recordSubscriptionInvoice(strapi, invoice, outcome, is_test);
+        logPayload = { ...logPayload, ...result };
+        message = result.recorded ? `subscription_invoice:${outcome}` : `subscription_invoice:skipped:${result.reason}`;
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Subscription invoice processing failure:', error?.message);
+        return ctx.internalServerError('Failed to process subscription invoice');
+      }
+      break;
+    }
+
     case 'stripe:payout.paid': {
       const payout = verifiedEvent.data?.object;
       logPayload = { payout_id: payout?.id };
@@ -314,7 +672,7 @@ const createAction = async (ctx: any) => {
   }
 
   // 3. Document Transaction Audit Log clean (No structural payload duplicates)
-  await strapi.service(modelId).create({
+  const record = await strapi.service(modelId).create({
     locale: 'en',
     data: {
       Key: `markket.create.${action}`,
@@ -322,12 +680,18 @@ const createAction = async (ctx: any) => {
         executionSummary: logPayload,
         product: body?.product || null,
         total: body?.total || null,
+        stripe_event_id: verifiedEvent?.id || null,
+        replay_of: options.replayOf || null,
         ...extraMeta,
       },
       user_key_or_id: body?.user_id || "system_webhook",
     }
   });
 
+  if (ctx.state?.stripeEventClaim) {
+    ctx.state.markketRecordId = record?.documentId || null;
+  }
+
   return ctx.send({
     message: `action ${action} completed`,
     data: {
@@ -338,4 +702,52 @@ const createAction = async (ctx: any) => {
   });
 };
 
-export { createAction };
\ No newline at end of file
+/**
+ * Run an action; verified Stripe events are settled in the event ledger once the handler answered
+ */
+const runAction = async (ctx: any, options: ActionOptions = {}) => {
+  let failure: any = null;
+
+  try {
+    return await handleAction(ctx, options);
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    const claim = ctx.state?.stripeEventClaim;
+    if (claim) {
+      const ok = !failure && Number(ctx.status) < 400;
+      try {
+        await settleStripeEvent(strapi, claim, {
+          ok,
+          error: failure?.message || ctx.body?.error?.message || null,
+          recordId: ctx.state.markketRecordId || null,
+        });
+      } catch (error: any) {
+        console.error('[STRIPE_WEBHOOK] Event ledger update failed:', error?.message);
+      }
+    }
+  }
+};
+
+const createAction = async (ctx: any) => runAction(ctx);
+
+/**
+ * Replay a Stripe event from the event ledger through the current handlers.
+ * Keyed on the ledger entry, so failed events (which never reached the markket record) can be replayed.
+ */
+const replayStripeWebhook = async (ctx: any, eventId: string) => {
+  const entry = await findStripeEvent(strapi, eventId) as any;
+  if (!entry) {
+    return ctx.notFound('Stripe event not found');
+  }
+
+  if (!entry.payload?.id) {
+    return ctx.badRequest('This event has no stored payload to replay');
+  }
+
+  console.info('[STRIPE_WEBHOOK] Replaying event', { eventId, status: entry.status, type: entry.type });
+  return runAction(ctx, { replayEvent: entry.payload, replayOf: entry.event_id });
+};
+
+export { createAction, replayStripeWebhook };
\ No newline at end of file
@@ -625,3 +625,87 @@ export const OrderStoreNotificationEmailHTML = (order: {
 
   return emailLayout({ content, title, store: store as Store });
 };
+
+const SHIPMENT_STATUS_COPY: Record<string, { headline: string; body: string }> = {
+  pending: { headline: '📦 Getting your order ready', body: 'The seller is preparing your package.' },
+  shipped: { headline: '🚚 Your order is on its way', body: 'Your package has been handed to the carrier.' },
+  in_transit: { headline: '🚚 Your package is in transit', body: 'The carrier is moving your package.' },
+  out_for_delivery: { headline: '📬 Out for delivery', body: 'Your package should arrive today.' },
+  delivered: { headline: '🎉 Delivered', body: 'The carrier reports your package as delivered.' },
+  returned: { headline: '↩️ Package returned', body: 'The package is on its way back to the seller. They will reach out.' },
+  canceled: { headline: 'Shipment canceled', body: 'This shipment was canceled. The seller will reach out if anything else is needed.' },
+};
+
+export const OrderShipmentUpdateEmailHTML = ({ order, shipment, store }: {
+  order: { documentId: string, extra?: { stripe_session_id?: string } },
+  shipment: {
+    shipment_status?: string,
+    Carrier?: string,
+    TrackingCode?: string,
+    TrackingLink?: string,
+    EstimatedDeliveryDate?: string,
+    items?: Array<{ name?: string, quantity?: number }>,
+  },
+  store?: any,
+}) => {
+  const theme = resolveTheme(store as Store);
+  const copy = SHIPMENT_STATUS_COPY[shipment?.shipment_status || ''] || SHIPMENT_STATUS_COPY.shipped;
+  const items = Array.isArray(shipment?.items) ? shipment.items : [];
+  const receiptUrl = store?.slug
+    ? `https://markket.place/store/${store.slug}/receipt?session_id=${order?.extra?.stripe_session_id || ''}`
+    : '';
+
+  const content = `
+    <p style="margin:0 0 6px 0;font-size:20px;line-height:1.3;">${escapeHtml(copy.headline)}</p>
+    <p style="margin:0 0 14px 0;">${escapeHtml(copy.body)}</p>
+    ${renderInfoPanel('Shipment details', `
+      <p style="margin:0 0 8px 0;"><strong>Order ID:</strong> ${escapeHtml(order?.documentId)}</p>
+      ${shipment?.Carrier ? `<p style="margin:0 0 8px 0;"><strong>Carrier:</strong> ${escapeHtml(shipment.Carrier)}</p>` : ''}
+      ${shipment?.TrackingCode ? `<p style="margin:0 0 8px 0;"><strong>Tracking number:</strong> ${escapeHtml(shipment.TrackingCode)}</p>` : ''}
+      ${shipment?.EstimatedDeliveryDate ? `<p style="margin:0 0 8px 0;"><strong>Estimated delivery:</strong> ${escapeHtml(shipment.EstimatedDeliveryDate)}</p>` : ''}
+      ${items.length > 0 ? `
+        <p style="margin:14px 0 6px 0;"><strong>In this package:</strong></p>
+        <ul style="margin:0;padding-left:18px;">
+          ${items.map(item => `<li>${escapeHtml(item.name || 'Item')}${item.quantity ? ` × ${item.quantity}` : ''}</li>`).join('')}
+        </ul>
+      ` : ''}
+    `, theme)}
+    ${shipment?.TrackingLink ? renderButton('Track package', shipment.TrackingLink, theme) : ''}
+    ${receiptUrl ? renderButton('View receipt', receiptUrl, theme, 'secondary') : ''}
+  `;
+
+  const title = `${store?.title || 'Markkët'}: Shipment update`;
+
+  return emailLayout({ content, title, store: store as Store });
+};
+
+export const SubscriptionPaymentFailedEmailHTML = ({ subscription, invoice, store, reason }: {
+  subscription: { amount?: number, currency?: string, billing_interval?: string },
+  invoice: { id?: string, amount_due?: number, currency?: string, attempt_count?: number, next_payment_attempt?: number | null, hosted_invoice_url?: string },
+  store?: any,
+  reason?: string,
+}) => {
+  const theme = resolveTheme(store as Store);
+  const amount = `${(Number(invoice?.amount_due || 0) / 100).toFixed(2)} ${String(invoice?.currency || subscription?.currency || 'usd').toUpperCase()}`;
+  const nextAttempt = invoice?.next_payment_attempt
+    ? new Date(invoice.next_payment_attempt * 1000).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+    : '';
+
+  const content = `
+    <p style="margin:0 0 6px 0;font-size:20px;line-height:1.3;">⚠️ Your subscription payment didn't go through</p>
+    <p style="margin:0 0 14px 0;">${nextAttempt
+      ? `We will try again on ${escapeHtml(nextAttempt)}. Updating your payment method now keeps your subscription active.`
+      : 'This was the last automatic attempt. Pay the invoice to keep your subscription active.'}</p>
+    ${renderInfoPanel('Payment details', `
+      <p style="margin:0 0 8px 0;"><strong>Amount:</strong> ${escapeHtml(amount)}${subscription?.billing_interval ? ` / ${escapeHtml(subscription.billing_interval)}` : ''}</p>
+      <p style="margin:0 0 8px 0;"><strong>Attempt:</strong> ${escapeHtml(invoice?.attempt_count || 1)}</p>
+      ${reason ? `<p style="margin:0;"><strong>Reason:</strong> ${escapeHtml(reason)}</p>` : ''}
+    `, theme)}
+    ${invoice?.hosted_invoice_url ? renderButton('Update payment', invoice.hosted_invoice_url, theme) : ''}
+    <p style="margin:16px 0 0 0;font-size:13px;line-height:1.7;color:${theme.mutedTextColor};">Invoice: ${escapeHtml(invoice?.id || 'N/A')}</p>
+  `;
+
+  const title = `${store?.title || 'Markkët'}: Subscription payment failed`;
+
+  return emailLayout({ content, title, store: store as Store });
+};
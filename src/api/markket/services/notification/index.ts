@@ -1,12 +1,13 @@
-const SENDGRID_FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL || '';
-const SENDGRID_REPLY_TO_EMAIL = process.env.SENDGRID_REPLY_TO_EMAIL || '';
-import { OrderNotificationHTml, RSVPNotificationHTml, OrderStoreNotificationEmailHTML } from './email.template';
+const MAIL_FROM_EMAIL = process.env.MAIL_FROM_EMAIL || process.env.SENDGRID_FROM_EMAIL || '';
+const MAIL_REPLY_TO_EMAIL = process.env.MAIL_REPLY_TO_EMAIL || process.env.SENDGRID_REPLY_TO_EMAIL || '';
+import { OrderNotificationHTml, RSVPNotificationHTml, OrderStoreNotificationEmailHTML, OrderShipmentUpdateEmailHTML, SubscriptionPaymentFailedEmailHTML } from './email.template';
+import { sendMail } from '../../../../services/mail-transport';
 
 function getMailDomain(): string {
   return process.env.MARKKET_EMAIL_DOMAIN
     || process.env.MAIL_DOMAIN
     || process.env.EMAIL_DOMAIN
-    || SENDGRID_REPLY_TO_EMAIL.split('@')[1]
+    || MAIL_REPLY_TO_EMAIL.split('@')[1]
     || 'markket.place';
 }
 
@@ -25,7 +26,7 @@ function getStoreMailbox(store: any): string | null {
 }
 
 function getOptionalCcRecipients(): string[] | undefined {
-  return SENDGRID_REPLY_TO_EMAIL ? [SENDGRID_REPLY_TO_EMAIL] : undefined;
+  return MAIL_REPLY_TO_EMAIL ? [MAIL_REPLY_TO_EMAIL] : undefined;
 }
 
 
@@ -34,11 +35,11 @@ export const sendRSVPNotification = async ({ strapi, rsvp, event, store: storeOv
     rsvp: !!rsvp,
     event: !!event,
     strapi: !!strapi,
-    from: !!SENDGRID_FROM_EMAIL,
-    reply_to: !!SENDGRID_REPLY_TO_EMAIL,
+    from: !!MAIL_FROM_EMAIL,
+    reply_to: !!MAIL_REPLY_TO_EMAIL,
   });
 
-  if (!SENDGRID_FROM_EMAIL || !SENDGRID_REPLY_TO_EMAIL) {
+  if (!MAIL_FROM_EMAIL || !MAIL_REPLY_TO_EMAIL) {
     return;
   }
 
@@ -49,15 +50,15 @@ export const sendRSVPNotification = async ({ strapi, rsvp, event, store: storeOv
 
   const store = storeOverride || (Array.isArray(event?.stores) ? event.stores[0] : null);
 
-  return await strapi.plugins['email'].services.email.send({
+  return await sendMail(strapi, {
     to: customerEmail,
-    from: SENDGRID_FROM_EMAIL, //e.g. single sender verification in SendGrid
-    cc: SENDGRID_REPLY_TO_EMAIL,
-    replyTo: SENDGRID_REPLY_TO_EMAIL,
+    from: MAIL_FROM_EMAIL, //e.g. single sender verification in SendGrid / SMTP server
+    cc: MAIL_REPLY_TO_EMAIL,
+    replyTo: MAIL_REPLY_TO_EMAIL,
     subject: 'Markkët: RSVP Confirmation',
     text: 'RSVP confirmation!',
     html: RSVPNotificationHTml({ rsvp, event, store }),
-  });
+  }, { storeDocumentId: store?.documentId });
 };
 
 type notifyStoreOfPurchaseProps = {
@@ -96,27 +97,27 @@ export const notifyStoreOfPurchase = async ({ strapi, order, emails, store }: no
   console.info('notification::store:purchase', {
     order: order?.documentId || order?.id,
     strapi: !!strapi,
-    from: !!SENDGRID_FROM_EMAIL,
-    reply_to: !!SENDGRID_REPLY_TO_EMAIL,
+    from: !!MAIL_FROM_EMAIL,
+    reply_to: !!MAIL_REPLY_TO_EMAIL,
     emails: emails?.length,
   });
 
-  if (!SENDGRID_FROM_EMAIL || !SENDGRID_REPLY_TO_EMAIL) {
-    console.warn('missing.sendgrid.config');
+  if (!MAIL_FROM_EMAIL || !MAIL_REPLY_TO_EMAIL) {
+    console.warn('missing.mail.config');
     return;
   }
 
   const optionalCc = getOptionalCcRecipients();
 
-  return await strapi.plugins['email'].services.email.send({
+  return await sendMail(strapi, {
     to: emails,
-    from: SENDGRID_FROM_EMAIL,
+    from: MAIL_FROM_EMAIL,
     cc: optionalCc,
-    replyTo: SENDGRID_REPLY_TO_EMAIL,
+    replyTo: MAIL_REPLY_TO_EMAIL,
     subject: `${store.title || 'Markkët'}: Order Notification`,
     text: 'New order in your store! - log in to view details',
     html: OrderStoreNotificationEmailHTML(order, store),
-  });
+  }, { storeDocumentId: store?.documentId });
 };
 
 export const sendOrderNotification = async ({
@@ -154,17 +155,17 @@ export const sendOrderNotification = async ({
     slug?: string,
   }
 }) => {
-  const replyToEmail = getStoreMailbox(store) || SENDGRID_REPLY_TO_EMAIL;
+  const replyToEmail = getStoreMailbox(store) || MAIL_REPLY_TO_EMAIL;
   const optionalCc = getOptionalCcRecipients();
 
   console.info('notification::stripe:checkout.session.completed', {
     order: order?.documentId,
     strapi: !!strapi,
-    from: !!SENDGRID_FROM_EMAIL,
+    from: !!MAIL_FROM_EMAIL,
     reply_to: !!replyToEmail,
   });
 
-  if (!SENDGRID_FROM_EMAIL || !replyToEmail) {
+  if (!MAIL_FROM_EMAIL || !replyToEmail) {
     console.warn('notification:missing:platform_email');
     return;
   }
@@ -176,13 +177,105 @@ export const sendOrderNotification = async ({
     return;
   }
 
-  return await strapi.plugins['email'].services.email.send({
+  return await sendMail(strapi, {
     to: customer_email,
-    from: SENDGRID_FROM_EMAIL,
+    from: MAIL_FROM_EMAIL,
     cc: optionalCc,
     replyTo: replyToEmail,
     subject: `${store?.title || 'Markkët'}: Order Confirmation`,
     text: 'Thank you for your order!',
     html: OrderNotificationHTml(order),
+  }, { storeDocumentId: store?.documentId });
+};
+
+export const sendShipmentNotification = async ({
+  strapi,
+  order,
+  shipment,
+  store,
+}: {
+  strapi: any,
+  order: any,
+  shipment: any,
+  store: any,
+}) => {
+  const replyToEmail = getStoreMailbox(store) || MAIL_REPLY_TO_EMAIL;
+
+  console.info('notification::shipment:update', {
+    order: order?.documentId,
+    shipment: shipment?.documentId,
+    status: shipment?.shipment_status,
+    from: !!MAIL_FROM_EMAIL,
+    reply_to: !!replyToEmail,
   });
+
+  if (!MAIL_FROM_EMAIL || !replyToEmail) {
+    console.warn('notification:missing:platform_email');
+    return;
+  }
+
+  const customer_email = order?.Shipping_Address?.email || order?.buyer?.email;
+
+  if (!customer_email) {
+    console.warn(`notification:missing:customer_email:order:${order?.documentId}`);
+    return;
+  }
+
+  const tracking = shipment?.TrackingLink || shipment?.TrackingCode;
+
+  return await sendMail(strapi, {
+    to: customer_email,
+    from: MAIL_FROM_EMAIL,
+    replyTo: replyToEmail,
+    subject: `${store?.title || 'Markkët'}: Shipment update`,
+    text: `Your order ${order?.documentId} shipment is ${String(shipment?.shipment_status || 'updated').replace(/_/g, ' ')}.${tracking ? ` Tracking: ${tracking}` : ''}`,
+    html: OrderShipmentUpdateEmailHTML({ order, shipment, store }),
+  }, { storeDocumentId: store?.documentId });
+};
+
+export const sendSubscriptionPaymentFailedNotification = async ({
+  strapi,
+  subscription,
+  invoice,
+  order,
+  store,
+  reason,
+}: {
+  strapi: any,
+  subscription: any,
+  invoice: any,
+  order?: any,
+  store: any,
+  reason?: string,
+}) => {
+  const replyToEmail = getStoreMailbox(store) || MAIL_REPLY_TO_EMAIL;
+
+  console.info('notification::subscription:payment_failed', {
+    subscription: subscription?.documentId,
+    invoice: invoice?.id,
+    attempt: invoice?.attempt_count,
+    from: !!MAIL_FROM_EMAIL,
+    reply_to: !!replyToEmail,
+  });
+
+  if (!MAIL_FROM_EMAIL || !replyToEmail) {
+    console.warn('notification:missing:platform_email');
+    return;
+  }
+
+  const customer_email = invoice?.customer_email || subscription?.email || order?.Shipping_Address?.email;
+
+  if (!customer_email) {
+    console.warn(`notification:missing:customer_email:subscription:${subscription?.documentId}`);
+    return;
+  }
+
+  return await sendMail(strapi, {
+    to: customer_email,
+    from: MAIL_FROM_EMAIL,
+    replyTo: replyToEmail,
+    subject: `${store?.title || 'Markkët'}: Subscription payment failed`,
+    text: `We could not charge your subscription (attempt ${invoice?.attempt_count || 1}).${invoice?.hosted_invoice_url ? ` Update your payment: ${invoice.hosted_invoice_url}` : ''}`,
+    html: SubscriptionPaymentFailedEmailHTML({ subscription, invoice, store, reason }),
+  }, { storeDocumentId: store?.documentId });
 };
@@ -47,6 +47,9 @@ type StripePaymentLink = Awaited<ReturnType<StripeClient['paymentLinks']['create
 type StripeAccount = Awaited<ReturnType<StripeClient['accounts']['retrieve']>>;
 type StripeLineItemData = NonNullable<StripePaymentLink['line_items']>['data'][number];
 
+/** Shipping countries when the link does not name any */
+const DEFAULT_SHIPPING_COUNTRIES = ['US', 'CO', 'MX', 'SV', 'IL'];
+
 /**
  * Fee configuration interface
  * @typedef {Object} ConnectFeeConfig
@@ -99,6 +102,8 @@ export interface StoreConnectData {
  * @property {number} totalCents - Total charge in cents
  * @property {StoreConnectData} store - Store object with settings
  * @property {boolean} [includeShipping=false] - Collect shipping address
+ * @property {string[]} [allowedCountries] - Shipping countries (defaults to US, CO, MX, SV, IL)
+ * @property {string[]} [shippingOptions] - Stripe shipping rate ids offered at checkout
  * @property {ConnectFeeConfig} [defaultFeeConfig] - Default fee configuration
  * @property {Object} [stripeProcessingFees] - Stripe's own fee for estimates
  * @property {number} [stripeProcessingFees.percentFeeDecimal] - Stripe % as decimal
@@ -113,6 +118,8 @@ interface ConnectPaymentLinkOptions {
   totalCents: number;
   store: StoreConnectData | any;
   includeShipping?: boolean;
+  allowedCountries?: string[];
+  shippingOptions?: string[];
   defaultFeeConfig?: ConnectFeeConfig;
   stripeProcessingFees?: {
     percentFeeDecimal: number;
@@ -357,11 +364,26 @@ export async function buildConnectPaymentLink(
     totalCents,
     store,
     includeShipping = false,
+    allowedCountries,
+    shippingOptions,
     defaultFeeConfig = { percentFeeDecimal: 0.033, baseFeeCents: 33, maxAppFeeCents: 9999 },
     stripeProcessingFees = { percentFeeDecimal: 0.029, fixedCents: 30 },
     transactionType = TransactionType.PRODUCT,
   } = options;
 
+  const shippingParams: Partial<StripePaymentLinkCreateParams> = includeShipping
+    ? {
+      shipping_address_collection: {
+        allowed_countries: (Array.isArray(allowedCountries) && allowedCountries.length > 0
+          ? allowedCountries
+          : DEFAULT_SHIPPING_COUNTRIES) as any,
+      },
+      ...(Array.isArray(shippingOptions) && shippingOptions.length > 0
+        ? { shipping_options: shippingOptions.map((shipping_rate) => ({ shipping_rate })) }
+        : {}),
+    }
+    : {};
+
   // Try to create a Connect payment link first
   const connectedAccount = await validateConnectAccount(client, connectedAccountId);
   if (!connectedAccount) {
@@ -375,11 +397,7 @@ export async function buildConnectPaymentLink(
           type: 'redirect',
           redirect: { url: redirectUrl },
         },
-        ...(includeShipping && {
-          shipping_address_collection: {
-            allowed_countries: ['US', 'CO', 'MX', 'SV', 'IL'],
-          }
-        })
+        ...shippingParams,
       });
 
       return {
@@ -469,14 +487,9 @@ export async function buildConnectPaymentLink(
     },
     application_fee_amount: applicationFeeAmount,
     transfer_data: { destination: connectedAccountId },
+    ...shippingParams,
   };
 
-  if (includeShipping) {
-    paymentLinkParams.shipping_address_collection = {
-      allowed_countries: ['US', 'CO', 'MX', 'SV', 'IL'],
-    };
-  }
-
   console.log('[STRIPE_CONNECT] Sending to Stripe', {
     application_fee_amount: applicationFeeAmount,
     application_fee_usd: (applicationFeeAmount / 100).toFixed(2),
@@ -10,6 +10,7 @@
 import { deferredFeeRetrieval } from './stripe-fees-retriever';
 import { sendOrderNotification, notifyStoreOfPurchase } from './notification';
 import { getStripeClient } from './stripe';
+import { linkCheckoutSubscription } from '../../../services/order-subscription';
 
 interface CheckoutSessionData {
   paymentIntent: string;
@@ -65,6 +66,28 @@ async function retrieveActualFees(session: CheckoutSessionData): Promise<Record<
   return null;
 }
 
+/**
+ * Shipping paid at checkout (session.shipping_cost), later used as the first shipment's ShippingCost
+ *
+ * @private
+ * @param {any} session - Stripe session object
+ * @param {Record<string, any>} [quote] - order.extra.shipping_quote from link creation
+ * @returns {Record<string, any> | null} Shipping summary or null when no shipping was charged
+ */
+function buildShippingExtra(session: any, quote?: Record<string, any> | null): Record<string, any> | null {
+  if (!session?.shipping_cost) {
+    return null;
+  }
+
+  const shippingRate = session.shipping_cost.shipping_rate;
+  return {
+    amount: (session.shipping_cost.amount_total || 0) / 100,
+    currency: session.currency?.toUpperCase() || 'USD',
+    shipping_rate: typeof shippingRate === 'string' ? shippingRate : shippingRate?.id || null,
+    zone: quote?.zone || null,
+  };
+}
+
 /**
  * Build order from Stripe session data
  *
@@ -83,9 +106,11 @@ function buildOrderData(
   return {
     data: {
       STRIPE_PAYMENT_ID: session.id,
+      stripe_payment_intent: sessionData.paymentIntent || null,
       Amount: session.amount_total ? session.amount_total / 100 : 0,
       Currency: session.currency?.toUpperCase() || 'USD',
       Status: Status || 'paid',
+      billing_type: session.mode === 'subscription' ? 'recurring' : 'one_time',
       store: session.metadata?.store_id || null,
       Shipping_Address: {
         name: sessionData.shipping?.name || session.customer_details?.name,
@@ -126,6 +151,7 @@ function buildOrderData(
         is_test: session.id.startsWith('cs_test_'),
         session_metadata: session.metadata || {},
         stripe_actual_fees: actualStripeFees,
+        shipping: buildShippingExtra(session),
       }
     }
   };
@@ -183,6 +209,7 @@ export async function handleCheckoutSessionCompleted(
       populate: ['Shipping_Address', 'store', 'Details'],
       data: {
         Status: 'paid',
+        stripe_payment_intent: sessionData.paymentIntent || order.stripe_payment_intent || null,
         Payment_attempts: [...prevAttempts, newAttempt],
         Shipping_Address: {
           name: sessionData.shipping?.name || session.customer_details?.name || order.Shipping_Address?.name,
@@ -199,11 +226,21 @@ export async function handleCheckoutSessionCompleted(
           stripe_session_id: session.id,
           stripe_payment_intent: sessionData.paymentIntent,
           stripe_actual_fees: actualStripeFees,
+          shipping: buildShippingExtra(session, order.extra?.shipping_quote),
         },
       }
     });
   }
 
+  // Recurring prices: keep the Stripe subscription linked to this checkout order (renewals copy it)
+  if (session.mode === 'subscription') {
+    try {
+      await linkCheckoutSubscription(strapi, { session, order, isTest });
+    } catch (error) {
+      console.error('[WEBHOOK_HANDLER] Subscription link failed:', error?.message);
+    }
+  }
+
   // Schedule deferred fee retrieval if needed
   if (sessionData.paymentIntent && !actualStripeFees) {
     deferredFeeRetrieval(
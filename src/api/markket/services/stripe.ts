@@ -174,6 +174,7 @@ export type ProductForPaymentLink = {
  * @property {string} [redirect_to_url] - Custom redirect URL after payment
  * @property {number} [total] - Total amount in dollars
  * @property {{}} [product] - (product::product)
+ * @property {string[]} [shipping_options] - Stripe shipping rate ids (store shipping profile)
  */
 type PaymentLinkOptions = {
   prices: LineItemInput[];
@@ -184,6 +185,7 @@ type PaymentLinkOptions = {
   total?: number;
   product?: ProductForPaymentLink;
   countries?: DefaultCountries,
+  shipping_options?: string[];
 };
 
 /**
@@ -303,6 +305,7 @@ export const createPaymentLinkWithPriceIds = async ({
   total,
   product,
   countries,
+  shipping_options,
 }: PaymentLinkOptions): Promise<{ link: StripePaymentLink | null, details: {}[], feeInfo?: any, connectStatus?: any } | null> => {
 
   const validation = validatePaymentLinkInput({
@@ -337,6 +340,66 @@ export const createPaymentLinkWithPriceIds = async ({
     return null;
   }
 
+  const result = await createStoreCheckoutLink({
+    prices,
+    include_shipping,
+    stripe_test,
+    store_id,
+    redirect_to_url,
+    total,
+    countries,
+    shipping_options,
+  });
+
+  return result ? { ...result, details } : null;
+};
+
+/**
+ * Create a Stripe payment link for a multi-product cart
+ *
+ * Lines use existing Stripe prices ({ price, quantity }); `details` are the order Details snapshots
+ * built by the caller (see src/services/cart-checkout.ts). Fees follow the same cascade as
+ * createPaymentLinkWithPriceIds, on the cart total.
+ *
+ * @async
+ * @param {Omit<PaymentLinkOptions, 'product'> & { details: {}[] }} options - Cart payment link configuration
+ * @returns {Promise<Object | null>} Payment link, details and fee info, or null on error
+ */
+export const createCartPaymentLink = async (
+  options: Omit<PaymentLinkOptions, 'product'> & { details: {}[] }
+): Promise<{ link: StripePaymentLink | null, details: {}[], feeInfo?: any, connectStatus?: any } | null> => {
+  const { details, ...linkOptions } = options;
+  const validation = validatePaymentLinkInput(linkOptions);
+
+  if (!validation.valid) {
+    console.error('[STRIPE_SERVICE] Invalid cart payment link input:', validation.errors);
+    return null;
+  }
+
+  const result = await createStoreCheckoutLink(linkOptions);
+  return result ? { ...result, details } : null;
+};
+
+/**
+ * Create the payment link for a set of line items: Connect (application fee + transfer) when the store
+ * has a connected account, standard platform link otherwise.
+ * Shared by product links (createPaymentLinkWithPriceIds) and cart links (createCartPaymentLink).
+ *
+ * @async
+ * @private
+ * @param {Omit<PaymentLinkOptions, 'product'>} options - Payment link configuration
+ * @returns {Promise<Object | null>} Link, fee info and Connect status, or null on error
+ */
+async function createStoreCheckoutLink({
+  prices,
+  include_shipping,
+  stripe_test,
+  store_id,
+  redirect_to_url,
+  total,
+  countries,
+  shipping_options,
+}: Omit<PaymentLinkOptions, 'product'>): Promise<{ link: StripePaymentLink | null, feeInfo?: any, connectStatus?: any } | null> {
   const client = stripe_test ? stripeTest : stripe;
 
   if (!client) {
@@ -393,6 +456,8 @@ export const createPaymentLinkWithPriceIds = async ({
       totalCents: Math.round((total || 0) * 100),
       store: store as any,
       includeShipping: include_shipping,
+      allowedCountries: countries,
+      shippingOptions: shipping_options,
       defaultFeeConfig: {
         percentFeeDecimal: DEFAULT_PERCENT_FEE / 100,
         baseFeeCents: DEFAULT_BASE_FEE_CENTS,
@@ -423,12 +488,11 @@ export const createPaymentLinkWithPriceIds = async ({
 
   // If Connect failed or not present, fallback to standard payment link
   if (!connectResult?.link) {
-    const link = await createStandardPaymentLink(client, lineItems, redirectUrl, include_shipping, countries);
+    const link = await createStandardPaymentLink(client, lineItems, redirectUrl, include_shipping, countries, shipping_options);
 
     // Add connectStatus to indicate fallback in order.extra
     return {
       link: link || null,
-      details,
       feeInfo: {
         application_fee_cents: 0,
         application_fee_usd: '0.00',
@@ -455,11 +519,10 @@ export const createPaymentLinkWithPriceIds = async ({
   // If Connect succeeded
   return {
     link: connectResult.link,
-    details,
     feeInfo: connectResult.feeInfo,
     connectStatus
   };
-};
+}
 
 /**
  * Convert price/product array to Stripe LineItem format
@@ -511,6 +574,7 @@ function buildLineItems(prices: LineItemInput[]): StripeLineItem[] {
  * @param {string} redirectUrl - URL for post-payment redirect
  * @param {boolean} includeShipping - Whether to collect shipping address
  * @param {string[]} [allowedCountries] - Optional list of allowed shipping countries
+ * @param {string[]} [shippingOptions] - Optional Stripe shipping rate ids
  * @returns {Promise<Stripe.PaymentLink | null>} Created payment link or null
  * @private
  */
@@ -520,6 +584,7 @@ async function createStandardPaymentLink(
   redirectUrl: string,
   includeShipping: boolean,
   allowedCountries?: DefaultCountries,
+  shippingOptions?: string[],
 ): Promise<StripePaymentLink | null> {
   const params: StripePaymentLinkCreateParams = {
     line_items: lineItems,
@@ -535,6 +600,10 @@ async function createStandardPaymentLink(
         ? allowedCountries
         : ['US', 'CO', 'MX', 'SV', 'IL'],
     };
+
+    if (Array.isArray(shippingOptions) && shippingOptions.length > 0) {
+      params.shipping_options = shippingOptions.map((shipping_rate) => ({ shipping_rate }));
+    }
   }
 
   try {
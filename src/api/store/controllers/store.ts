@@ -13,14 +13,18 @@ import {
   getQuickStats,
   getVisibilityFlags,
 } from '../services/dashboard';
-import { checkStoreAccess, checkStoreAccess as checkStoreOwnerAccess } from '../../../services/api-auth';
+import {
+  checkStoreAccess,
+  checkStoreAccess as checkStoreOwnerAccess,
+  requireStorePermission,
+} from '../../../services/api-auth';
 import { decryptCredentials, sensitiveFields } from '../../../services/encryption';
 import { testSendGridConnection } from '../../../services/sendgrid-marketing';
 import { testOdooConnection } from '../../../services/odoo-partner';
 import fs from 'fs';
 import path from 'path';
 
-/** Checks for store record for user and user_admin records */
+/** Checks store users, admin users and active memberships; role permissions come from checkStoreAccess */
 async function checkUserStoreAccess(
   strapi: any,
   userId: string,
@@ -31,42 +35,39 @@ async function checkUserStoreAccess(
   }
 
   try {
+    if (!userId) {
+      const store = await strapi.documents('api::store.store').findOne({
+        documentId: id,
+        populate: ['settings'],
+      }) as any;
+      return { hasAccess: false, store, access: null };
+    }
 
-    const store = await strapi.documents('api::store.store').findOne({
-      documentId: id,
-      populate: ['users', 'admin_users', 'settings'],
-    }) as any;
+    const access = await checkStoreAccess(strapi, userId, id);
 
-    if (!store) {
+    // Dashboard routes take documentIds only
+    if (!access.store || access.store.documentId !== id) {
       console.log('[STORE_ACCESS] Store not found in database', {
         documentId: id,
         queryWorked: true,
         resultWasNull: true
       });
-      return { hasAccess: false, store: null };
-    }
-
-    if (!userId) {
-      return { hasAccess: false, store };
+      return { hasAccess: false, store: null, access };
     }
 
-    const userIdNum = parseInt(userId, 10);
-    const isStoreUser = store.users?.some((user: any) => user?.id === userIdNum);
-    const isAdminUser = store.admin_users?.some((admin: any) => admin?.id === userIdNum);
-
     console.log('[STORE_ACCESS] Access check', {
       storeId: id.substring(0, 10) + '...',
-      storeName: store.title,
-      userId: userIdNum,
-      isStoreUser,
-      isAdminUser,
-      hasAccess: isStoreUser || isAdminUser,
+      storeName: access.store.title,
+      userId,
+      role: access.role,
+      hasAccess: access.hasAccess,
     });
 
     return {
-      hasAccess: isStoreUser || isAdminUser,
-      store,
-      isAdmin: isAdminUser
+      hasAccess: access.hasAccess,
+      store: access.store,
+      isAdmin: access.isAdmin,
+      access,
     };
   } catch (error) {
     console.error('[STORE_ACCESS] Database query failed', {
@@ -74,7 +75,7 @@ async function checkUserStoreAccess(
       error: error.message,
       stack: error.stack
     });
-    return { hasAccess: false, store: null, error: error.message };
+    return { hasAccess: false, store: null, access: null, error: error.message };
   }
 }
 
@@ -156,6 +157,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     if (!access.hasAccess) {
       return ctx.forbidden('Access denied');
     }
+    if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
     try {
       await strapi.documents('api::store.store').publish({
@@ -195,6 +197,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     if (!access.hasAccess) {
       return ctx.forbidden('Access denied');
     }
+    if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
     try {
       await strapi.documents('api::store.store').unpublish({
@@ -222,7 +225,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       const userId = ctx.state.user?.id;
       console.log(`get:store:settings:${id}`);
 
-      const { hasAccess, store } = await checkUserStoreAccess(strapi, userId, id);
+      const { hasAccess, store, access } = await checkUserStoreAccess(strapi, userId, id);
       if (!hasAccess) {
         return ctx.forbidden(`403:store:${store.title}`);
       }
@@ -230,6 +233,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       if (!store) {
         return ctx.notFound('Store not found');
       }
+      if (!requireStorePermission(ctx, access, 'store.read')) return;
 
       return ctx.send({
         store: store?.[0]?.data,
@@ -281,7 +285,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
         return ctx.unauthorized('Authentication required');
       }
 
-      const { hasAccess, store } = await checkUserStoreAccess(strapi, userId, id);
+      const { hasAccess, store, access } = await checkUserStoreAccess(strapi, userId, id);
 
       if (!hasAccess) {
         return ctx.forbidden(`403:store:${store.title}`);
@@ -290,6 +294,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       if (!store) {
         return ctx.notFound(`404:store:${id}`);
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
       let settings;
       let isNewSettings = false;
@@ -321,7 +326,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
 
   /**
    * GET /api/stores/:id/dashboard
-   * Get complete dashboard data
+   * Get complete dashboard data (open_disputes lists chargebacks with evidence due dates)
    * PROTECTED: Store owner only
    */
   async getDashboard(ctx: any) {
@@ -340,7 +345,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       return ctx.unauthorized('Authentication required');
     }
 
-    const { hasAccess, store } = await checkUserStoreAccess(strapi, userId, id);
+    const { hasAccess, store, access } = await checkUserStoreAccess(strapi, userId, id);
 
     if (!hasAccess) {
       console.log('[DASHBOARD] Forbidden - user not linked to store');
@@ -351,6 +356,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       console.log('[DASHBOARD] Store not found');
       return ctx.notFound('Store not found');
     }
+    if (!requireStorePermission(ctx, access, 'orders.read')) return;
 
     try {
       const data = await getDashboardData(id);
@@ -406,7 +412,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       return ctx.unauthorized('Authentication required');
     }
 
-    const { hasAccess, store } = await checkUserStoreAccess(strapi, userId, id);
+    const { hasAccess, store, access } = await checkUserStoreAccess(strapi, userId, id);
 
     if (!hasAccess) {
       return ctx.forbidden('You do not have access to this store');
@@ -415,6 +421,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     if (!store) {
       return ctx.notFound('Store not found');
     }
+    if (!requireStorePermission(ctx, access, 'orders.read')) return;
 
     try {
       const summary = await getSalesSummary(id, days);
@@ -443,7 +450,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       return ctx.unauthorized('Authentication required');
     }
 
-    const { hasAccess, store } = await checkUserStoreAccess(strapi, userId, id);
+    const { hasAccess, store, access } = await checkUserStoreAccess(strapi, userId, id);
 
     if (!hasAccess) {
       return ctx.forbidden('You do not have access to this store');
@@ -452,6 +459,7 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     if (!store) {
       return ctx.notFound('Store not found');
     }
+    if (!requireStorePermission(ctx, access, 'orders.read')) return;
 
     try {
       const orders = await getRecentOrders(id, limit);
@@ -502,10 +510,11 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       return ctx.unauthorized('Authentication required');
     }
 
-    const { hasAccess } = await checkUserStoreAccess(strapi, userId, id);
+    const { hasAccess, access } = await checkUserStoreAccess(strapi, userId, id);
     if (!hasAccess) {
       return ctx.forbidden('Access denied');
     }
+    if (!requireStorePermission(ctx, access, 'store.read')) return;
 
     try {
       const limit = parseInt(ctx.query.limit || '10', 10);
@@ -564,6 +573,8 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
         hasAccess: access.hasAccess,
         isAdmin: access.isAdmin,
         isOwner: access.isOwner,
+        role: access.role,
+        permissions: access.permissions,
         user,
       } : undefined);
 
@@ -624,10 +635,11 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     }
 
     if (!isDevelopment) {
-      const { hasAccess } = await checkUserStoreAccess(strapi, userId, id);
+      const { hasAccess, access } = await checkUserStoreAccess(strapi, userId, id);
       if (!hasAccess) {
         return ctx.forbidden('Access denied');
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
     }
 
     console.log('[EXTENSIONS_DEBUG]', {
@@ -754,10 +766,11 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
       return ctx.badRequest('Extension key is required in request body');
     }
 
-    const { hasAccess } = await checkUserStoreAccess(strapi, userId, id);
+    const { hasAccess, access } = await checkUserStoreAccess(strapi, userId, id);
     if (!hasAccess) {
       return ctx.forbidden('Access denied');
     }
+    if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
     const storeData = await strapi.documents('api::store.store').findOne({
       documentId: id,
@@ -830,10 +843,11 @@ export default factories.createCoreController('api::store.store', ({ strapi }) =
     }
 
     if (!isDevelopment) {
-      const { hasAccess } = await checkUserStoreAccess(strapi, userId, id);
+      const { hasAccess, access } = await checkUserStoreAccess(strapi, userId, id);
       if (!hasAccess) {
         return ctx.forbidden('Access denied');
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
     }
 
     const storeData = await strapi.documents('api::store.store').findOne({
@@ -5,6 +5,9 @@
  * Handles both content counts and sales analytics
  */
 
+import { listOpenDisputes } from '../../../services/order-dispute';
+import type { StorePermission, StoreRole } from '../../../services/api-auth';
+
 interface ContentCounts {
   articles: number;
   pages: number;
@@ -24,6 +27,11 @@ interface SalesSummary {
   total_stripe_fees_usd: string;
   estimated_payout_cents: number;
   estimated_payout_usd: string;
+  discounted_orders: number;
+  total_discounts_cents: number;
+  total_discounts_usd: string;
+  gross_revenue_cents: number;
+  gross_revenue_usd: string;
 }
 
 interface RecentOrder {
@@ -164,6 +172,8 @@ export async function getSalesSummary(storeId: string, daysBack: number = 30): P
   let totalRevenue = 0;
   let totalPlatformFees = 0;
   let totalStripeFees = 0;
+  let totalDiscounts = 0;
+  let discounted = 0;
   let pending = 0;
   let completed = 0;
 
@@ -181,6 +191,12 @@ export async function getSalesSummary(storeId: string, daysBack: number = 30): P
     } else if (extra?.stripe_actual_fees) {
       totalStripeFees += extra.stripe_actual_fees.fees_cents || 0;
     }
+
+    // Amount is already net of discount codes (extra.discount, see services/discount-codes.ts)
+    if (extra?.discount?.amount_cents) {
+      totalDiscounts += extra.discount.amount_cents;
+      discounted++;
+    }
   }
 
   const estimatedPayout = totalRevenue - totalPlatformFees - totalStripeFees;
@@ -197,6 +213,11 @@ export async function getSalesSummary(storeId: string, daysBack: number = 30): P
     total_stripe_fees_usd: (totalStripeFees / 100).toFixed(2),
     estimated_payout_cents: estimatedPayout,
     estimated_payout_usd: (estimatedPayout / 100).toFixed(2),
+    discounted_orders: discounted,
+    total_discounts_cents: totalDiscounts,
+    total_discounts_usd: (totalDiscounts / 100).toFixed(2),
+    gross_revenue_cents: totalRevenue + totalDiscounts,
+    gross_revenue_usd: ((totalRevenue + totalDiscounts) / 100).toFixed(2),
   };
 }
 
@@ -344,9 +365,10 @@ export function calculateOnboardingProgress(store: any, counts: ContentCounts, s
  * Get complete dashboard data in a single call
  */
 export async function getDashboardData(storeId: string) {
-  const [statsCache, recentOrders, store] = await Promise.all([
+  const [statsCache, recentOrders, openDisputes, store] = await Promise.all([
     getCachedOrFreshStoreStats(storeId),
     getRecentOrders(storeId, 5),
+    listOpenDisputes(strapi, storeId),
     strapi.documents('api::store.store').findOne({
       documentId: storeId,
       populate: {
@@ -387,6 +409,7 @@ export async function getDashboardData(storeId: string) {
     content: contentCounts,
     sales: salesSummary,
     recent_orders: recentOrders,
+    open_disputes: openDisputes,
 
     onboarding: {
       phase: onboarding.phase,
@@ -578,7 +601,14 @@ async function persistStoreMeta(storeId: string, flags: Record<string, any>): Pr
  */
 export async function getVisibilityFlags(
   storeId: string,
-  accessContext?: { hasAccess?: boolean; isAdmin?: boolean; isOwner?: boolean; user?: any }
+  accessContext?: {
+    hasAccess?: boolean;
+    isAdmin?: boolean;
+    isOwner?: boolean;
+    role?: StoreRole | null;
+    permissions?: StorePermission[];
+    user?: any;
+  }
 ) {
   console.log('[DASHBOARD] visibility flags', { storeId: storeId.substring(0, 10) + '...' });
 
@@ -772,7 +802,10 @@ export async function getVisibilityFlags(
     show_home,
   });
 
-  const canEdit = Boolean(accessContext?.hasAccess || accessContext?.isAdmin || accessContext?.isOwner);
+  // Role permissions (api-auth.ts) decide what the member can change
+  const permissions = accessContext?.permissions || [];
+  const canEdit = permissions.includes('content.manage');
+  const canManage = permissions.includes('settings.manage');
 
   const flags = {
     show_blog,
@@ -787,7 +820,9 @@ export async function getVisibilityFlags(
 
     permissions: {
       can_edit: canEdit,
-      can_manage: canEdit,
+      can_manage: canManage,
+      role: accessContext?.role || null,
+      store_permissions: permissions,
       has_access: Boolean(accessContext?.hasAccess),
       is_admin: Boolean(accessContext?.isAdmin),
       is_owner: Boolean(accessContext?.isOwner),
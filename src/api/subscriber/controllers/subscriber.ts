@@ -3,6 +3,12 @@
  */
 
 import { factories } from '@strapi/strapi'
+import { ingestSendGridEvents, verifySendGridEventSignature } from '../../../services/sendgrid-events';
+import {
+  getArchivedNewsletter,
+  listArchivedNewsletters,
+  renderNewsletterFeed,
+} from '../../../services/newsletter-archive';
 
 /**
  * TODO(newsletter-phase-1): Controller flow map
@@ -109,9 +115,15 @@ export default factories.createCoreController('api::subscriber.subscriber', ({ s
       return ctx.badRequest('email and storeDocumentId are required');
     }
 
+    // Optional list scope + reason; the list's unsubscribe_settings decide list-only vs store-wide.
+    const listDocumentId = String(payload?.listDocumentId || payload?.list?.documentId || payload?.list || '').trim();
+    const reason = payload?.reason ? String(payload.reason).trim() : undefined;
+
     const result = await strapi.service('api::subscriber.subscriber').unsubscribeFromStore({
       email,
       storeDocumentId,
+      listDocumentId: listDocumentId || undefined,
+      reason,
     });
 
     if (!result?.success) {
@@ -171,5 +183,95 @@ export default factories.createCoreController('api::subscriber.subscriber', ({ s
     }
 
     return ctx.send(result);
+  },
+
+  /**
+   * POST /api/subscribers/events/sendgrid
+   * SendGrid signed Event Webhook -> newsletter-event records + membership engagement.
+   */
+  async sendgridEvents(ctx) {
+    const publicKey = process.env.SENDGRID_EVENT_WEBHOOK_PUBLIC_KEY || '';
+    if (!publicKey) {
+      console.warn('[SENDGRID_EVENTS] SENDGRID_EVENT_WEBHOOK_PUBLIC_KEY not configured, refusing webhook');
+      return ctx.unauthorized('Event webhook verification is not configured');
+    }
+
+    const rawBuffer = ctx.request.body?.[Symbol.for('unparsedBody')];
+    const rawBody = rawBuffer instanceof Buffer ? rawBuffer.toString('utf8') : rawBuffer;
+
+    const verified = verifySendGridEventSignature({
+      publicKey,
+      signature: String(ctx.request.headers['x-twilio-email-event-webhook-signature'] || ''),
+      timestamp: String(ctx.request.headers['x-twilio-email-event-webhook-timestamp'] || ''),
+      rawBody,
+    });
+
+    if (!verified) {
+      console.warn('[SENDGRID_EVENTS] signature verification failed');
+      return ctx.unauthorized('Invalid event webhook signature');
+    }
+
+    const events = Array.isArray(ctx.request.body) ? ctx.request.body : [];
+    const result = await ingestSendGridEvents(strapi, events);
+
+    return ctx.send({ ok: true, data: result });
+  },
+
+  /**
+   * GET /api/newsletters/archive/:store
+   * Sent public editions of a store (slug or documentId), newest first.
+   */
+  async newsletterArchive(ctx) {
+    const { store } = ctx.params;
+    const result = await listArchivedNewsletters(strapi, store, {
+      page: ctx.query?.page,
+      pageSize: ctx.query?.pageSize,
+    });
+
+    if (!result) {
+      return ctx.notFound('Newsletter archive not found');
+    }
+
+    return ctx.send({ ok: true, ...result });
+  },
+
+  /**
+   * GET /api/newsletters/archive/:store/:slug
+   * Single edition as JSON with html + text; ?format=html|text returns the raw body.
+   */
+  async newsletterArchiveEdition(ctx) {
+    const { store, slug } = ctx.params;
+    const edition = await getArchivedNewsletter(strapi, store, slug);
+
+    if (!edition) {
+      return ctx.notFound('Newsletter not found');
+    }
+
+    const format = String(ctx.query?.format || '').toLowerCase();
+    if (format === 'html' || format === 'text') {
+      ctx.type = format === 'html' ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8';
+      ctx.body = format === 'html' ? edition.html : edition.text;
+      return;
+    }
+
+    return ctx.send({ ok: true, data: edition });
+  },
+
+  /**
+   * GET /api/newsletters/archive/:store/feed.xml
+   * RSS 2.0 feed of the latest public editions; ?format=atom for Atom.
+   */
+  async newsletterFeed(ctx) {
+    const { store } = ctx.params;
+    const format = String(ctx.query?.format || '').toLowerCase() === 'atom' ? 'atom' : 'rss';
+    const feed = await renderNewsletterFeed(strapi, store, format, ctx.request.href);
+
+    if (!feed) {
+      return ctx.notFound('Newsletter archive not found');
+    }
+
+    ctx.set('Cache-Control', 'public, max-age=300');
+    ctx.type = feed.contentType;
+    ctx.body = feed.body;
   }
 }));
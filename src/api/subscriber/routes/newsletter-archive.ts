@@ -0,0 +1,38 @@
+/**
+ * Public newsletter archive routes (sent, public editions per store)
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/newsletters/archive/:store',
+      handler: 'subscriber.newsletterArchive',
+      config: {
+        auth: false,
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/newsletters/archive/:store/feed.xml',
+      handler: 'subscriber.newsletterFeed',
+      config: {
+        auth: false,
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/newsletters/archive/:store/:slug',
+      handler: 'subscriber.newsletterArchiveEdition',
+      config: {
+        auth: false,
+        policies: [],
+        middlewares: [],
+      },
+    },
+  ],
+};
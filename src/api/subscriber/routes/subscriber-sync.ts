@@ -24,6 +24,16 @@ export default {
         middlewares: [],
       },
     },
+    {
+      method: 'POST',
+      path: '/subscribers/events/sendgrid',
+      handler: 'subscriber.sendgridEvents',
+      config: {
+        auth: false,
+        policies: [],
+        middlewares: [],
+      },
+    },
     {
       method: 'GET',
       path: '/subscribers/:documentId/sync-status',
@@ -6,6 +6,9 @@ import { factories } from '@strapi/strapi';
 import { decryptCredentials } from '../../../services/encryption';
 import { ensureStoreDefaultSendGridList, sendWelcomeEmail, upsertContactToList } from '../../../services/sendgrid-marketing';
 import { buildWelcomeEmailHtml } from '../../../services/sendgrid-email-templates';
+import { resolveListUnsubscribePolicy, resolveListWelcomeEmail } from '../../../services/list-settings';
+import { queueListWelcomeEmail } from '../../../services/list-welcome-email';
+import { resolveMailTransport } from '../../../services/mail-transport';
 
 interface SubscribeAndQueueSyncInput {
   email: string;
@@ -14,6 +17,8 @@ interface SubscribeAndQueueSyncInput {
   lastName?: string;
   source?: string;
   syncImmediately?: boolean;
+  /** Activate immediately even when the store uses double opt-in (email already verified by the caller). */
+  skipConfirmation?: boolean;
 }
 
 interface TriggerSubscriberResyncInput {
@@ -46,6 +51,56 @@ function isWelcomeEmailEnabled(store: any): boolean {
   return true;
 }
 
+const DEFAULT_CONFIRMATION_EXPIRY_HOURS = 48;
+const CONFIRMATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * store-setting.newsletter_settings.double_opt_in: public subscribes stay pending until the
+ * confirmation link (magic-code purpose subscribe_confirm) is opened.
+ */
+function resolveDoubleOptIn(store: any): { enabled: boolean; expiryHours: number } {
+  const newsletterSettings = store?.settings?.newsletter_settings || {};
+  const expiryHours = Number(newsletterSettings?.confirmation_expiry_hours);
+
+  return {
+    enabled: newsletterSettings?.double_opt_in === true,
+    expiryHours: Number.isFinite(expiryHours) && expiryHours > 0
+      ? Math.min(expiryHours, 24 * 14)
+      : DEFAULT_CONFIRMATION_EXPIRY_HOURS
+  };
+}
+
+async function ensureStoreDefaultList(strapi: any, storeDocumentId: string): Promise<any> {
+  const listDocuments = (strapi.documents as any)('api::subscriber.subscriber-list');
+
+  const existingLists = await listDocuments.findMany({
+    filters: {
+      store: { documentId: { $eq: storeDocumentId } },
+      is_default: { $eq: true },
+      active: { $eq: true }
+    },
+    limit: 1,
+    populate: ['store']
+  }) as any[];
+
+  if (existingLists?.[0]) {
+    return existingLists[0];
+  }
+
+  return listDocuments.create({
+    data: {
+      name: 'All Subscribers',
+      slug: buildDefaultListSlug(storeDocumentId),
+      list_type: 'default',
+      is_default: true,
+      store: storeDocumentId,
+      active: true,
+      sync_status: 'pending'
+    },
+    status: 'published'
+  });
+}
+
 async function findSendGridExtensionForStore(strapi: any, storeDocumentId: string): Promise<any | null> {
   const store = await (strapi.documents('api::store.store') as any).findOne({
     documentId: storeDocumentId,
@@ -94,7 +149,6 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
     // TODO(newsletter-phase-2): Move subscribe ingress to browser -> Next.js tokenized endpoint -> Strapi.
     // Current phase keeps browser -> Strapi unchanged to avoid client breaking changes.
     const subscriberDocuments = strapi.documents('api::subscriber.subscriber') as any;
-    const listDocuments = (strapi.documents as any)('api::subscriber.subscriber-list');
     const membershipDocuments = (strapi.documents as any)('api::subscriber.subscriber-list-membership');
 
     const email = normalizeEmail(input?.email);
@@ -108,6 +162,21 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
       };
     }
 
+    if (input?.skipConfirmation !== true) {
+      const store = await (strapi.documents('api::store.store') as any).findOne({
+        documentId: storeDocumentId,
+        populate: ['settings']
+      });
+
+      if (resolveDoubleOptIn(store).enabled) {
+        return (strapi.service('api::subscriber.subscriber') as any).requestSubscriptionConfirmation({
+          ...input,
+          email,
+          storeDocumentId
+        });
+      }
+    }
+
     const existingSubscribers = await subscriberDocuments.findMany({
       filters: { Email: { $eqi: email } },
       populate: ['stores', 'lists'],
@@ -144,32 +213,7 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
       });
     }
 
-    const existingLists = await listDocuments.findMany({
-      filters: {
-        store: { documentId: { $eq: storeDocumentId } },
-        is_default: { $eq: true },
-        active: { $eq: true }
-      },
-      limit: 1,
-      populate: ['store']
-    }) as any[];
-
-    let targetList = existingLists?.[0] || null;
-
-    if (!targetList) {
-      targetList = await listDocuments.create({
-        data: {
-          name: 'All Subscribers',
-          slug: buildDefaultListSlug(storeDocumentId),
-          list_type: 'default',
-          is_default: true,
-          store: storeDocumentId,
-          active: true,
-          sync_status: 'pending'
-        },
-        status: 'published'
-      });
-    }
+    const targetList = await ensureStoreDefaultList(strapi, storeDocumentId);
 
     const existingMembership = await membershipDocuments.findMany({
       filters: {
@@ -179,8 +223,10 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
       limit: 1
     }) as any[];
 
+    let activatedMembershipId: string | null = null;
+
     if (!existingMembership?.length) {
-      await membershipDocuments.create({
+      const createdMembership = await membershipDocuments.create({
         data: {
           subscriber: subscriber.documentId,
           list: targetList.documentId,
@@ -190,6 +236,7 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
           last_synced_at: null
         }
       });
+      activatedMembershipId = createdMembership?.documentId || null;
     } else {
       await membershipDocuments.update({
         documentId: existingMembership[0].documentId,
@@ -199,6 +246,17 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
           unsubscribe_reason: null
         }
       });
+      if (existingMembership[0].status !== 'subscribed') {
+        activatedMembershipId = existingMembership[0].documentId;
+      }
+    }
+
+    if (activatedMembershipId) {
+      try {
+        await queueListWelcomeEmail(strapi, activatedMembershipId);
+      } catch (error: any) {
+        console.warn('[SUBSCRIBER_SYNC] list welcome queue failed (non-blocking):', error.message);
+      }
     }
 
     const queueAsyncSyncRetry = () => setImmediate(async () => {
@@ -410,6 +468,18 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
     const sendTransactionalWelcome = async () => {
       const toEmail = normalizeEmail(subscriber.Email);
 
+      if (resolveListWelcomeEmail(targetList).enabled) {
+        // The default list sends its own welcome email (src/services/list-welcome-email.ts).
+        return {
+          attempted: false,
+          success: false,
+          skipped: true,
+          reason: 'list_welcome_email',
+          messageId: null,
+          error: null
+        };
+      }
+
       const shouldSendWelcome = isWelcomeEmailEnabled(store);
       if (!shouldSendWelcome) {
         console.log('[SUBSCRIBER_SYNC] welcome email skipped by store setting', {
@@ -446,7 +516,8 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
         fromEmail: extension?.config?.from_email,
         fromName: extension?.config?.from_name,
         senderId: extension?.config?.sender_id,
-        replyToEmail
+        replyToEmail,
+        transport: await resolveMailTransport(strapi, storeDocumentId)
       });
 
       if (!welcomeResult.success) {
@@ -629,54 +700,339 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
     };
   },
 
-  async unsubscribeFromStore(input: { email: string; storeDocumentId: string }) {
+  /**
+   * Double opt-in: create/refresh a pending membership on the store default list and email a
+   * subscribe_confirm magic link. Calling it again re-sends the link (after a short cooldown).
+   * Already confirmed members fall through to the regular subscribe flow.
+   */
+  async requestSubscriptionConfirmation(input: SubscribeAndQueueSyncInput) {
     const subscriberDocuments = strapi.documents('api::subscriber.subscriber') as any;
     const membershipDocuments = (strapi.documents as any)('api::subscriber.subscriber-list-membership');
-    const listDocuments = (strapi.documents as any)('api::subscriber.subscriber-list');
+    const magicCodes = strapi.documents('api::auth-magic.magic-code') as any;
 
     const email = normalizeEmail(input?.email);
     const storeDocumentId = String(input?.storeDocumentId || '').trim();
 
-    if (!email || !storeDocumentId) {
-      return { success: false, message: 'email and storeDocumentId are required', error: 'missing_required_fields' };
+    const store = await (strapi.documents('api::store.store') as any).findOne({
+      documentId: storeDocumentId,
+      populate: ['settings', 'Favicon']
+    });
+
+    if (!store) {
+      return { success: false, message: 'Store not found', error: 'store_not_found' };
     }
 
-    const existing = await subscriberDocuments.findMany({
+    const targetList = await ensureStoreDefaultList(strapi, storeDocumentId);
+
+    const existingSubscribers = await subscriberDocuments.findMany({
       filters: { Email: { $eqi: email } },
       populate: ['stores'],
-      limit: 1,
+      limit: 1
     }) as any[];
 
-    const subscriber = existing?.[0];
+    let subscriber = existingSubscribers?.[0] || null;
+
+    let membership = subscriber
+      ? (await membershipDocuments.findMany({
+        filters: {
+          subscriber: { documentId: { $eq: subscriber.documentId } },
+          list: { documentId: { $eq: targetList.documentId } }
+        },
+        limit: 1
+      }) as any[])?.[0] || null
+      : null;
+
+    const storeIds = (subscriber?.stores || []).map((item: any) => item.documentId);
+    if (membership?.status === 'subscribed' && subscriber?.active !== false && storeIds.includes(storeDocumentId)) {
+      return (strapi.service('api::subscriber.subscriber') as any).subscribeAndQueueSync({
+        ...input,
+        skipConfirmation: true
+      });
+    }
+
     if (!subscriber) {
-      // Treat as success — nothing to unsubscribe.
-      return { success: true, message: 'No subscription found', data: { email, storeDocumentId } };
+      // Not linked to the store and inactive until the address is confirmed.
+      subscriber = await subscriberDocuments.create({
+        data: {
+          Email: email,
+          active: false,
+          stores: [],
+          sync_status: 'pending'
+        },
+        status: 'published'
+      });
+    }
+
+    if (!membership) {
+      membership = await membershipDocuments.create({
+        data: {
+          subscriber: subscriber.documentId,
+          list: targetList.documentId,
+          status: 'pending',
+          source: input?.source || 'api_subscribe',
+          last_synced_at: null
+        }
+      });
+    } else if (membership.status !== 'pending') {
+      membership = await membershipDocuments.update({
+        documentId: membership.documentId,
+        data: {
+          status: 'pending',
+          unsubscribed_at: null,
+          unsubscribe_reason: null,
+          source: input?.source || membership.source || 'api_subscribe'
+        }
+      });
+    }
+
+    const { expiryHours } = resolveDoubleOptIn(store);
+
+    const previousCodes = await magicCodes.findMany({
+      filters: {
+        email,
+        purpose: 'subscribe_confirm',
+        used: false,
+        store: { documentId: { $eq: storeDocumentId } }
+      },
+      sort: { updatedAt: 'desc' },
+      limit: 1
+    }) as any[];
+
+    const previousCode = previousCodes?.[0] || null;
+    const pendingData = {
+      subscriberDocumentId: subscriber.documentId,
+      email,
+      storeDocumentId,
+      listDocumentId: targetList.documentId,
+      sync_status: 'pending_confirmation',
+      confirmation_required: true
+    };
+
+    if (previousCode?.updatedAt && Date.now() - new Date(previousCode.updatedAt).getTime() < CONFIRMATION_RESEND_COOLDOWN_MS) {
+      return {
+        success: true,
+        message: 'Confirmation email already sent, check your inbox',
+        data: { ...pendingData, resent: false, expires_at: previousCode.expiresAt || null }
+      };
+    }
+
+    const authMagic = strapi.service('api::auth-magic.auth-magic') as any;
+
+    let codeData: any;
+    try {
+      codeData = await authMagic.generateCode(email, storeDocumentId, 'email', undefined, undefined, {
+        purpose: 'subscribe_confirm',
+        meta: {
+          membershipDocumentId: membership.documentId,
+          listDocumentId: targetList.documentId,
+          source: input?.source || 'api_subscribe'
+        },
+        expiresInMinutes: expiryHours * 60,
+        existingDocumentId: previousCode?.documentId
+      });
+    } catch (error: any) {
+      console.warn('[SUBSCRIBER_CONFIRM] confirmation code not issued', { storeDocumentId, error: error.message });
+      return { success: false, message: error.message, error: 'confirmation_rate_limited' };
+    }
+
+    try {
+      await authMagic.sendSubscribeConfirmLink(email, codeData, store, expiryHours);
+    } catch (error: any) {
+      console.error('[SUBSCRIBER_CONFIRM] confirmation email failed', { storeDocumentId, error: error.message });
+      return { success: false, message: 'Failed to send confirmation email', error: 'confirmation_email_failed' };
+    }
+
+    console.log('[SUBSCRIBER_CONFIRM] confirmation sent', {
+      storeDocumentId,
+      subscriberDocumentId: subscriber.documentId,
+      membershipDocumentId: membership.documentId,
+      resent: !!previousCode
+    });
+
+    return {
+      success: true,
+      message: 'Check your inbox to confirm your subscription',
+      data: {
+        ...pendingData,
+        resent: !!previousCode,
+        expires_at: new Date(Date.now() + expiryHours * 60 * 60 * 1000).toISOString()
+      }
+    };
+  },
+
+  /**
+   * Complete a double opt-in: activate the pending membership and subscriber, then
+   * queue the list welcome email and the SendGrid sync. Called by auth-magic confirm.
+   */
+  async confirmSubscription(input: { email: string; storeDocumentId: string; membershipDocumentId: string }) {
+    const subscriberDocuments = strapi.documents('api::subscriber.subscriber') as any;
+    const membershipDocuments = (strapi.documents as any)('api::subscriber.subscriber-list-membership');
+
+    const email = normalizeEmail(input?.email);
+    const storeDocumentId = String(input?.storeDocumentId || '').trim();
+    const membershipDocumentId = String(input?.membershipDocumentId || '').trim();
+
+    const membership = membershipDocumentId ? await membershipDocuments.findOne({
+      documentId: membershipDocumentId,
+      populate: ['subscriber', 'subscriber.stores', 'list', 'list.store']
+    }) as any : null;
+
+    if (
+      !membership
+      || normalizeEmail(membership?.subscriber?.Email) !== email
+      || membership?.list?.store?.documentId !== storeDocumentId
+    ) {
+      return { success: false, message: 'Subscription not found', error: 'subscription_not_found' };
+    }
+
+    const subscriber = membership.subscriber;
+
+    if (membership.status === 'subscribed') {
+      return {
+        success: true,
+        message: 'Subscription already confirmed',
+        data: { subscriberDocumentId: subscriber.documentId, storeDocumentId, listDocumentId: membership.list.documentId, status: 'subscribed' }
+      };
+    }
+
+    if (membership.status !== 'pending') {
+      return { success: false, message: `Subscription is ${membership.status}`, error: 'subscription_not_pending' };
     }
 
     const now = new Date().toISOString();
-    const remainingStoreIds = (subscriber.stores || [])
-      .map((s: any) => s.documentId)
-      .filter((id: string) => id && id !== storeDocumentId);
+    const storeIds = (subscriber.stores || []).map((item: any) => item.documentId).filter(Boolean);
 
     await subscriberDocuments.update({
       documentId: subscriber.documentId,
       data: {
-        stores: remainingStoreIds,
-        sync_status: remainingStoreIds.length === 0 ? 'unsubscribed' : subscriber.sync_status,
-        unsubscribed_at: now,
-        active: remainingStoreIds.length > 0,
+        active: true,
+        stores: Array.from(new Set([...storeIds, storeDocumentId])),
+        EmailVerified: subscriber.EmailVerified || now,
+        unsubscribed_at: null,
+        sync_status: 'pending'
       },
-      status: 'published',
+      status: 'published'
+    });
+
+    await membershipDocuments.update({
+      documentId: membership.documentId,
+      data: {
+        status: 'subscribed',
+        subscribed_at: now,
+        unsubscribed_at: null,
+        unsubscribe_reason: null
+      }
+    });
+
+    try {
+      await queueListWelcomeEmail(strapi, membership.documentId);
+    } catch (error: any) {
+      console.warn('[SUBSCRIBER_CONFIRM] list welcome queue failed (non-blocking):', error.message);
+    }
+
+    setImmediate(async () => {
+      try {
+        await (strapi.service('api::subscriber.subscriber') as any).syncSubscriberToSendGrid({
+          subscriberDocumentId: subscriber.documentId,
+          storeDocumentId
+        });
+      } catch (error: any) {
+        console.error('[SUBSCRIBER_CONFIRM] sync after confirmation failed:', error.message);
+      }
+    });
+
+    console.log('[SUBSCRIBER_CONFIRM] confirmed', {
+      storeDocumentId,
+      subscriberDocumentId: subscriber.documentId,
+      membershipDocumentId: membership.documentId
     });
 
-    // Mark all memberships for this store's lists as unsubscribed.
+    return {
+      success: true,
+      message: 'Subscription confirmed',
+      data: { subscriberDocumentId: subscriber.documentId, storeDocumentId, listDocumentId: membership.list.documentId, status: 'subscribed' }
+    };
+  },
+
+  /**
+   * Unsubscribe an email from a store, honouring list unsubscribe_settings.
+   * - listDocumentId with scope 'list': only that membership is unsubscribed
+   * - otherwise (scope 'store' or no list): every membership in the store, and the store is removed from the subscriber
+   * The policy comes from the given list, or the store default list when none is given.
+   */
+  async unsubscribeFromStore(input: { email: string; storeDocumentId: string; listDocumentId?: string; reason?: string }) {
+    const subscriberDocuments = strapi.documents('api::subscriber.subscriber') as any;
+    const membershipDocuments = (strapi.documents as any)('api::subscriber.subscriber-list-membership');
+    const listDocuments = (strapi.documents as any)('api::subscriber.subscriber-list');
+
+    const email = normalizeEmail(input?.email);
+    const storeDocumentId = String(input?.storeDocumentId || '').trim();
+    const listDocumentId = String(input?.listDocumentId || '').trim();
+    const reason = String(input?.reason || '').trim().slice(0, 1000);
+
+    if (!email || !storeDocumentId) {
+      return { success: false, message: 'email and storeDocumentId are required', error: 'missing_required_fields' };
+    }
+
     const storeLists = await listDocuments.findMany({
       filters: { store: { documentId: { $eq: storeDocumentId } } },
       limit: 100,
     }) as any[];
 
-    if (storeLists.length > 0) {
-      const listIds = storeLists.map((l: any) => l.documentId).filter(Boolean);
+    let policyList = storeLists.find((list: any) => list.is_default && list.active !== false) || null;
+    if (listDocumentId) {
+      policyList = storeLists.find((list: any) => list.documentId === listDocumentId) || null;
+      if (!policyList) {
+        return { success: false, message: 'List not found for this store', error: 'list_not_found' };
+      }
+    }
+
+    const policy = resolveListUnsubscribePolicy(policyList);
+    if (policy.require_reason && !reason) {
+      return { success: false, message: 'An unsubscribe reason is required', error: 'reason_required' };
+    }
+
+    const scope = listDocumentId && policy.scope === 'list' ? 'list' : 'store';
+
+    const existing = await subscriberDocuments.findMany({
+      filters: { Email: { $eqi: email } },
+      populate: ['stores'],
+      limit: 1,
+    }) as any[];
+
+    const subscriber = existing?.[0];
+    if (!subscriber) {
+      // Treat as success — nothing to unsubscribe.
+      return {
+        success: true,
+        message: 'No subscription found',
+        data: { email, storeDocumentId, scope, confirmation_page_url: policy.confirmation_page_url },
+      };
+    }
+
+    const now = new Date().toISOString();
+    const affectedLists = scope === 'list' ? [policyList] : storeLists;
+
+    if (scope === 'store') {
+      const remainingStoreIds = (subscriber.stores || [])
+        .map((s: any) => s.documentId)
+        .filter((id: string) => id && id !== storeDocumentId);
+
+      await subscriberDocuments.update({
+        documentId: subscriber.documentId,
+        data: {
+          stores: remainingStoreIds,
+          sync_status: remainingStoreIds.length === 0 ? 'unsubscribed' : subscriber.sync_status,
+          unsubscribed_at: now,
+          active: remainingStoreIds.length > 0,
+        },
+        status: 'published',
+      });
+    }
+
+    // Mark the affected memberships as unsubscribed.
+    if (affectedLists.length > 0) {
+      const listIds = affectedLists.map((l: any) => l.documentId).filter(Boolean);
       const memberships = await membershipDocuments.findMany({
         filters: {
           subscriber: { documentId: { $eq: subscriber.documentId } },
@@ -689,7 +1045,7 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
       for (const membership of memberships) {
         await membershipDocuments.update({
           documentId: membership.documentId,
-          data: { status: 'unsubscribed', unsubscribed_at: now, unsubscribe_reason: 'user_request' },
+          data: { status: 'unsubscribed', unsubscribed_at: now, unsubscribe_reason: reason || 'user_request' },
         });
       }
     }
@@ -706,7 +1062,7 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
           : credentials.api_key;
         if (!apiKey) return;
 
-        // Find contact ID in SendGrid by email and remove from all store lists.
+        // Find contact ID in SendGrid by email and remove from the affected lists.
         const searchRes = await fetch(
           `https://api.sendgrid.com/v3/marketing/contacts/search/emails`,
           {
@@ -720,21 +1076,15 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
         const contactId = searchData?.result?.[email]?.contact?.id;
         if (!contactId) return;
 
-        const listDocumentsInner = (strapi.documents as any)('api::subscriber.subscriber-list');
-        const storeListsInner = await listDocumentsInner.findMany({
-          filters: { store: { documentId: { $eq: storeDocumentId } }, sendgrid_list_id: { $notNull: true } },
-          limit: 50,
-        }) as any[];
-
-        for (const list of storeListsInner) {
-          if (!list.sendgrid_list_id) continue;
+        for (const list of affectedLists) {
+          if (!list?.sendgrid_list_id) continue;
           await fetch(
             `https://api.sendgrid.com/v3/marketing/lists/${list.sendgrid_list_id}/contacts?contact_ids=${contactId}`,
             { method: 'DELETE', headers: { Authorization: `Bearer ${apiKey}` } }
           );
         }
 
-        console.log('[SUBSCRIBER_UNSUB] SendGrid removal complete', { email, storeDocumentId });
+        console.log('[SUBSCRIBER_UNSUB] SendGrid removal complete', { email, storeDocumentId, scope });
       } catch (err: any) {
         console.warn('[SUBSCRIBER_UNSUB] SendGrid removal failed (non-blocking):', err.message);
       }
@@ -743,7 +1093,14 @@ export default factories.createCoreService('api::subscriber.subscriber', ({ stra
     return {
       success: true,
       message: 'Unsubscribed successfully',
-      data: { email, storeDocumentId, unsubscribed_at: now },
+      data: {
+        email,
+        storeDocumentId,
+        scope,
+        listDocumentId: scope === 'list' ? policyList.documentId : null,
+        unsubscribed_at: now,
+        confirmation_page_url: policy.confirmation_page_url,
+      },
     };
   },
 
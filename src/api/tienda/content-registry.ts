@@ -20,6 +20,7 @@ export interface ContentTypeConfig {
   relationFields?: string[];        // Relation fields — convert populated objects to connect format
   componentFields?: string[];       // Repeatable components — strip id to avoid stale entry conflicts
   nestedMediaFields?: string[];     // Dot-path media inside components, e.g. 'SEO.socialImage' — strip to id only
+  autoFillSeo?: boolean;            // false for types without SEO / slug fields (default true)
 }
 
 export const CONTENT_TYPES: Record<string, ContentTypeConfig> = {
@@ -136,6 +137,22 @@ export const CONTENT_TYPES: Record<string, ContentTypeConfig> = {
     autoSetCreator: 'user',
     defaultPopulate: ['image', 'store', 'user'],
   },
+  discount: {
+    uid: 'api::discount.discount',
+    storeField: 'store',
+    storeRelationType: 'manyToOne',
+    titleField: 'code',
+    contentField: 'description',
+    hasDraftAndPublish: false,
+    mutableFields: [
+      'code', 'description', 'active', 'discount_type', 'value', 'applies_to', 'products',
+      'min_subtotal', 'max_uses', 'starts_at', 'expires_at', 'first_order_only'
+    ],
+    readOnlyFields: ['times_used'], // Counted when a discounted order is paid
+    defaultPopulate: ['products', 'store'],
+    relationFields: ['products'],
+    autoFillSeo: false,
+  },
 };
 
 /**
@@ -1,4 +1,4 @@
-import { checkStoreAccess, ERRORS, requireUser, sanitizeStore } from '../../../services/api-auth';
+import { checkStoreAccess, ERRORS, requireStorePermission, requireUser, sanitizeStore } from '../../../services/api-auth';
 import {
   ensureStoreDefaultSendGridList,
   upsertContactToList,
@@ -7,6 +7,17 @@ import {
 } from '../../../services/sendgrid-marketing';
 import { buildStoreOwnerCongratsEmailHtml, buildInviteEmailHtml } from '../../../services/sendgrid-email-templates';
 import { decryptCredentials } from '../../../services/encryption';
+import { resolveMailTransport, sendMail } from '../../../services/mail-transport';
+import { getRefundableAmount, isOrderRefundable, recordOrderRefund } from '../../../services/order-refund';
+import { adjustPriceInventory, getProductInventory } from '../../../services/inventory-ledger';
+import { createOrderShipment, listOrderShipments, updateOrderShipment } from '../../../services/order-fulfillment';
+import { validateShippingProfile } from '../../../services/shipping-rates';
+import { validateDiscountData } from '../../../services/discount-codes';
+import { findWebhookDelivery, listWebhookDeliveries, redeliverWebhook } from '../../../services/store-webhooks';
+import { changeMemberRole, removeMember, revokeInvite, transferOwnership } from '../../../services/store-members';
+import { runStoreOdooSync } from '../../../services/odoo-sync';
+import { createShopifyImport, getShopifyImport, listShopifyImports } from '../../../services/shopify-import';
+import { getStripeClient } from '../../markket/services/stripe';
 import {
   verifyItemBelongsToStore,
   autoFillSEO,
@@ -844,7 +855,6 @@ async function buildStoreMembersPayload(strapi: any, store: any) {
   const membershipRows = await membershipDocuments.findMany({
     filters: {
       store: { documentId: store.documentId },
-      status: 'active',
     } as any,
     populate: ['user', 'invited_by'],
     sort: [{ joined_at: 'asc' }, { createdAt: 'asc' }],
@@ -852,11 +862,17 @@ async function buildStoreMembersPayload(strapi: any, store: any) {
   }) as any[];
 
   const membersByUserId = new Map<number, any>();
+  // Removed members (inactive membership) stay out of the list even if a legacy store.users link is left over
+  const removedUserIds = new Set<number>();
   for (const row of membershipRows || []) {
     const memberUser = formatDashboardUser(row?.user);
     if (!memberUser?.id) {
       continue;
     }
+    if (row?.status !== 'active') {
+      removedUserIds.add(Number(memberUser.id));
+      continue;
+    }
 
     membersByUserId.set(Number(memberUser.id), {
       user: memberUser,
@@ -875,6 +891,9 @@ async function buildStoreMembersPayload(strapi: any, store: any) {
     if (!memberUser?.id || membersByUserId.has(Number(memberUser.id))) {
       continue;
     }
+    if (removedUserIds.has(Number(memberUser.id)) && Number(memberUser.id) !== ownerId) {
+      continue;
+    }
 
     membersByUserId.set(Number(memberUser.id), {
       user: memberUser,
@@ -1278,6 +1297,7 @@ export default {
     if (!access?.store || !access?.hasAccess) {
       return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
     }
+    if (!requireStorePermission(ctx, access, 'store.read')) return;
 
     const payload = await buildStoreMembersPayload(strapi, access.store);
 
@@ -1473,6 +1493,7 @@ export default {
             ? `Welcome to Markketplace, ${user.firstname || user.username || 'store owner'}!`
             : `Congrats on your new store: ${data.title}`),
           htmlContent: html,
+          transport: await resolveMailTransport(strapi),
         }).then(result => {
           if (!result.success) {
             console.warn('[TIENDA_STORE_CREATE] Congrats email skipped:', result.error || result.message);
@@ -1553,6 +1574,7 @@ export default {
     if (!access?.store || !access?.hasAccess) {
       return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
     }
+    if (!requireStorePermission(ctx, access, 'content.manage')) return;
 
     const requestData = getRequestData(ctx);
     const regenerate = [true, 'true', '1', 'yes'].includes(requestData?.regenerate);
@@ -1690,6 +1712,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
       await beforeActivities(ctx, 'store.update', data);
 
@@ -1736,6 +1759,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
       await strapi.documents('api::store.store').publish({
         documentId: access.store.documentId,
@@ -1778,6 +1802,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
       await strapi.documents('api::store.store').unpublish({
         documentId: access.store.documentId,
@@ -1819,6 +1844,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'store.read')) return;
 
       return ctx.send({
         ok: true,
@@ -1828,6 +1854,10 @@ export default {
           email: user.email,
         },
         store: sanitizeStore(access.store),
+        access: {
+          role: access.role,
+          permissions: access.permissions,
+        },
       });
     } catch (error) {
       console.error('[TIENDA_STORE] Resolver failed:', error.message);
@@ -1851,6 +1881,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'store.read')) return;
 
       return ctx.send({
         ok: true,
@@ -1878,11 +1909,20 @@ export default {
       return ctx.badRequest('Invalid settings payload');
     }
 
+    if (data.shipping_settings) {
+      const shipping = validateShippingProfile(data.shipping_settings);
+      if (shipping.ok === false) {
+        return ctx.badRequest(shipping.error);
+      }
+      data.shipping_settings = shipping.profile;
+    }
+
     try {
       const access = await checkStoreAccess(strapi, user.id, ref);
       if (!access.store || !access.hasAccess) {
         return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
       }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
 
       await beforeActivities(ctx, 'store.settings.update', data);
 
@@ -1943,6 +1983,7 @@ export default {
     if (!access?.store || !access?.hasAccess) {
       return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
     }
+    if (!requireStorePermission(ctx, access, 'content.read')) return;
 
     return ctx.send({
       ok: true,
@@ -1971,6 +2012,7 @@ export default {
       if (!access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.read')) return;
 
       // Rate limit: list operations are cheap, allow many
       const rateLimitKey = `list:${access.store.documentId}:${contentType}`;
@@ -2073,6 +2115,7 @@ export default {
       if (!access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
 
       // Rate limit: creates are expensive
       const rateLimitKey = `create:${access.store.documentId}`;
@@ -2085,6 +2128,13 @@ export default {
       // Pick allowed fields only
       const createData = pickAllowedFields(inputData, config);
 
+      if (config.uid === 'api::discount.discount') {
+        const discountError = await validateDiscountData(strapi, access.store.documentId, createData);
+        if (discountError) {
+          return ctx.badRequest(discountError);
+        }
+      }
+
       // Sanitize media/relation/component fields
       const sanitizedCreateData = sanitizePayloadForUpdate(createData, config);
       const createDataWithUploadIds = await resolveUploadMediaIds(sanitizedCreateData, config);
@@ -2179,6 +2229,7 @@ export default {
       if (!access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.read')) return;
 
       const item = await findOwnerContentItem(
         documentsApi,
@@ -2234,6 +2285,7 @@ export default {
       if (!access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
 
       // Rate limit: updates
       const rateLimitKey = `update:${access.store.documentId}`;
@@ -2275,6 +2327,13 @@ export default {
       );
       const hasContentChanges = Object.keys(updateData).length > 0;
 
+      if (hasContentChanges && config.uid === 'api::discount.discount') {
+        const discountError = await validateDiscountData(strapi, access.store.documentId, updateData, item);
+        if (discountError) {
+          return ctx.badRequest(discountError);
+        }
+      }
+
       if (!hasContentChanges && !hasStateOnlyAction) {
         const writableFields = (config.mutableFields || []).filter(
           field => !(config.readOnlyFields || []).includes(field)
@@ -2447,6 +2506,7 @@ export default {
       if (!access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
 
       // Rate limit: deletes are destructive, very strict
       const rateLimitKey = `delete:${access.store.documentId}`;
@@ -2552,6 +2612,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'crm.read')) return;
 
       const eventConfig = resolveContentType('event');
       const event = await (strapi.documents as any)(eventConfig.uid).findOne({
@@ -2670,6 +2731,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'crm.manage')) return;
 
       const eventConfig = resolveContentType('event');
       const event = await (strapi.documents as any)(eventConfig.uid).findOne({
@@ -2838,6 +2900,7 @@ export default {
       if (!access.store || !access.hasAccess) {
         return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
       }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
 
       const rateLimitKey = `upload:${access.store.documentId}`;
       const rateLimit = checkRateLimit(rateLimitKey, 120);
@@ -3115,6 +3178,7 @@ export default {
     if (!access?.store || !access?.hasAccess) {
       return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
     }
+    if (!requireStorePermission(ctx, access, 'members.manage')) return;
 
     const store = access.store;
 
@@ -3164,7 +3228,9 @@ export default {
         email: row.email,
         status: row.used
           ? 'accepted'
-          : new Date(row.expiresAt) < now
+          : row.meta?.revoked_at
+            ? 'revoked'
+            : new Date(row.expiresAt) < now
             ? 'expired'
             : 'pending',
         sentAt: row.updatedAt || row.createdAt,
@@ -3198,6 +3264,7 @@ export default {
     if (!access?.store || !access?.hasAccess) {
       return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
     }
+    if (!requireStorePermission(ctx, access, 'members.manage')) return;
 
     const { email } = ctx.request.body || {};
     if (!email || typeof email !== 'string' || !email.includes('@')) {
@@ -3299,7 +3366,7 @@ export default {
         isResend,
       });
 
-      await strapi.plugin('email').service('email').send({
+      await sendMail(strapi, {
         to: safeEmail,
         subject: isResend
           ? `${store.title || 'Markketplace'}: your refreshed invite link`
@@ -3308,7 +3375,7 @@ export default {
           ? `A new invite link is ready: ${inviteUrl}`
           : `You were invited to edit ${store.title || store.slug || 'a store'}: ${inviteUrl}`,
         html: inviteHtml,
-      });
+      }, { storeDocumentId: store.documentId });
 
       strapi.documents('api::markket.markket').create({
         data: {
@@ -3349,4 +3416,789 @@ export default {
       return ctx.internalServerError('Failed to send invite.');
     }
   },
+
+  /**
+   * POST /api/tienda/stores/:ref/orders/:orderId/refund
+   * Full or partial Stripe refund of a paid order.
+   * Body: { amount?: number (defaults to the remaining amount), reason?: string, restock?: [{ stripe_price_id, quantity }] }
+   * Full refunds restock every line; partial refunds only restock the lines listed.
+   * The refund is recorded right away; the Stripe webhook for it is deduplicated by refund id.
+   */
+  async refundOrder(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const orderId = String(ctx.params?.orderId || '').trim();
+    if (!ref || !orderId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'orders.manage')) return;
+
+      const order = await strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: ['store'],
+      }) as any;
+
+      if (!order || order.store?.documentId !== access.store.documentId) {
+        return ctx.notFound('Order not found');
+      }
+
+      if (!isOrderRefundable(order)) {
+        return ctx.badRequest(`Order with status "${order.Status}" cannot be refunded`);
+      }
+
+      const refundable = getRefundableAmount(order);
+      const amount = data.amount === undefined || data.amount === null || data.amount === ''
+        ? refundable
+        : Math.round(Number(data.amount) * 100) / 100;
+
+      if (!Number.isFinite(amount) || amount <= 0) {
+        return ctx.badRequest('Refund amount must be greater than 0');
+      }
+
+      if (amount > refundable) {
+        return ctx.badRequest(`Refund amount exceeds the refundable amount (${refundable.toFixed(2)})`);
+      }
+
+      const stripe = getStripeClient(!!order.extra?.is_test);
+      if (!stripe) {
+        return ctx.internalServerError('Stripe is not configured');
+      }
+
+      const reason = ['duplicate', 'fraudulent', 'requested_by_customer'].includes(data.reason) ? data.reason : undefined;
+
+      await beforeActivities(ctx, 'order.refund', { orderId, amount });
+
+      // Connect checkouts are destination charges: reverse the store's transfer and refund the platform fee pro rata,
+      // so the store pays the refund instead of the platform balance
+      const paymentIntent = await stripe.paymentIntents.retrieve(order.extra.stripe_payment_intent);
+      const isDestinationCharge = !!paymentIntent?.transfer_data?.destination;
+
+      const refund = await stripe.refunds.create({
+        payment_intent: order.extra.stripe_payment_intent,
+        amount: Math.round(amount * 100),
+        reason,
+        ...(isDestinationCharge ? { reverse_transfer: true, refund_application_fee: true } : {}),
+        metadata: {
+          order_id: order.documentId,
+          store_id: access.store.documentId,
+          requested_by: String(user.id),
+        },
+      });
+
+      const result = await recordOrderRefund(strapi, order.documentId, {
+        id: refund.id,
+        amount: refund.amount,
+        currency: refund.currency,
+        status: refund.status,
+        reason: refund.reason || (typeof data.reason === 'string' ? data.reason : null),
+      }, {
+        source: 'tienda',
+        restock: Array.isArray(data.restock) ? data.restock : undefined,
+        requestedBy: user.id,
+      });
+
+      await afterActivities(ctx, 'order.refund', { refund, result });
+
+      return ctx.send({
+        ok: true,
+        refund: {
+          id: refund.id,
+          amount: refund.amount / 100,
+          currency: refund.currency?.toUpperCase(),
+          status: refund.status,
+        },
+        order: {
+          documentId: order.documentId,
+          Status: result.status || order.Status,
+          refund_status: result.refund_status || null,
+          refunded_total: result.refunded_total ?? null,
+        },
+        // false when the webhook got there first or the order was busy; the webhook records it
+        recorded: result.recorded,
+        restocked: result.restocked || {},
+      });
+    } catch (error: any) {
+      console.error('[TIENDA_ORDER_REFUND] Failed:', error.message);
+      if (error?.type === 'StripeInvalidRequestError') {
+        return ctx.badRequest(error.message);
+      }
+      return ctx.internalServerError('Refund failed');
+    }
+  },
+
+  /**
+   * GET /api/tienda/stores/:ref/products/:productId/inventory
+   * Stock per price (inventory, checkout holds, low-stock threshold) and the inventory ledger.
+   * Query: stripe_price_id, page, pageSize
+   */
+  async productInventory(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const productId = String(ctx.params?.productId || '').trim();
+    if (!ref || !productId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'content.read')) return;
+
+      const productConfig = resolveContentType('product');
+      const product = await (strapi.documents as any)(productConfig.uid).findOne({
+        documentId: productId,
+        populate: ['PRICES', 'stores'],
+      });
+
+      if (!product) {
+        return ctx.notFound('Product not found');
+      }
+
+      if (!verifyItemBelongsToStore(product, access.store.documentId, productConfig)) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+
+      const inventory = await getProductInventory(strapi, product, access.store, {
+        stripePriceId: ctx.query?.stripe_price_id ? String(ctx.query.stripe_price_id) : undefined,
+        page: ctx.query?.page,
+        pageSize: ctx.query?.pageSize,
+      });
+
+      return ctx.send({ ok: true, ...inventory });
+    } catch (error: any) {
+      console.error('[TIENDA_PRODUCT_INVENTORY] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/products/:productId/inventory
+   * Manual stock adjustment of one price, recorded in the inventory ledger.
+   * Body: { stripe_price_id, set?: number, change?: number, reason?: 'adjustment' | 'import', note }
+   */
+  async adjustProductInventory(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const productId = String(ctx.params?.productId || '').trim();
+    if (!ref || !productId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+    const stripePriceId = String(data.stripe_price_id || '').trim();
+    if (!stripePriceId) {
+      return ctx.badRequest('stripe_price_id is required');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
+
+      const productConfig = resolveContentType('product');
+      const product = await (strapi.documents as any)(productConfig.uid).findOne({
+        documentId: productId,
+        populate: ['stores'],
+      });
+
+      if (!product) {
+        return ctx.notFound('Product not found');
+      }
+
+      if (!verifyItemBelongsToStore(product, access.store.documentId, productConfig)) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+
+      await beforeActivities(ctx, 'product.inventory.adjust', data);
+
+      const result = await adjustPriceInventory(strapi, {
+        productDocumentId: product.documentId,
+        storeDocumentId: access.store.documentId,
+        stripePriceId,
+        set: data.set,
+        change: data.change,
+        reason: data.reason === 'import' ? 'import' : 'adjustment',
+        note: data.note,
+        actorId: user.id,
+        source: 'tienda',
+      });
+
+      if (!result.ok) {
+        if (result.code === 'locked') return ctx.conflict(result.error);
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'product.inventory.adjust', { result });
+
+      return ctx.send({ ok: true, price: result.price });
+    } catch (error: any) {
+      console.error('[TIENDA_PRODUCT_INVENTORY_ADJUST] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * GET /api/tienda/stores/:ref/orders/:orderId/shipments
+   * Shipments of an order and the quantities still to ship per Details line.
+   */
+  async listOrderShipments(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const orderId = String(ctx.params?.orderId || '').trim();
+    if (!ref || !orderId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'orders.read')) return;
+
+      const order = await strapi.documents('api::order.order').findOne({
+        documentId: orderId,
+        populate: ['store', 'Details'],
+      }) as any;
+
+      if (!order || order.store?.documentId !== access.store.documentId) {
+        return ctx.notFound('Order not found');
+      }
+
+      const result = await listOrderShipments(strapi, order);
+
+      return ctx.send({ ok: true, order: { documentId: order.documentId, Status: order.Status }, ...result });
+    } catch (error: any) {
+      console.error('[TIENDA_ORDER_SHIPMENTS] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/orders/:orderId/shipments
+   * Ship a paid order, fully or partially.
+   * Body: { items?: [{ detail_index, quantity? }] (defaults to every unshipped line), carrier?, tracking_code?,
+   *         tracking_link? (derived for known carriers), shipment_status? (default shipped), estimated_delivery_date?,
+   *         shipping_cost?, notify? (default true) }
+   */
+  async createOrderShipment(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const orderId = String(ctx.params?.orderId || '').trim();
+    if (!ref || !orderId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'orders.manage')) return;
+
+      await beforeActivities(ctx, 'order.shipment.create', { orderId, ...data });
+
+      const result = await createOrderShipment(strapi, {
+        orderDocumentId: orderId,
+        store: access.store,
+        userId: user.id,
+        input: data,
+      });
+
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked' || result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'order.shipment.create', { result });
+
+      return ctx.send({ ok: true, shipment: result.shipment, order: result.order, notified: result.notified });
+    } catch (error: any) {
+      console.error('[TIENDA_ORDER_SHIPMENT_CREATE] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * PUT /api/tienda/stores/:ref/orders/:orderId/shipments/:shipmentId
+   * Update shipment status or tracking. The buyer is emailed when either changes.
+   * Body: { shipment_status?, carrier?, tracking_code?, tracking_link?, estimated_delivery_date?, shipping_cost?, notify? }
+   */
+  async updateOrderShipment(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const orderId = String(ctx.params?.orderId || '').trim();
+    const shipmentId = String(ctx.params?.shipmentId || '').trim();
+    if (!ref || !orderId || !shipmentId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'orders.manage')) return;
+
+      await beforeActivities(ctx, 'order.shipment.update', { orderId, shipmentId, ...data });
+
+      const result = await updateOrderShipment(strapi, {
+        orderDocumentId: orderId,
+        shipmentDocumentId: shipmentId,
+        store: access.store,
+        userId: user.id,
+        input: data,
+      });
+
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked' || result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'order.shipment.update', { result });
+
+      return ctx.send({ ok: true, shipment: result.shipment, order: result.order, notified: result.notified });
+    } catch (error: any) {
+      console.error('[TIENDA_ORDER_SHIPMENT_UPDATE] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * GET /api/tienda/stores/:ref/webhooks/deliveries
+   * Outbound webhook deliveries of the store, newest first, with the log of every attempt.
+   * Query: status (pending | retrying | delivered | failed), event, page, pageSize
+   */
+  async listWebhookDeliveries(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const page = Math.max(1, parseInt(String(ctx.query?.page || '1'), 10) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(String(ctx.query?.pageSize || '25'), 10) || 25));
+    const status = String(ctx.query?.status || '').trim();
+
+    if (status && !['pending', 'retrying', 'delivered', 'failed'].includes(status)) {
+      return ctx.badRequest('status must be one of: pending, retrying, delivered, failed');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
+
+      const { items, total } = await listWebhookDeliveries(strapi, access.store.documentId, {
+        status,
+        event: String(ctx.query?.event || '').trim(),
+        page,
+        pageSize,
+      });
+
+      return ctx.send({
+        ok: true,
+        data: items,
+        meta: { pagination: { page, pageSize, total, pageCount: Math.ceil(total / pageSize) } },
+      });
+    } catch (error: any) {
+      console.error('[TIENDA_WEBHOOK_DELIVERIES] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/webhooks/deliveries/:deliveryId/redeliver
+   * Send a stored delivery again (same payload and event id) as a new single-attempt delivery.
+   */
+  async redeliverWebhook(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const deliveryId = String(ctx.params?.deliveryId || '').trim();
+    if (!ref || !deliveryId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
+
+      const delivery = await findWebhookDelivery(strapi, access.store.documentId, deliveryId);
+      if (!delivery) {
+        return ctx.notFound('Webhook delivery not found');
+      }
+
+      await beforeActivities(ctx, 'webhook.redeliver', { deliveryId });
+
+      const result = await redeliverWebhook(strapi, delivery);
+      if (result.ok === false) {
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'webhook.redeliver', { result });
+
+      return ctx.send({ ok: true, delivery: result.delivery });
+    } catch (error: any) {
+      console.error('[TIENDA_WEBHOOK_REDELIVER] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/extensions/odoo/sync
+   * Run the Odoo sync now, ignoring config.sync_interval
+   */
+  async syncOdoo(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'settings.manage')) return;
+
+      await beforeActivities(ctx, 'extension.odoo.sync', { storeDocumentId: access.store.documentId });
+
+      const result = await runStoreOdooSync(strapi, access.store.documentId, { force: true });
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'extension.odoo.sync', { summary: result.summary });
+
+      return ctx.send({ ok: true, summary: result.summary });
+    } catch (error: any) {
+      console.error('[TIENDA_ODOO_SYNC] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/extensions/shopify/imports
+   * Queue a Shopify import. Body: { kind?: 'products' | 'inventory' } (default products)
+   */
+  async createShopifyImport(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+    const kind = String(data?.kind || 'products').trim();
+    if (!['products', 'inventory'].includes(kind)) {
+      return ctx.badRequest('kind must be one of: products, inventory');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'content.manage')) return;
+
+      await beforeActivities(ctx, 'extension.shopify.import', { storeDocumentId: access.store.documentId, kind });
+
+      const result = await createShopifyImport(strapi, {
+        storeDocumentId: access.store.documentId,
+        kind: kind as 'products' | 'inventory',
+        requestedBy: user.email || String(user.id),
+      });
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'extension.shopify.import', { import: result.data });
+
+      return ctx.send({ ok: true, data: result.data });
+    } catch (error: any) {
+      console.error('[TIENDA_SHOPIFY_IMPORT] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * GET /api/tienda/stores/:ref/extensions/shopify/imports
+   * Import reports newest first. Query: kind, page, pageSize
+   */
+  async listShopifyImports(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const page = Math.max(1, parseInt(String(ctx.query?.page || '1'), 10) || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(String(ctx.query?.pageSize || '25'), 10) || 25));
+    const kind = String(ctx.query?.kind || '').trim();
+
+    if (kind && !['products', 'inventory'].includes(kind)) {
+      return ctx.badRequest('kind must be one of: products, inventory');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'content.read')) return;
+
+      const { items, total } = await listShopifyImports(strapi, access.store.documentId, { kind, page, pageSize });
+
+      return ctx.send({
+        ok: true,
+        data: items,
+        meta: { pagination: { page, pageSize, total, pageCount: Math.ceil(total / pageSize) } },
+      });
+    } catch (error: any) {
+      console.error('[TIENDA_SHOPIFY_IMPORTS] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * GET /api/tienda/stores/:ref/extensions/shopify/imports/:importId
+   * One import report with its per-item errors
+   */
+  async shopifyImport(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const importId = String(ctx.params?.importId || '').trim();
+    if (!ref || !importId) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'content.read')) return;
+
+      const data = await getShopifyImport(strapi, access.store.documentId, importId);
+      if (!data) {
+        return ctx.notFound('Import not found');
+      }
+
+      return ctx.send({ ok: true, data });
+    } catch (error: any) {
+      console.error('[TIENDA_SHOPIFY_IMPORT] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * PUT /api/tienda/stores/:ref/members/:userId
+   * Change a member's role. Body: { role: 'owner' | 'manager' | 'editor' | 'viewer' }
+   */
+  async updateMemberRole(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const memberUserId = Number(ctx.params?.userId);
+    if (!ref || !Number.isInteger(memberUserId) || memberUserId <= 0) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'members.manage')) return;
+
+      await beforeActivities(ctx, 'member.role.update', { memberUserId, ...data });
+
+      const result = await changeMemberRole(strapi, {
+        storeDocumentId: access.store.documentId,
+        actor: user,
+        userId: memberUserId,
+        role: String(data.role || '').trim(),
+      });
+
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked' || result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'member.role.update', { result });
+
+      return ctx.send({ ok: true, member: result });
+    } catch (error: any) {
+      console.error('[TIENDA_MEMBER_ROLE] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * DELETE /api/tienda/stores/:ref/members/:userId
+   * Deactivate a membership and remove the user's legacy store access.
+   */
+  async removeMember(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    const memberUserId = Number(ctx.params?.userId);
+    if (!ref || !Number.isInteger(memberUserId) || memberUserId <= 0) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'members.manage')) return;
+
+      await beforeActivities(ctx, 'member.remove', { memberUserId });
+
+      const result = await removeMember(strapi, {
+        storeDocumentId: access.store.documentId,
+        actor: user,
+        userId: memberUserId,
+      });
+
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked' || result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'member.remove', { result });
+
+      return ctx.send({ ok: true, member: result });
+    } catch (error: any) {
+      console.error('[TIENDA_MEMBER_REMOVE] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/members/transfer-ownership
+   * Hand the store to another active member. Only the current owner (or a Strapi admin user) can transfer.
+   * Body: { user_id, demote_to?: role kept by the previous owner (default manager) }
+   */
+  async transferOwnership(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+    const toUserId = Number(data.user_id);
+    if (!Number.isInteger(toUserId) || toUserId <= 0) {
+      return ctx.badRequest('user_id is required');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'members.manage')) return;
+
+      const currentOwnerId = Number(access.store.owner?.id) || null;
+      if (currentOwnerId && currentOwnerId !== Number(user.id) && !access.isAdmin) {
+        return ctx.forbidden('Only the store owner can transfer ownership');
+      }
+
+      await beforeActivities(ctx, 'member.ownership.transfer', { toUserId, ...data });
+
+      const result = await transferOwnership(strapi, {
+        storeDocumentId: access.store.documentId,
+        actor: user,
+        toUserId,
+        demoteTo: data.demote_to ? String(data.demote_to).trim() : undefined,
+      });
+
+      if (result.ok === false) {
+        if (result.code === 'not_found') return ctx.notFound(result.error);
+        if (result.code === 'locked' || result.code === 'conflict') return ctx.conflict(result.error);
+        return ctx.badRequest(result.error);
+      }
+
+      await afterActivities(ctx, 'member.ownership.transfer', { result });
+
+      return ctx.send({ ok: true, ownership: result });
+    } catch (error: any) {
+      console.error('[TIENDA_OWNERSHIP_TRANSFER] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
+
+  /**
+   * POST /api/tienda/stores/:ref/invites/revoke
+   * Expire the pending invite links sent to an email. Body: { email }
+   */
+  async revokeInvite(ctx: any) {
+    const user = requireUser(ctx);
+    if (!user) return;
+
+    const ref = String(ctx.params?.ref || '').trim();
+    if (!ref) return ctx.notFound(ERRORS.RESOURCE_UNAVAILABLE_MESSAGE);
+
+    const data = getRequestData(ctx);
+    const email = String(data.email || '').trim();
+    if (!email.includes('@')) {
+      return ctx.badRequest('A valid email address is required.');
+    }
+
+    try {
+      const access = await checkStoreAccess(strapi, user.id, ref);
+      if (!access?.store || !access?.hasAccess) {
+        return ctx.forbidden(ERRORS.STORE_NOT_FOUND);
+      }
+      if (!requireStorePermission(ctx, access, 'members.manage')) return;
+
+      const result = await revokeInvite(strapi, {
+        storeDocumentId: access.store.documentId,
+        actor: user,
+        email,
+      });
+
+      if (result.ok === false) {
+        return ctx.notFound(result.error);
+      }
+
+      return ctx.send({ ok: true, revoked: result.revoked });
+    } catch (error: any) {
+      console.error('[TIENDA_INVITE_REVOKE] Failed:', error.message);
+      return ctx.internalServerError('Request failed');
+    }
+  },
 };
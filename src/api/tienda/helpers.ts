@@ -203,6 +203,10 @@ export function verifyItemBelongsToStore(
  * Non-destructive: only fills empty fields
  */
 export async function autoFillSEO(data: any, config: ContentTypeConfig): Promise<any> {
+  if (config.autoFillSeo === false) {
+    return data;
+  }
+
   const hasSEOInput = Object.prototype.hasOwnProperty.call(data, 'SEO');
   const hasTitleInput = Object.prototype.hasOwnProperty.call(data, config.titleField);
   const hasContentInput = Boolean(config.contentField)
@@ -325,7 +329,7 @@ export function validateSeoFieldLengths(data: any): string | null {
 }
 
 export function ensureGeneratedSlug(data: any, config: ContentTypeConfig, existingItem?: any): any {
-  if (!data || typeof data !== 'object') {
+  if (!data || typeof data !== 'object' || config.autoFillSeo === false) {
     return data;
   }
 
@@ -202,6 +202,150 @@ export default {
         middlewares: [],
       },
     },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/orders/:orderId/refund',
+      handler: 'tienda.refundOrder',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/tienda/stores/:ref/orders/:orderId/shipments',
+      handler: 'tienda.listOrderShipments',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/orders/:orderId/shipments',
+      handler: 'tienda.createOrderShipment',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/tienda/stores/:ref/orders/:orderId/shipments/:shipmentId',
+      handler: 'tienda.updateOrderShipment',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/tienda/stores/:ref/products/:productId/inventory',
+      handler: 'tienda.productInventory',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/products/:productId/inventory',
+      handler: 'tienda.adjustProductInventory',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/tienda/stores/:ref/webhooks/deliveries',
+      handler: 'tienda.listWebhookDeliveries',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/webhooks/deliveries/:deliveryId/redeliver',
+      handler: 'tienda.redeliverWebhook',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/extensions/odoo/sync',
+      handler: 'tienda.syncOdoo',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/extensions/shopify/imports',
+      handler: 'tienda.createShopifyImport',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/tienda/stores/:ref/extensions/shopify/imports',
+      handler: 'tienda.listShopifyImports',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'GET',
+      path: '/tienda/stores/:ref/extensions/shopify/imports/:importId',
+      handler: 'tienda.shopifyImport',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/tienda/stores/:ref/members/:userId',
+      handler: 'tienda.updateMemberRole',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'DELETE',
+      path: '/tienda/stores/:ref/members/:userId',
+      handler: 'tienda.removeMember',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/members/transfer-ownership',
+      handler: 'tienda.transferOwnership',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/tienda/stores/:ref/invites/revoke',
+      handler: 'tienda.revokeInvite',
+      config: {
+        policies: [],
+        middlewares: [],
+      },
+    },
     {
       method: 'GET',
       path: '/tienda/:ref',
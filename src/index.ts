@@ -2,6 +2,16 @@ import { registerMiddleware } from './middlewares/encrypt-extensions';
 import { registerMiddleware as registerPriceInventoryChanges } from './middlewares/price-inventory-changes';
 import { registerEventReminderMiddleware, sendDueEventReminders } from './middlewares/event-reminders';
 import { registerStoreVisibilityMiddleware } from './middlewares/store-visibility';
+import { registerAutoSubscribeMiddleware } from './middlewares/auto-subscribe';
+import { registerStoreWebhooksMiddleware } from './middlewares/store-webhooks';
+import { sendDueNewsletters } from './services/newsletter-scheduler';
+import { sendDueListWelcomeEmails } from './services/list-welcome-email';
+import { recomputeAllListStats } from './services/list-health';
+import { processQueuedSubscriberImports } from './services/subscriber-import';
+import { releaseExpiredReservations } from './services/inventory-reservation';
+import { processDueWebhookDeliveries } from './services/store-webhooks';
+import { runOdooSync } from './services/odoo-sync';
+import { processShopifySync } from './services/shopify-import';
 
 export default {
   register(/*{ strapi }*/) {
@@ -20,8 +30,17 @@ export default {
     registerPriceInventoryChanges({ strapi });
     registerEventReminderMiddleware({ strapi });
     registerStoreVisibilityMiddleware({ strapi });
+    registerAutoSubscribeMiddleware({ strapi });
+    registerStoreWebhooksMiddleware({ strapi });
 
     strapi.cron.add({
+      '* * * * *': async () => {
+        try {
+          await processDueWebhookDeliveries(strapi);
+        } catch (err: any) {
+          console.error('[STORE_WEBHOOKS_CRON] Unexpected error:', err.message);
+        }
+      },
       '*/15 * * * *': async () => {
         try {
           await sendDueEventReminders(strapi);
@@ -29,6 +48,50 @@ export default {
           console.error('[EVENT_REMINDER_CRON] Unexpected error:', err.message);
         }
       },
+      '*/5 * * * *': async () => {
+        try {
+          await sendDueNewsletters(strapi);
+        } catch (err: any) {
+          console.error('[NEWSLETTER_CRON] Unexpected error:', err.message);
+        }
+
+        try {
+          await sendDueListWelcomeEmails(strapi);
+        } catch (err: any) {
+          console.error('[LIST_WELCOME_CRON] Unexpected error:', err.message);
+        }
+
+        try {
+          await processQueuedSubscriberImports(strapi);
+        } catch (err: any) {
+          console.error('[SUBSCRIBER_IMPORT_CRON] Unexpected error:', err.message);
+        }
+
+        try {
+          await releaseExpiredReservations(strapi);
+        } catch (err: any) {
+          console.error('[INVENTORY_RESERVATION_CRON] Unexpected error:', err.message);
+        }
+
+        try {
+          await runOdooSync(strapi);
+        } catch (err: any) {
+          console.error('[ODOO_SYNC_CRON] Unexpected error:', err.message);
+        }
+
+        try {
+          await processShopifySync(strapi);
+        } catch (err: any) {
+          console.error('[SHOPIFY_SYNC_CRON] Unexpected error:', err.message);
+        }
+      },
+      '30 */6 * * *': async () => {
+        try {
+          await recomputeAllListStats(strapi);
+        } catch (err: any) {
+          console.error('[LIST_HEALTH_CRON] Unexpected error:', err.message);
+        }
+      },
     });
   },
 };
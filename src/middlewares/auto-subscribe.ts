@@ -0,0 +1,93 @@
+/**
+ * Auto-subscribe document middleware.
+ *
+ * Evaluates subscriber-list.auto_subscribe_rules (see src/services/list-auto-subscribe.ts) when:
+ * - an order write sets Status and the order is now paid
+ * - an RSVP write sets approved = true
+ * - a form response is created
+ *
+ * Work runs after the response in setImmediate; membership upserts are idempotent,
+ * so repeated writes (locales, retries) do not duplicate anything.
+ */
+
+import {
+  applyAutoSubscribeRules,
+  factFromFormResponse,
+  factFromOrder,
+  factFromRsvp,
+  type AutoSubscribeFact,
+} from '../services/list-auto-subscribe';
+
+const ORDER_UID = 'api::order.order';
+const RSVP_UID = 'api::rsvp.rsvp';
+const FORM_RESPONSE_UID = 'api::forms.form-response';
+
+async function loadFact(strapi: any, uid: string, documentId: string): Promise<AutoSubscribeFact | null> {
+  if (uid === ORDER_UID) {
+    const order = await strapi.documents(ORDER_UID).findOne({
+      documentId,
+      populate: ['Details', 'Details.product', 'Shipping_Address', 'buyer', 'store'],
+    });
+    return order?.Status === 'paid' ? factFromOrder(order) : null;
+  }
+
+  if (uid === RSVP_UID) {
+    const rsvp = await strapi.documents(RSVP_UID).findOne({
+      documentId,
+      populate: ['event', 'event.stores', 'store'],
+    });
+    return rsvp?.approved === true ? factFromRsvp(rsvp) : null;
+  }
+
+  const formResponse = await strapi.documents(FORM_RESPONSE_UID).findOne({
+    documentId,
+    populate: ['form', 'store'],
+  });
+  return factFromFormResponse(formResponse);
+}
+
+function shouldEvaluate(context: any): boolean {
+  const data = context?.params?.data || {};
+
+  if (context.uid === ORDER_UID) {
+    return ['create', 'update'].includes(context.action) && data.Status === 'paid';
+  }
+
+  if (context.uid === RSVP_UID) {
+    return ['create', 'update'].includes(context.action) && data.approved === true;
+  }
+
+  return context.uid === FORM_RESPONSE_UID && context.action === 'create';
+}
+
+export function registerAutoSubscribeMiddleware({ strapi }: { strapi: any }): void {
+  console.log('[auto-subscribe]:register');
+
+  strapi.documents.use(async (context: any, next: any) => {
+    const result = await next();
+
+    if (![ORDER_UID, RSVP_UID, FORM_RESPONSE_UID].includes(context.uid) || !shouldEvaluate(context)) {
+      return result;
+    }
+
+    const documentId = result?.documentId || context?.params?.documentId;
+    if (!documentId) {
+      return result;
+    }
+
+    setImmediate(async () => {
+      try {
+        const fact = await loadFact(strapi, context.uid, documentId);
+        if (!fact) {
+          return;
+        }
+
+        await applyAutoSubscribeRules(strapi, fact);
+      } catch (err: any) {
+        console.error('[AUTO_SUBSCRIBE] evaluation failed', { uid: context.uid, documentId, error: err.message });
+      }
+    });
+
+    return result;
+  });
+}
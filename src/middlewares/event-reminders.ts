@@ -14,6 +14,7 @@
  */
 
 import { EventReminderEmailHtml } from '../api/markket/services/notification/email.template';
+import { resolveMailSender, resolveMailTransport, type MailAddress, type MailTransport } from '../services/mail-transport';
 
 const EVENT_UID = 'api::event.event';
 const REMINDER_UID = 'api::event-reminder.event-reminder';
@@ -36,34 +37,6 @@ async function runWithEventLock(key: string, work: () => Promise<void>): Promise
   }
 }
 
-/** Resolve a SendGrid API key from store extensions or the platform env. */
-async function resolveSendGridApiKey(strapi: any, storeDocumentId: string): Promise<string | null> {
-  if (process.env.SENDGRID_API_KEY) {
-    return process.env.SENDGRID_API_KEY;
-  }
-
-  try {
-    const store = await (strapi.documents as any)('api::store.store').findOne({
-      documentId: storeDocumentId,
-      populate: ['extensions'],
-    });
-
-    const sgExt = (store?.extensions || []).find(
-      (e: any) => e?.active && typeof e?.credentials?.api_key === 'string' && String(e?.key || '').includes('sendgrid')
-    );
-
-    if (sgExt?.credentials?.api_key) {
-      const { decryptCredentials } = await import('../services/encryption');
-      const creds = decryptCredentials(sgExt.credentials);
-      return creds?.api_key || null;
-    }
-  } catch (err: any) {
-    console.warn('[EVENT_REMINDER] credential resolution failed:', err.message);
-  }
-
-  return null;
-}
-
 /** Compute the reminder datetime: startDate minus REMINDER_HOURS_BEFORE hours. */
 function computeScheduledFor(startDate: string | null | undefined): Date | null {
   if (!startDate) return null;
@@ -207,7 +180,8 @@ async function cancelEventReminders(strapi: any, eventDocumentId: string): Promi
 
 /** Send reminder email to a single RSVP attendee. */
 async function sendReminderEmail(
-  apiKey: string,
+  transport: MailTransport,
+  sender: { from: MailAddress; replyTo?: string },
   rsvp: any,
   event: any,
   store: any
@@ -218,30 +192,8 @@ async function sendReminderEmail(
   const html = EventReminderEmailHtml({ event, store });
   const subject = `Reminder: ${event?.Name || 'Your event'} is tomorrow`;
 
-  const fromEmail = store?.settings?.from_email || process.env.SENDGRID_FROM_EMAIL || 'no-reply@markket.place';
-  const fromName = store?.title || 'Markkët';
-
   try {
-    const res = await fetch('https://api.sendgrid.com/v3/mail/send', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        personalizations: [{ to: [{ email: toEmail }] }],
-        from: { email: fromEmail, name: fromName },
-        subject,
-        content: [{ type: 'text/html', value: html }],
-      }),
-    });
-
-    if (!res.ok) {
-      const body = await res.text().catch(() => '');
-      return { success: false, error: `SendGrid ${res.status}: ${body.slice(0, 200)}` };
-    }
-
-    return { success: true };
+    return await transport.send({ to: toEmail, from: sender.from, replyTo: sender.replyTo, subject, html });
   } catch (err: any) {
     return { success: false, error: err.message };
   }
@@ -305,14 +257,14 @@ export async function sendDueEventReminders(strapi: any): Promise<void> {
       }
 
       const storeDocumentId = store?.documentId || event?.stores?.[0]?.documentId || null;
-      const apiKey = storeDocumentId ? await resolveSendGridApiKey(strapi, storeDocumentId) : null;
+      const transport = await resolveMailTransport(strapi, storeDocumentId);
 
-      if (!apiKey) {
+      if (!transport) {
         await reminders.update({
           documentId: reminder.documentId,
-          data: { status: 'failed', error: 'no SendGrid API key', sent_at: now.toISOString() },
+          data: { status: 'failed', error: 'no mail transport configured', sent_at: now.toISOString() },
         });
-        console.warn('[EVENT_REMINDER_CRON] No API key for reminder', { reminderId: reminder.documentId });
+        console.warn('[EVENT_REMINDER_CRON] No mail transport for reminder', { reminderId: reminder.documentId });
         continue;
       }
 
@@ -341,11 +293,12 @@ export async function sendDueEventReminders(strapi: any): Promise<void> {
         console.error('[EVENT_REMINDER_CRON] Failed to fetch RSVPs:', err.message);
       }
 
+      const sender = await resolveMailSender(strapi, storeDocumentId, fullStore);
       let sent = 0;
       let failed = 0;
 
       for (const rsvp of rsvps) {
-        const result = await sendReminderEmail(apiKey, rsvp, event, fullStore);
+        const result = await sendReminderEmail(transport, sender, rsvp, event, fullStore);
         if (result.success) {
           sent++;
         } else {
@@ -4,12 +4,26 @@
  * When an order turns paid, we run a few base operations and potentially others from the extensions
  * Inventory is only decremented when Status transitions to 'paid'
  * Additionally, this middleware logs all inventory changes for auditing
+ * The PRICES / amountSold adjustment lives in src/services/order-inventory.ts (refunds restock with it)
+ * A discount code on the order (extra.discount) is counted as used once, see src/services/discount-codes.ts
+ * Paid work runs under the job lock `order-paid:<documentId>` and re-reads extra before each flag check and write
  *
  * @TODO: review additional operations that affect inventory
  *
  * @param strapi
  */
 import { ensureOrderInboxThreadRecord } from '../api/inbox/services/sendgrid-inbox';
+import { applyOrderInventory } from '../services/order-inventory';
+import { consumeOrderReservations } from '../services/inventory-reservation';
+import { redeemOrderDiscount } from '../services/discount-codes';
+import { withJobLock } from '../services/job-lock';
+
+const PAID_LOCK_TTL_MS = 5 * 60 * 1000;
+
+async function readOrderExtra(strapi: any, documentId: string): Promise<Record<string, any>> {
+  const order = await strapi.documents('api::order.order').findOne({ documentId, fields: ['extra'] });
+  return { ...(order?.extra || {}) };
+}
 
 export function registerMiddleware({ strapi }: { strapi: any }) {
   console.log('[order.middleware]:register');
@@ -78,219 +92,102 @@ export function registerMiddleware({ strapi }: { strapi: any }) {
 
             // Act when order is currently paid and it has not been processed (idempotent)
             // This avoids relying on context.previous which can be undefined.
-            const currentExtra = {
-              ...((orderWithDetails && orderWithDetails.extra) || (result && result.extra) || {}),
-            };
-
-            if (newStatus === 'paid' && !currentExtra?.order_inbox_thread_created) {
-              try {
-                const orderForInbox = orderWithDetails || result;
-                const threadResult = await ensureOrderInboxThreadRecord({ strapi, order: orderForInbox });
+            // Our own extra writes re-enter this middleware, so paid work runs under the order lock and every
+            // step re-reads extra: a run that finds the lock taken leaves the work to the run holding it.
+            if (newStatus === 'paid') {
+              const run = await withJobLock(strapi, `order-paid:${ctx.documentId}`, PAID_LOCK_TTL_MS, async () => {
+                if (!(await readOrderExtra(strapi, ctx.documentId)).order_inbox_thread_created) {
+                  try {
+                    const orderForInbox = orderWithDetails || result;
+                    const threadResult = await ensureOrderInboxThreadRecord({ strapi, order: orderForInbox });
+
+                    if (threadResult?.created) {
+                      await strapi.documents('api::order.order').update({
+                        documentId: ctx.documentId,
+                        data: {
+                          extra: {
+                            ...(await readOrderExtra(strapi, ctx.documentId)),
+                            order_inbox_thread_created: true,
+                            order_inbox_thread_created_at: new Date().toISOString(),
+                            ...(threadResult.threadKey ? { order_inbox_thread_key: threadResult.threadKey } : {}),
+                          },
+                        },
+                      });
 
-                if (threadResult?.created) {
-                  currentExtra.order_inbox_thread_created = true;
-                  currentExtra.order_inbox_thread_created_at = new Date().toISOString();
-                  if (threadResult.threadKey) {
-                    currentExtra.order_inbox_thread_key = threadResult.threadKey;
+                      console.log('[order.middleware][async]:info:[order_inbox_thread.created]', {
+                        orderId: ctx.documentId,
+                        threadKey: threadResult.threadKey,
+                        inboxId: threadResult.recordId,
+                      });
+                    }
+                  } catch (inboxErr) {
+                    console.warn('[order.middleware][async]:warn:[order_inbox_thread.failed]', {
+                      orderId: ctx.documentId,
+                      error: inboxErr?.message,
+                    });
                   }
-
-                  await strapi.documents('api::order.order').update({
-                    documentId: ctx.documentId,
-                    data: {
-                      extra: currentExtra,
-                    },
-                  });
-
-                  console.log('[order.middleware][async]:info:[order_inbox_thread.created]', {
-                    orderId: ctx.documentId,
-                    threadKey: threadResult.threadKey,
-                    inboxId: threadResult.recordId,
-                  });
                 }
-              } catch (inboxErr) {
-                console.warn('[order.middleware][async]:warn:[order_inbox_thread.failed]', {
-                  orderId: ctx.documentId,
-                  error: inboxErr?.message,
-                });
-              }
-            }
 
-            if (newStatus === 'paid' && !currentExtra?.inventory_decremented) {
-              console.log('[order.middleware][async]:info:[trigger]', {
-                orderId: ctx.documentId,
-                reason: 'paid_and_not_processed',
-                prevStatus,
-                newStatus
-              });
-            // continue processing...
-
-              const productSoldMap: Record<string, number> = {};
-              const pricesToUpdate: Record<string, any[]> = {};
-
-              for (const item of details) {
-                let productId: string | undefined;
-                if (item.product && typeof item.product === 'object' && item.product.documentId) {
-                  productId = item.product.documentId;
+                const discount = (await readOrderExtra(strapi, ctx.documentId)).discount;
+                if (discount && !discount.redeemed) {
+                  try {
+                    // Persisted by redeemOrderDiscount under its own order-scoped lock
+                    const redemption = await redeemOrderDiscount(strapi, ctx.documentId);
+                    if (redemption?.counted) {
+                      console.log('[order.middleware][async]:info:[discount.redeemed]', { orderId: ctx.documentId, code: redemption.record.code });
+                    }
+                  } catch (discountErr) {
+                    console.warn('[order.middleware][async]:warn:[discount.redeem_failed]', { orderId: ctx.documentId, error: discountErr?.message });
+                  }
                 }
 
-                if (!productId || !item.product) {
-                  console.warn('[order.middleware][async]:warn:[detail.missing_product]', { item });
-                  continue;
+                if ((await readOrderExtra(strapi, ctx.documentId)).inventory_decremented) {
+                  return;
                 }
 
-                // collect items per product, do not increment productSoldMap yet
-                if (!pricesToUpdate[productId]) pricesToUpdate[productId] = [];
-                pricesToUpdate[productId].push(item);
-              }
-
-              // Batch update PRICES per product
-              for (const [productId, items] of Object.entries(pricesToUpdate)) {
-                try {
-                  const product = await strapi.documents('api::product.product').findOne({
-                    documentId: productId,
-                    populate: ['PRICES']
-                  });
-
-                  if (!product || !Array.isArray(product.PRICES)) {
-                    console.warn('[order.middleware][async]:warn:[product.missing_prices]', { productId });
-                    continue;
-                  }
-
-                  const updatedPrices = [...product.PRICES];
-                  let changed = false;
-
-                  for (const item of items) {
-                    const qty = item.Quantity || 1;
-
-                    // match by STRIPE_ID on the PRICES component
-                    const matchedPriceIndex = updatedPrices.findIndex((p: any) => p.STRIPE_ID === item.Stripe_price_id);
-
-                    if (matchedPriceIndex === -1) {
-                      console.warn('[order.middleware][async]:warn:[price.not_found]', { productId, itemStripePriceId: item.Stripe_price_id, itemName: item.Name });
-                      continue;
-                    }
-
-                    const matchedPrice = updatedPrices[matchedPriceIndex];
-                    if (typeof matchedPrice.inventory === 'number') {
-                      const newInventory = matchedPrice.inventory - qty;
-                      updatedPrices[matchedPriceIndex] = { ...matchedPrice, inventory: newInventory };
-                      changed = true;
-
-                      // Only increment amount to be recorded later when the matched price was processed
-                      productSoldMap[productId] = (productSoldMap[productId] || 0) + qty;
-
-                      if (newInventory <= 1) {
-                        console.warn('[order.middleware][async]:warn:[inventory.low]', { productId, matchedPriceIndex, newInventory });
-                      }
-                    } else {
-                      // If inventory is not tracked, do NOT increment amountSold here
-                      // (only count soldQty for items with matching price AND numeric inventory)
-                    }
-                  }
-
-                  if (changed) {
-                    try {
-                      const updateResp = await strapi.documents('api::product.product').update({
-                        documentId: productId,
-                        data: { PRICES: updatedPrices }
-                      });
-                      console.log('[order.middleware][async]:info:[prices.update_response]', {
-                        productId,
-                        updatedDocumentId: updateResp?.documentId || updateResp?.id
-                      });
+                console.log('[order.middleware][async]:info:[trigger]', {
+                  orderId: ctx.documentId,
+                  reason: 'paid_and_not_processed',
+                  prevStatus,
+                  newStatus
+                });
 
-                      try {
-                        await strapi.documents('api::product.product').publish({ documentId: productId });
-                        console.log('[order.middleware][async]:info:[prices.published]', { productId });
-                      } catch (pubErr) {
-                        console.warn('[order.middleware][async]:warn:[prices.publish_failed]', { productId, error: pubErr?.message });
-                      }
+                const { processedAny } = await applyOrderInventory(strapi, details, 'decrement', {
+                  logTag: '[order.middleware][async]',
+                  orderDocumentId: ctx.documentId,
+                });
 
-                      // VERIFY and mark processedAny if persisted
-                      try {
-                        const verify = await strapi.documents('api::product.product').findOne({
-                          documentId: productId,
-                          populate: ['PRICES']
-                        });
-                        console.log('[order.middleware][async]:info:[prices.verify]', {
-                          productId,
-                          persistedPricesCount: Array.isArray(verify?.PRICES) ? verify.PRICES.length : 0,
-                          persistedSample: Array.isArray(verify?.PRICES) ? verify.PRICES.slice(0, 3).map((p: any) => ({ STRIPE_ID: p.STRIPE_ID, inventory: p.inventory })) : []
-                        });
-                        // mark that we persisted something (used later to decide idempotency mark)
-                        (ctx as any)._processedAny = true;
-                      } catch (vErr) {
-                        console.warn('[order.middleware][async]:warn:[prices.verify_failed]', { productId, error: vErr?.message });
-                      }
-                    } catch (updateErr) {
-                      console.error('[order.middleware][async]:error:[prices.update_failed]', { productId, error: updateErr?.message });
-                    }
-                  }
-                } catch (err) {
-                  console.error('[order.middleware][async]:error:[prices.processing]', { productId: (productId as string), error: err?.message });
+                // Checkout holds are now covered by the real decrement
+                try {
+                  await consumeOrderReservations(strapi, ctx.documentId);
+                } catch (holdErr) {
+                  console.warn('[order.middleware][async]:warn:[reservations.consume_failed]', { orderId: ctx.documentId, error: holdErr?.message });
                 }
-              }
 
-              // Update amountSold for each product only based on matched+processed price items
-              for (const [productId, soldQty] of Object.entries(productSoldMap)) {
+                // Mark order as processed to avoid duplicate decrements (only if we actually changed/persisted something)
                 try {
-                  // read -> compute -> write
-                  const prod = await strapi.documents('api::product.product').findOne({ documentId: productId });
-                  const prev = prod && typeof prod.amountSold === 'number' ? prod.amountSold : 0;
-                  const next = prev + soldQty;
-
-                  const updateAmountResp = await strapi.documents('api::product.product').update({
-                    documentId: productId,
-                    data: { amountSold: next }
-                  });
-                  console.log('[order.middleware][async]:info:[amountSold.update_response]', {
-                    productId,
-                    updatedDocumentId: updateAmountResp?.documentId || updateAmountResp?.id
-                  });
-
-                  try {
-                    await strapi.documents('api::product.product').publish({ documentId: productId });
-                    console.log('[order.middleware][async]:info:[amountSold.published]', { productId });
-                  } catch (pubErr) {
-                    console.warn('[order.middleware][async]:warn:[amountSold.publish_failed]', { productId, error: pubErr?.message });
-                  }
-
-                  // VERIFY persisted value
-                  try {
-                    const verifyProd = await strapi.documents('api::product.product').findOne({ documentId: productId });
-                    console.log('[order.middleware][async]:info:[amountSold.verify]', {
-                      productId,
-                      persistedAmountSold: verifyProd?.amountSold
+                  if (processedAny) {
+                    await strapi.documents('api::order.order').update({
+                      documentId: ctx.documentId,
+                      data: {
+                        extra: {
+                          ...(await readOrderExtra(strapi, ctx.documentId)),
+                          inventory_decremented: true,
+                          inventory_decremented_at: new Date().toISOString()
+                        }
+                      }
                     });
-                    (ctx as any)._processedAny = true;
-                  } catch (vErr) {
-                    console.warn('[order.middleware][async]:warn:[amountSold.verify_failed]', { productId, error: vErr?.message });
+                    console.log('[order.middleware][async]:info:[idempotency.marked]', { orderId: ctx.documentId });
+                  } else {
+                    console.log('[order.middleware][async]:info:[idempotency.not_marked_no_changes]', { orderId: ctx.documentId });
                   }
-                } catch (err) {
-                  console.error('[order.middleware][async]:error:[amountSold.processing]', { productId: (productId as string), error: err?.message });
+                } catch (markErr) {
+                  console.warn('[order.middleware][async]:warn:[idempotency.mark_failed]', { orderId: ctx.documentId, error: markErr?.message });
                 }
-              }
+              });
 
-              // Mark order as processed to avoid duplicate decrements (only if we actually changed/persisted something)
-              try {
-                const processedAny = !!(ctx as any)._processedAny;
-                if (processedAny) {
-                  await strapi.documents('api::order.order').update({
-                    documentId: ctx.documentId,
-                    data: {
-                      extra: {
-                        ...(currentExtra || {}),
-                        inventory_decremented: true,
-                        inventory_decremented_at: new Date().toISOString()
-                      }
-                    }
-                  });
-                  console.log('[order.middleware][async]:info:[idempotency.marked]', { orderId: ctx.documentId });
-                } else {
-                  console.log('[order.middleware][async]:info:[idempotency.not_marked_no_changes]', { orderId: ctx.documentId });
-                }
-              } catch (markErr) {
-                console.warn('[order.middleware][async]:warn:[idempotency.mark_failed]', { orderId: ctx.documentId, error: markErr?.message });
+              if (!run.acquired) {
+                console.log('[order.middleware][async]:info:[paid.locked]', { orderId: ctx.documentId });
               }
             } // end transition check
 
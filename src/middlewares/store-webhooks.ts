@@ -0,0 +1,192 @@
+/**
+ * Store webhooks document middleware.
+ *
+ * Emits outbound store webhooks (src/services/store-webhooks.ts) when:
+ * - an order write sets Status and the order is now paid -> order.paid (once per order)
+ * - an RSVP is created -> rsvp.created (RSVP store, or the event's first store)
+ * - a subscriber is created -> subscriber.created (each of its stores)
+ * - a product is updated -> product.updated (each of its stores)
+ * - an inbox message that is not outgoing is created -> inbox.message.received
+ *
+ * order.refunded is emitted by recordOrderRefund (src/services/order-refund.ts).
+ * Work runs after the response in setImmediate; a failing webhook never fails the write.
+ */
+
+import { emitStoreEvent, type StoreWebhookEvent } from '../services/store-webhooks';
+
+const ORDER_UID = 'api::order.order';
+const RSVP_UID = 'api::rsvp.rsvp';
+const SUBSCRIBER_UID = 'api::subscriber.subscriber';
+const PRODUCT_UID = 'api::product.product';
+const INBOX_UID = 'api::inbox.inbox';
+
+interface StoreEmission {
+  storeDocumentIds: string[];
+  event: StoreWebhookEvent;
+  data: Record<string, any>;
+  dedupeKey?: string;
+}
+
+function shouldEmit(context: any): boolean {
+  const data = context?.params?.data || {};
+
+  switch (context.uid) {
+    case ORDER_UID:
+      return ['create', 'update'].includes(context.action) && data.Status === 'paid';
+    case RSVP_UID:
+    case SUBSCRIBER_UID:
+      return context.action === 'create';
+    case PRODUCT_UID:
+      return context.action === 'update';
+    case INBOX_UID:
+      return context.action === 'create' && data.Direction !== 'outgoing';
+    default:
+      return false;
+  }
+}
+
+function storeIds(stores: any): string[] {
+  return (Array.isArray(stores) ? stores : [])
+    .map((store: any) => store?.documentId)
+    .filter(Boolean);
+}
+
+async function loadEmission(strapi: any, uid: string, documentId: string): Promise<StoreEmission | null> {
+  if (uid === ORDER_UID) {
+    const order = await strapi.documents(ORDER_UID).findOne({
+      documentId,
+      populate: ['Details', 'Shipping_Address', 'store'],
+    });
+    if (order?.Status !== 'paid') return null;
+
+    return {
+      storeDocumentIds: storeIds([order.store]),
+      event: 'order.paid',
+      dedupeKey: order.documentId,
+      data: {
+        order: {
+          documentId: order.documentId,
+          uuid: order.uuid,
+          status: order.Status,
+          amount: order.Amount,
+          currency: order.Currency,
+          billing_type: order.billing_type || null,
+          email: order.Shipping_Address?.email || null,
+          details: order.Details || [],
+          shipping_address: order.Shipping_Address || null,
+        },
+      },
+    };
+  }
+
+  if (uid === RSVP_UID) {
+    const rsvp = await strapi.documents(RSVP_UID).findOne({
+      documentId,
+      populate: ['event', 'event.stores', 'store'],
+    });
+    if (!rsvp) return null;
+
+    return {
+      storeDocumentIds: storeIds([rsvp.store || rsvp.event?.stores?.[0]]),
+      event: 'rsvp.created',
+      dedupeKey: rsvp.documentId,
+      data: {
+        rsvp: { documentId: rsvp.documentId, name: rsvp.name, email: rsvp.email, approved: rsvp.approved },
+        event: rsvp.event ? { documentId: rsvp.event.documentId, name: rsvp.event.Name, slug: rsvp.event.slug } : null,
+      },
+    };
+  }
+
+  if (uid === SUBSCRIBER_UID) {
+    const subscriber = await strapi.documents(SUBSCRIBER_UID).findOne({ documentId, populate: ['stores'] });
+    if (!subscriber) return null;
+
+    return {
+      storeDocumentIds: storeIds(subscriber.stores),
+      event: 'subscriber.created',
+      dedupeKey: subscriber.documentId,
+      data: {
+        subscriber: { documentId: subscriber.documentId, email: subscriber.Email, active: subscriber.active },
+      },
+    };
+  }
+
+  if (uid === PRODUCT_UID) {
+    const product = await strapi.documents(PRODUCT_UID).findOne({ documentId, populate: ['stores', 'PRICES'] });
+    if (!product) return null;
+
+    return {
+      storeDocumentIds: storeIds(product.stores),
+      event: 'product.updated',
+      data: {
+        product: {
+          documentId: product.documentId,
+          name: product.Name,
+          slug: product.slug,
+          sku: product.SKU || null,
+          active: product.active,
+          quantity: product.quantity,
+          usd_price: product.usd_price,
+          prices: product.PRICES || [],
+        },
+      },
+    };
+  }
+
+  const message = await strapi.documents(INBOX_UID).findOne({ documentId, populate: ['store'] });
+  if (!message || message.Direction === 'outgoing') return null;
+
+  return {
+    storeDocumentIds: storeIds([message.store]),
+    event: 'inbox.message.received',
+    dedupeKey: message.documentId,
+    data: {
+      message: {
+        documentId: message.documentId,
+        name: message.Name,
+        email: message.email || message.FromAddress || null,
+        message: message.Message,
+        thread_key: message.ThreadKey || null,
+      },
+    },
+  };
+}
+
+export function registerStoreWebhooksMiddleware({ strapi }: { strapi: any }): void {
+  console.log('[store-webhooks]:register');
+
+  strapi.documents.use(async (context: any, next: any) => {
+    const result = await next();
+
+    if (![ORDER_UID, RSVP_UID, SUBSCRIBER_UID, PRODUCT_UID, INBOX_UID].includes(context.uid) || !shouldEmit(context)) {
+      return result;
+    }
+
+    const documentId = result?.documentId || context?.params?.documentId;
+    if (!documentId) {
+      return result;
+    }
+
+    setImmediate(async () => {
+      try {
+        const emission = await loadEmission(strapi, context.uid, documentId);
+        if (!emission) {
+          return;
+        }
+
+        for (const storeDocumentId of emission.storeDocumentIds) {
+          await emitStoreEvent(strapi, {
+            storeDocumentId,
+            event: emission.event,
+            data: emission.data,
+            dedupeKey: emission.dedupeKey,
+          });
+        }
+      } catch (err: any) {
+        console.error('[STORE_WEBHOOKS] emission failed', { uid: context.uid, documentId, error: err.message });
+      }
+    });
+
+    return result;
+  });
+}
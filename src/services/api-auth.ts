@@ -1,9 +1,65 @@
 /**
  * Shared API auth/access helpers for protected actor-scoped endpoints.
+ *
+ * Store roles (store-membership.role) map to permissions with STORE_ROLE_PERMISSIONS:
+ * - viewer: read-only (store, content, orders, inbox, CRM)
+ * - editor: + content (content types, media, product stock)
+ * - manager: + orders (refunds, shipments), inbox replies, CRM (lists, newsletters), store settings
+ * - owner: + members (invites) and payouts (Stripe Connect)
+ *
+ * The store `owner` relation and Strapi admin users are owners; legacy `store.users` without a
+ * membership are editors, like the members list in tienda. An inactive membership (removed member)
+ * blocks that legacy fallback.
  */
 
 const RESOURCE_UNAVAILABLE_MESSAGE = 'Resource unavailable';
 
+export const STORE_ROLES = ['owner', 'manager', 'editor', 'viewer'] as const;
+export type StoreRole = typeof STORE_ROLES[number];
+
+export const STORE_PERMISSIONS = [
+  'store.read',
+  'content.read',
+  'content.manage',
+  'orders.read',
+  'orders.manage',
+  'inbox.read',
+  'inbox.manage',
+  'crm.read',
+  'crm.manage',
+  'settings.manage',
+  'members.manage',
+  'payouts.manage',
+] as const;
+export type StorePermission = typeof STORE_PERMISSIONS[number];
+
+const VIEWER_PERMISSIONS: StorePermission[] = ['store.read', 'content.read', 'orders.read', 'inbox.read', 'crm.read'];
+const EDITOR_PERMISSIONS: StorePermission[] = [...VIEWER_PERMISSIONS, 'content.manage'];
+const MANAGER_PERMISSIONS: StorePermission[] = [
+  ...EDITOR_PERMISSIONS,
+  'orders.manage',
+  'inbox.manage',
+  'crm.manage',
+  'settings.manage',
+];
+
+export const STORE_ROLE_PERMISSIONS: Record<StoreRole, StorePermission[]> = {
+  viewer: VIEWER_PERMISSIONS,
+  editor: EDITOR_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  owner: [...MANAGER_PERMISSIONS, 'members.manage', 'payouts.manage'],
+};
+
+export interface StoreAccess {
+  hasAccess: boolean;
+  store: any | null;
+  isAdmin: boolean;
+  membership: any | null;
+  isOwner: boolean;
+  role: StoreRole | null;
+  permissions: StorePermission[];
+}
+
 export function requireUser(ctx: any): any | null {
   const user = ctx.state?.user;
 
@@ -43,11 +99,11 @@ export async function checkStoreAccess(
   strapi: any,
   userId: string | number,
   storeRef: string,
-): Promise<{ hasAccess: boolean; store: any | null; isAdmin: boolean; membership: any | null; isOwner: boolean }> {
+): Promise<StoreAccess> {
   const store = await findStoreByRef(strapi, storeRef);
 
   if (!store) {
-    return { hasAccess: false, store: null, isAdmin: false, membership: null, isOwner: false };
+    return { hasAccess: false, store: null, isAdmin: false, membership: null, isOwner: false, role: null, permissions: [] };
   }
 
   const userIdNum = Number(userId);
@@ -57,14 +113,16 @@ export async function checkStoreAccess(
     filters: {
       store: { documentId: store.documentId },
       user: { id: userIdNum },
-      status: 'active',
     } as any,
-    limit: 1,
+    sort: [{ updatedAt: 'desc' }],
+    limit: 10,
   }) as any[];
 
-  const membership = storeMemberships?.[0] || null;
+  const membership = storeMemberships?.find((row: any) => row?.status === 'active') || null;
+  // An inactive membership means the user was removed; a leftover store.users link must not grant access again
+  const wasRemoved = !membership && Boolean(storeMemberships?.length);
 
-  const isStoreUser = Array.isArray(store.users)
+  const isStoreUser = Array.isArray(store.users) && !wasRemoved
     ? store.users.some((user: any) => Number(user?.id) === userIdNum)
     : false;
 
@@ -73,16 +131,48 @@ export async function checkStoreAccess(
     : false;
 
   const isOwner = Number(store.owner?.id) === userIdNum || membership?.role === 'owner';
+  const hasAccess = Boolean(membership) || isStoreUser || isAdminUser;
+
+  let role: StoreRole | null = null;
+  if (isOwner || isAdminUser) {
+    role = 'owner';
+  } else if (membership) {
+    role = STORE_ROLES.includes(membership.role) ? membership.role : 'viewer';
+  } else if (isStoreUser) {
+    role = 'editor';
+  }
 
   return {
-    hasAccess: Boolean(membership) || isStoreUser || isAdminUser,
+    hasAccess,
     store,
     isAdmin: isAdminUser,
     membership,
     isOwner,
+    role,
+    permissions: role ? STORE_ROLE_PERMISSIONS[role] : [],
   };
 }
 
+export function hasStorePermission(access: Pick<StoreAccess, 'hasAccess' | 'permissions'> | null, permission: StorePermission): boolean {
+  return Boolean(access?.hasAccess && access.permissions?.includes(permission));
+}
+
+/**
+ * 403 naming the missing permission when the member's role does not grant it. Returns false when denied.
+ */
+export function requireStorePermission(ctx: any, access: StoreAccess, permission: StorePermission): boolean {
+  if (hasStorePermission(access, permission)) {
+    return true;
+  }
+
+  ctx.forbidden(`Missing permission: ${permission}`, {
+    code: 'missing_permission',
+    permission,
+    role: access.role,
+  });
+  return false;
+}
+
 export function sanitizeStore(store: any): any {
   if (!store) {
     return null;
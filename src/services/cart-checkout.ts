@@ -0,0 +1,234 @@
+/**
+ * Cart checkout (stripe.cart action)
+ *
+ * One checkout link for several products of the same store:
+ * - lines: [{ product: documentId, price: Stripe price id, quantity }] (max 20, Stripe's line item limit)
+ * - every product must be published, active and listed in the store; prices must be visible one-time prices
+ *   with a Stripe id, all in the same currency
+ * - inventory is checked and held per product under the product inventory locks (see inventory-reservation.ts),
+ *   taken in documentId order so two carts cannot deadlock
+ * - the total is computed from PRICES, never from the client; Connect links get their application fee from it
+ *
+ * Each line becomes one order Details snapshot, the same shape stripe.link writes.
+ */
+
+import {
+  acquireInventoryLock,
+  checkInventoryAvailability,
+  releaseInventoryLock,
+  reserveInventory,
+} from './inventory-reservation';
+
+const STORE_UID = 'api::store.store';
+const PRODUCT_UID = 'api::product.product';
+
+export const MAX_CART_LINES = 20;
+
+export interface CartLineInput {
+  product?: string;
+  price?: string;
+  quantity?: number | string;
+}
+
+export interface CartLine {
+  product: any;
+  price: any;
+  quantity: number;
+  unitCents: number;
+}
+
+export type CartValidation =
+  | { ok: true; store: any; lines: CartLine[]; currency: string; totalCents: number }
+  | { ok: false; code: 'cart_invalid'; error: string; line?: number };
+
+function invalid(error: string, line?: number): CartValidation {
+  return { ok: false, code: 'cart_invalid', error, ...(line !== undefined ? { line } : {}) };
+}
+
+function readQuantity(value: any): number | null {
+  const parsed = Number(value ?? 1);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * Load and validate cart lines for a store. Repeated product/price pairs are merged.
+ */
+export async function validateCart(strapi: any, storeDocumentId: string, input: CartLineInput[]): Promise<CartValidation> {
+  if (!storeDocumentId) {
+    return invalid('store_id is required');
+  }
+  if (!Array.isArray(input) || input.length === 0) {
+    return invalid('The cart is empty');
+  }
+
+  const store = await strapi.documents(STORE_UID).findOne({ documentId: storeDocumentId, status: 'published' });
+  if (!store || store.active === false) {
+    return invalid('This store is not accepting orders');
+  }
+
+  const merged = new Map<string, { product: string; price: string; quantity: number; index: number }>();
+  for (const [index, line] of input.entries()) {
+    const product = String(line?.product || '').trim();
+    const price = String(line?.price || '').trim();
+    const quantity = readQuantity(line?.quantity);
+
+    if (!product || !price) {
+      return invalid('Every cart line needs a product and a price', index);
+    }
+    if (quantity === null) {
+      return invalid('Quantity must be a whole number of at least 1', index);
+    }
+
+    const key = `${product}:${price}`;
+    const existing = merged.get(key);
+    merged.set(key, { product, price, quantity: (existing?.quantity || 0) + quantity, index: existing?.index ?? index });
+  }
+
+  if (merged.size > MAX_CART_LINES) {
+    return invalid(`A cart can have up to ${MAX_CART_LINES} lines`);
+  }
+
+  const products = new Map<string, any>();
+  const lines: CartLine[] = [];
+  let currency: string | null = null;
+
+  for (const entry of merged.values()) {
+    if (!products.has(entry.product)) {
+      products.set(entry.product, await strapi.documents(PRODUCT_UID).findOne({
+        documentId: entry.product,
+        status: 'published',
+        populate: ['PRICES', 'stores'],
+      }));
+    }
+
+    const product = products.get(entry.product);
+    const inStore = (product?.stores || []).some((item: any) => item.documentId === storeDocumentId);
+    if (!product || !inStore || product.active === false) {
+      return invalid('This product is not available in this store', entry.index);
+    }
+
+    const price = (product.PRICES || []).find((item: any) => item.STRIPE_ID === entry.price);
+    if (!price || price.hidden) {
+      return invalid(`Price is not available for "${product.Name}"`, entry.index);
+    }
+    if ((price.billing_type || 'one_time') !== 'one_time') {
+      return invalid(`"${product.Name} - ${price.Name}" is a subscription, check it out on its own`, entry.index);
+    }
+
+    const lineCurrency = String(price.Currency || 'USD').toUpperCase();
+    if (currency && lineCurrency !== currency) {
+      return invalid(`All cart items must be in the same currency (${currency})`, entry.index);
+    }
+    currency = lineCurrency;
+
+    const unitCents = Math.round(Number(price.Price || 0) * 100);
+    if (!(unitCents > 0)) {
+      return invalid(`"${product.Name} - ${price.Name}" has no price`, entry.index);
+    }
+
+    lines.push({ product, price, quantity: entry.quantity, unitCents });
+  }
+
+  return {
+    ok: true,
+    store,
+    lines,
+    currency: currency || 'USD',
+    totalCents: lines.reduce((sum, line) => sum + line.unitCents * line.quantity, 0),
+  };
+}
+
+/** Order Details snapshot per cart line. */
+export function buildCartDetails(lines: CartLine[], currency: string) {
+  return lines.map((line) => ({
+    Name: `${line.product.Name} - ${line.price.Name}`,
+    product: line.product.documentId,
+    Quantity: line.quantity,
+    Unit_Price: line.unitCents / 100,
+    Total_Price: (line.unitCents * line.quantity) / 100,
+    Description: line.price.Description || line.product.Name,
+    Stripe_price_id: line.price.STRIPE_ID,
+    Stripe_product_id: line.product.SKU || '',
+    Currency: currency,
+  }));
+}
+
+/** Requested prices per product, in the shape the inventory helpers take. */
+export function groupCartByProduct(lines: CartLine[]): Array<{ product: any; requested: Array<{ price: string; quantity: number }> }> {
+  const groups = new Map<string, { product: any; requested: Array<{ price: string; quantity: number }> }>();
+
+  for (const line of lines) {
+    const group = groups.get(line.product.documentId) || { product: line.product, requested: [] };
+    group.requested.push({ price: line.price.STRIPE_ID, quantity: line.quantity });
+    groups.set(line.product.documentId, group);
+  }
+
+  return Array.from(groups.values()).sort((left, right) => left.product.documentId.localeCompare(right.product.documentId));
+}
+
+/**
+ * Run `work` holding the inventory lock of every product in the cart, after checking availability.
+ * Returns the availability error instead when a line is out of stock, or `locked` when a lock is busy.
+ */
+export async function withCartInventory<T>(
+  strapi: any,
+  lines: CartLine[],
+  work: () => Promise<T>
+): Promise<
+  | { ok: true; result: T }
+  | { ok: false; code: 'locked' }
+  | { ok: false; code: 'inventory_unavailable'; error: string; product: string; stripe_price_id: string; available: number; requested: number }
+> {
+  const groups = groupCartByProduct(lines);
+  const held: Array<{ productDocumentId: string; owner: string }> = [];
+
+  try {
+    for (const group of groups) {
+      const owner = await acquireInventoryLock(strapi, group.product.documentId);
+      if (!owner) {
+        return { ok: false, code: 'locked' };
+      }
+      held.push({ productDocumentId: group.product.documentId, owner });
+    }
+
+    for (const group of groups) {
+      const availability = await checkInventoryAvailability(strapi, group.product, group.requested);
+      if (availability.ok === false) {
+        return {
+          ok: false,
+          code: 'inventory_unavailable',
+          error: availability.error,
+          product: group.product.documentId,
+          stripe_price_id: availability.stripe_price_id,
+          available: availability.available,
+          requested: availability.requested,
+        };
+      }
+    }
+
+    return { ok: true, result: await work() };
+  } finally {
+    for (const lock of held.reverse()) {
+      await releaseInventoryLock(strapi, lock.productDocumentId, lock.owner);
+    }
+  }
+}
+
+/**
+ * Hold cart quantities for the open order (call inside withCartInventory).
+ */
+export async function reserveCartInventory(strapi: any, lines: CartLine[], orderDocumentId: string, paymentLinkId: string, isTest = false): Promise<number> {
+  let holds = 0;
+
+  for (const group of groupCartByProduct(lines)) {
+    holds += await reserveInventory(strapi, {
+      product: group.product,
+      requested: group.requested,
+      orderDocumentId,
+      paymentLinkId,
+      isTest,
+    });
+  }
+
+  return holds;
+}
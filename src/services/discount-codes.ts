@@ -0,0 +1,443 @@
+/**
+ * Discount codes
+ *
+ * Store-managed codes (api::discount.discount, tienda content type `discount`):
+ * - discount_type `percent` (value 0-100) or `fixed` (value in store currency, off the eligible subtotal)
+ * - applies_to `store` (every one-time price) or `products` (only the related products)
+ * - limits: active, starts_at / expires_at, min_subtotal, max_uses, first_order_only (buyer email)
+ *
+ * applyDiscountCode() runs in the stripe.link action: discounted lines are sent to Stripe as price_data with the
+ * reduced unit amount (works for standard and Connect payment links, fees are computed on the discounted total).
+ * The link total is computed from the product PRICES, never from the client total.
+ * The result is kept in order.extra.discount; redeemOrderDiscount() counts the use once the order is paid
+ * (order middleware) and getSalesSummary() reports discounted revenue from it.
+ *
+ * max_uses counts paid uses (times_used) plus checkout holds: every link issued with a limited code holds one use in
+ * discount.extra.checkout_holds for INVENTORY_HOLD_MINUTES. Holds are dropped when the order is paid, when the link
+ * is not issued or its checkout session expires (releaseDiscountHold()), and expired ones stop counting.
+ */
+
+import { randomUUID } from 'crypto';
+import { getInventoryHoldMinutes } from './inventory-reservation';
+import { withJobLock } from './job-lock';
+
+const DISCOUNT_UID = 'api::discount.discount';
+const ORDER_UID = 'api::order.order';
+
+const CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+const DISCOUNT_TYPES = ['percent', 'fixed'];
+const APPLIES_TO = ['store', 'products'];
+const PAID_ORDER_STATUSES = ['paid', 'shipped', 'complete'];
+const REDEEM_LOCK_TTL_MS = 60 * 1000;
+
+export interface DiscountLineInput {
+  price?: string;
+  quantity?: number | string;
+  [key: string]: any;
+}
+
+export interface OrderDiscountRecord {
+  discount_id: string;
+  code: string;
+  discount_type: string;
+  value: number;
+  currency: string;
+  subtotal_cents: number;
+  amount_cents: number;
+  amount: number;
+  lines: Array<{ stripe_price_id: string; quantity: number; discount_cents: number }>;
+  first_order_only: boolean;
+  email: string | null;
+  applied_at: string;
+  hold_id?: string | null;
+  redeemed: boolean;
+  redeemed_at?: string;
+  first_order_violation?: boolean;
+}
+
+export type AppliedDiscount =
+  | { ok: true; record: OrderDiscountRecord; lines: DiscountLineInput[]; total: number }
+  | { ok: false; code: 'discount_invalid' | 'discount_locked'; error: string };
+
+interface DiscountHold {
+  id: string;
+  expires_at: string;
+}
+
+function toCents(value: any): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.round(parsed * 100) : 0;
+}
+
+function readQuantity(value: any): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+export function normalizeDiscountCode(code: any): string {
+  return String(code || '').trim().toUpperCase();
+}
+
+/**
+ * Validate discount fields on tienda create / update. Normalizes `code` in place.
+ * Returns null when valid, otherwise a user-facing message.
+ */
+export async function validateDiscountData(
+  strapi: any,
+  storeDocumentId: string,
+  data: Record<string, any>,
+  existing?: any
+): Promise<string | null> {
+  const merged = { ...(existing || {}), ...data };
+
+  if (Object.prototype.hasOwnProperty.call(data, 'code') || !existing) {
+    data.code = normalizeDiscountCode(data.code);
+    if (!CODE_PATTERN.test(data.code)) {
+      return 'code must be 3-32 characters: letters, numbers, "-" or "_"';
+    }
+
+    const duplicate = await strapi.documents(DISCOUNT_UID).findFirst({
+      filters: {
+        store: { documentId: { $eq: storeDocumentId } },
+        code: { $eq: data.code },
+        ...(existing?.documentId ? { documentId: { $ne: existing.documentId } } : {}),
+      },
+      fields: ['documentId'],
+    });
+
+    if (duplicate) {
+      return `Discount code "${data.code}" already exists in this store`;
+    }
+  }
+
+  const type = merged.discount_type || 'percent';
+  if (!DISCOUNT_TYPES.includes(type)) {
+    return `discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}`;
+  }
+
+  const value = Number(merged.value);
+  if (!Number.isFinite(value) || value <= 0) {
+    return 'value must be greater than 0';
+  }
+  if (type === 'percent' && value > 100) {
+    return 'A percent discount cannot be more than 100';
+  }
+
+  if (merged.applies_to && !APPLIES_TO.includes(merged.applies_to)) {
+    return `applies_to must be one of: ${APPLIES_TO.join(', ')}`;
+  }
+
+  if (merged.max_uses !== undefined && merged.max_uses !== null && (!Number.isInteger(Number(merged.max_uses)) || Number(merged.max_uses) < 1)) {
+    return 'max_uses must be a whole number of at least 1 (or null for unlimited)';
+  }
+
+  if (merged.starts_at && merged.expires_at && new Date(merged.expires_at).getTime() <= new Date(merged.starts_at).getTime()) {
+    return 'expires_at must be after starts_at';
+  }
+
+  return null;
+}
+
+async function hasPaidOrder(strapi: any, storeDocumentId: string, email: string, excludeOrderId?: string): Promise<boolean> {
+  const order = await strapi.documents(ORDER_UID).findFirst({
+    filters: {
+      store: { documentId: { $eq: storeDocumentId } },
+      Status: { $in: PAID_ORDER_STATUSES },
+      Shipping_Address: { email: { $eqi: email } },
+      ...(excludeOrderId ? { documentId: { $ne: excludeOrderId } } : {}),
+    },
+    fields: ['documentId'],
+  });
+
+  return !!order;
+}
+
+function unavailable(error: string): AppliedDiscount {
+  return { ok: false, code: 'discount_invalid', error };
+}
+
+function activeHolds(extra: any, now = Date.now()): DiscountHold[] {
+  const holds = Array.isArray(extra?.checkout_holds) ? extra.checkout_holds : [];
+  return holds.filter((hold: any) => hold?.id && new Date(hold.expires_at).getTime() > now);
+}
+
+/**
+ * Take one use of a limited code for a checkout link. Runs under the discount lock shared with redemption, so
+ * times_used and the holds are read and written together. Returns the hold id, or null when the code is used up.
+ */
+async function holdDiscountUse(strapi: any, discountDocumentId: string): Promise<{ acquired: boolean; holdId: string | null }> {
+  const run = await withJobLock(strapi, `discount:${discountDocumentId}`, REDEEM_LOCK_TTL_MS, async () => {
+    const discount = await strapi.db.query(DISCOUNT_UID).findOne({
+      where: { documentId: discountDocumentId },
+      select: ['id', 'max_uses', 'times_used', 'extra'],
+    });
+    if (!discount) {
+      return null;
+    }
+
+    const holds = activeHolds(discount.extra);
+    if (discount.max_uses && Number(discount.times_used || 0) + holds.length >= Number(discount.max_uses)) {
+      return null;
+    }
+
+    const hold: DiscountHold = {
+      id: randomUUID(),
+      expires_at: new Date(Date.now() + getInventoryHoldMinutes() * 60 * 1000).toISOString(),
+    };
+
+    await strapi.db.query(DISCOUNT_UID).update({
+      where: { id: discount.id },
+      data: { extra: { ...(discount.extra || {}), checkout_holds: [...holds, hold] } },
+    });
+
+    return hold.id;
+  });
+
+  return { acquired: run.acquired, holdId: run.acquired ? run.result ?? null : null };
+}
+
+/**
+ * Give back the use held for a checkout link that was not issued or whose checkout expired. No-op without a hold.
+ */
+export async function releaseDiscountHold(strapi: any, record: OrderDiscountRecord | null | undefined): Promise<boolean> {
+  if (!record?.discount_id || !record.hold_id) {
+    return false;
+  }
+
+  const run = await withJobLock(strapi, `discount:${record.discount_id}`, REDEEM_LOCK_TTL_MS, async () => {
+    const discount = await strapi.db.query(DISCOUNT_UID).findOne({
+      where: { documentId: record.discount_id },
+      select: ['id', 'extra'],
+    });
+    const holds = activeHolds(discount?.extra);
+    if (!discount || !holds.some((hold) => hold.id === record.hold_id)) {
+      return false;
+    }
+
+    await strapi.db.query(DISCOUNT_UID).update({
+      where: { id: discount.id },
+      data: { extra: { ...(discount.extra || {}), checkout_holds: holds.filter((hold) => hold.id !== record.hold_id) } },
+    });
+    return true;
+  });
+
+  if (!run.acquired) {
+    console.warn('[DISCOUNT_CODES] hold release skipped, discount busy (hold expires on its own)', {
+      discountId: record.discount_id,
+      holdId: record.hold_id,
+    });
+  }
+
+  return run.acquired && !!run.result;
+}
+
+/**
+ * Apply a store discount code to the lines of a checkout link.
+ * Lines are `{ price, quantity }` entries of `product`; discounted ones are rewritten to price_data
+ * (`{ product, unit_amount, quantity, Name }`) and `total` is the discounted link total from PRICES.
+ * Codes with max_uses hold one use for the link; release it with releaseDiscountHold() if no link is issued.
+ */
+export async function applyDiscountCode(strapi: any, input: {
+  storeDocumentId: string;
+  code: string;
+  product: any;
+  lines: DiscountLineInput[];
+  email?: string | null;
+}): Promise<AppliedDiscount> {
+  const code = normalizeDiscountCode(input.code);
+  const discount = code
+    ? await strapi.documents(DISCOUNT_UID).findFirst({
+      filters: { store: { documentId: { $eq: input.storeDocumentId } }, code: { $eq: code } },
+      populate: { products: { fields: ['documentId'] } },
+    })
+    : null;
+
+  if (!discount || discount.active === false) {
+    return unavailable('This discount code is not valid');
+  }
+
+  const now = Date.now();
+  if (discount.starts_at && new Date(discount.starts_at).getTime() > now) {
+    return unavailable('This discount code is not active yet');
+  }
+  if (discount.expires_at && new Date(discount.expires_at).getTime() <= now) {
+    return unavailable('This discount code has expired');
+  }
+  if (discount.max_uses && Number(discount.times_used || 0) + activeHolds(discount.extra).length >= Number(discount.max_uses)) {
+    return unavailable('This discount code has reached its usage limit');
+  }
+
+  const email = String(input.email || '').trim().toLowerCase() || null;
+  if (discount.first_order_only) {
+    if (!email) {
+      return unavailable('This discount code is for first orders, the buyer email is required');
+    }
+    if (await hasPaidOrder(strapi, input.storeDocumentId, email)) {
+      return unavailable('This discount code is only valid on a first order');
+    }
+  }
+
+  const productIds = (discount.products || []).map((product: any) => product.documentId);
+  const productEligible = discount.applies_to !== 'products' || productIds.includes(input.product?.documentId);
+  const prices = Array.isArray(input.product?.PRICES) ? input.product.PRICES : [];
+
+  const priced = input.lines.map((line) => {
+    const price = prices.find((entry: any) => entry.STRIPE_ID === line.price);
+    const quantity = readQuantity(line.quantity);
+    const unitCents = toCents(price?.Price);
+    const eligible = productEligible && !!price && unitCents > 0 && (price.billing_type || 'one_time') === 'one_time';
+    return { line, price, quantity, unitCents, eligible };
+  });
+
+  const subtotalCents = priced.reduce((sum, entry) => sum + entry.unitCents * entry.quantity, 0);
+  // Custom unit_amount lines (no Stripe price) are charged as given
+  const chargedCents = priced.reduce((sum, entry) => (
+    sum + (entry.price ? entry.unitCents : toCents(entry.line.unit_amount)) * entry.quantity
+  ), 0);
+  const eligibleCents = priced.filter((entry) => entry.eligible).reduce((sum, entry) => sum + entry.unitCents * entry.quantity, 0);
+
+  if (eligibleCents === 0) {
+    return unavailable('This discount code does not apply to these items');
+  }
+  if (discount.min_subtotal && subtotalCents < toCents(discount.min_subtotal)) {
+    return unavailable(`This discount code needs a subtotal of at least ${Number(discount.min_subtotal).toFixed(2)}`);
+  }
+
+  const value = Number(discount.value);
+  const fixedCents = Math.min(toCents(value), eligibleCents);
+  const recordLines: OrderDiscountRecord['lines'] = [];
+
+  const lines = priced.map((entry) => {
+    if (!entry.eligible) return entry.line;
+
+    // Keep at least 1 cent per unit so Stripe accepts the line
+    const wanted = discount.discount_type === 'fixed'
+      ? Math.floor((fixedCents * entry.unitCents) / eligibleCents)
+      : Math.round((entry.unitCents * value) / 100);
+    const perUnit = Math.min(wanted, entry.unitCents - 1);
+
+    if (perUnit <= 0) return entry.line;
+
+    recordLines.push({ stripe_price_id: entry.price.STRIPE_ID, quantity: entry.quantity, discount_cents: perUnit * entry.quantity });
+    return {
+      product: input.product.documentId,
+      unit_amount: (entry.unitCents - perUnit) / 100,
+      quantity: entry.quantity,
+      Name: entry.price.Name,
+      Currency: entry.price.Currency,
+    };
+  });
+
+  const amountCents = recordLines.reduce((sum, entry) => sum + entry.discount_cents, 0);
+  if (amountCents === 0) {
+    return unavailable('This discount code does not reduce the price of these items');
+  }
+
+  let holdId: string | null = null;
+  if (discount.max_uses) {
+    const hold = await holdDiscountUse(strapi, discount.documentId);
+    if (!hold.acquired) {
+      return { ok: false, code: 'discount_locked', error: 'This discount code is being used, please retry' };
+    }
+    if (!hold.holdId) {
+      return unavailable('This discount code has reached its usage limit');
+    }
+    holdId = hold.holdId;
+  }
+
+  const record: OrderDiscountRecord = {
+    discount_id: discount.documentId,
+    code: discount.code,
+    discount_type: discount.discount_type,
+    value,
+    currency: String(prices[0]?.Currency || 'USD').toUpperCase(),
+    subtotal_cents: subtotalCents,
+    amount_cents: amountCents,
+    amount: amountCents / 100,
+    lines: recordLines,
+    first_order_only: !!discount.first_order_only,
+    email,
+    applied_at: new Date().toISOString(),
+    hold_id: holdId,
+    redeemed: false,
+  };
+
+  return {
+    ok: true,
+    record,
+    lines,
+    total: Math.max(0, chargedCents - amountCents) / 100,
+  };
+}
+
+/**
+ * Count the use of an order's discount once it is paid. Idempotent through extra.discount.redeemed, which is
+ * re-read and set under an order-scoped lock: the order middleware re-enters on its own extra updates with stale
+ * snapshots. Returns the order's current discount record (counted: true when this call used it up) or null.
+ */
+export async function redeemOrderDiscount(
+  strapi: any,
+  orderDocumentId: string
+): Promise<{ record: OrderDiscountRecord; counted: boolean } | null> {
+  const run = await withJobLock(strapi, `order-discount:${orderDocumentId}`, REDEEM_LOCK_TTL_MS, async () => {
+    const order = await strapi.documents(ORDER_UID).findOne({
+      documentId: orderDocumentId,
+      populate: ['Shipping_Address', 'store'],
+    });
+
+    const record: OrderDiscountRecord | undefined = order?.extra?.discount;
+    if (!record?.discount_id) {
+      return null;
+    }
+    if (record.redeemed) {
+      return { record, counted: false };
+    }
+
+    const counted = await withJobLock(strapi, `discount:${record.discount_id}`, REDEEM_LOCK_TTL_MS, async () => {
+      const discount = await strapi.db.query(DISCOUNT_UID).findOne({
+        where: { documentId: record.discount_id },
+        select: ['id', 'times_used', 'extra'],
+      });
+
+      if (discount) {
+        // The paid use replaces the checkout hold (a late payment on an expired hold still counts)
+        const holds = activeHolds(discount.extra);
+        await strapi.db.query(DISCOUNT_UID).update({
+          where: { id: discount.id },
+          data: {
+            times_used: Number(discount.times_used || 0) + 1,
+            ...(record.hold_id
+              ? { extra: { ...(discount.extra || {}), checkout_holds: holds.filter((hold) => hold.id !== record.hold_id) } }
+              : {}),
+          },
+        });
+      }
+    });
+
+    if (!counted.acquired) {
+      throw new Error(`Discount ${record.discount_id} is being redeemed, retry later`);
+    }
+
+    const next: OrderDiscountRecord = { ...record, redeemed: true, redeemed_at: new Date().toISOString() };
+
+    // The code was checked against the email given at checkout; flag buyers who paid with another one
+    const buyerEmail = String(order?.Shipping_Address?.email || '').trim().toLowerCase();
+    const storeDocumentId = order?.store?.documentId;
+    if (record.first_order_only && buyerEmail && storeDocumentId) {
+      next.first_order_violation = await hasPaidOrder(strapi, storeDocumentId, buyerEmail, order.documentId);
+    }
+
+    await strapi.documents(ORDER_UID).update({
+      documentId: orderDocumentId,
+      data: { extra: { ...(order.extra || {}), discount: next } },
+    });
+
+    return { record: next, counted: true };
+  });
+
+  if (!run.acquired) {
+    throw new Error(`Order ${orderDocumentId} discount is being redeemed, retry later`);
+  }
+
+  return run.result ?? null;
+}
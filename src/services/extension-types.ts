@@ -79,15 +79,27 @@ export interface OdooExtensionData {
   /** Integration username */
   username: string;
 
-  /** Enable product synchronization */
+  /** Enable product synchronization (the sync worker creates missing product.product records) */
   sync_products?: boolean;
 
-  /** Enable order synchronization */
+  /** Enable order synchronization (paid orders -> sale.order, default true) */
   sync_orders?: boolean;
 
+  /** Enable contact synchronization (subscribers and buyers -> res.partner, default true) */
+  sync_contacts?: boolean;
+
+  /** Confirm created sale orders (action_confirm) */
+  confirm_orders?: boolean;
+
   /** Sync interval in seconds */
   sync_interval?: number;
 
+  /** product.product used for order lines without a mapped or matching product */
+  default_product_id?: number;
+
+  /** Markket product documentId or SKU -> product.product id */
+  product_id_mapping?: Record<string, number>;
+
   /** Category ID mapping from Markket to Odoo */
   category_mapping?: Record<string, number>;
 
@@ -99,23 +111,35 @@ export interface OdooExtensionData {
  * Shopify integration configuration
  */
 export interface ShopifyExtensionData {
-  /** Shopify store name */
+  /** Shopify store name (my-shop or my-shop.myshopify.com) */
   store_name: string;
 
-  /** Enable inventory synchronization */
+  /** Enable inventory synchronization (PRICES[].inventory from Shopify every sync_interval) */
   sync_inventory?: boolean;
 
-  /** Enable collection synchronization */
+  /** Enable collection synchronization (collections become product Tag labels, default true) */
   sync_collections?: boolean;
 
-  /** Enable order synchronization */
+  /** Enable order synchronization (not imported yet) */
   sync_orders?: boolean;
 
   /** Sync interval in seconds */
   sync_interval?: number;
 
-  /** Location ID for inventory */
+  /** Location ID for inventory; without it variant inventory_quantity (all locations) is used */
   location_id?: string;
+
+  /** Admin API version, e.g. "2024-10" */
+  api_version?: string;
+
+  /** Currency for imported PRICES (default usd) */
+  currency?: string;
+
+  /** Download product images into Thumbnail / Slides (default true) */
+  import_images?: boolean;
+
+  /** Publish imported products that are active on Shopify (default true) */
+  publish_products?: boolean;
 }
 
 /**
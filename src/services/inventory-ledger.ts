@@ -0,0 +1,331 @@
+/**
+ * Inventory ledger and low-stock alerts
+ *
+ * Every PRICES[].inventory change is appended to api::product.inventory-movement with its reason:
+ * - sale: paid order decrement (order middleware via order-inventory.ts)
+ * - refund: refund restock (order-refund.ts)
+ * - adjustment / import: manual stock changes from tienda (adjustPriceInventory) and importers (shopify-import.ts)
+ *
+ * Low stock: when a decrement crosses the threshold (before > threshold >= after) the store is
+ * notified by email and with an inbox notice. Threshold resolution:
+ * PRICES[].extra.low_stock_threshold, then store-setting.notification_settings.inventory.low_stock_threshold,
+ * then DEFAULT_LOW_STOCK_THRESHOLD. notification_settings.inventory.low_stock_email / low_stock_inbox
+ * (default true) turn the channels off.
+ *
+ * Ledger writes never fail the stock change that triggered them.
+ */
+
+import { emailLayout } from '../api/markket/services/notification/email.template';
+import { ensureStoreNoticeInboxRecord } from '../api/inbox/services/sendgrid-inbox';
+import { acquireInventoryLock, getReservedQuantities, releaseInventoryLock } from './inventory-reservation';
+import { sendMail } from './mail-transport';
+
+const MOVEMENT_UID = 'api::product.inventory-movement';
+const PRODUCT_UID = 'api::product.product';
+const STORE_UID = 'api::store.store';
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 1;
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_NOTE_LENGTH = 1000;
+
+export type InventoryMovementReason = 'sale' | 'refund' | 'adjustment' | 'import';
+
+export interface InventoryMovementInput {
+  productDocumentId: string;
+  storeDocumentId?: string | null;
+  price: any;
+  before: number;
+  after: number;
+  reason: InventoryMovementReason;
+  orderDocumentId?: string | null;
+  actorId?: number | null;
+  source?: string | null;
+  note?: string | null;
+}
+
+export interface InventoryAdjustmentInput {
+  productDocumentId: string;
+  storeDocumentId: string;
+  stripePriceId: string;
+  /** Absolute stock level; wins over `change` */
+  set?: number | null;
+  change?: number | null;
+  reason?: 'adjustment' | 'import';
+  note: string;
+  actorId?: number | null;
+  source?: string;
+}
+
+export interface InventorySettings {
+  low_stock_threshold: number;
+  low_stock_email: boolean;
+  low_stock_inbox: boolean;
+}
+
+function readInt(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+export function resolveInventorySettings(store: any): InventorySettings {
+  const settings = store?.settings?.notification_settings?.inventory;
+  const source = settings && typeof settings === 'object' ? settings : {};
+  const threshold = readInt(source.low_stock_threshold);
+
+  return {
+    low_stock_threshold: threshold !== null && threshold >= 0 ? threshold : DEFAULT_LOW_STOCK_THRESHOLD,
+    low_stock_email: source.low_stock_email !== false,
+    low_stock_inbox: source.low_stock_inbox !== false,
+  };
+}
+
+export function resolveLowStockThreshold(price: any, store: any): number {
+  const override = readInt(price?.extra?.low_stock_threshold);
+  return override !== null && override >= 0 ? override : resolveInventorySettings(store).low_stock_threshold;
+}
+
+async function loadAlertStore(strapi: any, storeDocumentId: string) {
+  return strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    populate: ['settings', 'owner', 'users', 'Favicon'],
+  });
+}
+
+function storeAlertEmails(store: any): string[] {
+  const emails = new Set<string>();
+  if (store?.owner?.email) emails.add(store.owner.email);
+  for (const user of store?.users || []) {
+    if (user?.confirmed && user?.email) emails.add(user.email);
+  }
+  const settingsEmail = store?.settings?.support_email || store?.settings?.reply_to_email;
+  if (settingsEmail) emails.add(settingsEmail);
+  return Array.from(emails);
+}
+
+async function notifyLowStock(strapi: any, input: InventoryMovementInput, product: any, threshold: number, store: any) {
+  const settings = resolveInventorySettings(store);
+  const priceName = input.price?.Name || input.price?.STRIPE_ID;
+  const label = `${product?.Name || 'Product'}${priceName ? ` - ${priceName}` : ''}`;
+  const subject = input.after <= 0 ? `Out of stock: ${label}` : `Low stock: ${label}`;
+  const message = `${label} is down to ${input.after} in stock (alert threshold ${threshold}). Restock or adjust inventory from the dashboard.`;
+
+  if (settings.low_stock_inbox) {
+    try {
+      const day = new Date().toISOString().slice(0, 10);
+      await ensureStoreNoticeInboxRecord({
+        strapi,
+        store,
+        threadKey: `inventory::${input.productDocumentId}::${input.price?.STRIPE_ID}::low::${day}`,
+        subject,
+        message,
+        source: 'inventory-ledger',
+      });
+    } catch (error: any) {
+      console.warn('[INVENTORY_LEDGER] Low stock inbox notice failed', { productDocumentId: input.productDocumentId, error: error?.message });
+    }
+  }
+
+  const emails = settings.low_stock_email ? storeAlertEmails(store) : [];
+  if (emails.length > 0) {
+    try {
+      await sendMail(strapi, {
+        to: emails,
+        subject,
+        text: message,
+        html: emailLayout({ content: `<p>${message}</p>`, title: subject, store }),
+      }, { storeDocumentId: store.documentId });
+    } catch (error: any) {
+      console.warn('[INVENTORY_LEDGER] Low stock email failed', { productDocumentId: input.productDocumentId, error: error?.message });
+    }
+  }
+
+  console.log('[INVENTORY_LEDGER] Low stock alert', {
+    productDocumentId: input.productDocumentId,
+    stripePriceId: input.price?.STRIPE_ID,
+    after: input.after,
+    threshold,
+    emails: emails.length,
+  });
+}
+
+/**
+ * Append one ledger entry; alerts the store when a decrement crosses its low-stock threshold.
+ */
+export async function recordInventoryMovement(strapi: any, input: InventoryMovementInput, product?: any): Promise<void> {
+  try {
+    await strapi.documents(MOVEMENT_UID).create({
+      data: {
+        product: input.productDocumentId,
+        store: input.storeDocumentId || null,
+        stripe_price_id: input.price?.STRIPE_ID,
+        price_name: input.price?.Name || null,
+        reason: input.reason,
+        change: input.after - input.before,
+        inventory_before: input.before,
+        inventory_after: input.after,
+        order: input.orderDocumentId || null,
+        actor: input.actorId || null,
+        source: input.source || null,
+        note: input.note ? String(input.note).slice(0, MAX_NOTE_LENGTH) : null,
+      },
+    });
+  } catch (error: any) {
+    console.error('[INVENTORY_LEDGER] Failed to record movement', {
+      productDocumentId: input.productDocumentId,
+      stripePriceId: input.price?.STRIPE_ID,
+      error: error?.message,
+    });
+  }
+
+  if (input.after >= input.before || !input.storeDocumentId) {
+    return;
+  }
+
+  try {
+    const store = await loadAlertStore(strapi, input.storeDocumentId);
+    const threshold = resolveLowStockThreshold(input.price, store);
+    if (store && input.before > threshold && input.after <= threshold) {
+      await notifyLowStock(strapi, input, product, threshold, store);
+    }
+  } catch (error: any) {
+    console.warn('[INVENTORY_LEDGER] Low stock check failed', { productDocumentId: input.productDocumentId, error: error?.message });
+  }
+}
+
+/**
+ * Current stock per price (inventory, active checkout holds, threshold) and the latest ledger entries.
+ */
+export async function getProductInventory(strapi: any, product: any, store: any, options: { stripePriceId?: string; page?: any; pageSize?: any } = {}) {
+  const page = Math.max(1, readInt(options.page) || 1);
+  const pageSize = Math.min(Math.max(1, readInt(options.pageSize) || DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const filters: Record<string, any> = { product: { documentId: { $eq: product.documentId } } };
+  if (options.stripePriceId) {
+    filters.stripe_price_id = { $eq: options.stripePriceId };
+  }
+
+  const [reserved, movements, total] = await Promise.all([
+    getReservedQuantities(strapi, product.documentId),
+    strapi.documents(MOVEMENT_UID).findMany({
+      filters,
+      populate: { order: { fields: ['documentId'] }, actor: { fields: ['username', 'email'] } },
+      sort: ['createdAt:desc'],
+      start: (page - 1) * pageSize,
+      limit: pageSize,
+    }) as Promise<any[]>,
+    strapi.documents(MOVEMENT_UID).count({ filters }),
+  ]);
+
+  const prices = (Array.isArray(product.PRICES) ? product.PRICES : []).map((price: any) => {
+    const tracked = typeof price.inventory === 'number';
+    const held = reserved[price.STRIPE_ID] || 0;
+    return {
+      stripe_price_id: price.STRIPE_ID || null,
+      name: price.Name || null,
+      tracked,
+      inventory: tracked ? price.inventory : null,
+      reserved: held,
+      available: tracked ? Math.max(0, price.inventory - held) : null,
+      low_stock_threshold: resolveLowStockThreshold(price, store),
+      low_stock: tracked && price.inventory <= resolveLowStockThreshold(price, store),
+    };
+  });
+
+  return {
+    product: { documentId: product.documentId, name: product.Name, amountSold: product.amountSold ?? 0 },
+    prices,
+    movements: movements.map((entry) => ({
+      documentId: entry.documentId,
+      stripe_price_id: entry.stripe_price_id,
+      price_name: entry.price_name,
+      reason: entry.reason,
+      change: entry.change,
+      inventory_before: entry.inventory_before,
+      inventory_after: entry.inventory_after,
+      order_id: entry.order?.documentId || null,
+      actor: entry.actor ? { id: entry.actor.id, username: entry.actor.username, email: entry.actor.email } : null,
+      source: entry.source,
+      note: entry.note,
+      createdAt: entry.createdAt,
+    })),
+    pagination: { page, pageSize, total, pages: Math.ceil(total / pageSize) },
+  };
+}
+
+/**
+ * Manual stock change for one price, under the product inventory lock.
+ */
+export async function adjustPriceInventory(strapi: any, input: InventoryAdjustmentInput): Promise<{
+  ok: boolean;
+  error?: string;
+  code?: 'locked' | 'not_found' | 'invalid';
+  price?: { stripe_price_id: string; inventory_before: number | null; inventory_after: number };
+}> {
+  const note = String(input.note || '').trim();
+  if (!note) {
+    return { ok: false, code: 'invalid', error: 'A note explaining the adjustment is required' };
+  }
+
+  const set = readInt(input.set);
+  const change = readInt(input.change);
+  if (set === null && (change === null || change === 0)) {
+    return { ok: false, code: 'invalid', error: 'Provide `set` (new stock level) or a non-zero integer `change`' };
+  }
+
+  const lock = await acquireInventoryLock(strapi, input.productDocumentId);
+  if (!lock) {
+    return { ok: false, code: 'locked', error: 'Inventory for this product is being updated, please retry' };
+  }
+
+  try {
+    const product = await strapi.documents(PRODUCT_UID).findOne({
+      documentId: input.productDocumentId,
+      populate: ['PRICES'],
+    });
+
+    const prices = Array.isArray(product?.PRICES) ? [...product.PRICES] : [];
+    const index = prices.findIndex((price: any) => price.STRIPE_ID === input.stripePriceId);
+    if (!product || index === -1) {
+      return { ok: false, code: 'not_found', error: 'Price not found on this product' };
+    }
+
+    const current = prices[index];
+    const before = typeof current.inventory === 'number' ? current.inventory : null;
+    const after = set !== null ? set : (before || 0) + (change as number);
+    if (after < 0) {
+      return { ok: false, code: 'invalid', error: `Inventory cannot go below 0 (current ${before ?? 'untracked'})` };
+    }
+
+    prices[index] = { ...current, inventory: after };
+    await strapi.documents(PRODUCT_UID).update({
+      documentId: product.documentId,
+      data: { PRICES: prices },
+    });
+
+    try {
+      await strapi.documents(PRODUCT_UID).publish({ documentId: product.documentId });
+    } catch (pubErr: any) {
+      console.warn('[INVENTORY_LEDGER] Publish after adjustment failed', { productDocumentId: product.documentId, error: pubErr?.message });
+    }
+
+    await recordInventoryMovement(strapi, {
+      productDocumentId: product.documentId,
+      storeDocumentId: input.storeDocumentId,
+      price: current,
+      before: before ?? 0,
+      after,
+      reason: input.reason === 'import' ? 'import' : 'adjustment',
+      actorId: input.actorId || null,
+      source: input.source || 'tienda',
+      note,
+    }, product);
+
+    return {
+      ok: true,
+      price: { stripe_price_id: input.stripePriceId, inventory_before: before, inventory_after: after },
+    };
+  } finally {
+    await releaseInventoryLock(strapi, input.productDocumentId, lock);
+  }
+}
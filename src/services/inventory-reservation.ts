@@ -0,0 +1,272 @@
+/**
+ * Inventory reservations (checkout holds)
+ *
+ * PRICES[].inventory is only decremented when an order turns paid, so every payment link we issue
+ * holds its quantities for INVENTORY_HOLD_MINUTES (default 30) in api::product.inventory-reservation.
+ * Available stock = inventory - active, unexpired holds.
+ *
+ * Lifecycle:
+ * - reserveInventory(): after the payment link + open order are created (stripe.link action)
+ * - consumeOrderReservations(): when the paid transition decrements inventory (order middleware)
+ * - releaseOrderReservations(): on checkout.session.expired for the order's payment link
+ * - releaseExpiredReservations(): cron in src/index.ts marks holds past expires_at as expired and deactivates
+ *   their Stripe payment link, so a buyer cannot pay for stock that is no longer held
+ *
+ * Availability check + hold run under a per-product job lock (acquireInventoryLock) so two buyers
+ * cannot both get a link for the last unit.
+ */
+
+import { getStripeClient } from '../api/markket/services/stripe';
+import { acquireJobLock, releaseJobLock, withJobLock } from './job-lock';
+
+const RESERVATION_UID = 'api::product.inventory-reservation';
+
+const DEFAULT_HOLD_MINUTES = 30;
+const INVENTORY_LOCK_TTL_MS = 60 * 1000;
+const CRON_LOCK_KEY = 'cron:inventory-reservations';
+const CRON_LOCK_TTL_MS = 10 * 60 * 1000;
+const PAGE_SIZE = 200;
+
+export type ReservationStatus = 'active' | 'consumed' | 'released' | 'expired';
+
+export interface RequestedPrice {
+  price: string;
+  quantity?: number | string;
+}
+
+export type InventoryAvailability =
+  | { ok: true }
+  | { ok: false; error: string; stripe_price_id: string; available: number; requested: number };
+
+export function getInventoryHoldMinutes(): number {
+  const parsed = parseInt(String(process.env.INVENTORY_HOLD_MINUTES || ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_HOLD_MINUTES;
+}
+
+function requestedQuantity(value: any): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1;
+}
+
+/** Per-product lock held while checking availability and issuing a checkout link. */
+export async function acquireInventoryLock(strapi: any, productDocumentId: string): Promise<string | null> {
+  return acquireJobLock(strapi, `inventory:${productDocumentId}`, INVENTORY_LOCK_TTL_MS);
+}
+
+export async function releaseInventoryLock(strapi: any, productDocumentId: string, owner: string): Promise<void> {
+  try {
+    await releaseJobLock(strapi, `inventory:${productDocumentId}`, owner);
+  } catch (error: any) {
+    console.warn('[INVENTORY_RESERVATION] lock release failed', { productDocumentId, error: error.message });
+  }
+}
+
+/**
+ * Quantities held by active, unexpired reservations of a product, per Stripe price id.
+ */
+export async function getReservedQuantities(strapi: any, productDocumentId: string): Promise<Record<string, number>> {
+  const reserved: Record<string, number> = {};
+  const now = new Date().toISOString();
+
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const page = await (strapi.documents as any)(RESERVATION_UID).findMany({
+      filters: {
+        product: { documentId: { $eq: productDocumentId } },
+        status: { $eq: 'active' },
+        expires_at: { $gt: now },
+      },
+      fields: ['stripe_price_id', 'quantity'],
+      start,
+      limit: PAGE_SIZE,
+    }) as any[];
+
+    for (const reservation of page) {
+      reserved[reservation.stripe_price_id] = (reserved[reservation.stripe_price_id] || 0) + Number(reservation.quantity || 0);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return reserved;
+}
+
+/**
+ * Check requested quantities against inventory minus active holds. Prices without numeric
+ * inventory are untracked and always available.
+ */
+export async function checkInventoryAvailability(strapi: any, product: any, requested: RequestedPrice[]): Promise<InventoryAvailability> {
+  const prices = Array.isArray(product?.PRICES) ? product.PRICES : [];
+  const reserved = await getReservedQuantities(strapi, product.documentId);
+  const wanted: Record<string, number> = {};
+
+  for (const item of requested) {
+    wanted[item.price] = (wanted[item.price] || 0) + requestedQuantity(item.quantity);
+  }
+
+  for (const [priceId, quantity] of Object.entries(wanted)) {
+    const price = prices.find((p: any) => p.STRIPE_ID === priceId);
+    if (!price || typeof price.inventory !== 'number') continue;
+
+    const held = reserved[priceId] || 0;
+    const available = Math.max(0, price.inventory - held);
+
+    if (price.inventory <= 0) {
+      return { ok: false, error: `Product/price "${price.Name}" is out of stock`, stripe_price_id: priceId, available: 0, requested: quantity };
+    }
+
+    if (quantity > available) {
+      const heldNote = held > 0 ? `, ${held} held in other checkouts` : '';
+      return {
+        ok: false,
+        error: available === 0
+          ? `Product/price "${price.Name}" is reserved by other checkouts, try again in a few minutes`
+          : `Product/price "${price.Name}" requested quantity (${quantity}) exceeds available inventory (${available} available${heldNote})`,
+        stripe_price_id: priceId,
+        available,
+        requested: quantity,
+      };
+    }
+  }
+
+  return { ok: true };
+}
+
+/**
+ * Hold requested quantities of tracked prices for an open order.
+ */
+export async function reserveInventory(strapi: any, input: {
+  product: any;
+  requested: RequestedPrice[];
+  orderDocumentId: string;
+  paymentLinkId?: string | null;
+  isTest?: boolean;
+}): Promise<number> {
+  const prices = Array.isArray(input.product?.PRICES) ? input.product.PRICES : [];
+  const expiresAt = new Date(Date.now() + getInventoryHoldMinutes() * 60 * 1000).toISOString();
+  let created = 0;
+
+  for (const item of input.requested) {
+    const price = prices.find((p: any) => p.STRIPE_ID === item.price);
+    if (!price || typeof price.inventory !== 'number') continue;
+
+    await (strapi.documents as any)(RESERVATION_UID).create({
+      data: {
+        product: input.product.documentId,
+        order: input.orderDocumentId,
+        stripe_price_id: item.price,
+        quantity: requestedQuantity(item.quantity),
+        status: 'active',
+        expires_at: expiresAt,
+        stripe_payment_link: input.paymentLinkId || null,
+        stripe_test: !!input.isTest,
+      },
+    });
+    created += 1;
+  }
+
+  return created;
+}
+
+/** Move up to PAGE_SIZE active holds matching `filters` to `status`; returns the holds it moved. */
+async function setReservationStatus(strapi: any, filters: Record<string, any>, status: ReservationStatus, reason: string): Promise<any[]> {
+  const reservations = await (strapi.documents as any)(RESERVATION_UID).findMany({
+    filters: { ...filters, status: { $eq: 'active' } },
+    fields: ['id', 'stripe_payment_link', 'stripe_test'],
+    limit: PAGE_SIZE,
+  }) as any[];
+
+  if (reservations.length === 0) {
+    return reservations;
+  }
+
+  await strapi.db.query(RESERVATION_UID).updateMany({
+    where: { id: { $in: reservations.map((reservation) => reservation.id) } },
+    data: { status, released_at: new Date(), release_reason: reason },
+  });
+
+  return reservations;
+}
+
+/** Paid: the middleware decremented inventory, the hold is no longer needed. */
+export async function consumeOrderReservations(strapi: any, orderDocumentId: string): Promise<number> {
+  return (await setReservationStatus(strapi, { order: { documentId: { $eq: orderDocumentId } } }, 'consumed', 'order_paid')).length;
+}
+
+/**
+ * Release the holds of an order or payment link (checkout.session.expired).
+ */
+export async function releaseOrderReservations(
+  strapi: any,
+  ref: { orderDocumentId?: string | null; paymentLinkId?: string | null },
+  reason: string
+): Promise<number> {
+  if (ref.orderDocumentId) {
+    return (await setReservationStatus(strapi, { order: { documentId: { $eq: ref.orderDocumentId } } }, 'released', reason)).length;
+  }
+
+  if (ref.paymentLinkId) {
+    return (await setReservationStatus(strapi, { stripe_payment_link: { $eq: ref.paymentLinkId } }, 'released', reason)).length;
+  }
+
+  return 0;
+}
+
+/**
+ * Deactivate the payment link of an expired hold. Sessions already open on it can still complete;
+ * new checkouts are refused by Stripe.
+ */
+async function deactivatePaymentLink(paymentLinkId: string, isTest: boolean): Promise<boolean> {
+  const stripe = getStripeClient(isTest);
+  if (!stripe) {
+    console.warn('[INVENTORY_RESERVATION] Stripe not configured, payment link left active', { paymentLinkId });
+    return false;
+  }
+
+  try {
+    await stripe.paymentLinks.update(paymentLinkId, { active: false });
+    return true;
+  } catch (error: any) {
+    console.warn('[INVENTORY_RESERVATION] payment link deactivation failed', { paymentLinkId, error: error.message });
+    return false;
+  }
+}
+
+/**
+ * Mark holds past expires_at as expired and deactivate their payment links. Called from the cron task in src/index.ts.
+ * Expired holds already stop counting against stock, so the link must stop taking payments too.
+ */
+export async function releaseExpiredReservations(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    let expired = 0;
+    let deactivated = 0;
+
+    for (;;) {
+      const holds = await setReservationStatus(strapi, { expires_at: { $lte: new Date().toISOString() } }, 'expired', 'timeout');
+      expired += holds.length;
+
+      // A cart link holds several products; deactivate each link once.
+      const links = new Map<string, boolean>();
+      for (const hold of holds) {
+        if (hold.stripe_payment_link) {
+          links.set(hold.stripe_payment_link, !!hold.stripe_test);
+        }
+      }
+
+      for (const [paymentLinkId, isTest] of links) {
+        if (await deactivatePaymentLink(paymentLinkId, isTest)) {
+          deactivated += 1;
+        }
+      }
+
+      if (holds.length < PAGE_SIZE) break;
+    }
+
+    if (expired > 0) {
+      console.log('[INVENTORY_RESERVATION_CRON] Expired holds', { expired, deactivated_links: deactivated });
+    }
+  });
+
+  if (!run.acquired) {
+    console.warn('[INVENTORY_RESERVATION_CRON] Previous run still active, skipping overlap');
+  }
+}
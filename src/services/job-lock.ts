@@ -0,0 +1,139 @@
+/**
+ * Persistent job locks
+ *
+ * Lease-style locks stored in api::job-lock.job-lock so overlapping cron runs
+ * (or several API instances) never process the same work twice.
+ * A lease expires on its own after ttlMs, so a crashed worker cannot hold it forever.
+ * job_locks.key carries a database unique index, so two workers creating the same key race safely.
+ */
+
+import { randomUUID } from 'crypto';
+
+const LOCK_UID = 'api::job-lock.job-lock';
+
+export interface JobLockResult<T> {
+  acquired: boolean;
+  result?: T;
+}
+
+/** Held lease handed to withJobLock work; long jobs renew it so it does not expire under them. */
+export interface JobLease {
+  key: string;
+  owner: string;
+  /** Push locked_until to now + ttlMs. False when the lease was taken over (stop working). */
+  renew(): Promise<boolean>;
+}
+
+// Postgres 23505, MySQL ER_DUP_ENTRY, SQLite SQLITE_CONSTRAINT_UNIQUE (checked on the error and its cause).
+function isUniqueViolation(error: any): boolean {
+  const codes = [error?.code, error?.cause?.code, error?.details?.code].map((code) => String(code || ''));
+  if (codes.some((code) => ['23505', 'ER_DUP_ENTRY', 'SQLITE_CONSTRAINT_UNIQUE', 'SQLITE_CONSTRAINT'].includes(code))) {
+    return true;
+  }
+
+  return /unique|duplicate|already exists/i.test(String(error?.message || error?.cause?.message || ''));
+}
+
+/**
+ * Try to take the lease for `key`. Returns the owner token when acquired, otherwise null.
+ */
+export async function acquireJobLock(strapi: any, key: string, ttlMs: number): Promise<string | null> {
+  const locks = strapi.db.query(LOCK_UID);
+  const owner = randomUUID();
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + ttlMs);
+
+  // Compare-and-set on an expired (or released) lease.
+  const claimed = await locks.updateMany({
+    where: {
+      key,
+      $or: [
+        { locked_until: { $null: true } },
+        { locked_until: { $lt: now } },
+      ],
+    },
+    data: {
+      owner,
+      acquired_at: now,
+      locked_until: lockedUntil,
+    },
+  });
+
+  if (Number(claimed?.count || 0) > 0) {
+    return owner;
+  }
+
+  const existing = await locks.findOne({ where: { key } });
+  if (existing) {
+    return null;
+  }
+
+  try {
+    await locks.create({
+      data: {
+        key,
+        owner,
+        acquired_at: now,
+        locked_until: lockedUntil,
+      },
+    });
+    return owner;
+  } catch (error: any) {
+    // Unique index on job_locks.key: another worker created the lock first.
+    if (isUniqueViolation(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** True while some worker holds an unexpired lease for `key`. */
+export async function isJobLockHeld(strapi: any, key: string): Promise<boolean> {
+  const lock = await strapi.db.query(LOCK_UID).findOne({ where: { key, locked_until: { $gt: new Date() } } });
+  return !!lock;
+}
+
+/** Extend a lease still held by `owner`. Returns false when another worker owns it now. */
+export async function renewJobLock(strapi: any, key: string, owner: string, ttlMs: number): Promise<boolean> {
+  const renewed = await strapi.db.query(LOCK_UID).updateMany({
+    where: { key, owner },
+    data: { locked_until: new Date(Date.now() + ttlMs) },
+  });
+
+  return Number(renewed?.count || 0) > 0;
+}
+
+/** Release a lease held by `owner`. No-op if the lease was taken over after expiry. */
+export async function releaseJobLock(strapi: any, key: string, owner: string): Promise<void> {
+  await strapi.db.query(LOCK_UID).updateMany({
+    where: { key, owner },
+    data: { locked_until: null },
+  });
+}
+
+/**
+ * Run `work` while holding the lease for `key`. Skips (acquired: false) when another run holds it.
+ */
+export async function withJobLock<T>(
+  strapi: any,
+  key: string,
+  ttlMs: number,
+  work: (lease: JobLease) => Promise<T>
+): Promise<JobLockResult<T>> {
+  const owner = await acquireJobLock(strapi, key, ttlMs);
+  if (!owner) {
+    return { acquired: false };
+  }
+
+  const lease: JobLease = { key, owner, renew: () => renewJobLock(strapi, key, owner, ttlMs) };
+
+  try {
+    return { acquired: true, result: await work(lease) };
+  } finally {
+    try {
+      await releaseJobLock(strapi, key, owner);
+    } catch (error: any) {
+      console.warn('[JOB_LOCK] release failed', { key, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,509 @@
+/**
+ * Subscriber list auto-subscribe rules.
+ *
+ * subscriber-list.auto_subscribe_rules:
+ *   {
+ *     enabled: true,
+ *     rules: [
+ *       { trigger: 'order.paid', product_ids?: string[], min_total?: number, currency?: string },
+ *       { trigger: 'rsvp.approved', event_ids?: string[] },
+ *       { trigger: 'form.submitted', form_ids?: string[] }
+ *     ]
+ *   }
+ *
+ * A list matches when any rule matches; conditions inside a rule are ANDed and
+ * empty/omitted conditions match anything in the store ("RSVP'd to any event").
+ *
+ * Evaluation:
+ * - applyAutoSubscribeRules() is called from src/middlewares/auto-subscribe.ts
+ *   when an order turns paid, an RSVP is approved or a form response is created.
+ * - Memberships are created with source `auto:<trigger>` and queue the list welcome email.
+ *   Existing memberships are left untouched, and people who unsubscribed from the store are never re-added.
+ * - previewAutoSubscribeRules() replays the store's history against a rule set
+ *   without writing anything (CRM dry-run endpoint).
+ */
+
+import { queueListWelcomeEmail } from './list-welcome-email';
+
+const LIST_UID = 'api::subscriber.subscriber-list';
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+const SUBSCRIBER_UID = 'api::subscriber.subscriber';
+const ORDER_UID = 'api::order.order';
+const RSVP_UID = 'api::rsvp.rsvp';
+const FORM_RESPONSE_UID = 'api::forms.form-response';
+
+const PREVIEW_SCAN_LIMIT = 500;
+const PREVIEW_MATCH_LIMIT = 200;
+const PAID_ORDER_STATUSES = ['paid', 'complete', 'shipped'];
+const OPTED_OUT_STATUSES = ['unsubscribed', 'complained'];
+
+export type AutoSubscribeTrigger = 'order.paid' | 'rsvp.approved' | 'form.submitted';
+
+const TRIGGERS: AutoSubscribeTrigger[] = ['order.paid', 'rsvp.approved', 'form.submitted'];
+
+export interface AutoSubscribeRule {
+  trigger: AutoSubscribeTrigger;
+  product_ids?: string[];
+  min_total?: number;
+  currency?: string;
+  event_ids?: string[];
+  form_ids?: string[];
+}
+
+export interface AutoSubscribeFact {
+  trigger: AutoSubscribeTrigger;
+  storeDocumentId: string;
+  email: string;
+  name?: string;
+  sourceDocumentId: string;
+  productIds?: string[];
+  total?: number;
+  currency?: string;
+  eventDocumentId?: string;
+  formDocumentId?: string;
+}
+
+export interface AutoSubscribeApplyResult {
+  email: string;
+  trigger: AutoSubscribeTrigger;
+  skipped?: string;
+  joined: string[];
+  existing: string[];
+}
+
+function normalizeEmail(value: any): string {
+  return String(value || '').trim().toLowerCase();
+}
+
+function toIdList(value: any): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.map((id) => String(id || '').trim()).filter(Boolean);
+}
+
+/**
+ * Parse the stored JSON into a clean rule list. Unknown triggers are dropped.
+ */
+export function normalizeAutoSubscribeRules(value: any): { enabled: boolean; rules: AutoSubscribeRule[] } {
+  const rawRules = Array.isArray(value?.rules) ? value.rules : [];
+
+  const rules = rawRules
+    .filter((rule: any) => rule && TRIGGERS.includes(rule.trigger))
+    .map((rule: any): AutoSubscribeRule => {
+      const normalized: AutoSubscribeRule = { trigger: rule.trigger };
+
+      if (rule.trigger === 'order.paid') {
+        const productIds = toIdList(rule.product_ids);
+        if (productIds.length) normalized.product_ids = productIds;
+
+        const minTotal = Number(rule.min_total);
+        if (rule.min_total !== undefined && rule.min_total !== null && Number.isFinite(minTotal)) {
+          normalized.min_total = minTotal;
+        }
+
+        if (typeof rule.currency === 'string' && rule.currency.trim()) {
+          normalized.currency = rule.currency.trim().toLowerCase();
+        }
+      }
+
+      if (rule.trigger === 'rsvp.approved') {
+        const eventIds = toIdList(rule.event_ids);
+        if (eventIds.length) normalized.event_ids = eventIds;
+      }
+
+      if (rule.trigger === 'form.submitted') {
+        const formIds = toIdList(rule.form_ids);
+        if (formIds.length) normalized.form_ids = formIds;
+      }
+
+      return normalized;
+    });
+
+  return { enabled: value?.enabled === true, rules };
+}
+
+export function matchAutoSubscribeRule(rule: AutoSubscribeRule, fact: AutoSubscribeFact): boolean {
+  if (rule.trigger !== fact.trigger) {
+    return false;
+  }
+
+  if (rule.trigger === 'order.paid') {
+    if (rule.product_ids?.length && !(fact.productIds || []).some((id) => rule.product_ids!.includes(id))) {
+      return false;
+    }
+
+    if (rule.currency && String(fact.currency || '').toLowerCase() !== rule.currency) {
+      return false;
+    }
+
+    if (typeof rule.min_total === 'number' && !(Number(fact.total || 0) > rule.min_total)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  if (rule.trigger === 'rsvp.approved') {
+    return !rule.event_ids?.length || rule.event_ids.includes(String(fact.eventDocumentId || ''));
+  }
+
+  return !rule.form_ids?.length || rule.form_ids.includes(String(fact.formDocumentId || ''));
+}
+
+/** Index of the first matching rule, or -1. */
+function findMatchingRule(rules: AutoSubscribeRule[], fact: AutoSubscribeFact): number {
+  return rules.findIndex((rule) => matchAutoSubscribeRule(rule, fact));
+}
+
+/**
+ * Build a fact from an order populated with Details.product, Shipping_Address, buyer and store.
+ */
+export function factFromOrder(order: any): AutoSubscribeFact | null {
+  const email = normalizeEmail(order?.Shipping_Address?.email || order?.buyer?.email);
+  const storeDocumentId = order?.store?.documentId;
+
+  if (!email || !storeDocumentId) {
+    return null;
+  }
+
+  const productIds = (Array.isArray(order?.Details) ? order.Details : [])
+    .map((item: any) => item?.product?.documentId)
+    .filter(Boolean);
+
+  return {
+    trigger: 'order.paid',
+    storeDocumentId,
+    email,
+    name: order?.Shipping_Address?.name || undefined,
+    sourceDocumentId: order.documentId,
+    productIds: Array.from(new Set<string>(productIds)),
+    total: Number(order?.Amount || 0),
+    currency: order?.Currency || undefined,
+  };
+}
+
+/**
+ * Build a fact from an RSVP populated with event, event.stores and store.
+ */
+export function factFromRsvp(rsvp: any): AutoSubscribeFact | null {
+  const email = normalizeEmail(rsvp?.email);
+  const store = rsvp?.store || (Array.isArray(rsvp?.event?.stores) ? rsvp.event.stores[0] : null);
+
+  if (!email || !store?.documentId) {
+    return null;
+  }
+
+  return {
+    trigger: 'rsvp.approved',
+    storeDocumentId: store.documentId,
+    email,
+    name: rsvp?.name || undefined,
+    sourceDocumentId: rsvp.documentId,
+    eventDocumentId: rsvp?.event?.documentId,
+  };
+}
+
+/**
+ * Build a fact from a form response populated with form and store.
+ * The email is read from the first top-level response key named like "email".
+ */
+export function factFromFormResponse(formResponse: any): AutoSubscribeFact | null {
+  const response = formResponse?.response && typeof formResponse.response === 'object' ? formResponse.response : {};
+  const emailKey = Object.keys(response).find((key) => key.toLowerCase() === 'email')
+    || Object.keys(response).find((key) => key.toLowerCase().includes('email'));
+  const email = normalizeEmail(emailKey ? response[emailKey] : '');
+  const storeDocumentId = formResponse?.store?.documentId;
+
+  if (!email || !email.includes('@') || !storeDocumentId) {
+    return null;
+  }
+
+  const nameKey = Object.keys(response).find((key) => key.toLowerCase() === 'name');
+
+  return {
+    trigger: 'form.submitted',
+    storeDocumentId,
+    email,
+    name: nameKey && typeof response[nameKey] === 'string' ? response[nameKey] : undefined,
+    sourceDocumentId: formResponse.documentId,
+    formDocumentId: formResponse?.form?.documentId,
+  };
+}
+
+async function findStoreRuleLists(strapi: any, storeDocumentId: string): Promise<any[]> {
+  const lists = await (strapi.documents as any)(LIST_UID).findMany({
+    filters: {
+      store: { documentId: { $eq: storeDocumentId } },
+      active: { $eq: true },
+    },
+    limit: 100,
+  }) as any[];
+
+  return lists.filter((list) => normalizeAutoSubscribeRules(list?.auto_subscribe_rules).enabled);
+}
+
+async function findSubscriberByEmail(strapi: any, email: string): Promise<any | null> {
+  const existing = await (strapi.documents as any)(SUBSCRIBER_UID).findMany({
+    filters: { Email: { $eqi: email } },
+    populate: ['stores'],
+    limit: 1,
+  }) as any[];
+
+  return existing?.[0] || null;
+}
+
+/**
+ * Evaluate every enabled list of the fact's store and add the person to the lists that match.
+ */
+export async function applyAutoSubscribeRules(strapi: any, fact: AutoSubscribeFact): Promise<AutoSubscribeApplyResult> {
+  const result: AutoSubscribeApplyResult = { email: fact.email, trigger: fact.trigger, joined: [], existing: [] };
+
+  const lists = await findStoreRuleLists(strapi, fact.storeDocumentId);
+  const matchingLists = lists.filter((list) => {
+    const { rules } = normalizeAutoSubscribeRules(list.auto_subscribe_rules);
+    return findMatchingRule(rules, fact) !== -1;
+  });
+
+  if (!matchingLists.length) {
+    result.skipped = 'no_matching_lists';
+    return result;
+  }
+
+  const subscriberDocuments = (strapi.documents as any)(SUBSCRIBER_UID);
+  const membershipDocuments = (strapi.documents as any)(MEMBERSHIP_UID);
+
+  let subscriber = await findSubscriberByEmail(strapi, fact.email);
+  const storeListIds = (await (strapi.documents as any)(LIST_UID).findMany({
+    filters: { store: { documentId: { $eq: fact.storeDocumentId } } },
+    fields: ['documentId'],
+    limit: 100,
+  }) as any[]).map((list) => list.documentId);
+
+  let memberships: any[] = [];
+  if (subscriber) {
+    if (subscriber.active === false) {
+      result.skipped = 'subscriber_inactive';
+      return result;
+    }
+
+    memberships = await membershipDocuments.findMany({
+      filters: {
+        subscriber: { documentId: { $eq: subscriber.documentId } },
+        list: { documentId: { $in: storeListIds } },
+      },
+      populate: ['list'],
+      limit: 200,
+    }) as any[];
+
+    // Respect store-level opt-outs: an unsubscribe or complaint on any list of the store wins.
+    if (memberships.some((membership) => OPTED_OUT_STATUSES.includes(membership.status))) {
+      result.skipped = 'opted_out';
+      return result;
+    }
+  }
+
+  if (!subscriber) {
+    subscriber = await subscriberDocuments.create({
+      data: {
+        Email: fact.email,
+        active: true,
+        stores: [fact.storeDocumentId],
+        sync_status: 'pending',
+      },
+      status: 'published',
+    });
+  } else {
+    const storeIds = (subscriber.stores || []).map((store: any) => store.documentId).filter(Boolean);
+    if (!storeIds.includes(fact.storeDocumentId)) {
+      await subscriberDocuments.update({
+        documentId: subscriber.documentId,
+        data: { stores: [...storeIds, fact.storeDocumentId] },
+        status: 'published',
+      });
+    }
+  }
+
+  const memberListIds = new Set(memberships.map((membership) => membership?.list?.documentId).filter(Boolean));
+
+  for (const list of matchingLists) {
+    if (memberListIds.has(list.documentId)) {
+      result.existing.push(list.documentId);
+      continue;
+    }
+
+    const membership = await membershipDocuments.create({
+      data: {
+        subscriber: subscriber.documentId,
+        list: list.documentId,
+        status: 'subscribed',
+        subscribed_at: new Date().toISOString(),
+        source: `auto:${fact.trigger}`,
+        last_synced_at: null,
+      },
+    });
+
+    result.joined.push(list.documentId);
+
+    if (membership?.documentId) {
+      await queueListWelcomeEmail(strapi, membership.documentId);
+    }
+  }
+
+  if (result.joined.length) {
+    console.log('[AUTO_SUBSCRIBE] joined lists', {
+      trigger: fact.trigger,
+      sourceDocumentId: fact.sourceDocumentId,
+      subscriberDocumentId: subscriber.documentId,
+      lists: result.joined,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Collect facts from the store's history: paid orders, approved RSVPs and form responses.
+ */
+async function collectStoreFacts(strapi: any, storeDocumentId: string, triggers: Set<AutoSubscribeTrigger>) {
+  const facts: AutoSubscribeFact[] = [];
+  const scanned = { orders: 0, rsvps: 0, form_responses: 0 };
+  const storeFilter = { store: { documentId: { $eq: storeDocumentId } } };
+
+  if (triggers.has('order.paid')) {
+    const orders = await (strapi.documents as any)(ORDER_UID).findMany({
+      filters: { ...storeFilter, Status: { $in: PAID_ORDER_STATUSES } },
+      populate: ['Details', 'Details.product', 'Shipping_Address', 'buyer', 'store'],
+      sort: ['createdAt:desc'],
+      limit: PREVIEW_SCAN_LIMIT,
+    }) as any[];
+    scanned.orders = orders.length;
+    orders.forEach((order) => {
+      const fact = factFromOrder(order);
+      if (fact) facts.push(fact);
+    });
+  }
+
+  if (triggers.has('rsvp.approved')) {
+    const rsvps = await (strapi.documents as any)(RSVP_UID).findMany({
+      filters: { ...storeFilter, approved: { $eq: true } },
+      populate: ['event', 'store'],
+      sort: ['createdAt:desc'],
+      limit: PREVIEW_SCAN_LIMIT,
+    }) as any[];
+    scanned.rsvps = rsvps.length;
+    rsvps.forEach((rsvp) => {
+      const fact = factFromRsvp(rsvp);
+      if (fact) facts.push(fact);
+    });
+  }
+
+  if (triggers.has('form.submitted')) {
+    const responses = await (strapi.documents as any)(FORM_RESPONSE_UID).findMany({
+      filters: storeFilter,
+      populate: ['form', 'store'],
+      sort: ['createdAt:desc'],
+      limit: PREVIEW_SCAN_LIMIT,
+    }) as any[];
+    scanned.form_responses = responses.length;
+    responses.forEach((formResponse) => {
+      const fact = factFromFormResponse(formResponse);
+      if (fact) facts.push(fact);
+    });
+  }
+
+  return { facts, scanned };
+}
+
+/**
+ * Dry-run a rule set against the store's history. Nothing is written.
+ * When listDocumentId is given, each match reports its current membership on that list.
+ */
+export async function previewAutoSubscribeRules(strapi: any, input: {
+  storeDocumentId: string;
+  rules: any;
+  listDocumentId?: string;
+}) {
+  const normalized = normalizeAutoSubscribeRules({ enabled: true, rules: input?.rules });
+
+  if (!normalized.rules.length) {
+    return {
+      ok: false,
+      action: 'list.auto_subscribe.preview',
+      reason: `rules must contain at least one rule with trigger ${TRIGGERS.join(', ')}`,
+    };
+  }
+
+  const triggers = new Set(normalized.rules.map((rule) => rule.trigger));
+  const { facts, scanned } = await collectStoreFacts(strapi, input.storeDocumentId, triggers);
+
+  const matchesByEmail = new Map<string, { email: string; name: string | null; triggers: Set<string>; rules: Set<number>; sources: string[] }>();
+
+  for (const fact of facts) {
+    const ruleIndex = findMatchingRule(normalized.rules, fact);
+    if (ruleIndex === -1) {
+      continue;
+    }
+
+    const match = matchesByEmail.get(fact.email) || {
+      email: fact.email,
+      name: fact.name || null,
+      triggers: new Set<string>(),
+      rules: new Set<number>(),
+      sources: [],
+    };
+
+    match.triggers.add(fact.trigger);
+    match.rules.add(ruleIndex);
+    if (match.sources.length < 5) {
+      match.sources.push(fact.sourceDocumentId);
+    }
+    if (!match.name && fact.name) {
+      match.name = fact.name;
+    }
+
+    matchesByEmail.set(fact.email, match);
+  }
+
+  const matches = Array.from(matchesByEmail.values()).slice(0, PREVIEW_MATCH_LIMIT);
+  const rows = [];
+
+  for (const match of matches) {
+    const subscriber = await findSubscriberByEmail(strapi, match.email);
+
+    let membershipStatus: string | null = null;
+    if (subscriber && input.listDocumentId) {
+      const membership = await (strapi.documents as any)(MEMBERSHIP_UID).findMany({
+        filters: {
+          subscriber: { documentId: { $eq: subscriber.documentId } },
+          list: { documentId: { $eq: input.listDocumentId } },
+        },
+        limit: 1,
+      }) as any[];
+      membershipStatus = membership?.[0]?.status || null;
+    }
+
+    rows.push({
+      email: match.email,
+      name: match.name,
+      triggers: Array.from(match.triggers),
+      matched_rules: Array.from(match.rules).sort((a, b) => a - b),
+      sources: match.sources,
+      subscriber_document_id: subscriber?.documentId || null,
+      membership_status: membershipStatus,
+    });
+  }
+
+  return {
+    ok: true,
+    action: 'list.auto_subscribe.preview',
+    data: {
+      rules: normalized.rules,
+      scanned,
+      total_matches: matchesByEmail.size,
+      truncated: matchesByEmail.size > matches.length,
+      matches: rows,
+    },
+  };
+}
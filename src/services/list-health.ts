@@ -0,0 +1,326 @@
+/**
+ * Subscriber list stats and health.
+ *
+ * recomputeListStats() fills subscriber-list.stats and subscriber-list.health from:
+ * - memberships: total / active / pending / unsubscribed / bounced / complained
+ * - newsletter-event rows of the list's recent sent campaigns (last 90 days, up to 10),
+ *   counted only for the list's own members: delivered, unique opens/clicks, bounces, spam reports
+ *
+ * Health is derived from bounce and complaint rates (see HEALTH_THRESHOLDS); lists without
+ * campaign data fall back to membership ratios. Degrading lists are logged so they show up
+ * before the provider suspends the account.
+ *
+ * Scheduling:
+ * - recomputeAllListStats() is called from the cron task in src/index.ts (persistent job lock)
+ * - CRM: POST /api/crm/lists/stats and POST /api/crm/lists/:documentId/stats
+ */
+
+import { withJobLock } from './job-lock';
+
+const LIST_UID = 'api::subscriber.subscriber-list';
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+const NEWSLETTER_UID = 'api::subscriber.newsletter';
+const EVENT_UID = 'api::subscriber.newsletter-event';
+
+const CRON_LOCK_KEY = 'cron:list-health';
+const CRON_LOCK_TTL_MS = 60 * 60 * 1000;
+const PAGE_SIZE = 500;
+const LIST_PAGE_SIZE = 100;
+const CAMPAIGN_WINDOW_DAYS = 90;
+const MAX_CAMPAIGNS = 10;
+const MAX_EVENTS_PER_CAMPAIGN = 50000;
+
+export type ListHealth = 'excellent' | 'good' | 'fair' | 'poor' | 'critical';
+
+/** Rates are fractions (0.02 = 2%). First matching level wins. */
+export const HEALTH_THRESHOLDS: Array<{ health: ListHealth; bounceRate: number; complaintRate: number }> = [
+  { health: 'critical', bounceRate: 0.1, complaintRate: 0.005 },
+  { health: 'poor', bounceRate: 0.05, complaintRate: 0.003 },
+  { health: 'fair', bounceRate: 0.02, complaintRate: 0.001 },
+  { health: 'good', bounceRate: 0.005, complaintRate: 0.0005 },
+];
+
+const DEGRADED_HEALTH: ListHealth[] = ['poor', 'critical'];
+
+export interface ListStats {
+  total_subscribers: number;
+  active_subscribers: number;
+  pending: number;
+  unsubscribed: number;
+  bounced: number;
+  complained: number;
+  last_campaign_sent: string | null;
+  total_campaigns_sent: number;
+  campaigns_analyzed: number;
+  delivered: number;
+  avg_open_rate: number;
+  avg_click_rate: number;
+  avg_bounce_rate: number;
+  complaint_rate: number;
+  deliverability_score: number;
+  previous_health: ListHealth | null;
+  window_days: number;
+  last_computed_at: string;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function rate(part: number, whole: number): number {
+  return whole > 0 ? round(part / whole) : 0;
+}
+
+export function deriveListHealth(bounceRate: number, complaintRate: number): ListHealth {
+  const level = HEALTH_THRESHOLDS.find((threshold) => bounceRate >= threshold.bounceRate || complaintRate >= threshold.complaintRate);
+  return level ? level.health : 'excellent';
+}
+
+/** 100 minus weighted bounce and complaint percentages, floored at 0. */
+function deliverabilityScore(bounceRate: number, complaintRate: number): number {
+  return Math.max(0, Math.round(100 - bounceRate * 100 * 5 - complaintRate * 100 * 100));
+}
+
+async function collectMembers(strapi: any, listDocumentId: string) {
+  const counts = { total: 0, subscribed: 0, pending: 0, unsubscribed: 0, bounced: 0, complained: 0 };
+  const emails = new Set<string>();
+
+  for (let start = 0; ; start += PAGE_SIZE) {
+    const page = await (strapi.documents as any)(MEMBERSHIP_UID).findMany({
+      filters: { list: { documentId: { $eq: listDocumentId } } },
+      fields: ['status'],
+      populate: { subscriber: { fields: ['Email'] } },
+      start,
+      limit: PAGE_SIZE,
+    }) as any[];
+
+    for (const membership of page) {
+      counts.total += 1;
+      if (membership.status in counts) {
+        counts[membership.status as keyof typeof counts] += 1;
+      }
+
+      const email = String(membership?.subscriber?.Email || '').trim().toLowerCase();
+      if (email) emails.add(email);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return { counts, emails };
+}
+
+/** Sent campaigns aimed at the list; the default list also owns untargeted store campaigns. */
+async function findRecentCampaigns(strapi: any, list: any): Promise<{ recent: any[]; total: number; lastSentAt: string | null }> {
+  const storeDocumentId = list?.store?.documentId;
+  const targetFilter = list.is_default
+    ? { $or: [{ target_lists: { documentId: { $eq: list.documentId } } }, { target_lists: { id: { $null: true } } }] }
+    : { target_lists: { documentId: { $eq: list.documentId } } };
+
+  const filters = {
+    ...targetFilter,
+    store: { documentId: { $eq: storeDocumentId } },
+    sending_status: { $eq: 'sent' },
+  };
+
+  const [total, latest] = await Promise.all([
+    (strapi.documents as any)(NEWSLETTER_UID).count({ filters }),
+    (strapi.documents as any)(NEWSLETTER_UID).findMany({
+      filters,
+      fields: ['sent_at'],
+      sort: ['sent_at:desc'],
+      limit: MAX_CAMPAIGNS,
+    }) as Promise<any[]>,
+  ]);
+
+  const since = Date.now() - CAMPAIGN_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const recent = latest.filter((newsletter) => newsletter?.sent_at && new Date(newsletter.sent_at).getTime() >= since);
+
+  return { recent, total, lastSentAt: latest[0]?.sent_at || null };
+}
+
+async function countCampaignEvents(strapi: any, newsletterDocumentId: string, memberEmails: Set<string>) {
+  const delivered = new Set<string>();
+  const opened = new Set<string>();
+  const clicked = new Set<string>();
+  const bounced = new Set<string>();
+  const complained = new Set<string>();
+
+  for (let start = 0; start < MAX_EVENTS_PER_CAMPAIGN; start += PAGE_SIZE) {
+    const page = await (strapi.documents as any)(EVENT_UID).findMany({
+      filters: {
+        newsletter: { documentId: { $eq: newsletterDocumentId } },
+        event_type: { $in: ['delivered', 'open', 'click', 'bounce', 'spam_report'] },
+      },
+      fields: ['event_type', 'email'],
+      start,
+      limit: PAGE_SIZE,
+    }) as any[];
+
+    for (const event of page) {
+      const email = String(event?.email || '').trim().toLowerCase();
+      if (!email || !memberEmails.has(email)) continue;
+
+      if (event.event_type === 'delivered') delivered.add(email);
+      if (event.event_type === 'open') opened.add(email);
+      if (event.event_type === 'click') clicked.add(email);
+      if (event.event_type === 'bounce') bounced.add(email);
+      if (event.event_type === 'spam_report') complained.add(email);
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  return {
+    delivered: delivered.size,
+    opens: opened.size,
+    clicks: clicked.size,
+    bounces: bounced.size,
+    complaints: complained.size,
+  };
+}
+
+/**
+ * Compute stats + health for a list populated with store. Does not write.
+ */
+export async function computeListStats(strapi: any, list: any): Promise<{ stats: ListStats; health: ListHealth }> {
+  const { counts, emails } = await collectMembers(strapi, list.documentId);
+  const campaigns = await findRecentCampaigns(strapi, list);
+
+  const totals = { delivered: 0, opens: 0, clicks: 0, bounces: 0, complaints: 0 };
+  for (const campaign of campaigns.recent) {
+    const result = await countCampaignEvents(strapi, campaign.documentId, emails);
+    totals.delivered += result.delivered;
+    totals.opens += result.opens;
+    totals.clicks += result.clicks;
+    totals.bounces += result.bounces;
+    totals.complaints += result.complaints;
+  }
+
+  // Attempted = delivered + bounced; without campaign data use membership ratios.
+  const attempted = totals.delivered + totals.bounces;
+  const bounceRate = attempted > 0 ? rate(totals.bounces, attempted) : rate(counts.bounced, counts.total);
+  const complaintRate = attempted > 0 ? rate(totals.complaints, attempted) : rate(counts.complained, counts.total);
+  const health = deriveListHealth(bounceRate, complaintRate);
+
+  return {
+    health,
+    stats: {
+      total_subscribers: counts.total,
+      active_subscribers: counts.subscribed,
+      pending: counts.pending,
+      unsubscribed: counts.unsubscribed,
+      bounced: counts.bounced,
+      complained: counts.complained,
+      last_campaign_sent: campaigns.lastSentAt,
+      total_campaigns_sent: campaigns.total,
+      campaigns_analyzed: campaigns.recent.length,
+      delivered: totals.delivered,
+      avg_open_rate: rate(totals.opens, totals.delivered),
+      avg_click_rate: rate(totals.clicks, totals.delivered),
+      avg_bounce_rate: bounceRate,
+      complaint_rate: complaintRate,
+      deliverability_score: deliverabilityScore(bounceRate, complaintRate),
+      previous_health: list.health || null,
+      window_days: CAMPAIGN_WINDOW_DAYS,
+      last_computed_at: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Recompute and persist stats + health for one list.
+ */
+export async function recomputeListStats(strapi: any, listDocumentId: string): Promise<{
+  listDocumentId: string;
+  name: string | null;
+  health: ListHealth;
+  stats: ListStats;
+} | null> {
+  const list = await (strapi.documents as any)(LIST_UID).findOne({
+    documentId: listDocumentId,
+    populate: ['store'],
+  });
+
+  if (!list) {
+    return null;
+  }
+
+  const { stats, health } = await computeListStats(strapi, list);
+
+  await (strapi.documents as any)(LIST_UID).update({
+    documentId: list.documentId,
+    data: { stats, health },
+    status: 'published',
+  });
+
+  if (DEGRADED_HEALTH.includes(health) && health !== list.health) {
+    console.warn('[LIST_HEALTH] list degraded', {
+      listDocumentId: list.documentId,
+      storeDocumentId: list?.store?.documentId,
+      previous: list.health || null,
+      health,
+      bounceRate: stats.avg_bounce_rate,
+      complaintRate: stats.complaint_rate,
+    });
+  }
+
+  return { listDocumentId: list.documentId, name: list.name || null, health, stats };
+}
+
+/**
+ * Recompute every list of a store.
+ */
+export async function recomputeStoreListStats(strapi: any, storeDocumentId: string) {
+  const lists = await (strapi.documents as any)(LIST_UID).findMany({
+    filters: { store: { documentId: { $eq: storeDocumentId } } },
+    fields: ['documentId'],
+    limit: LIST_PAGE_SIZE,
+  }) as any[];
+
+  const results = [];
+  for (const list of lists) {
+    const result = await recomputeListStats(strapi, list.documentId);
+    if (result) results.push(result);
+  }
+
+  return results;
+}
+
+/**
+ * Recompute all active lists. Called from the cron task registered in src/index.ts.
+ */
+export async function recomputeAllListStats(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    let processed = 0;
+    let degraded = 0;
+
+    for (let start = 0; ; start += LIST_PAGE_SIZE) {
+      const lists = await (strapi.documents as any)(LIST_UID).findMany({
+        filters: { active: { $eq: true } },
+        fields: ['documentId'],
+        start,
+        limit: LIST_PAGE_SIZE,
+      }) as any[];
+
+      for (const list of lists) {
+        try {
+          const result = await recomputeListStats(strapi, list.documentId);
+          processed += 1;
+          if (result && DEGRADED_HEALTH.includes(result.health)) degraded += 1;
+        } catch (err: any) {
+          console.error('[LIST_HEALTH_CRON] List failed', { listDocumentId: list.documentId, error: err.message });
+        }
+      }
+
+      if (lists.length < LIST_PAGE_SIZE) break;
+    }
+
+    console.log('[LIST_HEALTH_CRON] Recomputed list stats', { processed, degraded });
+  });
+
+  if (!run.acquired) {
+    console.warn('[LIST_HEALTH_CRON] Previous run still active, skipping overlap');
+  }
+}
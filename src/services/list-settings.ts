@@ -0,0 +1,52 @@
+/**
+ * Subscriber list settings normalizers.
+ *
+ * subscriber-list.welcome_email:
+ *   { enabled, subject, body, html, delay_hours, template_id }
+ *   - body is plain text / light markdown (rendered like newsletter content), html wins when set
+ *
+ * subscriber-list.unsubscribe_settings:
+ *   { scope: 'store' | 'list', require_reason, confirmation_page_url, custom_unsubscribe_url, ... }
+ *   - scope 'list': one-click unsubscribe only leaves this list
+ *   - scope 'store' (default): unsubscribing from this list leaves every list of the store
+ */
+
+export interface ListWelcomeEmailSettings {
+  enabled: boolean;
+  subject: string | null;
+  body: string | null;
+  html: string | null;
+  delay_hours: number;
+}
+
+export interface ListUnsubscribePolicy {
+  scope: 'store' | 'list';
+  require_reason: boolean;
+  confirmation_page_url: string | null;
+}
+
+const MAX_WELCOME_DELAY_HOURS = 24 * 30;
+
+export function resolveListWelcomeEmail(list: any): ListWelcomeEmailSettings {
+  const settings = list?.welcome_email && typeof list.welcome_email === 'object' ? list.welcome_email : {};
+  const delay = Number(settings.delay_hours);
+
+  return {
+    enabled: settings.enabled === true,
+    subject: typeof settings.subject === 'string' && settings.subject.trim() ? settings.subject.trim() : null,
+    body: typeof settings.body === 'string' && settings.body.trim() ? settings.body : null,
+    html: typeof settings.html === 'string' && settings.html.trim() ? settings.html : null,
+    delay_hours: Number.isFinite(delay) && delay > 0 ? Math.min(delay, MAX_WELCOME_DELAY_HOURS) : 0,
+  };
+}
+
+export function resolveListUnsubscribePolicy(list: any): ListUnsubscribePolicy {
+  const settings = list?.unsubscribe_settings && typeof list.unsubscribe_settings === 'object' ? list.unsubscribe_settings : {};
+  const confirmationUrl = String(settings.confirmation_page_url || '').trim();
+
+  return {
+    scope: settings.scope === 'list' ? 'list' : 'store',
+    require_reason: settings.require_reason === true,
+    confirmation_page_url: /^https?:\/\//i.test(confirmationUrl) ? confirmationUrl : null,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Per-list welcome emails.
+ *
+ * Lifecycle on subscriber-list-membership:
+ * - queueListWelcomeEmail(): membership became active and its list has welcome_email.enabled
+ *   -> welcome_email_status: pending, welcome_email_due_at = now + delay_hours
+ * - sendListWelcomeEmail(): pending -> sent | failed | skipped
+ *
+ * Sending:
+ * - delay_hours = 0 sends right away (after the request, in setImmediate).
+ * - sendDueListWelcomeEmails() is called from the cron task in src/index.ts for delayed ones.
+ * - A membership gets at most one welcome email; resubscribing does not send another.
+ */
+
+import { withJobLock } from './job-lock';
+import { resolveListWelcomeEmail } from './list-settings';
+import { resolveMailTransport } from './mail-transport';
+import {
+  buildNewsletterUnsubscribeUrl,
+  renderNewsletterEmail,
+  resolveNewsletterSender,
+} from './newsletter-send';
+
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+
+const CRON_LOCK_KEY = 'cron:list-welcome-email';
+const CRON_LOCK_TTL_MS = 30 * 60 * 1000;
+const SEND_LOCK_TTL_MS = 5 * 60 * 1000;
+const DUE_BATCH_LIMIT = 100;
+
+async function loadMembership(strapi: any, membershipDocumentId: string): Promise<any | null> {
+  return (strapi.documents as any)(MEMBERSHIP_UID).findOne({
+    documentId: membershipDocumentId,
+    populate: ['list', 'list.store', 'subscriber'],
+  });
+}
+
+async function markWelcome(strapi: any, membershipDocumentId: string, data: Record<string, any>): Promise<void> {
+  await (strapi.documents as any)(MEMBERSHIP_UID).update({
+    documentId: membershipDocumentId,
+    data,
+  });
+}
+
+/**
+ * Queue the list welcome email for a membership that just became active.
+ * No-op when the list has no welcome email or one was already queued/sent.
+ */
+export async function queueListWelcomeEmail(strapi: any, membershipDocumentId: string): Promise<void> {
+  const membership = await loadMembership(strapi, membershipDocumentId);
+  if (!membership || membership.status !== 'subscribed') {
+    return;
+  }
+
+  const welcome = resolveListWelcomeEmail(membership.list);
+  if (!welcome.enabled || ['pending', 'sent'].includes(membership.welcome_email_status)) {
+    return;
+  }
+
+  const dueAt = new Date(Date.now() + welcome.delay_hours * 60 * 60 * 1000);
+  await markWelcome(strapi, membership.documentId, {
+    welcome_email_status: 'pending',
+    welcome_email_due_at: dueAt.toISOString(),
+  });
+
+  if (welcome.delay_hours === 0) {
+    setImmediate(async () => {
+      try {
+        await sendListWelcomeEmail(strapi, membership.documentId);
+      } catch (err: any) {
+        console.error('[LIST_WELCOME] immediate send failed', { membershipDocumentId: membership.documentId, error: err.message });
+      }
+    });
+  }
+}
+
+/**
+ * Send a pending welcome email. Re-checks membership and list state at send time.
+ */
+export async function sendListWelcomeEmail(strapi: any, membershipDocumentId: string): Promise<'sent' | 'failed' | 'skipped' | 'locked'> {
+  const run = await withJobLock(strapi, `list-welcome:${membershipDocumentId}`, SEND_LOCK_TTL_MS, async () => {
+    const membership = await loadMembership(strapi, membershipDocumentId);
+    if (!membership || membership.welcome_email_status !== 'pending') {
+      return 'skipped' as const;
+    }
+
+    const list = membership.list;
+    const subscriber = membership.subscriber;
+    const welcome = resolveListWelcomeEmail(list);
+
+    if (!welcome.enabled || membership.status !== 'subscribed' || !subscriber?.Email || subscriber.active === false || list?.active === false) {
+      await markWelcome(strapi, membership.documentId, { welcome_email_status: 'skipped' });
+      return 'skipped' as const;
+    }
+
+    const storeDocumentId = list?.store?.documentId;
+    const transport = storeDocumentId ? await resolveMailTransport(strapi, storeDocumentId) : null;
+    if (!transport) {
+      console.warn('[LIST_WELCOME] no mail transport', { membershipDocumentId: membership.documentId, storeDocumentId });
+      await markWelcome(strapi, membership.documentId, { welcome_email_status: 'failed' });
+      return 'failed' as const;
+    }
+
+    const store = await (strapi.documents as any)('api::store.store').findOne({
+      documentId: storeDocumentId,
+      populate: ['settings', 'Favicon'],
+    });
+
+    const subject = welcome.subject || `Welcome to ${list?.name || store?.title || 'our newsletter'}`;
+    const rendered = renderNewsletterEmail({
+      newsletter: {
+        title: subject,
+        subject,
+        html_content: welcome.html,
+        content: welcome.body || 'Thanks for subscribing.',
+      },
+      store,
+      unsubscribeUrl: buildNewsletterUnsubscribeUrl(store, subscriber.documentId, list.documentId),
+    });
+
+    const { from, replyTo } = await resolveNewsletterSender(strapi, storeDocumentId, store);
+    const result = await transport.send({
+      to: String(subscriber.Email).trim().toLowerCase(),
+      from,
+      replyTo,
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      customArgs: {
+        store_document_id: storeDocumentId,
+        subscriber_document_id: subscriber.documentId,
+        list_document_id: list.documentId,
+      },
+    });
+
+    if (!result.success) {
+      console.warn('[LIST_WELCOME] send failed', { membershipDocumentId: membership.documentId, error: result.error });
+      await markWelcome(strapi, membership.documentId, { welcome_email_status: 'failed' });
+      return 'failed' as const;
+    }
+
+    await markWelcome(strapi, membership.documentId, {
+      welcome_email_status: 'sent',
+      welcome_email_sent_at: new Date().toISOString(),
+    });
+
+    console.log('[LIST_WELCOME] sent', {
+      membershipDocumentId: membership.documentId,
+      listDocumentId: list.documentId,
+      transport: transport.name,
+    });
+
+    return 'sent' as const;
+  });
+
+  return run.acquired ? run.result! : 'locked';
+}
+
+/**
+ * Send welcome emails whose delay has passed.
+ * Called from the cron task registered in src/index.ts.
+ */
+export async function sendDueListWelcomeEmails(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    let due: any[];
+    try {
+      due = await (strapi.documents as any)(MEMBERSHIP_UID).findMany({
+        filters: {
+          welcome_email_status: { $eq: 'pending' },
+          welcome_email_due_at: { $lte: new Date().toISOString() },
+        },
+        sort: ['welcome_email_due_at:asc'],
+        limit: DUE_BATCH_LIMIT,
+      });
+    } catch (err: any) {
+      console.error('[LIST_WELCOME_CRON] Failed to query due welcome emails:', err.message);
+      return;
+    }
+
+    if (!due.length) {
+      return;
+    }
+
+    const counts = { sent: 0, failed: 0, skipped: 0, locked: 0 };
+    for (const membership of due) {
+      try {
+        counts[await sendListWelcomeEmail(strapi, membership.documentId)] += 1;
+      } catch (err: any) {
+        counts.failed += 1;
+        console.error('[LIST_WELCOME_CRON] Send failed', { membershipDocumentId: membership.documentId, error: err.message });
+      }
+    }
+
+    console.log('[LIST_WELCOME_CRON] Processed welcome emails', counts);
+  });
+
+  if (!run.acquired) {
+    console.warn('[LIST_WELCOME_CRON] Previous run still active, skipping overlap');
+  }
+}
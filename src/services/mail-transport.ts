@@ -0,0 +1,381 @@
+/**
+ * Provider-agnostic mail transport.
+ *
+ * Transports:
+ * - sendgrid: v3 mail/send API
+ * - smtp: any SMTP server through nodemailer
+ * - local: no network; logs, keeps the last messages in memory (getCapturedMail) and,
+ *   with MAIL_LOCAL_DIR, writes each message as JSON + HTML files
+ *
+ * Resolution (resolveMailTransport):
+ * 1. MAIL_TRANSPORT=local (or the older NEWSLETTER_TRANSPORT=local) -> local
+ * 2. Store extension `markket:smtp` -> smtp with the store's server
+ * 3. MAIL_TRANSPORT=smtp with SMTP_HOST -> platform smtp
+ * 4. SENDGRID_API_KEY -> platform sendgrid
+ * 5. Store extension `markket:sendgrid*` with an api_key -> store sendgrid
+ *
+ * Store extensions:
+ * - markket:smtp      credentials { username, password }, config { host, port, secure, from_email, from_name }
+ * - markket:sendgrid  credentials { api_key }, config { from_email, from_name }
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { decryptCredentials } from './encryption';
+
+export interface MailAddress {
+  email: string;
+  name?: string;
+}
+
+export interface MailMessage {
+  to: string | string[];
+  from?: MailAddress | string;
+  cc?: string | string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  /** Correlation ids echoed back by providers in event webhooks. */
+  customArgs?: Record<string, string>;
+}
+
+export interface MailResult {
+  success: boolean;
+  messageId?: string | null;
+  error?: string;
+}
+
+export interface MailTransport {
+  name: 'sendgrid' | 'smtp' | 'local' | string;
+  /** `store` when built from the store's own mail extension. */
+  source?: 'platform' | 'store';
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+export interface SmtpSettings {
+  host: string;
+  port?: number;
+  secure?: boolean;
+  username?: string;
+  password?: string;
+}
+
+const DEFAULT_FROM_EMAIL = 'noreply@markket.place';
+const MAX_CAPTURED = 500;
+
+const captured: MailMessage[] = [];
+
+function toList(value: string | string[] | undefined): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).map((entry) => String(entry || '').trim()).filter(Boolean);
+}
+
+/** Parse `Name <email>` strings used by older strapi email plugin callers. */
+export function toMailAddress(value: MailAddress | string | undefined): MailAddress {
+  if (value && typeof value === 'object') {
+    return value;
+  }
+
+  const text = String(value || '').trim();
+  const match = text.match(/^(.*)<([^>]+)>$/);
+  if (match) {
+    return { email: match[2].trim(), name: match[1].trim().replace(/^"|"$/g, '') || undefined };
+  }
+
+  return { email: text || getPlatformFromEmail() };
+}
+
+export function getPlatformFromEmail(): string {
+  return process.env.MAIL_FROM_EMAIL || process.env.SENDGRID_FROM_EMAIL || DEFAULT_FROM_EMAIL;
+}
+
+export function getPlatformReplyToEmail(): string {
+  return process.env.MAIL_REPLY_TO_EMAIL || process.env.SENDGRID_REPLY_TO_EMAIL || '';
+}
+
+/**
+ * SendGrid v3 mail/send transport.
+ */
+export function createSendGridTransport(apiKey: string): MailTransport {
+  return {
+    name: 'sendgrid',
+    async send(message) {
+      const cc = toList(message.cc);
+
+      try {
+        const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            personalizations: [{
+              to: toList(message.to).map((email) => ({ email })),
+              ...(cc.length ? { cc: cc.map((email) => ({ email })) } : {}),
+              ...(message.customArgs ? { custom_args: message.customArgs } : {}),
+            }],
+            from: toMailAddress(message.from),
+            ...(message.replyTo ? { reply_to: { email: message.replyTo } } : {}),
+            subject: message.subject,
+            ...(message.headers ? { headers: message.headers } : {}),
+            content: [
+              ...(message.text ? [{ type: 'text/plain', value: message.text }] : []),
+              { type: 'text/html', value: message.html },
+            ],
+          }),
+        });
+
+        if (!response.ok) {
+          const body = await response.text().catch(() => '');
+          return { success: false, error: `SendGrid ${response.status}: ${body.slice(0, 200)}` };
+        }
+
+        return { success: true, messageId: response.headers.get('x-message-id') };
+      } catch (error: any) {
+        return { success: false, error: error.message };
+      }
+    },
+  };
+}
+
+/**
+ * Generic SMTP transport (nodemailer). customArgs are sent as X-Markket-* headers.
+ */
+export function createSmtpTransport(settings: SmtpSettings): MailTransport {
+  let transporter: any = null;
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      try {
+        if (!transporter) {
+          const nodemailer = await import('nodemailer');
+          const port = Number(settings.port) || 587;
+          transporter = (nodemailer.default || nodemailer).createTransport({
+            host: settings.host,
+            port,
+            secure: settings.secure ?? port === 465,
+            ...(settings.username ? { auth: { user: settings.username, pass: settings.password } } : {}),
+          });
+        }
+
+        const from = toMailAddress(message.from);
+        const argHeaders = Object.fromEntries(
+          Object.entries(message.customArgs || {}).map(([key, value]) => [`X-Markket-${key.replace(/_/g, '-')}`, String(value)])
+        );
+
+        const info = await transporter.sendMail({
+          from: from.name ? { name: from.name, address: from.email } : from.email,
+          to: toList(message.to),
+          cc: toList(message.cc),
+          replyTo: message.replyTo,
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: { ...argHeaders, ...(message.headers || {}) },
+        });
+
+        return { success: true, messageId: info?.messageId || null };
+      } catch (error: any) {
+        return { success: false, error: `SMTP: ${error.message}` };
+      }
+    },
+  };
+}
+
+/**
+ * In-process transport that captures messages instead of delivering them.
+ * Files are written to `directory` (or MAIL_LOCAL_DIR) when set.
+ */
+export function createLocalTransport(directory = process.env.MAIL_LOCAL_DIR): MailTransport & { sent: MailMessage[] } {
+  const sent: MailMessage[] = [];
+
+  return {
+    name: 'local',
+    sent,
+    async send(message) {
+      sent.push(message);
+      captured.push(message);
+      if (captured.length > MAX_CAPTURED) {
+        captured.splice(0, captured.length - MAX_CAPTURED);
+      }
+
+      const messageId = `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      console.log('[MAIL][local] captured', { messageId, to: message.to, subject: message.subject });
+
+      if (directory) {
+        try {
+          await fs.mkdir(directory, { recursive: true });
+          await fs.writeFile(path.join(directory, `${messageId}.json`), JSON.stringify({ messageId, ...message, html: undefined }, null, 2));
+          await fs.writeFile(path.join(directory, `${messageId}.html`), message.html);
+        } catch (error: any) {
+          console.warn('[MAIL][local] write failed:', error.message);
+        }
+      }
+
+      return { success: true, messageId };
+    },
+  };
+}
+
+/** Messages captured by local transports in this process, oldest first. */
+export function getCapturedMail(): MailMessage[] {
+  return [...captured];
+}
+
+export function clearCapturedMail(): void {
+  captured.length = 0;
+}
+
+/**
+ * First active mail extension of a store (`markket:smtp` or `markket:sendgrid*`).
+ */
+export async function findStoreMailExtension(strapi: any, storeDocumentId: string): Promise<any | null> {
+  const store = await (strapi.documents as any)('api::store.store').findOne({
+    documentId: storeDocumentId,
+    populate: ['extensions'],
+  });
+
+  const extensions = (store?.extensions || []).filter((ext: any) => ext?.active !== false);
+
+  return extensions.find((ext: any) => String(ext?.key || '') === 'markket:smtp')
+    || extensions.find((ext: any) => String(ext?.key || '').includes('sendgrid'))
+    || null;
+}
+
+function smtpFromExtension(extension: any): SmtpSettings | null {
+  const credentials = decryptCredentials(extension?.credentials) || {};
+  const config = extension?.config || {};
+  const host = String(config.host || extension?.url || '').replace(/^smtps?:\/\//, '').trim();
+
+  if (!host) {
+    return null;
+  }
+
+  return {
+    host,
+    port: Number(config.port) || undefined,
+    secure: typeof config.secure === 'boolean' ? config.secure : undefined,
+    username: credentials.username || config.username,
+    password: credentials.password,
+  };
+}
+
+function platformSmtp(): SmtpSettings | null {
+  if (!process.env.SMTP_HOST) {
+    return null;
+  }
+
+  return {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || undefined,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : undefined,
+    username: process.env.SMTP_USERNAME,
+    password: process.env.SMTP_PASSWORD,
+  };
+}
+
+/**
+ * Resolve the transport for a store (or the platform when no store is given).
+ */
+export async function resolveMailTransport(strapi: any, storeDocumentId?: string | null): Promise<MailTransport | null> {
+  const mode = String(process.env.MAIL_TRANSPORT || '').trim().toLowerCase();
+
+  if (mode === 'local' || process.env.NEWSLETTER_TRANSPORT === 'local') {
+    return createLocalTransport();
+  }
+
+  let extension: any = null;
+  if (storeDocumentId) {
+    try {
+      extension = await findStoreMailExtension(strapi, storeDocumentId);
+    } catch (error: any) {
+      console.warn('[MAIL] store extension lookup failed:', error.message);
+    }
+  }
+
+  if (extension?.key === 'markket:smtp') {
+    const settings = smtpFromExtension(extension);
+    if (settings) {
+      return { ...createSmtpTransport(settings), source: 'store' };
+    }
+    console.warn('[MAIL] markket:smtp extension has no host', { storeDocumentId });
+  }
+
+  const smtp = mode === 'smtp' ? platformSmtp() : null;
+  if (smtp) {
+    return createSmtpTransport(smtp);
+  }
+
+  if (process.env.SENDGRID_API_KEY) {
+    return createSendGridTransport(process.env.SENDGRID_API_KEY);
+  }
+
+  if (extension?.credentials && String(extension.key || '').includes('sendgrid')) {
+    try {
+      const credentials = decryptCredentials(extension.credentials);
+      if (credentials?.api_key) {
+        return { ...createSendGridTransport(credentials.api_key), source: 'store' };
+      }
+    } catch (error: any) {
+      console.warn('[MAIL] credential resolution failed:', error.message);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Sender identity for store mail: mail extension from_email/from_name, then platform defaults.
+ */
+export async function resolveMailSender(strapi: any, storeDocumentId: string | null | undefined, store: any): Promise<{
+  from: MailAddress;
+  replyTo?: string;
+}> {
+  const extension = storeDocumentId
+    ? await findStoreMailExtension(strapi, storeDocumentId).catch(() => null)
+    : null;
+
+  return {
+    from: {
+      email: extension?.config?.from_email || getPlatformFromEmail(),
+      name: extension?.config?.from_name || store?.settings?.store_name_override || store?.title || 'Markkët',
+    },
+    replyTo: store?.settings?.reply_to_email || getPlatformReplyToEmail() || undefined,
+  };
+}
+
+/**
+ * Resolve the transport and send. Throws when no transport is configured or the send fails,
+ * matching the strapi email plugin contract it replaces.
+ * A store's own transport sends from its extension config.from_email when set (its server may reject other senders).
+ */
+export async function sendMail(strapi: any, message: MailMessage, options: { storeDocumentId?: string | null } = {}): Promise<MailResult> {
+  const transport = await resolveMailTransport(strapi, options.storeDocumentId);
+  if (!transport) {
+    throw new Error('No mail transport configured (MAIL_TRANSPORT, SMTP_HOST, SENDGRID_API_KEY or store extension)');
+  }
+
+  let from = message.from ? toMailAddress(message.from) : { email: getPlatformFromEmail(), name: 'Markkët' };
+  if (transport.source === 'store' && options.storeDocumentId) {
+    const extension = await findStoreMailExtension(strapi, options.storeDocumentId).catch(() => null);
+    if (extension?.config?.from_email) {
+      from = { email: extension.config.from_email, name: from.name || extension.config.from_name };
+    }
+  }
+
+  const result = await transport.send({
+    ...message,
+    from,
+    replyTo: message.replyTo || getPlatformReplyToEmail() || undefined,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || `${transport.name} send failed`);
+  }
+
+  return result;
+}
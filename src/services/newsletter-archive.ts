@@ -0,0 +1,269 @@
+/**
+ * Public newsletter archive.
+ *
+ * An edition is archived when it is published, `is_public` and `sending_status: sent`,
+ * and the store has `store-setting.newsletter_settings.archive_enabled` (default true).
+ *
+ * - archive_url: built on send from newsletter_settings.archive_url_pattern on the store domain
+ *   ({store_slug}, {newsletter_slug}, {document_id}); stored on the edition and linked from the
+ *   email when email_includes_archive_link is set
+ * - listArchivedNewsletters() / getArchivedNewsletter(): public list + single edition (HTML and text)
+ * - renderNewsletterFeed(): RSS 2.0 or Atom feed of the latest editions
+ *
+ * Routes: src/api/subscriber/routes/newsletter-archive.ts (auth: false)
+ */
+
+import { renderNewsletterEmail } from './newsletter-send';
+
+const NEWSLETTER_UID = 'api::subscriber.newsletter';
+const STORE_UID = 'api::store.store';
+
+const DEFAULT_URL_PATTERN = '/newsletter/{store_slug}/{newsletter_slug}';
+const DEFAULT_ARCHIVE_TITLE = 'Newsletter Archive';
+const DEFAULT_BASE_URL = 'https://markket.place';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const FEED_ITEMS = 20;
+
+const ARCHIVE_FIELDS = ['title', 'slug', 'subject', 'preview_text', 'archive_url', 'sent_at'];
+
+export interface NewsletterArchiveSettings {
+  enabled: boolean;
+  url_pattern: string;
+  title: string;
+}
+
+export type NewsletterFeedFormat = 'rss' | 'atom';
+
+function escapeXml(value: any): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function readPositiveInt(value: any, fallback: number): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function storeBaseUrl(store: any): string {
+  return store?.settings?.domain || DEFAULT_BASE_URL;
+}
+
+function absoluteUrl(path: string, store: any): string {
+  try {
+    return new URL(path, storeBaseUrl(store)).toString();
+  } catch {
+    return new URL(path, DEFAULT_BASE_URL).toString();
+  }
+}
+
+export function resolveNewsletterArchiveSettings(store: any): NewsletterArchiveSettings {
+  const settings = store?.settings?.newsletter_settings && typeof store.settings.newsletter_settings === 'object'
+    ? store.settings.newsletter_settings
+    : {};
+  const pattern = String(settings.archive_url_pattern || '').trim();
+  const title = String(settings.archive_title || '').trim();
+
+  return {
+    enabled: settings.archive_enabled !== false,
+    url_pattern: pattern || DEFAULT_URL_PATTERN,
+    title: title || DEFAULT_ARCHIVE_TITLE,
+  };
+}
+
+/**
+ * Public URL of an edition, or null when the edition is private or the store archive is off.
+ * `store` must be populated with settings.
+ */
+export function buildNewsletterArchiveUrl(store: any, newsletter: any): string | null {
+  const settings = resolveNewsletterArchiveSettings(store);
+  if (!settings.enabled || newsletter?.is_public === false || !newsletter?.slug || !store?.slug) {
+    return null;
+  }
+
+  const path = settings.url_pattern
+    .replace(/\{store_slug\}/g, encodeURIComponent(store.slug))
+    .replace(/\{newsletter_slug\}/g, encodeURIComponent(newsletter.slug))
+    .replace(/\{document_id\}/g, encodeURIComponent(newsletter.documentId || ''));
+
+  return absoluteUrl(path, store);
+}
+
+/**
+ * Resolve a store by slug or documentId. Returns null when the archive is not available.
+ */
+export async function findArchiveStore(strapi: any, storeRef: string): Promise<any | null> {
+  const ref = String(storeRef || '').trim();
+  if (!ref) {
+    return null;
+  }
+
+  const stores = await (strapi.documents as any)(STORE_UID).findMany({
+    filters: { $or: [{ slug: { $eq: ref } }, { documentId: { $eq: ref } }] },
+    populate: ['settings', 'Favicon'],
+    limit: 1,
+  }) as any[];
+
+  const store = stores[0];
+  if (!store || store.active === false || !resolveNewsletterArchiveSettings(store).enabled) {
+    return null;
+  }
+
+  return store;
+}
+
+function archiveFilters(store: any, extra: Record<string, any> = {}) {
+  return {
+    store: { documentId: { $eq: store.documentId } },
+    is_public: { $eq: true },
+    sending_status: { $eq: 'sent' },
+    ...extra,
+  };
+}
+
+function toArchiveItem(store: any, newsletter: any) {
+  return {
+    documentId: newsletter.documentId,
+    title: newsletter.title,
+    slug: newsletter.slug,
+    subject: newsletter.subject || null,
+    preview_text: newsletter.preview_text || null,
+    sent_at: newsletter.sent_at || null,
+    archive_url: newsletter.archive_url || buildNewsletterArchiveUrl(store, { ...newsletter, is_public: true }),
+  };
+}
+
+async function queryArchive(strapi: any, store: any, page: number, pageSize: number) {
+  const filters = archiveFilters(store);
+
+  const [newsletters, total] = await Promise.all([
+    (strapi.documents as any)(NEWSLETTER_UID).findMany({
+      filters,
+      fields: ARCHIVE_FIELDS,
+      sort: ['sent_at:desc'],
+      status: 'published',
+      start: (page - 1) * pageSize,
+      limit: pageSize,
+    }) as Promise<any[]>,
+    (strapi.documents as any)(NEWSLETTER_UID).count({ filters, status: 'published' }),
+  ]);
+
+  return { items: newsletters.map((newsletter) => toArchiveItem(store, newsletter)), total };
+}
+
+/**
+ * Sent public editions of a store, newest first.
+ */
+export async function listArchivedNewsletters(strapi: any, storeRef: string, options: { page?: any; pageSize?: any } = {}) {
+  const store = await findArchiveStore(strapi, storeRef);
+  if (!store) {
+    return null;
+  }
+
+  const page = readPositiveInt(options.page, 1);
+  const pageSize = Math.min(readPositiveInt(options.pageSize, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const { items, total } = await queryArchive(strapi, store, page, pageSize);
+
+  return {
+    store: { documentId: store.documentId, slug: store.slug, title: store.title },
+    title: resolveNewsletterArchiveSettings(store).title,
+    data: items,
+    pagination: { page, pageSize, total, pages: Math.ceil(total / pageSize) },
+  };
+}
+
+/**
+ * One sent public edition by slug, rendered with the store email layout (no unsubscribe link).
+ */
+export async function getArchivedNewsletter(strapi: any, storeRef: string, slug: string) {
+  const store = await findArchiveStore(strapi, storeRef);
+  if (!store || !slug) {
+    return null;
+  }
+
+  const [newsletter] = await (strapi.documents as any)(NEWSLETTER_UID).findMany({
+    filters: archiveFilters(store, { slug: { $eq: slug } }),
+    status: 'published',
+    limit: 1,
+  }) as any[];
+
+  if (!newsletter) {
+    return null;
+  }
+
+  const rendered = renderNewsletterEmail({ newsletter, store });
+
+  return {
+    ...toArchiveItem(store, newsletter),
+    html: rendered.html,
+    text: rendered.text,
+  };
+}
+
+function renderRss(store: any, title: string, feedUrl: string, items: any[]): string {
+  const entries = items.map((item) => `    <item>
+      <title>${escapeXml(item.title)}</title>
+      <link>${escapeXml(item.archive_url)}</link>
+      <guid isPermaLink="false">${escapeXml(item.documentId)}</guid>
+      ${item.sent_at ? `<pubDate>${new Date(item.sent_at).toUTCString()}</pubDate>` : ''}
+      <description>${escapeXml(item.preview_text || item.subject || '')}</description>
+    </item>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(`${store.title || store.slug} - ${title}`)}</title>
+    <link>${escapeXml(storeBaseUrl(store))}</link>
+    <description>${escapeXml(title)}</description>
+    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml" />
+${entries}
+  </channel>
+</rss>`;
+}
+
+function renderAtom(store: any, title: string, feedUrl: string, items: any[]): string {
+  const updated = items[0]?.sent_at || new Date().toISOString();
+  const entries = items.map((item) => `  <entry>
+    <title>${escapeXml(item.title)}</title>
+    <link href="${escapeXml(item.archive_url)}" />
+    <id>urn:markket:newsletter:${escapeXml(item.documentId)}</id>
+    <updated>${new Date(item.sent_at || updated).toISOString()}</updated>
+    <summary>${escapeXml(item.preview_text || item.subject || '')}</summary>
+  </entry>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(`${store.title || store.slug} - ${title}`)}</title>
+  <link href="${escapeXml(feedUrl)}" rel="self" />
+  <link href="${escapeXml(storeBaseUrl(store))}" />
+  <id>urn:markket:newsletter-archive:${escapeXml(store.documentId)}</id>
+  <updated>${new Date(updated).toISOString()}</updated>
+${entries}
+</feed>`;
+}
+
+/**
+ * RSS 2.0 (default) or Atom feed of the latest public editions.
+ * `feedUrl` is the public URL of the feed itself (self link).
+ */
+export async function renderNewsletterFeed(strapi: any, storeRef: string, format: NewsletterFeedFormat, feedUrl: string) {
+  const store = await findArchiveStore(strapi, storeRef);
+  if (!store) {
+    return null;
+  }
+
+  const title = resolveNewsletterArchiveSettings(store).title;
+  const { items } = await queryArchive(strapi, store, 1, FEED_ITEMS);
+  const linked = items.filter((item) => item.archive_url);
+
+  return {
+    contentType: format === 'atom' ? 'application/atom+xml; charset=utf-8' : 'application/rss+xml; charset=utf-8',
+    body: format === 'atom'
+      ? renderAtom(store, title, feedUrl, linked)
+      : renderRss(store, title, feedUrl, linked),
+  };
+}
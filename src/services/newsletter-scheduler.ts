@@ -0,0 +1,236 @@
+/**
+ * Scheduled newsletter sends.
+ *
+ * Lifecycle:
+ * - schedule: draft|cancelled|scheduled -> scheduled (scheduled_at set, cancelled_at cleared)
+ * - cancel: scheduled -> cancelled (cancelled_at set)
+ *
+ * Sending:
+ * - sendDueNewsletters() is called from the cron task in src/index.ts. It also resumes editions left in
+ *   `sending` by a crashed worker once their `newsletter-send:<id>` lease has expired.
+ * - Status fields are written with updateNewsletter(), which never publishes unrelated draft edits.
+ * - The whole run holds a persistent job lock, so overlapping runs (or several
+ *   instances) skip instead of double sending; each edition is also locked by
+ *   sendNewsletter() itself.
+ * - Per-run results are appended to newsletter.send_runs by the send pipeline.
+ */
+
+import { isJobLockHeld, withJobLock } from './job-lock';
+import { sendNewsletter, updateNewsletter } from './newsletter-send';
+
+const NEWSLETTER_UID = 'api::subscriber.newsletter';
+
+const CRON_LOCK_KEY = 'cron:newsletter-scheduler';
+const CRON_LOCK_TTL_MS = 2 * 60 * 60 * 1000;
+const DUE_BATCH_LIMIT = 20;
+const SCHEDULABLE_STATUSES = ['draft', 'scheduled', 'cancelled'];
+
+export interface NewsletterScheduleResult {
+  ok: boolean;
+  action: 'newsletter.schedule' | 'newsletter.cancel';
+  reason?: string;
+  data?: {
+    newsletterDocumentId: string;
+    sending_status: string;
+    scheduled_at: string | null;
+    cancelled_at: string | null;
+  };
+}
+
+async function findStoreNewsletter(strapi: any, storeDocumentId: string, newsletterDocumentId: string): Promise<any | null> {
+  const newsletter = await (strapi.documents as any)(NEWSLETTER_UID).findOne({
+    documentId: newsletterDocumentId,
+    populate: ['store'],
+  });
+
+  if (!newsletter || newsletter?.store?.documentId !== storeDocumentId) {
+    return null;
+  }
+
+  return newsletter;
+}
+
+/**
+ * Schedule (or reschedule) a newsletter for a future send.
+ */
+export async function scheduleNewsletter(strapi: any, input: {
+  storeDocumentId: string;
+  newsletterDocumentId: string;
+  scheduledAt: string;
+}): Promise<NewsletterScheduleResult> {
+  const scheduledAt = new Date(input?.scheduledAt);
+  if (!input?.scheduledAt || Number.isNaN(scheduledAt.getTime())) {
+    return { ok: false, action: 'newsletter.schedule', reason: 'scheduled_at must be a valid ISO datetime' };
+  }
+
+  if (scheduledAt.getTime() <= Date.now()) {
+    return { ok: false, action: 'newsletter.schedule', reason: 'scheduled_at must be in the future' };
+  }
+
+  const newsletter = await findStoreNewsletter(strapi, input.storeDocumentId, input.newsletterDocumentId);
+  if (!newsletter) {
+    return { ok: false, action: 'newsletter.schedule', reason: 'Newsletter not found' };
+  }
+
+  const currentStatus = newsletter.sending_status || 'draft';
+  if (!SCHEDULABLE_STATUSES.includes(currentStatus)) {
+    return { ok: false, action: 'newsletter.schedule', reason: `Newsletter is ${currentStatus} and cannot be scheduled` };
+  }
+
+  await updateNewsletter(strapi, newsletter.documentId, {
+    sending_status: 'scheduled',
+    scheduled_at: scheduledAt.toISOString(),
+    cancelled_at: null,
+  });
+
+  console.log('[NEWSLETTER_SCHEDULE] scheduled', {
+    newsletterDocumentId: newsletter.documentId,
+    scheduledAt: scheduledAt.toISOString(),
+    rescheduled: currentStatus === 'scheduled',
+  });
+
+  return {
+    ok: true,
+    action: 'newsletter.schedule',
+    data: {
+      newsletterDocumentId: newsletter.documentId,
+      sending_status: 'scheduled',
+      scheduled_at: scheduledAt.toISOString(),
+      cancelled_at: null,
+    },
+  };
+}
+
+/**
+ * Cancel a scheduled newsletter before the cron picks it up.
+ */
+export async function cancelScheduledNewsletter(strapi: any, input: {
+  storeDocumentId: string;
+  newsletterDocumentId: string;
+}): Promise<NewsletterScheduleResult> {
+  const newsletter = await findStoreNewsletter(strapi, input.storeDocumentId, input.newsletterDocumentId);
+  if (!newsletter) {
+    return { ok: false, action: 'newsletter.cancel', reason: 'Newsletter not found' };
+  }
+
+  if (newsletter.sending_status !== 'scheduled') {
+    return { ok: false, action: 'newsletter.cancel', reason: `Only scheduled newsletters can be cancelled (current: ${newsletter.sending_status || 'draft'})` };
+  }
+
+  const cancelledAt = new Date().toISOString();
+  await updateNewsletter(strapi, newsletter.documentId, {
+    sending_status: 'cancelled',
+    cancelled_at: cancelledAt,
+  });
+
+  console.log('[NEWSLETTER_SCHEDULE] cancelled', { newsletterDocumentId: newsletter.documentId });
+
+  return {
+    ok: true,
+    action: 'newsletter.cancel',
+    data: {
+      newsletterDocumentId: newsletter.documentId,
+      sending_status: 'cancelled',
+      scheduled_at: newsletter.scheduled_at || null,
+      cancelled_at: cancelledAt,
+    },
+  };
+}
+
+/**
+ * Find scheduled newsletters whose scheduled_at has passed and send them, and resume interrupted sends.
+ * Called from the cron task registered in src/index.ts.
+ */
+export async function sendDueNewsletters(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    const newsletters = (strapi.documents as any)(NEWSLETTER_UID);
+
+    let due: any[];
+    try {
+      due = await newsletters.findMany({
+        filters: {
+          $or: [
+            {
+              sending_status: { $eq: 'scheduled' },
+              scheduled_at: { $lte: new Date().toISOString() },
+              cancelled_at: { $null: true },
+            },
+            { sending_status: { $eq: 'sending' } },
+          ],
+        },
+        populate: ['store'],
+        sort: ['scheduled_at:asc'],
+        limit: DUE_BATCH_LIMIT,
+      });
+    } catch (err: any) {
+      console.error('[NEWSLETTER_CRON] Failed to query due newsletters:', err.message);
+      return;
+    }
+
+    if (!due.length) {
+      return;
+    }
+
+    console.log('[NEWSLETTER_CRON] Processing newsletters', { count: due.length });
+
+    for (const newsletter of due) {
+      const latest = await newsletters.findOne({ documentId: newsletter.documentId });
+      if (!latest || !['scheduled', 'sending'].includes(latest.sending_status)) {
+        continue;
+      }
+
+      // `sending` with a live lease is a send in progress; only an expired lease means it was interrupted.
+      if (latest.sending_status === 'sending' && await isJobLockHeld(strapi, `newsletter-send:${newsletter.documentId}`)) {
+        continue;
+      }
+
+      const storeDocumentId = newsletter?.store?.documentId;
+      if (!storeDocumentId) {
+        await updateNewsletter(strapi, newsletter.documentId, { sending_status: 'failed', delivery_status: 'failed' });
+        console.warn('[NEWSLETTER_CRON] Store relation missing', { newsletterDocumentId: newsletter.documentId });
+        continue;
+      }
+
+      try {
+        const result = await sendNewsletter(strapi, {
+          storeDocumentId,
+          newsletterDocumentId: newsletter.documentId,
+          trigger: 'schedule',
+        });
+
+        const after = result.ok ? null : await newsletters.findOne({ documentId: newsletter.documentId });
+        if (after?.sending_status === 'scheduled' && result.reason !== 'Newsletter is already sending') {
+          // Rejected before any delivery (e.g. no transport): record it instead of retrying every run.
+          await updateNewsletter(strapi, newsletter.documentId, {
+            sending_status: 'failed',
+            delivery_status: 'failed',
+            send_runs: [
+              ...(Array.isArray(after.send_runs) ? after.send_runs : []),
+              {
+                trigger: 'schedule',
+                started_at: new Date().toISOString(),
+                finished_at: new Date().toISOString(),
+                status: 'failed',
+                error: result.reason || 'send_rejected',
+              },
+            ].slice(-20),
+          });
+        }
+
+        console.log('[NEWSLETTER_CRON] Newsletter done', {
+          newsletterDocumentId: newsletter.documentId,
+          ok: result.ok,
+          reason: result.reason || null,
+          sent: result.data?.sent ?? 0,
+          failed: result.data?.failed ?? 0,
+        });
+      } catch (err: any) {
+        console.error('[NEWSLETTER_CRON] Send failed', { newsletterDocumentId: newsletter.documentId, error: err.message });
+      }
+    }
+  });
+
+  if (!run.acquired) {
+    console.warn('[NEWSLETTER_CRON] Previous run still active, skipping overlap');
+  }
+}
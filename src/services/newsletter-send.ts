@@ -0,0 +1,547 @@
+/**
+ * Newsletter send pipeline
+ *
+ * Renders a newsletter edition with the store email theme, resolves recipients
+ * from newsletter.target_lists (active memberships only) and delivers in throttled
+ * batches through the shared mail transport (sendgrid, smtp or local; see mail-transport.ts).
+ *
+ * Status lifecycle on the newsletter record:
+ * - sending_status: draft|scheduled -> sending -> sent|failed
+ * - delivery_status: pending -> processing -> delivered|partially_delivered|failed
+ * - send_stats: total_recipients, sent, failed, last_recipient_email, last_updated_at
+ * - send_runs: one entry per attempt (manual or scheduled), newest last
+ * - archive_url: set for public editions when the store archive is enabled (see newsletter-archive.ts)
+ *
+ * Each edition is guarded by a persistent job lock, renewed before every batch, so a manual send and the
+ * scheduler cron can never deliver the same edition concurrently. An edition left in
+ * `sending` once that lease expired was interrupted: the next send resumes after
+ * last_recipient_email (or starts over with force).
+ */
+
+import { emailLayout } from '../api/markket/services/notification/email.template';
+import { type JobLease, withJobLock } from './job-lock';
+import {
+  resolveMailSender,
+  resolveMailTransport,
+  type MailResult,
+  type MailTransport,
+} from './mail-transport';
+import { buildNewsletterArchiveUrl } from './newsletter-archive';
+
+const NEWSLETTER_UID = 'api::subscriber.newsletter';
+const LIST_UID = 'api::subscriber.subscriber-list';
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_BATCH_DELAY_MS = 1000;
+const MEMBERSHIP_PAGE_SIZE = 500;
+const MAX_RECORDED_ERRORS = 20;
+const MAX_RECORDED_RUNS = 20;
+const SEND_LOCK_TTL_MS = 60 * 60 * 1000;
+
+/** Newsletter sends use the shared mail transport layer (src/services/mail-transport.ts). */
+export type NewsletterMailResult = MailResult;
+export type NewsletterMailTransport = MailTransport;
+
+export interface NewsletterRecipient {
+  email: string;
+  subscriberDocumentId: string;
+  membershipDocumentId: string;
+  listDocumentId: string | null;
+}
+
+interface SendNewsletterInput {
+  storeDocumentId: string;
+  newsletterDocumentId: string;
+  transport?: NewsletterMailTransport;
+  batchSize?: number;
+  batchDelayMs?: number;
+  /** Allow re-sending an edition that already reached `sent` or `failed`, or restarting an interrupted one from the top. */
+  force?: boolean;
+  trigger?: 'manual' | 'schedule';
+}
+
+export interface SendNewsletterResult {
+  ok: boolean;
+  action: 'newsletter.send';
+  reason?: string;
+  data?: {
+    newsletterDocumentId: string;
+    transport: string;
+    sending_status: string;
+    delivery_status: string;
+    total_recipients: number;
+    sent: number;
+    failed: number;
+    sent_at: string | null;
+    errors: Array<{ email: string; error: string }>;
+  };
+}
+
+function normalizeEmail(value: any): string {
+  return String(value || '').trim().toLowerCase();
+}
+
+function escapeHtml(value: any): string {
+  return String(value || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function readPositiveInt(value: any, fallback: number): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Minimal richtext -> HTML fallback used when html_content is empty. */
+function richTextToHtml(content: string): string {
+  return String(content || '')
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => {
+      const heading = block.match(/^(#{1,3})\s+(.*)$/);
+      if (heading) {
+        const level = heading[1].length + 1;
+        return `<h${level} style="margin:18px 0 10px 0;">${escapeHtml(heading[2])}</h${level}>`;
+      }
+      return `<p style="margin:0 0 14px 0;">${escapeHtml(block).replace(/\n/g, '<br>')}</p>`;
+    })
+    .join('\n');
+}
+
+function htmlToPlainText(html: string): string {
+  return String(html || '')
+    .replace(/<style[\s\S]*?<\/style>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|tr|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, '\'')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function buildNewsletterUnsubscribeUrl(store: any, subscriberDocumentId: string, listDocumentId?: string): string {
+  const base = `https://markket.place/${store?.slug || ''}/subscription?code=${subscriberDocumentId}`;
+  return listDocumentId ? `${base}&list=${listDocumentId}` : base;
+}
+
+/**
+ * Sender identity for store mail: mail extension from_email/from_name, then platform defaults.
+ */
+export async function resolveNewsletterSender(strapi: any, storeDocumentId: string, store: any): Promise<{
+  from: { email: string; name: string };
+  replyTo?: string;
+}> {
+  const { from, replyTo } = await resolveMailSender(strapi, storeDocumentId, store);
+  return { from: { email: from.email, name: from.name || 'Markkët' }, replyTo };
+}
+
+/**
+ * Render a newsletter edition inside the shared store email layout.
+ * archiveUrl adds the "view in browser" link when the edition has email_includes_archive_link.
+ */
+export function renderNewsletterEmail(input: {
+  newsletter: any;
+  store: any;
+  unsubscribeUrl?: string;
+  archiveUrl?: string | null;
+}): { subject: string; html: string; text: string } {
+  const { newsletter, store, unsubscribeUrl } = input;
+  const body = String(newsletter?.html_content || '').trim() || richTextToHtml(newsletter?.content);
+  const mutedColor = store?.settings?.email_theme?.mutedTextColor || '#475569';
+  const archiveUrl = newsletter?.email_includes_archive_link !== false ? input.archiveUrl || null : null;
+  const archiveLinkText = String(newsletter?.archive_link_text || '').trim() || 'View in browser';
+
+  const content = `
+    ${newsletter?.preview_text ? `<div style="display:none;max-height:0;overflow:hidden;">${escapeHtml(newsletter.preview_text)}</div>` : ''}
+    ${archiveUrl ? `<p style="margin:0 0 16px 0;font-size:12px;text-align:center;"><a href="${escapeHtml(archiveUrl)}" style="color:${mutedColor};">${escapeHtml(archiveLinkText)}</a></p>` : ''}
+    ${body}
+    ${unsubscribeUrl ? `<p style="margin:24px 0 0 0;font-size:12px;line-height:1.7;color:${mutedColor};">Not for you anymore? <a href="${escapeHtml(unsubscribeUrl)}" style="color:${mutedColor};">Unsubscribe</a>.</p>` : ''}
+  `;
+
+  const html = emailLayout({
+    content,
+    title: newsletter?.title || newsletter?.subject || 'Newsletter',
+    store,
+  });
+
+  const text = `${archiveUrl ? `${archiveLinkText}: ${archiveUrl}\n\n` : ''}${String(newsletter?.plain_text_content || '').trim()
+    || `${htmlToPlainText(body)}${unsubscribeUrl ? `\n\nUnsubscribe: ${unsubscribeUrl}` : ''}`}`;
+
+  return {
+    subject: String(newsletter?.subject || newsletter?.title || 'Newsletter'),
+    html,
+    text,
+  };
+}
+
+async function resolveTargetListIds(strapi: any, newsletter: any, storeDocumentId: string): Promise<string[]> {
+  const listIds = (newsletter?.target_lists || [])
+    .filter((list: any) => list?.active !== false)
+    .map((list: any) => list?.documentId)
+    .filter(Boolean);
+
+  if (listIds.length > 0) {
+    return listIds;
+  }
+
+  // No explicit targeting: fall back to the store default list.
+  const defaults = await (strapi.documents as any)(LIST_UID).findMany({
+    filters: {
+      store: { documentId: { $eq: storeDocumentId } },
+      is_default: { $eq: true },
+      active: { $eq: true },
+    },
+    limit: 1,
+  }) as any[];
+
+  return defaults.map((list: any) => list.documentId).filter(Boolean);
+}
+
+/**
+ * Resolve unique recipients from active list memberships, ordered by email.
+ * Excludes unsubscribed/bounced/complained memberships and inactive subscribers.
+ */
+export async function resolveNewsletterRecipients(
+  strapi: any,
+  newsletter: any,
+  storeDocumentId: string
+): Promise<NewsletterRecipient[]> {
+  const listIds = await resolveTargetListIds(strapi, newsletter, storeDocumentId);
+  if (listIds.length === 0) {
+    return [];
+  }
+
+  const memberships = (strapi.documents as any)(MEMBERSHIP_UID);
+  const byEmail = new Map<string, NewsletterRecipient>();
+  let start = 0;
+
+  while (true) {
+    const page = await memberships.findMany({
+      filters: {
+        list: { documentId: { $in: listIds } },
+        status: { $eq: 'subscribed' },
+      },
+      populate: ['subscriber', 'list'],
+      sort: ['id:asc'],
+      start,
+      limit: MEMBERSHIP_PAGE_SIZE,
+    }) as any[];
+
+    for (const membership of page) {
+      const subscriber = membership?.subscriber;
+      const email = normalizeEmail(subscriber?.Email);
+      if (!email || !subscriber?.documentId) {
+        continue;
+      }
+
+      if (subscriber.active === false || subscriber.unsubscribed_at) {
+        continue;
+      }
+
+      if (!byEmail.has(email)) {
+        byEmail.set(email, {
+          email,
+          subscriberDocumentId: subscriber.documentId,
+          membershipDocumentId: membership.documentId,
+          listDocumentId: membership?.list?.documentId || null,
+        });
+      }
+    }
+
+    if (page.length < MEMBERSHIP_PAGE_SIZE) {
+      break;
+    }
+
+    start += MEMBERSHIP_PAGE_SIZE;
+  }
+
+  // Stable order so an interrupted send can resume after send_stats.last_recipient_email.
+  return Array.from(byEmail.values()).sort((a, b) => (a.email < b.email ? -1 : a.email > b.email ? 1 : 0));
+}
+
+/**
+ * Write send-state fields on the draft and published versions of an edition. A document update with
+ * `status: 'published'` would also publish whatever unrelated draft edits the edition has.
+ */
+export async function updateNewsletter(strapi: any, documentId: string, data: Record<string, any>): Promise<void> {
+  await strapi.db.query(NEWSLETTER_UID).updateMany({
+    where: { documentId },
+    data,
+  });
+}
+
+/**
+ * Write the sender's own send_stats counters over a fresh read, so engagement counters
+ * bumped meanwhile by the SendGrid event webhook (see sendgrid-events.ts) are kept.
+ */
+async function updateSendStats(strapi: any, documentId: string, senderStats: Record<string, any>, data: Record<string, any> = {}): Promise<void> {
+  const latest = await (strapi.documents as any)(NEWSLETTER_UID).findOne({ documentId, fields: ['send_stats'] });
+
+  await updateNewsletter(strapi, documentId, {
+    ...data,
+    send_stats: { ...(latest?.send_stats || {}), ...senderStats },
+  });
+}
+
+function appendSendRun(newsletter: any, run: Record<string, any>): any[] {
+  const previous = Array.isArray(newsletter?.send_runs) ? newsletter.send_runs : [];
+  return [...previous, run].slice(-MAX_RECORDED_RUNS);
+}
+
+/**
+ * Send a newsletter edition to its target lists.
+ */
+export async function sendNewsletter(strapi: any, input: SendNewsletterInput): Promise<SendNewsletterResult> {
+  const storeDocumentId = String(input?.storeDocumentId || '').trim();
+  const newsletterDocumentId = String(input?.newsletterDocumentId || '').trim();
+
+  if (!storeDocumentId || !newsletterDocumentId) {
+    return { ok: false, action: 'newsletter.send', reason: 'storeDocumentId and newsletterDocumentId are required' };
+  }
+
+  const locked = await withJobLock(strapi, `newsletter-send:${newsletterDocumentId}`, SEND_LOCK_TTL_MS, (lease) =>
+    runNewsletterSend(strapi, { ...input, storeDocumentId, newsletterDocumentId }, lease)
+  );
+
+  if (!locked.acquired) {
+    return { ok: false, action: 'newsletter.send', reason: 'Newsletter is already sending' };
+  }
+
+  return locked.result as SendNewsletterResult;
+}
+
+async function runNewsletterSend(strapi: any, input: SendNewsletterInput, lease: JobLease): Promise<SendNewsletterResult> {
+  const { storeDocumentId, newsletterDocumentId } = input;
+  const trigger = input.trigger || 'manual';
+  const startedAt = new Date().toISOString();
+
+  const newsletter = await (strapi.documents as any)(NEWSLETTER_UID).findOne({
+    documentId: newsletterDocumentId,
+    populate: ['target_lists', 'store'],
+  });
+
+  if (!newsletter) {
+    return { ok: false, action: 'newsletter.send', reason: 'Newsletter not found' };
+  }
+
+  if (newsletter?.store?.documentId && newsletter.store.documentId !== storeDocumentId) {
+    return { ok: false, action: 'newsletter.send', reason: 'Newsletter does not belong to store' };
+  }
+
+  // We hold the edition lease, so a `sending` status was left behind by a run whose lease expired.
+  const resuming = newsletter.sending_status === 'sending' && !input.force;
+  if (newsletter.sending_status === 'sending') {
+    console.warn('[NEWSLETTER_SEND] previous run was interrupted', {
+      newsletterDocumentId,
+      last_recipient_email: newsletter.send_stats?.last_recipient_email || null,
+      restart: !resuming,
+    });
+  }
+
+  if (newsletter.sending_status === 'cancelled') {
+    return { ok: false, action: 'newsletter.send', reason: 'Newsletter was cancelled' };
+  }
+
+  if (['sent', 'failed'].includes(newsletter.sending_status) && !input.force) {
+    return { ok: false, action: 'newsletter.send', reason: `Newsletter already ${newsletter.sending_status}; pass force to resend` };
+  }
+
+  const transport = input.transport || await resolveMailTransport(strapi, storeDocumentId);
+  if (!transport) {
+    return { ok: false, action: 'newsletter.send', reason: 'No mail transport configured (MAIL_TRANSPORT, SMTP_HOST, SENDGRID_API_KEY or store extension)' };
+  }
+
+  const store = await (strapi.documents as any)('api::store.store').findOne({
+    documentId: storeDocumentId,
+    populate: ['settings', 'Favicon'],
+  });
+
+  const { from, replyTo } = await resolveNewsletterSender(strapi, storeDocumentId, store);
+  const archiveUrl = buildNewsletterArchiveUrl(store, newsletter);
+
+  const previousStats = newsletter.send_stats || {};
+
+  await updateNewsletter(strapi, newsletterDocumentId, {
+    sending_status: 'sending',
+    delivery_status: 'processing',
+    ...(archiveUrl ? { archive_url: archiveUrl } : {}),
+  });
+
+  let recipients: NewsletterRecipient[] = [];
+  try {
+    recipients = await resolveNewsletterRecipients(strapi, newsletter, storeDocumentId);
+  } catch (error: any) {
+    console.error('[NEWSLETTER_SEND] recipient resolution failed:', error.message);
+    await updateNewsletter(strapi, newsletterDocumentId, {
+      sending_status: 'failed',
+      delivery_status: 'failed',
+      send_runs: appendSendRun(newsletter, {
+        trigger,
+        started_at: startedAt,
+        finished_at: new Date().toISOString(),
+        status: 'failed',
+        error: error.message,
+      }),
+    });
+    return { ok: false, action: 'newsletter.send', reason: 'Failed to resolve recipients' };
+  }
+
+  const resumeAfter = resuming ? String(previousStats.last_recipient_email || '') : '';
+  const pending = resumeAfter ? recipients.filter((recipient) => recipient.email > resumeAfter) : recipients;
+
+  let sent = resuming ? Number(previousStats.sent || 0) : 0;
+  let failed = resuming ? Number(previousStats.failed || 0) : 0;
+  let lastRecipientEmail: string | null = resumeAfter || null;
+
+  await updateSendStats(strapi, newsletterDocumentId, {
+    total_recipients: recipients.length,
+    sent,
+    failed,
+    last_recipient_email: lastRecipientEmail,
+    last_updated_at: new Date().toISOString(),
+  });
+
+  const batchSize = input.batchSize || readPositiveInt(process.env.NEWSLETTER_BATCH_SIZE, DEFAULT_BATCH_SIZE);
+  const batchDelayMs = input.batchDelayMs ?? readPositiveInt(process.env.NEWSLETTER_BATCH_DELAY_MS, DEFAULT_BATCH_DELAY_MS);
+
+  console.log('[NEWSLETTER_SEND] start', {
+    newsletterDocumentId,
+    storeDocumentId,
+    trigger,
+    transport: transport.name,
+    recipients: recipients.length,
+    pending: pending.length,
+    resuming,
+    batchSize,
+  });
+
+  const errors: Array<{ email: string; error: string }> = [];
+
+  for (let index = 0; index < pending.length; index += batchSize) {
+    // Keep the edition lease alive; if it was lost another sender owns the edition now, so stop without writing.
+    if (!(await lease.renew())) {
+      console.error('[NEWSLETTER_SEND] lease lost, stopping', { newsletterDocumentId, sent, failed });
+      return { ok: false, action: 'newsletter.send', reason: 'Send lease lost to another sender' };
+    }
+
+    const batch = pending.slice(index, index + batchSize);
+
+    const results = await Promise.all(batch.map(async (recipient) => {
+      const unsubscribeUrl = buildNewsletterUnsubscribeUrl(store, recipient.subscriberDocumentId, recipient.listDocumentId || undefined);
+      const rendered = renderNewsletterEmail({ newsletter, store, unsubscribeUrl, archiveUrl });
+
+      const result = await transport.send({
+        to: recipient.email,
+        from,
+        replyTo,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers: {
+          'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        },
+        customArgs: {
+          newsletter_document_id: newsletterDocumentId,
+          subscriber_document_id: recipient.subscriberDocumentId,
+          store_document_id: storeDocumentId,
+        },
+      }).catch((error: any) => ({ success: false, error: error?.message || 'transport_error' }) as NewsletterMailResult);
+
+      return { recipient, result };
+    }));
+
+    for (const { recipient, result } of results) {
+      if (result.success) {
+        sent++;
+      } else {
+        failed++;
+        if (errors.length < MAX_RECORDED_ERRORS) {
+          errors.push({ email: recipient.email, error: result.error || 'send_failed' });
+        }
+      }
+    }
+
+    lastRecipientEmail = batch[batch.length - 1].email;
+
+    await updateSendStats(strapi, newsletterDocumentId, {
+      total_recipients: recipients.length,
+      sent,
+      failed,
+      last_recipient_email: lastRecipientEmail,
+      last_updated_at: new Date().toISOString(),
+    });
+
+    if (index + batchSize < pending.length && batchDelayMs > 0) {
+      await sleep(batchDelayMs);
+    }
+  }
+
+  const sentAt = new Date().toISOString();
+  const deliveryStatus = recipients.length === 0 || failed === 0
+    ? 'delivered'
+    : sent === 0 ? 'failed' : 'partially_delivered';
+  const sendingStatus = recipients.length > 0 && sent === 0 ? 'failed' : 'sent';
+
+  await updateSendStats(strapi, newsletterDocumentId, {
+    total_recipients: recipients.length,
+    sent,
+    failed,
+    errors,
+    last_recipient_email: lastRecipientEmail,
+    last_updated_at: sentAt,
+  }, {
+    sending_status: sendingStatus,
+    delivery_status: deliveryStatus,
+    sent_at: sendingStatus === 'sent' ? sentAt : newsletter.sent_at || null,
+    send_runs: appendSendRun(newsletter, {
+      trigger,
+      started_at: startedAt,
+      finished_at: sentAt,
+      status: sendingStatus,
+      transport: transport.name,
+      total_recipients: recipients.length,
+      sent,
+      failed,
+      ...(resuming ? { resumed_after: resumeAfter || null } : {}),
+    }),
+  });
+
+  console.log('[NEWSLETTER_SEND] done', {
+    newsletterDocumentId,
+    sent,
+    failed,
+    sending_status: sendingStatus,
+    delivery_status: deliveryStatus,
+  });
+
+  return {
+    ok: sendingStatus === 'sent',
+    action: 'newsletter.send',
+    ...(sendingStatus === 'failed' ? { reason: 'All recipients failed' } : {}),
+    data: {
+      newsletterDocumentId,
+      transport: transport.name,
+      sending_status: sendingStatus,
+      delivery_status: deliveryStatus,
+      total_recipients: recipients.length,
+      sent,
+      failed,
+      sent_at: sendingStatus === 'sent' ? sentAt : null,
+      errors,
+    },
+  };
+}
@@ -2,6 +2,7 @@
  * Odoo API Partner Service
  *
  * Odoo Extension syncs contacts, marketing lists & orders to streamline operations for compatible stores
+ * testOdooConnection backs the extension test endpoint; the JSON-RPC client below backs the sync worker (odoo-sync.ts)
  * @NOTE: Abstract as markket.extensions in separate packages
  * @WIP: API in active development, attributes and workflows might change drastically before v1
  */
@@ -150,3 +151,253 @@ export async function testOdooConnection(
     };
   }
 }
+
+// ============================================================================
+// JSON-RPC client used by the sync worker (src/services/odoo-sync.ts)
+// ============================================================================
+
+export interface OdooConnection {
+  url: string;
+  database: string;
+  username: string;
+  api_key: string;
+  /** Known user id; skips common.authenticate when set */
+  uid?: number;
+  timeout?: number;
+}
+
+export interface OdooClient {
+  uid: number;
+  execute: <T = any>(model: string, method: string, args: any[], kwargs?: Record<string, any>) => Promise<T>;
+}
+
+export interface OdooPartnerInput {
+  email: string;
+  name?: string | null;
+  phone?: string | null;
+  street?: string | null;
+  street2?: string | null;
+  city?: string | null;
+  zip?: string | null;
+  /** Stored on the partner as `ref` so contacts trace back to Markket */
+  ref?: string | null;
+}
+
+export interface OdooSaleOrderLine {
+  product_id: number;
+  name: string;
+  quantity: number;
+  price_unit: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+async function callOdoo(connection: OdooConnection, service: string, method: string, args: any[]): Promise<any> {
+  const response = await fetch(`${connection.url.replace(/\/+$/, '')}/jsonrpc`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      method: 'call',
+      params: { service, method, args },
+      id: Date.now(),
+    }),
+    signal: AbortSignal.timeout(connection.timeout || DEFAULT_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Odoo HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const result = await response.json() as {
+    error?: { message?: string; data?: { message?: string } };
+    result?: any;
+  };
+
+  if (result.error) {
+    throw new Error(result.error.data?.message || result.error.message || 'Unknown Odoo error');
+  }
+
+  return result.result;
+}
+
+/**
+ * Authenticate against `common.authenticate` (unless a uid is configured) and return an execute_kw client
+ */
+export async function createOdooClient(connection: OdooConnection): Promise<OdooClient> {
+  if (!connection.url || !connection.database || !connection.api_key) {
+    throw new Error('Odoo url, database and api_key are required');
+  }
+
+  let uid = Number(connection.uid) || 0;
+  if (!uid) {
+    if (!connection.username) {
+      throw new Error('Odoo username is required to authenticate');
+    }
+
+    uid = Number(await callOdoo(connection, 'common', 'authenticate', [
+      connection.database,
+      connection.username,
+      connection.api_key,
+      {},
+    ])) || 0;
+
+    if (!uid) {
+      throw new Error('Odoo authentication failed');
+    }
+  }
+
+  return {
+    uid,
+    execute: (model, method, args, kwargs = {}) => callOdoo(connection, 'object', 'execute_kw', [
+      connection.database,
+      uid,
+      connection.api_key,
+      model,
+      method,
+      args,
+      kwargs,
+    ]),
+  };
+}
+
+function partnerValues(input: OdooPartnerInput): Record<string, any> {
+  const values: Record<string, any> = {
+    email: input.email,
+    name: input.name || input.email,
+  };
+
+  for (const field of ['phone', 'street', 'street2', 'city', 'zip', 'ref'] as const) {
+    if (input[field]) {
+      values[field] = input[field];
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Find res.partner by id (when known) or email, then write changes or create it. Returns the partner id.
+ */
+export async function upsertOdooPartner(
+  client: OdooClient,
+  input: OdooPartnerInput,
+  knownPartnerId?: number | null,
+): Promise<number> {
+  const email = String(input.email || '').trim().toLowerCase();
+  if (!email) {
+    throw new Error('Partner email is required');
+  }
+
+  const values = partnerValues({ ...input, email });
+  let partnerId = 0;
+
+  if (knownPartnerId) {
+    const existing = await client.execute<number[]>('res.partner', 'search', [[['id', '=', knownPartnerId]]], { limit: 1 });
+    partnerId = existing?.[0] || 0;
+  }
+
+  if (!partnerId) {
+    const existing = await client.execute<number[]>('res.partner', 'search', [[['email', '=ilike', email]]], { limit: 1 });
+    partnerId = existing?.[0] || 0;
+  }
+
+  if (!partnerId) {
+    return Number(await client.execute('res.partner', 'create', [values]));
+  }
+
+  // Keep names edited in Odoo; only fill in contact fields
+  const { name, ...updates } = values;
+  if (input.name) {
+    updates.name = name;
+  }
+  await client.execute('res.partner', 'write', [[partnerId], updates]);
+
+  return partnerId;
+}
+
+/**
+ * Resolve a product.product by internal reference (default_code), creating a service product when `create` is set
+ */
+export async function findOrCreateOdooProduct(
+  client: OdooClient,
+  input: { default_code: string; name: string; list_price: number },
+  create: boolean,
+): Promise<number | null> {
+  const existing = await client.execute<number[]>('product.product', 'search', [[['default_code', '=', input.default_code]]], { limit: 1 });
+  if (existing?.[0]) {
+    return existing[0];
+  }
+
+  if (!create) {
+    return null;
+  }
+
+  return Number(await client.execute('product.product', 'create', [{
+    name: input.name,
+    default_code: input.default_code,
+    list_price: input.list_price,
+    type: 'service',
+  }]));
+}
+
+/**
+ * Create a sale.order for a Markket order; client_order_ref carries the order uuid for the pull side
+ */
+export async function createOdooSaleOrder(
+  client: OdooClient,
+  input: {
+    partner_id: number;
+    client_order_ref: string;
+    origin?: string;
+    lines: OdooSaleOrderLine[];
+    confirm?: boolean;
+  },
+): Promise<number> {
+  const existing = await client.execute<number[]>('sale.order', 'search', [[['client_order_ref', '=', input.client_order_ref]]], { limit: 1 });
+  if (existing?.[0]) {
+    return existing[0];
+  }
+
+  const saleOrderId = Number(await client.execute('sale.order', 'create', [{
+    partner_id: input.partner_id,
+    client_order_ref: input.client_order_ref,
+    origin: input.origin || input.client_order_ref,
+    order_line: input.lines.map((line) => [0, 0, {
+      product_id: line.product_id,
+      name: line.name,
+      product_uom_qty: line.quantity,
+      price_unit: line.price_unit,
+    }]),
+  }]));
+
+  if (input.confirm) {
+    await client.execute('sale.order', 'action_confirm', [[saleOrderId]]);
+  }
+
+  return saleOrderId;
+}
+
+/**
+ * sale.order rows with a client_order_ref changed in Odoo after `since` (Odoo UTC "YYYY-MM-DD HH:MM:SS")
+ */
+export function listChangedOdooSaleOrders(client: OdooClient, since: string | null, limit: number) {
+  const domain: any[] = [['client_order_ref', '!=', false]];
+  if (since) {
+    domain.push(['write_date', '>', since]);
+  }
+
+  return client.execute<Array<{
+    id: number;
+    client_order_ref: string;
+    state: string;
+    invoice_status?: string;
+    write_date: string;
+  }>>('sale.order', 'search_read', [domain], {
+    fields: ['id', 'client_order_ref', 'state', 'invoice_status', 'write_date'],
+    order: 'write_date asc',
+    limit,
+  });
+}
@@ -0,0 +1,476 @@
+/**
+ * Odoo sync worker
+ *
+ * Two-way sync for stores with an active `markket:odoo` extension
+ * (credentials: url, database, api_key and username or uid; config: OdooExtensionData):
+ * - push: store subscribers -> res.partner, partner ids kept on subscriber.odoo_partner_ids[storeDocumentId]
+ * - push: paid, shipped and complete orders -> res.partner for the buyer + sale.order with lines from Details,
+ *   remote ids kept on order.extra.odoo
+ * - pull: sale.order state / invoice_status changed in Odoo -> order.extra.odoo (order Status is left alone)
+ *
+ * Cursors live on extension.meta.odoo_sync. extension.last_run (which replaced last_sync) is the last run
+ * without errors; meta.odoo_sync.last_attempt_at drives config.sync_interval.
+ * The cron honors config.sync_interval; tienda can trigger a run on demand.
+ */
+
+import { decryptCredentials } from './encryption';
+import { withJobLock } from './job-lock';
+import {
+  createOdooClient,
+  createOdooSaleOrder,
+  findOrCreateOdooProduct,
+  listChangedOdooSaleOrders,
+  upsertOdooPartner,
+  type OdooClient,
+  type OdooSaleOrderLine,
+} from './odoo-partner';
+import type { OdooExtensionData } from './extension-types';
+
+const STORE_UID = 'api::store.store';
+const SUBSCRIBER_UID = 'api::subscriber.subscriber';
+const ORDER_UID = 'api::order.order';
+const EXTENSION_COMPONENT_UID = 'common.extensions_config';
+
+const SYNCED_ORDER_STATUSES = ['paid', 'shipped', 'complete'];
+const DEFAULT_SYNC_INTERVAL_S = 15 * 60;
+const MIN_SYNC_INTERVAL_S = 60;
+const BATCH_SIZE = 100;
+const MAX_ORDER_ATTEMPTS = 5;
+const MAX_LOGGED_ERRORS = 20;
+const STORE_LOCK_TTL_MS = 10 * 60 * 1000;
+const CRON_LOCK_TTL_MS = 30 * 60 * 1000;
+
+interface OdooSyncState {
+  last_attempt_at?: string | null;
+  last_sync?: string | null;
+  subscribers_cursor?: string | null;
+  orders_cursor?: string | null;
+  pull_cursor?: string | null;
+}
+
+export interface OdooSyncSummary {
+  storeDocumentId: string;
+  extension_key: string;
+  skipped?: 'not_due';
+  partners: number;
+  orders: number;
+  pulled: number;
+  errors: string[];
+}
+
+export type OdooSyncResult =
+  | { ok: true; summary: OdooSyncSummary }
+  | { ok: false; code: 'invalid' | 'not_found' | 'locked'; error: string };
+
+function isOdooExtension(extension: any): boolean {
+  const key = String(extension?.key || '');
+  return extension?.active !== false && (key === 'markket:odoo' || key.startsWith('markket:odoo:'));
+}
+
+function readConfig(extension: any): Partial<OdooExtensionData> & Record<string, any> {
+  return extension?.config && typeof extension.config === 'object' ? extension.config : {};
+}
+
+function readConnection(extension: any) {
+  const credentials = decryptCredentials(extension.credentials) || {};
+  const config = readConfig(extension);
+
+  return {
+    url: credentials.url || extension.url,
+    database: credentials.database || config.database,
+    username: credentials.username || config.username,
+    api_key: credentials.api_key,
+    uid: Number(credentials.uid) || undefined,
+  };
+}
+
+function syncIntervalMs(config: Record<string, any>): number {
+  const seconds = Number(config.sync_interval);
+  return Math.max(MIN_SYNC_INTERVAL_S, Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_SYNC_INTERVAL_S) * 1000;
+}
+
+function errorMessage(error: any): string {
+  return String(error?.message || error || 'Unknown error');
+}
+
+type PartnerResolver = (email: string, address: any, knownPartnerId?: number | null) => Promise<number>;
+
+/** Upserts res.partner once per email per run; buyers and subscribers share the cache */
+function createPartnerResolver(client: OdooClient): PartnerResolver {
+  const byEmail = new Map<string, number>();
+
+  return async (email, address, knownPartnerId) => {
+    const normalized = email.trim().toLowerCase();
+    const cached = byEmail.get(normalized);
+    if (cached) {
+      return cached;
+    }
+
+    const partnerId = await upsertOdooPartner(client, {
+      email: normalized,
+      name: address?.name || null,
+      street: address?.street || null,
+      street2: address?.street_2 || null,
+      city: address?.city || null,
+      zip: address?.zipcode || null,
+    }, knownPartnerId);
+
+    byEmail.set(normalized, partnerId);
+    return partnerId;
+  };
+}
+
+async function pushSubscribers(
+  strapi: any,
+  storeDocumentId: string,
+  partners: PartnerResolver,
+  state: OdooSyncState,
+  summary: OdooSyncSummary,
+): Promise<void> {
+  const subscribers = await strapi.documents(SUBSCRIBER_UID).findMany({
+    filters: {
+      stores: { documentId: { $eq: storeDocumentId } },
+      ...(state.subscribers_cursor ? { updatedAt: { $gt: state.subscribers_cursor } } : {}),
+    },
+    sort: ['updatedAt:asc'],
+    limit: BATCH_SIZE,
+    status: 'published',
+  }) as any[];
+
+  for (const subscriber of subscribers) {
+    if (subscriber.Email) {
+      const partnerIds = subscriber.odoo_partner_ids && typeof subscriber.odoo_partner_ids === 'object'
+        ? subscriber.odoo_partner_ids
+        : {};
+      const knownPartnerId = Number(partnerIds[storeDocumentId]) || null;
+
+      try {
+        const partnerId = await partners(subscriber.Email, null, knownPartnerId);
+
+        // Only write when the id changed; the write moves updatedAt past the cursor
+        if (partnerId !== knownPartnerId) {
+          await strapi.documents(SUBSCRIBER_UID).update({
+            documentId: subscriber.documentId,
+            data: { odoo_partner_ids: { ...partnerIds, [storeDocumentId]: partnerId } },
+            status: 'published',
+          });
+          summary.partners += 1;
+        }
+      } catch (error: any) {
+        summary.errors.push(`subscriber ${subscriber.documentId}: ${errorMessage(error)}`);
+      }
+    }
+
+    state.subscribers_cursor = subscriber.updatedAt;
+  }
+}
+
+async function resolveOrderLines(client: OdooClient, order: any, config: Record<string, any>): Promise<OdooSaleOrderLine[]> {
+  const details = Array.isArray(order.Details) ? order.Details : [];
+  if (!details.length) {
+    throw new Error('Order has no line items');
+  }
+
+  const mapping: Record<string, number> = config.product_id_mapping || {};
+  const lines: OdooSaleOrderLine[] = [];
+
+  for (const detail of details) {
+    const quantity = Number(detail.Quantity) || 1;
+    const priceUnit = Number(detail.Unit_Price) || (Number(detail.Total_Price) || 0) / quantity;
+    const name = detail.Name || detail.product?.Name || 'Item';
+    const product = detail.product || {};
+
+    let productId = Number(mapping[product.documentId]) || Number(mapping[product.SKU]) || null;
+
+    const defaultCode = product.SKU || detail.Stripe_price_id || product.documentId;
+    if (!productId && defaultCode) {
+      productId = await findOrCreateOdooProduct(client, {
+        default_code: String(defaultCode),
+        name,
+        list_price: priceUnit,
+      }, Boolean(config.sync_products));
+    }
+
+    productId = productId || Number(config.default_product_id) || null;
+    if (!productId) {
+      throw new Error(`No Odoo product for "${name}"`);
+    }
+
+    lines.push({ product_id: productId, name, quantity, price_unit: priceUnit });
+  }
+
+  return lines;
+}
+
+/**
+ * Write extra.odoo from a fresh read of the order: the batch makes up to BATCH_SIZE Odoo round-trips, and refund,
+ * inventory and discount bookkeeping written to extra in the meantime must survive.
+ */
+async function writeOrderOdoo(strapi: any, documentId: string, odoo: Record<string, any>): Promise<void> {
+  const current = await strapi.documents(ORDER_UID).findOne({ documentId, fields: ['extra'] });
+  const extra = current?.extra && typeof current.extra === 'object' ? current.extra : {};
+
+  await strapi.documents(ORDER_UID).update({
+    documentId,
+    data: { extra: { ...extra, odoo } },
+  });
+}
+
+async function pushOrders(
+  strapi: any,
+  storeDocumentId: string,
+  client: OdooClient,
+  partners: PartnerResolver,
+  config: Record<string, any>,
+  state: OdooSyncState,
+  summary: OdooSyncSummary,
+): Promise<void> {
+  const orders = await strapi.documents(ORDER_UID).findMany({
+    filters: {
+      store: { documentId: { $eq: storeDocumentId } },
+      Status: { $in: SYNCED_ORDER_STATUSES },
+      ...(state.orders_cursor ? { updatedAt: { $gt: state.orders_cursor } } : {}),
+    },
+    populate: ['Details', 'Details.product', 'Shipping_Address', 'buyer'],
+    sort: ['updatedAt:asc'],
+    limit: BATCH_SIZE,
+  }) as any[];
+
+  for (const order of orders) {
+    state.orders_cursor = order.updatedAt;
+
+    const extra = order.extra && typeof order.extra === 'object' ? order.extra : {};
+    const odoo = extra.odoo || {};
+    if (odoo.sale_order_id || (odoo.attempts || 0) >= MAX_ORDER_ATTEMPTS) {
+      continue;
+    }
+
+    try {
+      const email = order.Shipping_Address?.email || order.buyer?.email;
+      if (!email) {
+        throw new Error('Order has no buyer email');
+      }
+
+      const partnerId = await partners(email, order.Shipping_Address);
+      const lines = await resolveOrderLines(client, order, config);
+      const saleOrderId = await createOdooSaleOrder(client, {
+        partner_id: partnerId,
+        client_order_ref: order.uuid || order.documentId,
+        origin: `Markket ${order.uuid || order.documentId}`,
+        lines,
+        confirm: Boolean(config.confirm_orders),
+      });
+
+      await writeOrderOdoo(strapi, order.documentId, {
+        partner_id: partnerId,
+        sale_order_id: saleOrderId,
+        state: config.confirm_orders ? 'sale' : 'draft',
+        synced_at: new Date().toISOString(),
+      });
+      summary.orders += 1;
+    } catch (error: any) {
+      const message = errorMessage(error);
+      summary.errors.push(`order ${order.documentId}: ${message}`);
+
+      // The write moves updatedAt past the cursor, so the order is retried until MAX_ORDER_ATTEMPTS
+      await writeOrderOdoo(strapi, order.documentId, {
+        ...odoo,
+        error: message,
+        attempts: (odoo.attempts || 0) + 1,
+        failed_at: new Date().toISOString(),
+      }).catch((err: any) => console.warn('[ODOO_SYNC] Failed to record order error', { documentId: order.documentId, error: err.message }));
+    }
+  }
+}
+
+async function pullSaleOrders(
+  strapi: any,
+  storeDocumentId: string,
+  client: OdooClient,
+  state: OdooSyncState,
+  summary: OdooSyncSummary,
+): Promise<void> {
+  const saleOrders = await listChangedOdooSaleOrders(client, state.pull_cursor || null, BATCH_SIZE);
+
+  for (const saleOrder of saleOrders || []) {
+    state.pull_cursor = saleOrder.write_date;
+
+    const [order] = await strapi.documents(ORDER_UID).findMany({
+      filters: {
+        store: { documentId: { $eq: storeDocumentId } },
+        $or: [
+          { uuid: { $eq: saleOrder.client_order_ref } },
+          { documentId: { $eq: saleOrder.client_order_ref } },
+        ],
+      },
+      limit: 1,
+    }) as any[];
+    if (!order) {
+      continue;
+    }
+
+    const extra = order.extra && typeof order.extra === 'object' ? order.extra : {};
+    const odoo = extra.odoo || {};
+    if (odoo.sale_order_id && Number(odoo.sale_order_id) !== saleOrder.id) {
+      continue;
+    }
+
+    const invoiceStatus = saleOrder.invoice_status || null;
+    if (odoo.state === saleOrder.state && (odoo.invoice_status || null) === invoiceStatus) {
+      continue;
+    }
+
+    await writeOrderOdoo(strapi, order.documentId, {
+      ...odoo,
+      sale_order_id: saleOrder.id,
+      state: saleOrder.state,
+      invoice_status: invoiceStatus,
+      remote_updated_at: saleOrder.write_date,
+    });
+    summary.pulled += 1;
+  }
+}
+
+/**
+ * Sync one store. `force` ignores config.sync_interval (manual runs).
+ */
+export async function runStoreOdooSync(
+  strapi: any,
+  storeDocumentId: string,
+  options: { force?: boolean } = {},
+): Promise<OdooSyncResult> {
+  const store = await strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    populate: ['extensions'],
+  });
+  if (!store) {
+    return { ok: false, code: 'not_found', error: 'Store not found' };
+  }
+
+  const extension = (store.extensions || []).find(isOdooExtension);
+  if (!extension) {
+    return { ok: false, code: 'not_found', error: 'Odoo extension not configured' };
+  }
+
+  const config = readConfig(extension);
+  const summary: OdooSyncSummary = {
+    storeDocumentId,
+    extension_key: extension.key,
+    partners: 0,
+    orders: 0,
+    pulled: 0,
+    errors: [],
+  };
+
+  const lastAttemptAt = extension.meta?.odoo_sync?.last_attempt_at || extension.last_run;
+  if (!options.force && lastAttemptAt && Date.now() - new Date(lastAttemptAt).getTime() < syncIntervalMs(config)) {
+    return { ok: true, summary: { ...summary, skipped: 'not_due' } };
+  }
+
+  const run = await withJobLock(strapi, `odoo-sync:${storeDocumentId}`, STORE_LOCK_TTL_MS, async (): Promise<OdooSyncResult> => {
+    const startedAt = new Date().toISOString();
+    const meta = extension.meta && typeof extension.meta === 'object' ? extension.meta : {};
+    const state: OdooSyncState = { ...(meta.odoo_sync || {}), last_attempt_at: startedAt };
+
+    let client: OdooClient | null = null;
+    try {
+      client = await createOdooClient(readConnection(extension));
+    } catch (error: any) {
+      summary.errors.push(errorMessage(error));
+    }
+
+    if (client) {
+      const partners = createPartnerResolver(client);
+      const phases: Array<[string, () => Promise<void>]> = [];
+
+      if (config.sync_contacts !== false) {
+        phases.push(['contacts', () => pushSubscribers(strapi, storeDocumentId, partners, state, summary)]);
+      }
+      if (config.sync_orders !== false) {
+        phases.push(['orders', () => pushOrders(strapi, storeDocumentId, client, partners, config, state, summary)]);
+        phases.push(['pull', () => pullSaleOrders(strapi, storeDocumentId, client, state, summary)]);
+      }
+
+      for (const [phase, execute] of phases) {
+        try {
+          await execute();
+        } catch (error: any) {
+          summary.errors.push(`${phase}: ${errorMessage(error)}`);
+        }
+      }
+    }
+
+    await strapi.db.query(EXTENSION_COMPONENT_UID).update({
+      where: { id: extension.id },
+      data: {
+        run_count: (Number(extension.run_count) || 0) + 1,
+        ...(summary.errors.length ? {} : { last_run: startedAt }),
+        meta: {
+          ...meta,
+          odoo_sync: {
+            ...state,
+            ...(summary.errors.length ? {} : { last_sync: startedAt }),
+            last_result: {
+              partners: summary.partners,
+              orders: summary.orders,
+              pulled: summary.pulled,
+              errors: summary.errors.slice(0, MAX_LOGGED_ERRORS),
+              finished_at: new Date().toISOString(),
+            },
+          },
+        },
+      },
+    });
+
+    if (!client) {
+      return { ok: false, code: 'invalid', error: summary.errors[0] };
+    }
+
+    return { ok: true, summary };
+  });
+
+  if (!run.acquired || !run.result) {
+    return { ok: false, code: 'locked', error: 'Odoo sync already running for this store' };
+  }
+
+  return run.result;
+}
+
+/**
+ * Cron: sync every store with an Odoo extension whose interval has elapsed.
+ */
+export async function runOdooSync(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, 'cron:odoo-sync', CRON_LOCK_TTL_MS, async () => {
+    const stores = await strapi.documents(STORE_UID).findMany({
+      filters: { extensions: { key: { $startsWith: 'markket:odoo' } } },
+      fields: ['documentId'],
+      limit: 200,
+    }) as any[];
+
+    const synced: OdooSyncSummary[] = [];
+    for (const store of stores) {
+      try {
+        const result = await runStoreOdooSync(strapi, store.documentId);
+        if (result.ok && !result.summary.skipped) {
+          synced.push(result.summary);
+        } else if (result.ok === false && result.code !== 'not_found') {
+          console.warn('[ODOO_SYNC] Store sync failed', { storeDocumentId: store.documentId, code: result.code, error: result.error });
+        }
+      } catch (error: any) {
+        console.error('[ODOO_SYNC] Store sync failed', { storeDocumentId: store.documentId, error: error.message });
+      }
+    }
+
+    return synced;
+  });
+
+  if (run.acquired && run.result?.length) {
+    console.log('[ODOO_SYNC] Stores synced', {
+      count: run.result.length,
+      partners: run.result.reduce((sum, item) => sum + item.partners, 0),
+      orders: run.result.reduce((sum, item) => sum + item.orders, 0),
+      pulled: run.result.reduce((sum, item) => sum + item.pulled, 0),
+      errors: run.result.reduce((sum, item) => sum + item.errors.length, 0),
+    });
+  }
+}
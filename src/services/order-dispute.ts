@@ -0,0 +1,231 @@
+/**
+ * Order disputes (chargebacks)
+ *
+ * Stripe events charge.dispute.created / updated / closed (src/api/markket/services/actions.ts) are
+ * recorded on the paid order in extra.disputes, keyed by dispute id:
+ * - open dispute -> Status `suspicious` (previous Status kept in extra.status_before_dispute)
+ * - closed `won` or `warning_closed` -> previous Status restored
+ * - closed `lost` -> Status `refuted`
+ *
+ * The first event of a dispute opens a dedicated order inbox thread for the store
+ * (ensureOrderInboxThreadRecord, ThreadKey `order::<id>::dispute-<dispute id>`).
+ * Evidence deadlines (evidence_details.due_by) are kept per dispute and in extra.dispute_evidence_due_by
+ * for the open one; listOpenDisputes() feeds the store dashboard.
+ */
+
+import { ensureOrderInboxThreadRecord } from '../api/inbox/services/sendgrid-inbox';
+import { withJobLock } from './job-lock';
+import { findOrderByPayment } from './order-refund';
+
+const ORDER_UID = 'api::order.order';
+
+const LOCK_TTL_MS = 5 * 60 * 1000;
+const OPEN_DISPUTE_STATUSES = ['warning_needs_response', 'warning_under_review', 'needs_response', 'under_review'];
+const RESTORE_DISPUTE_STATUSES = ['won', 'warning_closed'];
+const MAX_DASHBOARD_DISPUTES = 50;
+
+export interface OrderDisputeResult {
+  recorded: boolean;
+  reason?: string;
+  orderDocumentId?: string;
+  disputeId?: string;
+  status?: string;
+  inboxThreadKey?: string | null;
+}
+
+export interface OpenDispute {
+  order_id: string;
+  dispute_id: string;
+  status: string;
+  reason: string | null;
+  amount: number;
+  currency: string;
+  evidence_due_by: string | null;
+  past_due: boolean;
+  has_evidence: boolean;
+}
+
+function toIso(unixSeconds: any): string | null {
+  const value = Number(unixSeconds);
+  return Number.isFinite(value) && value > 0 ? new Date(value * 1000).toISOString() : null;
+}
+
+function isOpen(entry: any): boolean {
+  return OPEN_DISPUTE_STATUSES.includes(entry?.status);
+}
+
+function buildDisputeEntry(dispute: any, previous: any, now: string) {
+  return {
+    ...(previous || {}),
+    id: dispute.id,
+    charge: dispute.charge || previous?.charge || null,
+    status: dispute.status,
+    reason: dispute.reason || null,
+    amount_cents: dispute.amount,
+    currency: String(dispute.currency || previous?.currency || 'usd').toUpperCase(),
+    evidence_due_by: toIso(dispute.evidence_details?.due_by) || previous?.evidence_due_by || null,
+    has_evidence: !!dispute.evidence_details?.has_evidence,
+    past_due: !!dispute.evidence_details?.past_due,
+    submission_count: dispute.evidence_details?.submission_count || 0,
+    is_charge_refundable: !!dispute.is_charge_refundable,
+    opened_at: previous?.opened_at || toIso(dispute.created) || now,
+    updated_at: now,
+    closed_at: isOpen(dispute) ? null : previous?.closed_at || now,
+  };
+}
+
+function disputeThreadMessage(order: any, entry: any): string {
+  const amount = `${(Number(entry.amount_cents || 0) / 100).toFixed(2)} ${entry.currency}`;
+  return [
+    `The buyer disputed the payment of order ${order.documentId}.`,
+    `Reason: ${entry.reason || 'unknown'}.`,
+    `Amount: ${amount}.`,
+    entry.evidence_due_by ? `Evidence due by ${entry.evidence_due_by}.` : 'No evidence deadline reported.',
+    'Respond with evidence from the Stripe dashboard before the deadline.',
+  ].join(' ');
+}
+
+/**
+ * Record a Stripe dispute event on its order. Throws when the order is busy so Stripe retries.
+ */
+export async function recordStripeDispute(strapi: any, dispute: any): Promise<OrderDisputeResult> {
+  if (!dispute?.id) {
+    return { recorded: false, reason: 'invalid_dispute' };
+  }
+
+  const found = await findOrderByPayment(strapi, dispute.payment_intent, null, dispute.livemode === false);
+  if (!found) {
+    console.warn('[ORDER_DISPUTE] No order for disputed payment', { disputeId: dispute.id, paymentIntent: dispute.payment_intent });
+    return { recorded: false, reason: 'order_not_found', disputeId: dispute.id };
+  }
+
+  const run = await withJobLock(strapi, `order-dispute:${found.documentId}`, LOCK_TTL_MS, async (): Promise<OrderDisputeResult> => {
+    const order = await strapi.documents(ORDER_UID).findOne({
+      documentId: found.documentId,
+      populate: ['store', 'store.owner', 'store.users', 'Shipping_Address'],
+    });
+
+    if (!order) {
+      return { recorded: false, reason: 'order_not_found', disputeId: dispute.id };
+    }
+
+    const now = new Date().toISOString();
+    const extra = { ...((order.extra as Record<string, any>) || {}) };
+    const disputes: any[] = Array.isArray(extra.disputes) ? [...extra.disputes] : [];
+    const index = disputes.findIndex((entry) => entry.id === dispute.id);
+    const entry = buildDisputeEntry(dispute, index === -1 ? null : disputes[index], now);
+
+    if (index === -1) {
+      disputes.push(entry);
+    } else {
+      disputes[index] = entry;
+    }
+
+    // Thread for the store owner, once per dispute
+    if (!entry.inbox_thread_key) {
+      try {
+        const thread = await ensureOrderInboxThreadRecord({
+          strapi,
+          order,
+          topic: {
+            key: `dispute-${dispute.id}`,
+            subject: `Dispute opened on order ${order.documentId.slice(0, 8)}`,
+            message: disputeThreadMessage(order, entry),
+          },
+        });
+        entry.inbox_thread_key = thread.threadKey;
+      } catch (error: any) {
+        console.warn('[ORDER_DISPUTE] Inbox thread failed (non-fatal)', { orderDocumentId: order.documentId, error: error?.message });
+      }
+    }
+
+    const openDisputes = disputes.filter(isOpen);
+    let nextStatus = order.Status;
+
+    if (openDisputes.length > 0) {
+      if (order.Status !== 'suspicious') {
+        extra.status_before_dispute = order.Status;
+        nextStatus = 'suspicious';
+      }
+    } else if (dispute.status === 'lost') {
+      nextStatus = 'refuted';
+    } else if (RESTORE_DISPUTE_STATUSES.includes(dispute.status) && order.Status === 'suspicious') {
+      nextStatus = extra.status_before_dispute || 'paid';
+    }
+
+    const nextDue = openDisputes
+      .map((item) => item.evidence_due_by)
+      .filter(Boolean)
+      .sort()[0] || null;
+
+    extra.disputes = disputes;
+    extra.dispute_status = openDisputes.length > 0 ? 'open' : dispute.status;
+    extra.dispute_evidence_due_by = nextDue;
+
+    await strapi.documents(ORDER_UID).update({
+      documentId: order.documentId,
+      data: { Status: nextStatus, extra },
+    });
+
+    console.log('[ORDER_DISPUTE] Recorded dispute', {
+      orderDocumentId: order.documentId,
+      disputeId: dispute.id,
+      disputeStatus: dispute.status,
+      orderStatus: nextStatus,
+      evidenceDueBy: entry.evidence_due_by,
+    });
+
+    return {
+      recorded: true,
+      orderDocumentId: order.documentId,
+      disputeId: dispute.id,
+      status: nextStatus,
+      inboxThreadKey: entry.inbox_thread_key || null,
+    };
+  });
+
+  if (!run.acquired) {
+    throw new Error(`Order ${found.documentId} dispute is being recorded, retry later`);
+  }
+
+  return run.result as OrderDisputeResult;
+}
+
+/**
+ * Open disputes of a store, soonest evidence deadline first.
+ */
+export async function listOpenDisputes(strapi: any, storeDocumentId: string): Promise<OpenDispute[]> {
+  const orders = await strapi.db.query(ORDER_UID).findMany({
+    where: {
+      store: { documentId: storeDocumentId },
+      Status: 'suspicious',
+    },
+    orderBy: { updatedAt: 'desc' },
+    limit: MAX_DASHBOARD_DISPUTES,
+    select: ['documentId', 'extra'],
+  });
+
+  const open: OpenDispute[] = [];
+  for (const order of orders) {
+    const disputes = Array.isArray(order?.extra?.disputes) ? order.extra.disputes : [];
+    for (const entry of disputes.filter(isOpen)) {
+      open.push({
+        order_id: order.documentId,
+        dispute_id: entry.id,
+        status: entry.status,
+        reason: entry.reason || null,
+        amount: Number(entry.amount_cents || 0) / 100,
+        currency: entry.currency || 'USD',
+        evidence_due_by: entry.evidence_due_by || null,
+        past_due: !!entry.past_due || (!!entry.evidence_due_by && new Date(entry.evidence_due_by).getTime() < Date.now()),
+        has_evidence: !!entry.has_evidence,
+      });
+    }
+  }
+
+  return open.sort((left, right) => {
+    if (!left.evidence_due_by) return 1;
+    if (!right.evidence_due_by) return -1;
+    return left.evidence_due_by.localeCompare(right.evidence_due_by);
+  });
+}
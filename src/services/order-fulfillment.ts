@@ -0,0 +1,415 @@
+/**
+ * Order fulfilment (shipments)
+ *
+ * Store-scoped shipments for paid orders (tienda /stores/:ref/orders/:orderId/shipments):
+ * - createOrderShipment(): ships all remaining Details lines, or only the `items` given (partial shipment)
+ * - updateOrderShipment(): status / carrier / tracking / ETA changes, appended to status_history
+ *
+ * TrackingLink is derived from Carrier + TrackingCode (see CARRIER_TRACKING_URLS) unless one is given.
+ * Order Status follows its shipments: every line in a shipped (or later) shipment -> `shipped`; every line shipped
+ * and all of those shipments delivered -> `complete`. `pending` shipments hold lines but do not count as shipped.
+ * Only paid / shipped / complete orders can be fulfilled, and only their Status is rewritten.
+ * extra.fulfillment_status keeps unfulfilled / partially_shipped.
+ * The first shipment's ShippingCost defaults to the shipping paid at checkout (order.extra.shipping, see shipping-rates.ts).
+ * The buyer gets a shipment email (sendShipmentNotification) on create and on every status or tracking change.
+ */
+
+import { randomUUID } from 'crypto';
+import { sendShipmentNotification } from '../api/markket/services/notification';
+import { withJobLock } from './job-lock';
+
+const ORDER_UID = 'api::order.order';
+const SHIPMENT_UID = 'api::shipment.shipment';
+
+const LOCK_TTL_MS = 60 * 1000;
+const MAX_HISTORY = 50;
+
+export const SHIPMENT_STATUSES = ['pending', 'shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned', 'canceled'];
+const INACTIVE_SHIPMENT_STATUSES = ['canceled', 'returned'];
+// `pending` shipments hold their lines but have not left yet
+const SHIPPED_SHIPMENT_STATUSES = ['shipped', 'in_transit', 'out_for_delivery', 'delivered'];
+const FULFILLABLE_ORDER_STATUSES = ['paid', 'shipped', 'complete'];
+
+const CARRIER_ALIASES: Record<string, string> = {
+  usps: 'usps',
+  'us postal service': 'usps',
+  ups: 'ups',
+  fedex: 'fedex',
+  'fed ex': 'fedex',
+  dhl: 'dhl',
+  'dhl express': 'dhl',
+  'canada post': 'canada_post',
+  canada_post: 'canada_post',
+  estafeta: 'estafeta',
+};
+
+const CARRIER_TRACKING_URLS: Record<string, string> = {
+  usps: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={code}',
+  ups: 'https://www.ups.com/track?tracknum={code}',
+  fedex: 'https://www.fedex.com/fedextrack/?trknbr={code}',
+  dhl: 'https://www.dhl.com/global-en/home/tracking/tracking-express.html?submit=1&tracking-id={code}',
+  canada_post: 'https://www.canadapost-postescanada.ca/track-reperage/en#/search?searchFor={code}',
+  estafeta: 'https://rastreositecorp.estafeta.com/Tracking/searchByGet?wayBill={code}',
+};
+
+export interface ShipmentItemInput {
+  detail_index: number;
+  quantity?: number;
+}
+
+export interface ShipmentInput {
+  items?: ShipmentItemInput[];
+  carrier?: string;
+  tracking_code?: string;
+  tracking_link?: string;
+  shipment_status?: string;
+  estimated_delivery_date?: string;
+  shipping_cost?: number;
+  notify?: boolean;
+}
+
+export type FulfillmentResult =
+  | { ok: true; shipment: any; order: { documentId: string; Status: string; fulfillment_status: string }; notified: boolean }
+  | { ok: false; code: 'invalid' | 'not_found' | 'locked' | 'conflict'; error: string };
+
+export function normalizeCarrier(carrier: any): string | null {
+  const raw = String(carrier || '').trim();
+  if (!raw) return null;
+  return CARRIER_ALIASES[raw.toLowerCase()] || raw;
+}
+
+/** Public tracking page for known carriers, or null. */
+export function buildTrackingLink(carrier: any, trackingCode: any): string | null {
+  const key = normalizeCarrier(carrier);
+  const code = String(trackingCode || '').trim();
+  const template = key ? CARRIER_TRACKING_URLS[key] : null;
+  return template && code ? template.replace('{code}', encodeURIComponent(code)) : null;
+}
+
+function isActive(shipment: any): boolean {
+  return !INACTIVE_SHIPMENT_STATUSES.includes(shipment?.shipment_status);
+}
+
+/** Quantity per Details index still waiting for a shipment. */
+export function getUnshippedQuantities(order: any, shipments: any[]): number[] {
+  const details = Array.isArray(order?.Details) ? order.Details : [];
+  const remaining = details.map((line: any) => Math.max(0, Number(line?.Quantity || 1)));
+
+  for (const shipment of shipments.filter(isActive)) {
+    for (const item of Array.isArray(shipment.items) ? shipment.items : []) {
+      const index = Number(item?.detail_index);
+      if (Number.isInteger(index) && remaining[index] !== undefined) {
+        remaining[index] = Math.max(0, remaining[index] - Number(item.quantity || 0));
+      }
+    }
+  }
+
+  return remaining;
+}
+
+function deriveFulfillment(order: any, shipments: any[]): { status: string; fulfillment: string } {
+  const shipped = shipments.filter((shipment) => SHIPPED_SHIPMENT_STATUSES.includes(shipment?.shipment_status));
+  const unshipped = getUnshippedQuantities(order, shipped).reduce((total, qty) => total + qty, 0);
+
+  // Lines left to ship (or shipments canceled / still pending): a shipped / complete order goes back to paid
+  if (shipped.length === 0 || unshipped > 0) {
+    const status = order.Status === 'shipped' || order.Status === 'complete' ? 'paid' : order.Status;
+    return { status, fulfillment: shipped.length === 0 ? 'unfulfilled' : 'partially_shipped' };
+  }
+
+  const delivered = shipped.every((shipment) => shipment.shipment_status === 'delivered');
+  return { status: delivered ? 'complete' : 'shipped', fulfillment: delivered ? 'delivered' : 'shipped' };
+}
+
+function parseDate(value: any): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+function toShipmentView(shipment: any) {
+  return {
+    documentId: shipment.documentId,
+    shipment_status: shipment.shipment_status,
+    Carrier: shipment.Carrier || null,
+    TrackingCode: shipment.TrackingCode || null,
+    TrackingLink: shipment.TrackingLink || null,
+    ShippedDate: shipment.ShippedDate || null,
+    EstimatedDeliveryDate: shipment.EstimatedDeliveryDate || null,
+    DeliveredDate: shipment.DeliveredDate || null,
+    ShippingCost: shipment.ShippingCost ?? null,
+    items: shipment.items || [],
+    status_history: shipment.status_history || [],
+    createdAt: shipment.createdAt,
+    updatedAt: shipment.updatedAt,
+  };
+}
+
+async function loadOrder(strapi: any, orderDocumentId: string) {
+  return strapi.documents(ORDER_UID).findOne({
+    documentId: orderDocumentId,
+    populate: ['store', 'Details', 'Shipping_Address', 'buyer'],
+  });
+}
+
+async function loadShipments(strapi: any, orderDocumentId: string): Promise<any[]> {
+  return strapi.documents(SHIPMENT_UID).findMany({
+    filters: { order: { documentId: { $eq: orderDocumentId } } },
+    sort: ['createdAt:asc'],
+    status: 'published',
+    limit: 100,
+  });
+}
+
+async function syncOrderStatus(strapi: any, order: any, shipments: any[]) {
+  const derived = deriveFulfillment(order, shipments);
+  // Only paid / shipped / complete follow their shipments; refunded or suspicious orders keep their Status
+  const status = FULFILLABLE_ORDER_STATUSES.includes(order.Status) ? derived.status : order.Status;
+  const extra = { ...((order.extra as Record<string, any>) || {}) };
+
+  if (status !== order.Status || extra.fulfillment_status !== derived.fulfillment) {
+    extra.fulfillment_status = derived.fulfillment;
+    extra.fulfillment_updated_at = new Date().toISOString();
+    await strapi.documents(ORDER_UID).update({
+      documentId: order.documentId,
+      data: { Status: status, extra },
+    });
+  }
+
+  return { documentId: order.documentId, Status: status, fulfillment_status: derived.fulfillment };
+}
+
+async function notifyBuyer(strapi: any, order: any, shipment: any, store: any): Promise<boolean> {
+  try {
+    const sent = await sendShipmentNotification({ strapi, order, shipment, store });
+    return !!sent;
+  } catch (error: any) {
+    console.warn('[ORDER_FULFILLMENT] Buyer notification failed (non-fatal)', { orderDocumentId: order.documentId, error: error?.message });
+    return false;
+  }
+}
+
+function validateStatus(status: any): string | null {
+  const value = String(status || '').trim().toLowerCase();
+  return SHIPMENT_STATUSES.includes(value) ? value : null;
+}
+
+/**
+ * Shipments of an order plus what is left to ship per Details line.
+ */
+export async function listOrderShipments(strapi: any, order: any) {
+  const shipments = await loadShipments(strapi, order.documentId);
+  const remaining = getUnshippedQuantities(order, shipments);
+  const details = Array.isArray(order.Details) ? order.Details : [];
+
+  return {
+    shipments: shipments.map(toShipmentView),
+    unshipped: details.map((line: any, index: number) => ({
+      detail_index: index,
+      name: line?.Name || null,
+      ordered: Number(line?.Quantity || 1),
+      remaining: remaining[index],
+    })),
+    fulfillment_status: order.extra?.fulfillment_status || 'unfulfilled',
+  };
+}
+
+/**
+ * Create a shipment for all remaining lines or the given `items`.
+ */
+export async function createOrderShipment(strapi: any, params: {
+  orderDocumentId: string;
+  store: any;
+  userId: number;
+  input: ShipmentInput;
+}): Promise<FulfillmentResult> {
+  const { input } = params;
+  const status = input.shipment_status === undefined ? 'shipped' : validateStatus(input.shipment_status);
+  if (!status) {
+    return { ok: false, code: 'invalid', error: `shipment_status must be one of: ${SHIPMENT_STATUSES.join(', ')}` };
+  }
+
+  const run = await withJobLock(strapi, `order-fulfillment:${params.orderDocumentId}`, LOCK_TTL_MS, async (): Promise<FulfillmentResult> => {
+    const order = await loadOrder(strapi, params.orderDocumentId);
+    if (!order || order.store?.documentId !== params.store.documentId) {
+      return { ok: false, code: 'not_found', error: 'Order not found' };
+    }
+
+    if (!FULFILLABLE_ORDER_STATUSES.includes(order.Status)) {
+      return { ok: false, code: 'conflict', error: `Order with status "${order.Status}" cannot be fulfilled` };
+    }
+
+    const shipments = await loadShipments(strapi, order.documentId);
+    const remaining = getUnshippedQuantities(order, shipments);
+    const details = Array.isArray(order.Details) ? order.Details : [];
+
+    const requested = Array.isArray(input.items) && input.items.length > 0
+      ? input.items
+      : remaining.map((quantity, index) => ({ detail_index: index, quantity })).filter((item) => item.quantity > 0);
+
+    const items: Array<{ detail_index: number; name: string | null; stripe_price_id: string | null; quantity: number }> = [];
+    for (const item of requested) {
+      const index = Number(item?.detail_index);
+      const quantity = item?.quantity === undefined ? remaining[index] : Number(item.quantity);
+
+      if (!Number.isInteger(index) || remaining[index] === undefined) {
+        return { ok: false, code: 'invalid', error: `Unknown detail_index ${item?.detail_index}` };
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0 || quantity > remaining[index]) {
+        return { ok: false, code: 'invalid', error: `Quantity for line ${index} must be between 1 and ${remaining[index]}` };
+      }
+
+      items.push({
+        detail_index: index,
+        name: details[index]?.Name || null,
+        stripe_price_id: details[index]?.Stripe_price_id || null,
+        quantity,
+      });
+    }
+
+    if (items.length === 0) {
+      return { ok: false, code: 'conflict', error: 'Every line of this order has already been shipped' };
+    }
+
+    const carrier = normalizeCarrier(input.carrier);
+    const trackingCode = String(input.tracking_code || '').trim() || null;
+    const now = new Date().toISOString();
+
+    const shipment = await strapi.documents(SHIPMENT_UID).create({
+      data: {
+        uuid: randomUUID(),
+        order: order.documentId,
+        store: params.store.documentId,
+        buyer: order.buyer?.id || null,
+        fulfilled_by: params.userId,
+        shipment_status: status,
+        Carrier: carrier,
+        TrackingCode: trackingCode,
+        TrackingLink: String(input.tracking_link || '').trim() || buildTrackingLink(carrier, trackingCode),
+        ShippedDate: status === 'pending' ? null : now.slice(0, 10),
+        EstimatedDeliveryDate: parseDate(input.estimated_delivery_date) ?? null,
+        DeliveredDate: status === 'delivered' ? now.slice(0, 10) : null,
+        ShippingCost: input.shipping_cost ?? (shipments.length === 0 ? order.extra?.shipping?.amount ?? null : null),
+        items,
+        status_history: [{ status, at: now, by: params.userId }],
+      },
+      status: 'published',
+    });
+
+    const orderState = await syncOrderStatus(strapi, order, [...shipments, shipment]);
+    const notified = input.notify === false ? false : await notifyBuyer(strapi, order, shipment, params.store);
+
+    console.log('[ORDER_FULFILLMENT] Shipment created', {
+      orderDocumentId: order.documentId,
+      shipmentDocumentId: shipment.documentId,
+      status,
+      lines: items.length,
+      orderStatus: orderState.Status,
+    });
+
+    return { ok: true, shipment: toShipmentView(shipment), order: orderState, notified };
+  });
+
+  if (!run.acquired) {
+    return { ok: false, code: 'locked', error: 'This order is being fulfilled, please retry' };
+  }
+
+  return run.result as FulfillmentResult;
+}
+
+/**
+ * Update status / tracking of a shipment. Buyer is emailed when status or tracking changed.
+ */
+export async function updateOrderShipment(strapi: any, params: {
+  orderDocumentId: string;
+  shipmentDocumentId: string;
+  store: any;
+  userId: number;
+  input: ShipmentInput;
+}): Promise<FulfillmentResult> {
+  const { input } = params;
+  const status = input.shipment_status === undefined ? undefined : validateStatus(input.shipment_status);
+  if (status === null) {
+    return { ok: false, code: 'invalid', error: `shipment_status must be one of: ${SHIPMENT_STATUSES.join(', ')}` };
+  }
+
+  const run = await withJobLock(strapi, `order-fulfillment:${params.orderDocumentId}`, LOCK_TTL_MS, async (): Promise<FulfillmentResult> => {
+    const order = await loadOrder(strapi, params.orderDocumentId);
+    if (!order || order.store?.documentId !== params.store.documentId) {
+      return { ok: false, code: 'not_found', error: 'Order not found' };
+    }
+
+    if (!FULFILLABLE_ORDER_STATUSES.includes(order.Status)) {
+      return { ok: false, code: 'conflict', error: `Order with status "${order.Status}" cannot be fulfilled` };
+    }
+
+    const shipments = await loadShipments(strapi, order.documentId);
+    const current = shipments.find((shipment) => shipment.documentId === params.shipmentDocumentId);
+    if (!current) {
+      return { ok: false, code: 'not_found', error: 'Shipment not found' };
+    }
+
+    const now = new Date().toISOString();
+    const data: Record<string, any> = {};
+
+    if (input.carrier !== undefined) data.Carrier = normalizeCarrier(input.carrier);
+    if (input.tracking_code !== undefined) data.TrackingCode = String(input.tracking_code || '').trim() || null;
+    if (input.shipping_cost !== undefined) data.ShippingCost = input.shipping_cost;
+
+    const eta = parseDate(input.estimated_delivery_date);
+    if (eta !== undefined) data.EstimatedDeliveryDate = eta;
+
+    const carrier = data.Carrier !== undefined ? data.Carrier : current.Carrier;
+    const trackingCode = data.TrackingCode !== undefined ? data.TrackingCode : current.TrackingCode;
+    if (input.tracking_link !== undefined) {
+      data.TrackingLink = String(input.tracking_link || '').trim() || buildTrackingLink(carrier, trackingCode);
+    } else if (data.Carrier !== undefined || data.TrackingCode !== undefined) {
+      data.TrackingLink = buildTrackingLink(carrier, trackingCode) || current.TrackingLink || null;
+    }
+
+    const statusChanged = !!status && status !== current.shipment_status;
+    if (statusChanged) {
+      data.shipment_status = status;
+      if (status !== 'pending' && !current.ShippedDate) data.ShippedDate = now.slice(0, 10);
+      if (status === 'delivered') data.DeliveredDate = now.slice(0, 10);
+      const history = Array.isArray(current.status_history) ? current.status_history : [];
+      data.status_history = [...history, { status, at: now, by: params.userId }].slice(-MAX_HISTORY);
+    }
+
+    if (Object.keys(data).length === 0) {
+      return { ok: false, code: 'invalid', error: 'Nothing to update' };
+    }
+
+    const trackingChanged = (data.TrackingCode !== undefined && data.TrackingCode !== current.TrackingCode)
+      || (data.TrackingLink !== undefined && data.TrackingLink !== current.TrackingLink);
+
+    const shipment = await strapi.documents(SHIPMENT_UID).update({
+      documentId: current.documentId,
+      data,
+      status: 'published',
+    });
+
+    const nextShipments = shipments.map((entry) => (entry.documentId === shipment.documentId ? shipment : entry));
+    const orderState = await syncOrderStatus(strapi, order, nextShipments);
+    const shouldNotify = input.notify !== false && (statusChanged || trackingChanged);
+    const notified = shouldNotify ? await notifyBuyer(strapi, order, shipment, params.store) : false;
+
+    console.log('[ORDER_FULFILLMENT] Shipment updated', {
+      orderDocumentId: order.documentId,
+      shipmentDocumentId: shipment.documentId,
+      status: shipment.shipment_status,
+      statusChanged,
+      trackingChanged,
+      orderStatus: orderState.Status,
+    });
+
+    return { ok: true, shipment: toShipmentView(shipment), order: orderState, notified };
+  });
+
+  if (!run.acquired) {
+    return { ok: false, code: 'locked', error: 'This order is being fulfilled, please retry' };
+  }
+
+  return run.result as FulfillmentResult;
+}
@@ -0,0 +1,181 @@
+/**
+ * Order inventory adjustments
+ *
+ * Shared by the order middleware (decrement when an order turns paid) and refunds (restock).
+ * Lines are matched to product PRICES by Stripe price id; only prices with a numeric `inventory`
+ * are adjusted, and `amountSold` moves by the same matched quantities.
+ *
+ * Callers own idempotency (extra.inventory_decremented, extra.restocked_quantities).
+ * Each product is read and written under its inventory lock (inventory:<productId>), the same lock taken by
+ * checkout links, manual adjustments and the importers; a busy lock is waited for (LOCK_WAIT_MS) before the
+ * product is skipped.
+ * Every applied change is written to the inventory ledger (sale / refund), which also raises low-stock alerts.
+ */
+
+import { recordInventoryMovement } from './inventory-ledger';
+import { acquireInventoryLock, releaseInventoryLock } from './inventory-reservation';
+
+const PRODUCT_UID = 'api::product.product';
+const LOCK_WAIT_MS = 30 * 1000;
+const LOCK_RETRY_MS = 500;
+
+export type InventoryDirection = 'decrement' | 'restock';
+
+export interface OrderInventoryLine {
+  product?: any;
+  Quantity?: number;
+  Stripe_price_id?: string;
+  Name?: string;
+}
+
+export interface OrderInventoryOptions {
+  logTag?: string;
+  orderDocumentId?: string | null;
+  actorId?: number | null;
+}
+
+export interface OrderInventoryResult {
+  processedAny: boolean;
+  /** Quantities actually applied, per Stripe price id */
+  applied: Record<string, number>;
+}
+
+async function waitForInventoryLock(strapi: any, productDocumentId: string): Promise<string | null> {
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  for (;;) {
+    const owner = await acquireInventoryLock(strapi, productDocumentId);
+    if (owner || Date.now() >= deadline) {
+      return owner;
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+/**
+ * Decrement or restock PRICES[].inventory and amountSold for order lines (Details snapshots
+ * populated with product).
+ */
+export async function applyOrderInventory(
+  strapi: any,
+  lines: OrderInventoryLine[],
+  direction: InventoryDirection,
+  options: OrderInventoryOptions = {}
+): Promise<OrderInventoryResult> {
+  const logTag = options.logTag || '[order.inventory]';
+  const sign = direction === 'decrement' ? -1 : 1;
+  const linesByProduct: Record<string, OrderInventoryLine[]> = {};
+  const applied: Record<string, number> = {};
+  let processedAny = false;
+
+  for (const item of lines) {
+    const productId = item.product && typeof item.product === 'object' ? item.product.documentId : undefined;
+    if (!productId) {
+      console.warn(`${logTag}:warn:[detail.missing_product]`, { item });
+      continue;
+    }
+
+    if (!linesByProduct[productId]) linesByProduct[productId] = [];
+    linesByProduct[productId].push(item);
+  }
+
+  // Batch update PRICES and amountSold per product, under the product inventory lock
+  for (const [productId, items] of Object.entries(linesByProduct)) {
+    const lock = await waitForInventoryLock(strapi, productId);
+    if (!lock) {
+      console.error(`${logTag}:error:[inventory.lock_timeout]`, { productId, direction });
+      continue;
+    }
+
+    try {
+      const product = await strapi.documents(PRODUCT_UID).findOne({
+        documentId: productId,
+        populate: ['PRICES', 'stores'],
+      });
+
+      if (!product || !Array.isArray(product.PRICES)) {
+        console.warn(`${logTag}:warn:[product.missing_prices]`, { productId });
+        continue;
+      }
+
+      const updatedPrices = [...product.PRICES];
+      const pendingApplied: Record<string, number> = {};
+      const movements: Array<{ price: any; before: number; after: number }> = [];
+      let soldQty = 0;
+
+      for (const item of items) {
+        const qty = item.Quantity || 1;
+        const matchedPriceIndex = updatedPrices.findIndex((p: any) => p.STRIPE_ID === item.Stripe_price_id);
+
+        if (matchedPriceIndex === -1) {
+          console.warn(`${logTag}:warn:[price.not_found]`, { productId, itemStripePriceId: item.Stripe_price_id, itemName: item.Name });
+          continue;
+        }
+
+        const matchedPrice = updatedPrices[matchedPriceIndex];
+        // Prices without numeric inventory are untracked: no inventory or amountSold change
+        if (typeof matchedPrice.inventory !== 'number') {
+          continue;
+        }
+
+        const newInventory = matchedPrice.inventory + sign * qty;
+        updatedPrices[matchedPriceIndex] = { ...matchedPrice, inventory: newInventory };
+
+        soldQty += qty;
+        pendingApplied[item.Stripe_price_id] = (pendingApplied[item.Stripe_price_id] || 0) + qty;
+        movements.push({ price: matchedPrice, before: matchedPrice.inventory, after: newInventory });
+      }
+
+      if (!movements.length) {
+        continue;
+      }
+
+      // amountSold only moves for matched prices with tracked inventory
+      const prevSold = typeof product.amountSold === 'number' ? product.amountSold : 0;
+      const nextSold = Math.max(0, prevSold - sign * soldQty);
+
+      try {
+        await strapi.documents(PRODUCT_UID).update({
+          documentId: productId,
+          data: { PRICES: updatedPrices, amountSold: nextSold },
+        });
+
+        try {
+          await strapi.documents(PRODUCT_UID).publish({ documentId: productId });
+        } catch (pubErr) {
+          console.warn(`${logTag}:warn:[prices.publish_failed]`, { productId, error: pubErr?.message });
+        }
+      } catch (updateErr) {
+        console.error(`${logTag}:error:[prices.update_failed]`, { productId, error: updateErr?.message });
+        continue;
+      }
+
+      for (const [priceId, qty] of Object.entries(pendingApplied)) {
+        applied[priceId] = (applied[priceId] || 0) + qty;
+      }
+      processedAny = true;
+      console.log(`${logTag}:info:[prices.updated]`, { productId, direction, prices: pendingApplied });
+      console.log(`${logTag}:info:[amountSold.updated]`, { productId, prev: prevSold, next: nextSold });
+
+      for (const movement of movements) {
+        await recordInventoryMovement(strapi, {
+          productDocumentId: productId,
+          storeDocumentId: product.stores?.[0]?.documentId || null,
+          price: movement.price,
+          before: movement.before,
+          after: movement.after,
+          reason: direction === 'decrement' ? 'sale' : 'refund',
+          orderDocumentId: options.orderDocumentId || null,
+          actorId: options.actorId || null,
+          source: direction === 'decrement' ? 'order.paid' : 'order.refund',
+        }, product);
+      }
+    } catch (err) {
+      console.error(`${logTag}:error:[prices.processing]`, { productId, error: err?.message });
+    } finally {
+      await releaseInventoryLock(strapi, productId, lock);
+    }
+  }
+
+  return { processedAny, applied };
+}
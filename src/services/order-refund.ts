@@ -0,0 +1,412 @@
+/**
+ * Order refunds
+ *
+ * Sources:
+ * - Stripe webhooks: charge.refunded, refund.created, refund.updated (src/api/markket/services/actions.ts)
+ * - POST /api/tienda/stores/:ref/orders/:orderId/refund: creates the refund on Stripe, then records it
+ *
+ * recordOrderRefund() is idempotent per Stripe refund id (extra.refunds), so the webhook for a refund
+ * created from tienda only updates its status. Every recorded refund appends a `Refunded`
+ * Payment_attempts entry with its amount and emits the `order.refunded` store webhook (store-webhooks.ts).
+ *
+ * Order state:
+ * - refunded total covers the order Amount (or Stripe reports the charge fully refunded) -> Status `refunded`
+ * - otherwise Status is kept and extra.refund_status is `partially_refunded`
+ * - a refund that later fails or is canceled no longer counts; a `refunded` order goes back to its previous Status
+ *
+ * Restock (only when the paid transition decremented inventory, extra.inventory_decremented):
+ * - full refund: every Details line not restocked yet
+ * - partial refund: only the lines passed in `restock` (tienda endpoint); webhooks never guess
+ * Uses the same PRICES / amountSold logic as the paid decrement (order-inventory.ts) and tracks
+ * extra.restocked_quantities per Stripe price id so nothing is restocked twice.
+ */
+
+import { getStripeClient } from '../api/markket/services/stripe';
+import { withJobLock } from './job-lock';
+import { applyOrderInventory, OrderInventoryLine } from './order-inventory';
+import { emitStoreEvent } from './store-webhooks';
+
+const ORDER_UID = 'api::order.order';
+
+const LOCK_TTL_MS = 5 * 60 * 1000;
+const COUNTED_REFUND_STATUSES = ['pending', 'succeeded', 'requires_action'];
+const FAILED_REFUND_STATUSES = ['failed', 'canceled'];
+const REFUNDABLE_ORDER_STATUSES = ['paid', 'complete', 'shipped'];
+
+export type RefundSource = 'webhook' | 'tienda';
+
+export interface StripeRefundInput {
+  id: string;
+  amount: number; // cents
+  currency?: string;
+  status?: string;
+  reason?: string | null;
+}
+
+export interface RestockLine {
+  stripe_price_id: string;
+  quantity: number;
+}
+
+export interface RecordRefundOptions {
+  source: RefundSource;
+  /** Stripe says the charge is fully refunded (charge.refunded) */
+  fullyRefunded?: boolean;
+  /** Partial refunds: lines to put back in stock */
+  restock?: RestockLine[];
+  requestedBy?: string | number | null;
+}
+
+export interface RecordRefundResult {
+  recorded: boolean;
+  reason?: string;
+  orderDocumentId: string;
+  status?: string;
+  refund_status?: string;
+  refunded_total?: number;
+  restocked?: Record<string, number>;
+}
+
+function toAmount(cents: number): number {
+  return Math.round(Number(cents || 0)) / 100;
+}
+
+function sumRefunds(refunds: any[]): number {
+  const cents = refunds
+    .filter((refund) => COUNTED_REFUND_STATUSES.includes(refund.status))
+    .reduce((total, refund) => total + Number(refund.amount_cents || 0), 0);
+  return toAmount(cents);
+}
+
+/** Refund amount still available on the order, in order currency units. */
+export function getRefundableAmount(order: any): number {
+  const refunds = Array.isArray(order?.extra?.refunds) ? order.extra.refunds : [];
+  const amount = Number(order?.Amount || 0);
+  return Math.max(0, Math.round((amount - sumRefunds(refunds)) * 100) / 100);
+}
+
+export function isOrderRefundable(order: any): boolean {
+  return REFUNDABLE_ORDER_STATUSES.includes(order?.Status) && !!order?.extra?.stripe_payment_intent;
+}
+
+/**
+ * Order paid through a Stripe payment intent (the indexed `stripe_payment_intent` attribute, set on checkout),
+ * falling back to the payment link id. Orders from before that attribute are resolved through their Stripe
+ * checkout session (`STRIPE_PAYMENT_ID` is the session payment link or subscription invoice) and backfilled.
+ */
+export async function findOrderByPayment(
+  strapi: any,
+  paymentIntent?: string | null,
+  paymentLink?: string | null,
+  isTest = false
+) {
+  const orders = strapi.db.query(ORDER_UID);
+
+  if (paymentIntent) {
+    const order = await orders.findOne({ where: { stripe_payment_intent: paymentIntent } });
+    if (order) {
+      return order;
+    }
+  }
+
+  if (paymentLink) {
+    const order = await orders.findOne({ where: { STRIPE_PAYMENT_ID: paymentLink } });
+    if (order) {
+      return order;
+    }
+  }
+
+  const stripe = paymentIntent ? getStripeClient(isTest) : null;
+  if (!stripe) {
+    return null;
+  }
+
+  const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntent!, limit: 1 });
+  const session: any = sessions?.data?.[0];
+  const candidates = [session?.payment_link, session?.invoice, session?.id]
+    .map((value: any) => (typeof value === 'string' ? value : value?.id))
+    .filter(Boolean);
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const order = await orders.findOne({ where: { STRIPE_PAYMENT_ID: { $in: candidates } } });
+  if (order && !order.stripe_payment_intent) {
+    await strapi.documents(ORDER_UID).update({
+      documentId: order.documentId,
+      data: { stripe_payment_intent: paymentIntent },
+    });
+  }
+
+  return order || null;
+}
+
+/** Remaining (not restocked) quantity per Stripe price id. */
+function remainingQuantities(details: any[], restocked: Record<string, number>): Record<string, number> {
+  const remaining: Record<string, number> = {};
+  for (const line of details) {
+    if (!line?.Stripe_price_id) continue;
+    remaining[line.Stripe_price_id] = (remaining[line.Stripe_price_id] || 0) + (line.Quantity || 1);
+  }
+
+  for (const [priceId, qty] of Object.entries(restocked)) {
+    if (remaining[priceId] !== undefined) {
+      remaining[priceId] = Math.max(0, remaining[priceId] - Number(qty || 0));
+    }
+  }
+
+  return remaining;
+}
+
+function buildRestockLines(details: any[], remaining: Record<string, number>, requested: Record<string, number> | null): OrderInventoryLine[] {
+  const lines: OrderInventoryLine[] = [];
+  const left = { ...remaining };
+
+  for (const line of details) {
+    const priceId = line?.Stripe_price_id;
+    if (!priceId || !left[priceId]) continue;
+
+    const wanted = requested ? Math.min(requested[priceId] || 0, left[priceId]) : left[priceId];
+    const quantity = Math.min(wanted, line.Quantity || 1);
+    if (quantity <= 0) continue;
+
+    lines.push({ product: line.product, Quantity: quantity, Stripe_price_id: priceId, Name: line.Name });
+    left[priceId] -= quantity;
+    if (requested) requested[priceId] -= quantity;
+  }
+
+  return lines;
+}
+
+function normalizeRestock(restock?: RestockLine[]): Record<string, number> | null {
+  if (!Array.isArray(restock) || restock.length === 0) {
+    return null;
+  }
+
+  const requested: Record<string, number> = {};
+  for (const line of restock) {
+    const priceId = String(line?.stripe_price_id || '').trim();
+    const quantity = parseInt(String(line?.quantity ?? ''), 10);
+    if (priceId && Number.isFinite(quantity) && quantity > 0) {
+      requested[priceId] = (requested[priceId] || 0) + quantity;
+    }
+  }
+
+  return Object.keys(requested).length > 0 ? requested : null;
+}
+
+/**
+ * Record one Stripe refund on an order: Payment_attempts, extra.refunds, Status and restock.
+ * Returns recorded: false with reason `locked` when another refund of the same order is being recorded.
+ */
+export async function recordOrderRefund(
+  strapi: any,
+  orderDocumentId: string,
+  refund: StripeRefundInput,
+  options: RecordRefundOptions
+): Promise<RecordRefundResult> {
+  const run = await withJobLock(strapi, `order-refund:${orderDocumentId}`, LOCK_TTL_MS, async (): Promise<RecordRefundResult> => {
+    const order = await strapi.documents(ORDER_UID).findOne({
+      documentId: orderDocumentId,
+      populate: ['Details', 'Details.product', 'Payment_attempts', 'Shipping_Address', 'store'],
+    });
+
+    if (!order) {
+      return { recorded: false, reason: 'order_not_found', orderDocumentId };
+    }
+
+    const extra = { ...((order.extra as Record<string, any>) || {}) };
+    const refunds: any[] = Array.isArray(extra.refunds) ? [...extra.refunds] : [];
+    const status = String(refund.status || 'succeeded');
+    const existingIndex = refunds.findIndex((entry) => entry.id === refund.id);
+    const now = new Date().toISOString();
+
+    if (existingIndex !== -1 && refunds[existingIndex].status === status) {
+      return {
+        recorded: false,
+        reason: 'already_recorded',
+        orderDocumentId,
+        status: order.Status,
+        refund_status: extra.refund_status,
+        refunded_total: sumRefunds(refunds),
+      };
+    }
+
+    const isNew = existingIndex === -1;
+    if (isNew && !COUNTED_REFUND_STATUSES.includes(status)) {
+      // Failed before we ever counted it: keep a trace only
+      refunds.push({ id: refund.id, amount_cents: refund.amount, status, source: options.source, created_at: now });
+      await strapi.documents(ORDER_UID).update({
+        documentId: order.documentId,
+        data: { extra: { ...extra, refunds } },
+      });
+      return { recorded: false, reason: `refund_${status}`, orderDocumentId, status: order.Status };
+    }
+
+    if (isNew) {
+      refunds.push({
+        id: refund.id,
+        amount_cents: refund.amount,
+        currency: (refund.currency || order.Currency || 'usd').toUpperCase(),
+        status,
+        reason: refund.reason || null,
+        source: options.source,
+        requested_by: options.requestedBy ?? null,
+        created_at: now,
+      });
+    } else {
+      refunds[existingIndex] = { ...refunds[existingIndex], status, updated_at: now };
+    }
+
+    const refundedTotal = sumRefunds(refunds);
+    const orderAmount = Number(order.Amount || 0);
+    const fullyRefunded = refundedTotal > 0 && (
+      (orderAmount > 0 && refundedTotal >= orderAmount) ||
+      (options.fullyRefunded === true && !FAILED_REFUND_STATUSES.includes(status))
+    );
+
+    let nextStatus = order.Status;
+    if (fullyRefunded && order.Status !== 'refunded') {
+      extra.status_before_refund = order.Status;
+      nextStatus = 'refunded';
+    } else if (!fullyRefunded && order.Status === 'refunded') {
+      nextStatus = extra.status_before_refund || 'paid';
+    }
+
+    extra.refunds = refunds;
+    extra.refunded_total = refundedTotal;
+    extra.refund_status = fullyRefunded ? 'refunded' : refundedTotal > 0 ? 'partially_refunded' : 'none';
+    extra.last_refund_at = now;
+
+    // Restock only for refunds that count, and only once the paid decrement happened
+    let restocked: Record<string, number> = {};
+    const details = Array.isArray(order.Details) ? order.Details : [];
+    if (COUNTED_REFUND_STATUSES.includes(status) && extra.inventory_decremented) {
+      const previouslyRestocked = { ...(extra.restocked_quantities || {}) };
+      const remaining = remainingQuantities(details, previouslyRestocked);
+      const requested = fullyRefunded ? null : normalizeRestock(options.restock);
+      const lines = fullyRefunded || requested ? buildRestockLines(details, remaining, requested) : [];
+
+      if (lines.length > 0) {
+        const { applied } = await applyOrderInventory(strapi, lines, 'restock', {
+          logTag: '[order.refund]',
+          orderDocumentId: order.documentId,
+          actorId: typeof options.requestedBy === 'number' ? options.requestedBy : null,
+        });
+        restocked = applied;
+        for (const [priceId, qty] of Object.entries(applied)) {
+          previouslyRestocked[priceId] = (previouslyRestocked[priceId] || 0) + qty;
+        }
+        extra.restocked_quantities = previouslyRestocked;
+        extra.restocked_at = now;
+      }
+    }
+
+    const data: Record<string, any> = { Status: nextStatus, extra };
+    if (isNew) {
+      const prevAttempts = Array.isArray(order.Payment_attempts) ? order.Payment_attempts : [];
+      data.Payment_attempts = [...prevAttempts, {
+        Timestampt: new Date(),
+        buyer_email: order.Shipping_Address?.email || null,
+        Status: 'Refunded',
+        reason: refund.reason || options.source,
+        session_id: extra.stripe_session_id || null,
+        refund_id: refund.id,
+        amount: toAmount(refund.amount),
+        currency: (refund.currency || order.Currency || 'usd').toUpperCase(),
+      }];
+    }
+
+    await strapi.documents(ORDER_UID).update({
+      documentId: order.documentId,
+      data,
+    });
+
+    console.log('[ORDER_REFUND] Recorded refund', {
+      orderDocumentId: order.documentId,
+      refundId: refund.id,
+      status,
+      source: options.source,
+      refundedTotal,
+      orderStatus: nextStatus,
+      restocked,
+    });
+
+    if (isNew) {
+      void emitStoreEvent(strapi, {
+        storeDocumentId: order.store?.documentId,
+        event: 'order.refunded',
+        dedupeKey: refund.id,
+        data: {
+          order: { documentId: order.documentId, uuid: order.uuid, status: nextStatus, amount: order.Amount, currency: order.Currency },
+          refund: { id: refund.id, amount: toAmount(refund.amount), status, reason: refund.reason || null, source: options.source },
+          refunded_total: refundedTotal,
+          refund_status: extra.refund_status,
+        },
+      });
+    }
+
+    if (!isNew && FAILED_REFUND_STATUSES.includes(status)) {
+      // Restocked inventory is not taken back automatically
+      console.warn('[ORDER_REFUND] Refund failed after it was recorded', {
+        orderDocumentId: order.documentId,
+        refundId: refund.id,
+        status,
+      });
+    }
+
+    return {
+      recorded: true,
+      orderDocumentId: order.documentId,
+      status: nextStatus,
+      refund_status: extra.refund_status,
+      refunded_total: refundedTotal,
+      restocked,
+    };
+  });
+
+  if (!run.acquired) {
+    return { recorded: false, reason: 'locked', orderDocumentId };
+  }
+
+  return run.result as RecordRefundResult;
+}
+
+/**
+ * Webhook entry: record every refund of a charge / payment intent on its order.
+ * Throws when the order is busy so Stripe retries the event.
+ */
+export async function processStripeRefunds(
+  strapi: any,
+  input: { paymentIntent?: string | null; paymentLink?: string | null; refunds: any[]; fullyRefunded?: boolean; isTest?: boolean }
+): Promise<RecordRefundResult[]> {
+  const order = await findOrderByPayment(strapi, input.paymentIntent, input.paymentLink, input.isTest);
+  if (!order) {
+    console.warn('[ORDER_REFUND] No order for refunded payment', { paymentIntent: input.paymentIntent });
+    return [];
+  }
+
+  const results: RecordRefundResult[] = [];
+  for (const refund of input.refunds) {
+    if (!refund?.id) continue;
+
+    const result = await recordOrderRefund(strapi, order.documentId, {
+      id: refund.id,
+      amount: refund.amount,
+      currency: refund.currency,
+      status: refund.status,
+      reason: refund.reason,
+    }, {
+      source: 'webhook',
+      fullyRefunded: input.fullyRefunded,
+    });
+
+    if (result.reason === 'locked') {
+      throw new Error(`Order ${order.documentId} refund is being recorded, retry later`);
+    }
+    results.push(result);
+  }
+
+  return results;
+}
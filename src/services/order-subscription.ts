@@ -0,0 +1,444 @@
+/**
+ * Recurring subscriptions
+ *
+ * Payment links with recurring PRICES start a Stripe subscription. Each one is kept in api::order.subscription,
+ * keyed by stripe_subscription_id:
+ * - checkout.session.completed (mode `subscription`) links the record to the checkout order, store and buyer email
+ * - customer.subscription.created / updated / deleted / paused / resumed sync status and the current period
+ * - invoice.paid: the first invoice belongs to the checkout order; every renewal creates (or updates) its own order,
+ *   copied from the checkout order and keyed by the invoice id in STRIPE_PAYMENT_ID
+ * - invoice.payment_failed: the renewal order stays `pending` with a Failed payment attempt and the buyer gets a
+ *   dunning email once per Stripe retry (extra.dunning keeps the last attempt notified per invoice)
+ *
+ * Stripe API versions differ on where periods and the invoice subscription / payment intent live, both are read.
+ * Work per subscription runs under the `subscription:<id>` job lock, so replays and concurrent events are safe.
+ */
+
+import { generateRandomSlug } from '../api/shortner/services/slug-generator';
+import { getStripeClient } from '../api/markket/services/stripe';
+import { sendOrderNotification, sendSubscriptionPaymentFailedNotification } from '../api/markket/services/notification';
+import { withJobLock } from './job-lock';
+
+const SUBSCRIPTION_UID = 'api::order.subscription';
+const ORDER_UID = 'api::order.order';
+
+const LOCK_TTL_MS = 2 * 60 * 1000;
+
+export const SUBSCRIPTION_STATUSES = ['incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'unpaid', 'paused', 'canceled'];
+const BILLING_INTERVALS = ['day', 'week', 'month', 'year'];
+// Stripe sends `subscription_create` for the checkout invoice, renewals use the other reasons
+const FIRST_INVOICE_REASONS = ['subscription_create'];
+
+export type InvoiceOutcome = 'paid' | 'failed';
+
+export interface SubscriptionInvoiceResult {
+  recorded: boolean;
+  reason?: string;
+  subscriptionDocumentId?: string;
+  orderDocumentId?: string | null;
+  renewal?: boolean;
+  notified?: boolean;
+}
+
+function toIso(unixSeconds: any): string | null {
+  const value = Number(unixSeconds);
+  return Number.isFinite(value) && value > 0 ? new Date(value * 1000).toISOString() : null;
+}
+
+function stripeId(value: any): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id || null;
+}
+
+function findSubscriptionRecord(strapi: any, stripeSubscriptionId: string) {
+  return strapi.documents(SUBSCRIPTION_UID).findFirst({
+    filters: { stripe_subscription_id: { $eq: stripeSubscriptionId } },
+    populate: {
+      store: true,
+      order: { populate: ['Details', 'Details.product', 'Shipping_Address'] },
+    },
+  });
+}
+
+/** Subscription id of an invoice (`subscription` before the 2025 API versions, `parent.subscription_details` after). */
+export function getInvoiceSubscriptionId(invoice: any): string | null {
+  return stripeId(invoice?.subscription) || stripeId(invoice?.parent?.subscription_details?.subscription);
+}
+
+function getInvoicePaymentIntent(invoice: any): string | null {
+  return stripeId(invoice?.payment_intent) || stripeId(invoice?.payments?.data?.[0]?.payment?.payment_intent);
+}
+
+/** Record fields from a Stripe subscription object. */
+function readSubscription(subscription: any) {
+  const items = Array.isArray(subscription?.items?.data) ? subscription.items.data : [];
+  const firstItem = items[0] || {};
+  const recurring = firstItem.price?.recurring || firstItem.plan || {};
+  const amountCents = items.reduce((sum: number, item: any) => sum + Number(item.price?.unit_amount || 0) * Number(item.quantity || 1), 0);
+  const status = SUBSCRIPTION_STATUSES.includes(subscription?.status) ? subscription.status : 'incomplete';
+
+  return {
+    stripe_customer_id: stripeId(subscription?.customer),
+    status,
+    cancel_at_period_end: !!subscription?.cancel_at_period_end,
+    // Periods moved from the subscription to its items in newer API versions
+    current_period_start: toIso(subscription?.current_period_start ?? firstItem.current_period_start),
+    current_period_end: toIso(subscription?.current_period_end ?? firstItem.current_period_end),
+    canceled_at: toIso(subscription?.canceled_at),
+    ended_at: toIso(subscription?.ended_at),
+    billing_interval: BILLING_INTERVALS.includes(recurring.interval) ? recurring.interval : null,
+    billing_interval_count: Number(recurring.interval_count || 1),
+    amount: amountCents / 100,
+    currency: String(firstItem.price?.currency || subscription?.currency || 'usd').toUpperCase(),
+  };
+}
+
+async function retrieveSubscription(stripeSubscriptionId: string, isTest: boolean): Promise<any | null> {
+  const stripe = getStripeClient(isTest);
+  if (!stripe) return null;
+
+  try {
+    return await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  } catch (error: any) {
+    console.warn('[ORDER_SUBSCRIPTION] Subscription retrieval failed', { stripeSubscriptionId, error: error.message });
+    return null;
+  }
+}
+
+/**
+ * Create or update the record for a Stripe subscription (caller holds the subscription lock).
+ */
+async function upsertSubscriptionRecord(strapi: any, subscription: any, options: { isTest: boolean; order?: any }) {
+  const existing = await findSubscriptionRecord(strapi, subscription.id);
+  const data: Record<string, any> = {
+    ...readSubscription(subscription),
+    is_test: options.isTest,
+  };
+
+  if (options.order) {
+    data.order = options.order.documentId;
+    data.store = options.order.store?.documentId || existing?.store?.documentId || null;
+    data.email = options.order.Shipping_Address?.email || existing?.email || null;
+  }
+
+  if (existing) {
+    await strapi.documents(SUBSCRIPTION_UID).update({ documentId: existing.documentId, data });
+  } else {
+    await strapi.documents(SUBSCRIPTION_UID).create({
+      data: { ...data, stripe_subscription_id: subscription.id, extra: {} },
+    });
+  }
+
+  return findSubscriptionRecord(strapi, subscription.id);
+}
+
+async function withSubscriptionLock<T>(strapi: any, stripeSubscriptionId: string, work: () => Promise<T>): Promise<T> {
+  const run = await withJobLock(strapi, `subscription:${stripeSubscriptionId}`, LOCK_TTL_MS, work);
+  if (!run.acquired) {
+    throw new Error(`Subscription ${stripeSubscriptionId} is being processed, retry later`);
+  }
+  return run.result as T;
+}
+
+/**
+ * customer.subscription.* webhooks: sync the record from the event object.
+ */
+export async function syncStripeSubscription(strapi: any, subscription: any, isTest: boolean) {
+  if (!subscription?.id) {
+    return null;
+  }
+
+  return withSubscriptionLock(strapi, subscription.id, () => upsertSubscriptionRecord(strapi, subscription, { isTest }));
+}
+
+/**
+ * checkout.session.completed in subscription mode: link the subscription to its checkout order.
+ */
+export async function linkCheckoutSubscription(strapi: any, input: { session: any; order: any; isTest: boolean }) {
+  const stripeSubscriptionId = stripeId(input.session?.subscription);
+  if (input.session?.mode !== 'subscription' || !stripeSubscriptionId || !input.order?.documentId) {
+    return null;
+  }
+
+  const order = await strapi.documents(ORDER_UID).findOne({
+    documentId: input.order.documentId,
+    populate: ['store', 'Shipping_Address'],
+  });
+  const subscription = await retrieveSubscription(stripeSubscriptionId, input.isTest) || { id: stripeSubscriptionId, status: 'active' };
+
+  const record = await withSubscriptionLock(strapi, stripeSubscriptionId, () => upsertSubscriptionRecord(strapi, subscription, {
+    isTest: input.isTest,
+    order,
+  }));
+
+  await strapi.documents(ORDER_UID).update({
+    documentId: order.documentId,
+    data: {
+      extra: {
+        ...(order.extra || {}),
+        stripe_subscription_id: stripeSubscriptionId,
+        subscription_id: record?.documentId || null,
+      },
+    },
+  });
+
+  return record;
+}
+
+function copyDetails(details: any[]) {
+  return (Array.isArray(details) ? details : []).map((line: any) => ({
+    Name: line.Name,
+    product: line.product?.documentId || null,
+    Quantity: line.Quantity,
+    Unit_Price: line.Unit_Price,
+    Total_Price: line.Total_Price,
+    Short_description: line.Short_description,
+    Stripe_price_id: line.Stripe_price_id,
+    Stripe_product_id: line.Stripe_product_id,
+    Currency: line.Currency,
+  }));
+}
+
+function copyAddress(address: any) {
+  if (!address) return {};
+  const { id, ...rest } = address;
+  return rest;
+}
+
+async function describePaymentFailure(invoice: any, isTest: boolean): Promise<string> {
+  const paymentIntentId = getInvoicePaymentIntent(invoice);
+  const stripe = getStripeClient(isTest);
+
+  if (paymentIntentId && stripe) {
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      if (paymentIntent?.last_payment_error?.message) {
+        return paymentIntent.last_payment_error.message;
+      }
+    } catch (error: any) {
+      console.warn('[ORDER_SUBSCRIPTION] Payment intent retrieval failed', { paymentIntentId, error: error.message });
+    }
+  }
+
+  return `Payment attempt ${invoice?.attempt_count || 1} failed`;
+}
+
+/**
+ * Create or update the renewal order for an invoice. Returns the order and whether it just turned paid.
+ */
+async function upsertRenewalOrder(strapi: any, record: any, invoice: any, outcome: InvoiceOutcome, reason: string, isTest: boolean) {
+  const checkoutOrder = record.order;
+  const amount = Number(outcome === 'paid' ? invoice.amount_paid : invoice.amount_due || 0) / 100;
+  const currency = String(invoice.currency || record.currency || 'usd').toUpperCase();
+  const email = invoice.customer_email || record.email || checkoutOrder.Shipping_Address?.email || null;
+  const attempt = {
+    Timestampt: new Date(),
+    session_id: invoice.id,
+    buyer_email: email,
+    Status: outcome === 'paid' ? 'Succeeded' : 'Failed',
+    reason: outcome === 'paid' ? '' : reason.slice(0, 255),
+    amount,
+    currency,
+  };
+
+  const existing = await strapi.db.query(ORDER_UID).findOne({
+    where: { STRIPE_PAYMENT_ID: invoice.id },
+    populate: ['Payment_attempts'],
+  });
+
+  if (existing) {
+    if (existing.Status === 'paid' || (outcome === 'failed' && existing.Status !== 'pending')) {
+      return { order: existing, paidNow: false };
+    }
+
+    const order = await strapi.service(ORDER_UID).update(existing.documentId, {
+      populate: ['Shipping_Address', 'store', 'Details'],
+      data: {
+        Status: outcome === 'paid' ? 'paid' : 'pending',
+        stripe_payment_intent: getInvoicePaymentIntent(invoice) || existing.stripe_payment_intent || null,
+        Payment_attempts: [...(existing.Payment_attempts || []).map(({ id, ...rest }: any) => rest), attempt],
+        extra: {
+          ...(existing.extra || {}),
+          stripe_payment_intent: getInvoicePaymentIntent(invoice) || existing.extra?.stripe_payment_intent || null,
+          stripe_invoice_status: invoice.status || null,
+        },
+      },
+    });
+    return { order, paidNow: outcome === 'paid' };
+  }
+
+  const line = invoice.lines?.data?.[0];
+  const order = await strapi.service(ORDER_UID).create({
+    populate: ['Shipping_Address', 'store', 'Details'],
+    data: {
+      store: record.store?.documentId || null,
+      Amount: amount,
+      Currency: currency,
+      Status: outcome === 'paid' ? 'paid' : 'pending',
+      uuid: generateRandomSlug(),
+      STRIPE_PAYMENT_ID: invoice.id,
+      stripe_payment_intent: getInvoicePaymentIntent(invoice),
+      Shipping_Address: copyAddress(checkoutOrder.Shipping_Address),
+      Details: copyDetails(checkoutOrder.Details),
+      billing_type: 'recurring',
+      billing_interval: record.billing_interval || checkoutOrder.billing_interval || null,
+      billing_interval_count: record.billing_interval_count || checkoutOrder.billing_interval_count || 1,
+      Payment_attempts: [attempt],
+      extra: {
+        created_from: `invoice.${outcome === 'paid' ? 'paid' : 'payment_failed'}`,
+        created_at: new Date().toISOString(),
+        is_test: isTest,
+        renewal_of: checkoutOrder.documentId,
+        subscription_id: record.documentId,
+        stripe_subscription_id: record.stripe_subscription_id,
+        stripe_invoice_id: invoice.id,
+        stripe_invoice_status: invoice.status || null,
+        stripe_billing_reason: invoice.billing_reason || null,
+        stripe_payment_intent: getInvoicePaymentIntent(invoice),
+        stripe_customer: stripeId(invoice.customer),
+        period_start: toIso(line?.period?.start ?? invoice.period_start),
+        period_end: toIso(line?.period?.end ?? invoice.period_end),
+      },
+    },
+  });
+
+  return { order, paidNow: outcome === 'paid' };
+}
+
+/**
+ * invoice.paid / invoice.payment_failed for subscription invoices.
+ */
+export async function recordSubscriptionInvoice(
+  strapi: any,
+  invoice: any,
+  outcome: InvoiceOutcome,
+  isTest: boolean
+): Promise<SubscriptionInvoiceResult> {
+  const stripeSubscriptionId = getInvoiceSubscriptionId(invoice);
+  if (!invoice?.id || !stripeSubscriptionId) {
+    return { recorded: false, reason: 'not_a_subscription_invoice' };
+  }
+
+  return withSubscriptionLock(strapi, stripeSubscriptionId, async () => {
+    const live = await retrieveSubscription(stripeSubscriptionId, isTest);
+    let record = await findSubscriptionRecord(strapi, stripeSubscriptionId);
+
+    if (live) {
+      record = await upsertSubscriptionRecord(strapi, live, { isTest });
+    }
+
+    if (!record) {
+      return { recorded: false, reason: 'subscription_not_found' };
+    }
+
+    const failure = outcome === 'failed' ? await describePaymentFailure(invoice, isTest) : '';
+    const attempt = Number(invoice.attempt_count || 1);
+    const dunning: Record<string, number> = { ...(record.extra?.dunning || {}) };
+    // Stripe retries send one payment_failed per attempt; replays of the same attempt are not counted again
+    const newFailure = outcome === 'failed' && (dunning[invoice.id] || 0) < attempt;
+
+    if (newFailure) {
+      dunning[invoice.id] = attempt;
+    }
+
+    await strapi.documents(SUBSCRIPTION_UID).update({
+      documentId: record.documentId,
+      data: {
+        last_invoice_id: invoice.id,
+        failed_payments: outcome === 'paid' ? 0 : Number(record.failed_payments || 0) + (newFailure ? 1 : 0),
+        last_payment_error: outcome === 'paid' ? null : failure,
+        extra: { ...(record.extra || {}), dunning },
+      },
+    });
+
+    // The checkout order already covers the first invoice
+    if (FIRST_INVOICE_REASONS.includes(invoice.billing_reason)) {
+      return { recorded: true, subscriptionDocumentId: record.documentId, orderDocumentId: record.order?.documentId || null, renewal: false };
+    }
+
+    if (!record.order?.documentId) {
+      console.warn('[ORDER_SUBSCRIPTION] Renewal for a subscription without checkout order', { stripeSubscriptionId, invoice: invoice.id });
+      return { recorded: false, reason: 'checkout_order_missing', subscriptionDocumentId: record.documentId };
+    }
+
+    const { order, paidNow } = await upsertRenewalOrder(strapi, record, invoice, outcome, failure, isTest);
+    let notified = false;
+
+    try {
+      if (paidNow) {
+        await sendOrderNotification({ strapi, order, store: record.store });
+      }
+
+      if (newFailure) {
+        notified = !!(await sendSubscriptionPaymentFailedNotification({
+          strapi,
+          subscription: record,
+          invoice,
+          order,
+          store: record.store,
+          reason: failure,
+        }));
+      }
+    } catch (error: any) {
+      console.warn('[ORDER_SUBSCRIPTION] Buyer notification failed', { invoice: invoice.id, error: error.message });
+    }
+
+    return {
+      recorded: true,
+      subscriptionDocumentId: record.documentId,
+      orderDocumentId: order?.documentId || null,
+      renewal: true,
+      notified,
+    };
+  });
+}
+
+/**
+ * Load the stored subscription record as last written by webhooks, without calling Stripe.
+ */
+export async function getStoredSubscription(strapi: any, documentId: string) {
+  return strapi.documents(SUBSCRIPTION_UID).findOne({ documentId, populate: ['store'] });
+}
+
+/**
+ * Load a subscription record, refreshed from Stripe when the API is reachable.
+ */
+export async function getSubscriptionState(strapi: any, documentId: string) {
+  const record = await strapi.documents(SUBSCRIPTION_UID).findOne({ documentId, populate: ['store'] });
+  if (!record) {
+    return null;
+  }
+
+  const live = await retrieveSubscription(record.stripe_subscription_id, !!record.is_test);
+  if (!live) {
+    return { record, synced: false };
+  }
+
+  await withSubscriptionLock(strapi, record.stripe_subscription_id, () => upsertSubscriptionRecord(strapi, live, { isTest: !!record.is_test }));
+  return {
+    record: await strapi.documents(SUBSCRIPTION_UID).findOne({ documentId, populate: ['store'] }),
+    synced: true,
+  };
+}
+
+/**
+ * Ask Stripe to cancel at the end of the current period; the buyer keeps access until then.
+ */
+export async function cancelSubscriptionAtPeriodEnd(strapi: any, record: any): Promise<{ ok: true; record: any } | { ok: false; error: string }> {
+  if (['canceled', 'incomplete_expired'].includes(record.status)) {
+    return { ok: false, error: 'This subscription has already ended' };
+  }
+
+  const stripe = getStripeClient(!!record.is_test);
+  if (!stripe) {
+    return { ok: false, error: 'Payments are not configured' };
+  }
+
+  const updated = await stripe.subscriptions.update(record.stripe_subscription_id, { cancel_at_period_end: true });
+  await withSubscriptionLock(strapi, record.stripe_subscription_id, () => upsertSubscriptionRecord(strapi, updated, { isTest: !!record.is_test }));
+
+  return {
+    ok: true,
+    record: await strapi.documents(SUBSCRIPTION_UID).findOne({ documentId: record.documentId, populate: ['store'] }),
+  };
+}
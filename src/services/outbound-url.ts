@@ -0,0 +1,165 @@
+/**
+ * Outbound URL guard
+ *
+ * URLs saved by store members (webhook endpoints) are fetched by the server, so before each request:
+ * - only https: is accepted
+ * - the host is resolved and every address must be public: loopback, private, link-local (cloud metadata),
+ *   carrier-grade NAT, multicast and unspecified ranges are rejected, IPv4-mapped IPv6 included
+ * postOutbound() sends to the addresses that were checked (custom `lookup`, TLS still verifies the hostname), so a
+ * second DNS answer cannot rebind the request inward, and it never follows redirects.
+ */
+
+import { promises as dns, type LookupAddress } from 'dns';
+import https from 'https';
+import type { IncomingHttpHeaders } from 'http';
+import net from 'net';
+
+export type OutboundUrlCheck =
+  | { ok: true; url: URL; addresses: string[] }
+  | { ok: false; error: string };
+
+export interface OutboundResponse {
+  status: number;
+  headers: IncomingHttpHeaders;
+}
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata.google.internal', 'metadata'];
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((value, part) => (value << 8) + Number(part), 0) >>> 0;
+}
+
+function inIpv4Range(address: string, base: string, bits: number): boolean {
+  const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+  return (ipv4ToNumber(address) & mask) === (ipv4ToNumber(base) & mask);
+}
+
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+export function isPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    return !BLOCKED_IPV4_RANGES.some(([base, bits]) => inIpv4Range(address, base, bits));
+  }
+
+  if (!net.isIPv6(address)) {
+    return false;
+  }
+
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  // URL() writes mapped addresses in hex: ::ffff:7f00:1
+  const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const high = parseInt(mappedHex[1], 16);
+    const low = parseInt(mappedHex[2], 16);
+    return isPublicAddress(`${high >> 8}.${high & 0xff}.${low >> 8}.${low & 0xff}`);
+  }
+
+  if (normalized === '::' || normalized === '::1') {
+    return false;
+  }
+
+  const firstGroup = parseInt(normalized.split(':')[0] || '0', 16);
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast
+  return (firstGroup & 0xfe00) !== 0xfc00 && (firstGroup & 0xffc0) !== 0xfe80 && (firstGroup & 0xff00) !== 0xff00;
+}
+
+/**
+ * Check that `value` is an https URL whose host only resolves to public addresses.
+ */
+export async function checkOutboundUrl(value: string): Promise<OutboundUrlCheck> {
+  let url: URL;
+  try {
+    url = new URL(String(value || ''));
+  } catch {
+    return { ok: false, error: 'Invalid URL' };
+  }
+
+  if (url.protocol !== 'https:') {
+    return { ok: false, error: 'Only https URLs are allowed' };
+  }
+
+  if (url.username || url.password) {
+    return { ok: false, error: 'URLs with credentials are not allowed' };
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    return { ok: false, error: `Host ${hostname} is not allowed` };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return { ok: false, error: `Host ${hostname} could not be resolved` };
+  }
+
+  if (!addresses.length || !addresses.every(isPublicAddress)) {
+    return { ok: false, error: `Host ${hostname} resolves to a private or reserved address` };
+  }
+
+  return { ok: true, url, addresses };
+}
+
+/** `lookup` for https.request that only answers with already checked addresses. */
+function pinnedLookup(addresses: string[]) {
+  const entries: LookupAddress[] = addresses.map((address) => ({ address, family: net.isIPv6(address) ? 6 : 4 }));
+
+  return (_hostname: string, options: any, callback: (...args: any[]) => void) => {
+    const family = Number(options?.family) || 0;
+    const matching = family ? entries.filter((entry) => entry.family === family) : entries;
+    if (!matching.length) {
+      callback(Object.assign(new Error('No checked address for this host'), { code: 'ENOTFOUND' }));
+      return;
+    }
+
+    if (options?.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+}
+
+/**
+ * POST `body` to a URL accepted by checkOutboundUrl(), connecting only to its checked addresses.
+ * Redirects are returned as-is; the response body is discarded.
+ */
+export function postOutbound(
+  target: { url: URL; addresses: string[] },
+  input: { headers: Record<string, string>; body: string; timeoutMs: number }
+): Promise<OutboundResponse> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(target.url, {
+      method: 'POST',
+      headers: { ...input.headers, 'Content-Length': String(Buffer.byteLength(input.body)) },
+      lookup: pinnedLookup(target.addresses) as any,
+      signal: AbortSignal.timeout(input.timeoutMs),
+    }, (response) => {
+      response.resume();
+      resolve({ status: response.statusCode || 0, headers: response.headers });
+    });
+
+    request.on('error', reject);
+    request.end(input.body);
+  });
+}
@@ -616,3 +616,96 @@ export function buildInviteAcceptedEmailHtml(input: BuildInviteAcceptedEmailHtml
     },
   });
 }
+
+export type MembershipChange = 'role_changed' | 'removed' | 'ownership_received' | 'ownership_transferred';
+
+interface BuildMembershipChangeEmailHtmlInput {
+  change: MembershipChange;
+  memberName?: string;
+  storeName: string;
+  storeSlug?: string;
+  changedByName?: string;
+  role?: string;
+  previousRole?: string;
+}
+
+const MEMBERSHIP_CHANGE_COPY: Record<MembershipChange, { label: string; header: string }> = {
+  role_changed: { label: 'Role updated', header: 'Your store role changed' },
+  removed: { label: 'Access removed', header: 'Your store access was removed' },
+  ownership_received: { label: 'New owner', header: 'You now own this store' },
+  ownership_transferred: { label: 'Ownership transferred', header: 'Store ownership was transferred' },
+};
+
+export function buildMembershipChangeEmailHtml(input: BuildMembershipChangeEmailHtmlInput): string {
+  const { change, memberName, storeName, storeSlug, changedByName, role, previousRole } = input;
+
+  const safeMemberName = escapeHtml(memberName);
+  const safeStoreName = escapeHtml(storeName);
+  const safeStoreSlug = escapeHtml(storeSlug);
+  const safeChangedBy = escapeHtml(changedByName);
+  const safeRole = escapeHtml(role);
+  const safePreviousRole = escapeHtml(previousRole);
+  const copy = MEMBERSHIP_CHANGE_COPY[change];
+  const byLine = safeChangedBy ? ` by <strong>${safeChangedBy}</strong>` : '';
+
+  const messages: Record<MembershipChange, string> = {
+    role_changed: `Your role on <strong>${safeStoreName}</strong> was changed${safePreviousRole ? ` from <strong>${safePreviousRole}</strong>` : ''} to <strong>${safeRole}</strong>${byLine}.`,
+    removed: `You no longer have access to <strong>${safeStoreName}</strong>. Your membership was removed${byLine}.`,
+    ownership_received: `Ownership of <strong>${safeStoreName}</strong> was transferred to you${byLine}. You can now manage members and payouts.`,
+    ownership_transferred: `Ownership of <strong>${safeStoreName}</strong> was transferred to another member${byLine}.${safeRole ? ` Your role is now <strong>${safeRole}</strong>.` : ''}`,
+  };
+
+  const content = `
+    <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0" style="margin:0 0 18px 0;">
+      <tr>
+        <td style="padding:0;border-radius:16px;border:1px solid #bfdbfe;background:#ffffff;overflow:hidden;">
+          <table role="presentation" width="100%" cellspacing="0" cellpadding="0" border="0">
+            <tr>
+              <td style="height:6px;font-size:0;line-height:0;background:linear-gradient(90deg,#6366f1 0%,#0ea5e9 55%,#22d3ee 100%);">&nbsp;</td>
+            </tr>
+            <tr>
+              <td style="padding:20px 22px;color:#0f172a;">
+                <p style="margin:0 0 10px 0;font-size:11px;color:#4338ca;letter-spacing:.1em;text-transform:uppercase;font-weight:700;">${copy.label}</p>
+                <h2 style="margin:0 0 8px 0;font-size:22px;line-height:1.3;color:#0f172a;">Hi${safeMemberName ? ` ${safeMemberName}` : ''},</h2>
+                <p style="margin:0 0 10px 0;font-size:15px;line-height:1.7;color:#1e293b;">${messages[change]}</p>
+              </td>
+            </tr>
+          </table>
+        </td>
+      </tr>
+    </table>
+
+    ${change === 'removed' ? '' : `<table role="presentation" cellspacing="0" cellpadding="0" border="0" style="margin:0 0 18px 0;">
+      <tr>
+        ${renderButtonCell({
+    href: EMAIL_DEFAULTS.APP_URL,
+    label: 'Open dashboard',
+    background: '#6366f1',
+    textColor: EMAIL_COLORS.WHITE,
+    padding: '13px 26px',
+    fontSize: '15px',
+    fontWeight: 'bold',
+  })}
+      </tr>
+    </table>`}
+    <p style="margin:0;font-size:13px;color:#475569;">If this looks wrong, contact the store owner or reply to <a href="mailto:${EMAIL_DEFAULTS.SUPPORT_EMAIL}" style="color:#6366f1;">${EMAIL_DEFAULTS.SUPPORT_EMAIL}</a>.</p>
+  `;
+
+  return emailLayout({
+    title: `${copy.header}: ${safeStoreName}`,
+    content,
+    store: {
+      title: safeStoreName,
+      slug: safeStoreSlug || 'store',
+      documentId: 'store-membership-change',
+      Favicon: { url: '' },
+      settings: {
+        email_header_message: copy.header,
+        store_name_override: safeStoreName,
+        welcome_email_text: '',
+        dashboard_url: '',
+        domain: EMAIL_DEFAULTS.APP_URL,
+      },
+    },
+  });
+}
@@ -0,0 +1,407 @@
+/**
+ * SendGrid Event Webhook ingestion
+ *
+ * Verifies the signed webhook (ECDSA, X-Twilio-Email-Event-Webhook-* headers),
+ * stores each event as api::subscriber.newsletter-event (deduped on sg_event_id),
+ * then applies it to subscriber-list-membership engagement fields:
+ * - open/click: last_opened_at / last_clicked_at, engagement_score up
+ * - bounce: bounce_count, last_bounce_at, bounce_type; hard bounces are suppressed (status: bounced)
+ * - spamreport: suppressed (status: complained)
+ * - unsubscribe/group_unsubscribe: status: unsubscribed
+ *
+ * Correlation uses the custom_args set by the newsletter send pipeline
+ * (newsletter_document_id, subscriber_document_id, store_document_id), falling back to email.
+ * Membership changes stay inside the event's store (the newsletter's store, else store_document_id);
+ * events without a store only update the event log and newsletter stats.
+ */
+
+import { createPublicKey, createVerify } from 'crypto';
+import { updateNewsletter } from './newsletter-send';
+
+const EVENT_UID = 'api::subscriber.newsletter-event';
+const NEWSLETTER_UID = 'api::subscriber.newsletter';
+const SUBSCRIBER_UID = 'api::subscriber.subscriber';
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+
+const SIGNATURE_MAX_AGE_SECONDS = 10 * 60;
+
+const EVENT_TYPE_MAP: Record<string, string> = {
+  processed: 'processed',
+  dropped: 'dropped',
+  delivered: 'delivered',
+  deferred: 'deferred',
+  bounce: 'bounce',
+  open: 'open',
+  click: 'click',
+  spamreport: 'spam_report',
+  unsubscribe: 'unsubscribe',
+  group_unsubscribe: 'group_unsubscribe',
+  group_resubscribe: 'group_resubscribe',
+};
+
+const ENGAGEMENT_DELTA: Record<string, number> = {
+  open: 2,
+  click: 5,
+  bounce: -20,
+  spam_report: -100,
+};
+
+/** Newsletter send_stats counter bumped per event type. */
+const STATS_COUNTER: Record<string, string> = {
+  delivered: 'delivered',
+  open: 'opens',
+  click: 'clicks',
+  bounce: 'bounces',
+  spam_report: 'spam_reports',
+  unsubscribe: 'unsubscribes',
+  group_unsubscribe: 'unsubscribes',
+  dropped: 'invalid_emails',
+};
+
+export interface SendGridEventIngestResult {
+  received: number;
+  created: number;
+  duplicates: number;
+  skipped: number;
+  failed: number;
+}
+
+function normalizeEmail(value: any): string {
+  return String(value || '').trim().toLowerCase();
+}
+
+function toPublicKey(value: string) {
+  const trimmed = String(value || '').trim();
+  if (trimmed.includes('BEGIN PUBLIC KEY')) {
+    return createPublicKey(trimmed);
+  }
+
+  // SendGrid shows the verification key as base64 DER (SPKI).
+  return createPublicKey({ key: Buffer.from(trimmed, 'base64'), format: 'der', type: 'spki' });
+}
+
+/**
+ * Verify a SendGrid signed event webhook payload.
+ * Signature is ECDSA/SHA-256 over `timestamp + rawBody`.
+ */
+export function verifySendGridEventSignature(input: {
+  publicKey: string;
+  signature: string;
+  timestamp: string;
+  rawBody: string;
+}): boolean {
+  const { publicKey, signature, timestamp, rawBody } = input;
+
+  if (!publicKey || !signature || !timestamp || typeof rawBody !== 'string') {
+    return false;
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isFinite(timestampSeconds)) {
+    return false;
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestampSeconds) > SIGNATURE_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  try {
+    const verifier = createVerify('sha256');
+    verifier.update(timestamp + rawBody);
+    verifier.end();
+    return verifier.verify(toPublicKey(publicKey), signature, 'base64');
+  } catch (error: any) {
+    console.warn('[SENDGRID_EVENTS] signature verification error:', error.message);
+    return false;
+  }
+}
+
+function resolveBounceType(event: any): 'hard' | 'soft' | 'block' | null {
+  if (event?.event !== 'bounce') {
+    return null;
+  }
+
+  if (event?.type === 'blocked') {
+    return 'block';
+  }
+
+  // Newer payloads carry bounce_classification; treat technical/content issues as soft.
+  const classification = String(event?.bounce_classification || '').toLowerCase();
+  if (['technical', 'content', 'frequency or volume too high', 'mailbox unavailable'].includes(classification)) {
+    return 'soft';
+  }
+
+  return 'hard';
+}
+
+async function findSubscriber(strapi: any, event: any): Promise<any | null> {
+  const subscriberDocumentId = String(event?.subscriber_document_id || '').trim();
+  if (subscriberDocumentId) {
+    const byId = await (strapi.documents as any)(SUBSCRIBER_UID).findOne({ documentId: subscriberDocumentId });
+    if (byId) {
+      return byId;
+    }
+  }
+
+  const email = normalizeEmail(event?.email);
+  if (!email) {
+    return null;
+  }
+
+  const byEmail = await (strapi.documents as any)(SUBSCRIBER_UID).findMany({
+    filters: { Email: { $eqi: email } },
+    limit: 1,
+  }) as any[];
+
+  return byEmail?.[0] || null;
+}
+
+async function findNewsletter(strapi: any, event: any): Promise<any | null> {
+  const newsletterDocumentId = String(event?.newsletter_document_id || '').trim();
+  if (!newsletterDocumentId) {
+    return null;
+  }
+
+  return (strapi.documents as any)(NEWSLETTER_UID).findOne({
+    documentId: newsletterDocumentId,
+    populate: ['store'],
+  });
+}
+
+/**
+ * Apply an event to the subscriber's memberships in the sending store only. Events whose store cannot be
+ * resolved touch no membership, so one bounce or spam report never suppresses the subscriber in other stores.
+ */
+async function applyToMemberships(strapi: any, input: {
+  eventType: string;
+  bounceType: 'hard' | 'soft' | 'block' | null;
+  occurredAt: string;
+  subscriber: any;
+  storeDocumentId: string | null;
+  reason: string | null;
+}): Promise<number> {
+  const { eventType, bounceType, occurredAt, subscriber, storeDocumentId, reason } = input;
+  const memberships = (strapi.documents as any)(MEMBERSHIP_UID);
+
+  if (!storeDocumentId) {
+    console.warn('[SENDGRID_EVENTS] no store for event, memberships left untouched', { eventType, subscriber: subscriber.documentId });
+    return 0;
+  }
+
+  const rows = await memberships.findMany({
+    filters: {
+      subscriber: { documentId: { $eq: subscriber.documentId } },
+      list: { store: { documentId: { $eq: storeDocumentId } } },
+    },
+    limit: 200,
+  }) as any[];
+
+  let updatedCount = 0;
+
+  for (const membership of rows) {
+    const data: Record<string, any> = {};
+    const delta = ENGAGEMENT_DELTA[eventType] ?? 0;
+
+    if (delta !== 0) {
+      const current = Number.isFinite(Number(membership.engagement_score)) ? Number(membership.engagement_score) : 100;
+      const softened = bounceType && bounceType !== 'hard' ? Math.round(delta / 2) : delta;
+      data.engagement_score = Math.max(0, Math.min(100, current + softened));
+    }
+
+    if (eventType === 'open') {
+      data.last_opened_at = occurredAt;
+    }
+
+    if (eventType === 'click') {
+      data.last_clicked_at = occurredAt;
+      if (!membership.last_opened_at) {
+        data.last_opened_at = occurredAt;
+      }
+    }
+
+    if (eventType === 'bounce') {
+      data.bounce_count = Number(membership.bounce_count || 0) + 1;
+      data.last_bounce_at = occurredAt;
+      data.bounce_type = bounceType || 'hard';
+
+      if (bounceType === 'hard' && membership.status === 'subscribed') {
+        data.status = 'bounced';
+        data.unsubscribed_at = occurredAt;
+        data.unsubscribe_reason = reason ? `hard_bounce: ${reason}`.slice(0, 500) : 'hard_bounce';
+      }
+    }
+
+    if (eventType === 'spam_report' && membership.status !== 'complained') {
+      data.status = 'complained';
+      data.unsubscribed_at = occurredAt;
+      data.unsubscribe_reason = 'spam_report';
+    }
+
+    if (['unsubscribe', 'group_unsubscribe'].includes(eventType) && membership.status === 'subscribed') {
+      data.status = 'unsubscribed';
+      data.unsubscribed_at = occurredAt;
+      data.unsubscribe_reason = eventType;
+    }
+
+    if (Object.keys(data).length === 0) {
+      continue;
+    }
+
+    await memberships.update({ documentId: membership.documentId, data });
+    updatedCount++;
+  }
+
+  return updatedCount;
+}
+
+async function bumpNewsletterStats(strapi: any, newsletter: any, eventType: string, isFirstForRecipient: boolean): Promise<void> {
+  const counter = STATS_COUNTER[eventType];
+  if (!counter || !newsletter?.documentId) {
+    return;
+  }
+
+  const latest = await (strapi.documents as any)(NEWSLETTER_UID).findOne({ documentId: newsletter.documentId });
+  const stats = { ...(latest?.send_stats || {}) };
+
+  stats[counter] = Number(stats[counter] || 0) + 1;
+  if (isFirstForRecipient && eventType === 'open') {
+    stats.unique_opens = Number(stats.unique_opens || 0) + 1;
+  }
+  if (isFirstForRecipient && eventType === 'click') {
+    stats.unique_clicks = Number(stats.unique_clicks || 0) + 1;
+  }
+
+  const recipients = Number(stats.total_recipients || stats.sent || 0);
+  stats.bounce_rate = recipients > 0 ? Number((Number(stats.bounces || 0) / recipients).toFixed(4)) : 0;
+  stats.last_updated_at = new Date().toISOString();
+
+  await updateNewsletter(strapi, newsletter.documentId, { send_stats: stats });
+}
+
+/**
+ * Persist a batch of SendGrid events and apply their effects.
+ */
+export async function ingestSendGridEvents(strapi: any, events: any[]): Promise<SendGridEventIngestResult> {
+  const result: SendGridEventIngestResult = {
+    received: Array.isArray(events) ? events.length : 0,
+    created: 0,
+    duplicates: 0,
+    skipped: 0,
+    failed: 0,
+  };
+
+  if (!Array.isArray(events)) {
+    return result;
+  }
+
+  const eventDocuments = (strapi.documents as any)(EVENT_UID);
+
+  for (const event of events) {
+    const eventType = EVENT_TYPE_MAP[String(event?.event || '')];
+    const email = normalizeEmail(event?.email);
+    const sgEventId = String(event?.sg_event_id || '').trim();
+
+    if (!eventType || !email) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      if (sgEventId) {
+        const existing = await eventDocuments.findMany({
+          filters: { sendgrid_event_id: { $eq: sgEventId } },
+          limit: 1,
+        }) as any[];
+
+        if (existing?.length) {
+          result.duplicates++;
+          continue;
+        }
+      }
+
+      const [subscriber, newsletter] = await Promise.all([
+        findSubscriber(strapi, event),
+        findNewsletter(strapi, event),
+      ]);
+
+      const occurredAt = Number.isFinite(Number(event?.timestamp))
+        ? new Date(Number(event.timestamp) * 1000).toISOString()
+        : new Date().toISOString();
+      const bounceType = resolveBounceType(event);
+
+      let isFirstForRecipient = false;
+      if (newsletter && ['open', 'click'].includes(eventType)) {
+        const prior = await eventDocuments.count({
+          filters: {
+            newsletter: { documentId: { $eq: newsletter.documentId } },
+            email: { $eqi: email },
+            event_type: { $eq: eventType },
+          },
+        });
+        isFirstForRecipient = prior === 0;
+      }
+
+      let record: any;
+      try {
+        record = await eventDocuments.create({
+          data: {
+            event_type: eventType,
+            email,
+            timestamp: occurredAt,
+            ...(newsletter ? { newsletter: newsletter.documentId } : {}),
+            ...(subscriber ? { subscriber: subscriber.documentId } : {}),
+            ...(sgEventId ? { sendgrid_event_id: sgEventId } : {}),
+            sendgrid_message_id: event?.sg_message_id || null,
+            user_agent: event?.useragent ? String(event.useragent).slice(0, 255) : null,
+            ip: event?.ip || null,
+            url: event?.url ? String(event.url).slice(0, 255) : null,
+            bounce_reason: bounceType ? event?.reason || null : null,
+            bounce_type: bounceType,
+            unsubscribe_reason: ['unsubscribe', 'group_unsubscribe'].includes(eventType) ? event?.event : null,
+            event_data: event,
+            processed: false,
+          },
+        });
+      } catch (createErr: any) {
+        // Concurrent delivery of the same batch: the unique sendgrid_event_id wins.
+        if (/unique|duplicate|already exists/i.test(String(createErr?.message || ''))) {
+          result.duplicates++;
+          continue;
+        }
+        throw createErr;
+      }
+
+      if (subscriber) {
+        await applyToMemberships(strapi, {
+          eventType,
+          bounceType,
+          occurredAt,
+          subscriber,
+          // The newsletter's own store wins over the event custom arg
+          storeDocumentId: String(newsletter?.store?.documentId || event?.store_document_id || '').trim() || null,
+          reason: event?.reason || null,
+        });
+      }
+
+      await bumpNewsletterStats(strapi, newsletter, eventType, isFirstForRecipient);
+
+      await eventDocuments.update({
+        documentId: record.documentId,
+        data: { processed: true },
+      });
+
+      result.created++;
+    } catch (error: any) {
+      result.failed++;
+      console.error('[SENDGRID_EVENTS] event ingest failed', {
+        sgEventId: sgEventId || null,
+        event: event?.event,
+        error: error.message,
+      });
+    }
+  }
+
+  console.log('[SENDGRID_EVENTS] batch processed', result);
+
+  return result;
+}
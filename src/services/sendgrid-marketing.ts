@@ -9,8 +9,12 @@
  * - syncSubscriberMemberships({ subscriberDocumentId, listDocumentIds })
  * - sendWelcomeEmail({ subscriberDocumentId, listDocumentId })
  * - getSyncStatus({ subscriberDocumentId })
+ *
+ * Mail delivery (welcome emails) goes through src/services/mail-transport.ts.
  */
 
+import { createSendGridTransport, getPlatformFromEmail, type MailTransport } from './mail-transport';
+
 interface SendGridCredentials {
   api_key: string;
   use_default?: boolean;
@@ -157,6 +161,8 @@ interface SendWelcomeEmailInput {
   fromName?: string;
   senderId?: string;
   replyToEmail?: string;
+  /** Resolved mail transport (smtp/local/sendgrid); defaults to SendGrid with the given credentials. */
+  transport?: MailTransport | null;
 }
 
 interface SendWelcomeEmailResult {
@@ -925,19 +931,20 @@ export async function sendWelcomeEmail(input: SendWelcomeEmailInput): Promise<Se
   }
 
   const apiKey = resolveSendGridApiKey(credentials);
-  if (!apiKey) {
+  const transport = input.transport || (apiKey ? createSendGridTransport(apiKey) : null);
+  if (!transport) {
     return {
       success: false,
-      message: 'No SendGrid API key configured',
+      message: 'No mail transport configured',
       toEmail,
       error: 'Missing API key'
     };
   }
 
-  const keySource = credentials.use_default
-    ? 'env:SENDGRID_API_KEY'
-    : 'extension.credentials.api_key';
-  const keyFingerprint = `${apiKey.slice(0, 6)}...${apiKey.slice(-4)} (len:${apiKey.length})`;
+  const keySource = input.transport
+    ? `transport:${transport.name}`
+    : credentials.use_default ? 'env:SENDGRID_API_KEY' : 'extension.credentials.api_key';
+  const keyFingerprint = apiKey && !input.transport ? `${apiKey.slice(0, 6)}...${apiKey.slice(-4)} (len:${apiKey.length})` : null;
 
   const resolveSenderIdentity = async (): Promise<ResolvedSenderIdentity> => {
     if (fromEmail) {
@@ -948,15 +955,15 @@ export async function sendWelcomeEmail(input: SendWelcomeEmailInput): Promise<Se
       };
     }
 
-    if (process.env.SENDGRID_FROM_EMAIL) {
+    if (process.env.MAIL_FROM_EMAIL || process.env.SENDGRID_FROM_EMAIL) {
       return {
-        fromEmail: process.env.SENDGRID_FROM_EMAIL,
+        fromEmail: getPlatformFromEmail(),
         fromName: fromName || process.env.SENDGRID_FROM_NAME || 'Markkët',
         source: 'env'
       };
     }
 
-    if (senderId) {
+    if (senderId && apiKey) {
       const sender = await testVerifiedSender(apiKey, senderId);
       if (sender?.data?.from_email && sender.data.from_email !== 'Unknown' && sender.data.from_email !== 'Unable to verify (check SendGrid dashboard)') {
         return {
@@ -978,81 +985,48 @@ export async function sendWelcomeEmail(input: SendWelcomeEmailInput): Promise<Se
   const resolvedFromEmail = senderIdentity.fromEmail;
   const resolvedFromName = senderIdentity.fromName;
 
-  try {
-    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        personalizations: [
-          {
-            to: [{ email: toEmail }],
-            subject
-          }
-        ],
-        from: {
-          email: resolvedFromEmail,
-          name: resolvedFromName
-        },
-        ...(replyToEmail ? { reply_to: { email: replyToEmail } } : {}),
-        content: [
-          {
-            type: 'text/html',
-            value: htmlContent
-          }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.warn('[SENDGRID_SYNC] Welcome email failed:', {
-        toEmail,
-        keySource,
-        keyFingerprint,
-        senderSource: senderIdentity.source,
-        fromEmail: resolvedFromEmail,
-        status: response.status,
-        error: errorText
-      });
-
-      return {
-        success: false,
-        message: 'Welcome email request failed',
-        toEmail,
-        error: errorText
-      };
-    }
-
-    const messageId = response.headers.get('x-message-id') || response.headers.get('X-Message-Id');
+  const result = await transport.send({
+    to: toEmail,
+    from: { email: resolvedFromEmail, name: resolvedFromName },
+    replyTo: replyToEmail,
+    subject,
+    html: htmlContent,
+  });
 
-    console.log('[SENDGRID_SYNC] Welcome email accepted', {
+  if (!result.success) {
+    console.warn('[SENDGRID_SYNC] Welcome email failed:', {
       toEmail,
       keySource,
       keyFingerprint,
       senderSource: senderIdentity.source,
       fromEmail: resolvedFromEmail,
-      status: response.status,
-      messageId
+      error: result.error
     });
 
-    return {
-      success: true,
-      message: 'Welcome email accepted by SendGrid',
-      toEmail,
-      messageId
-    };
-  } catch (error: any) {
-    console.warn('[SENDGRID_SYNC] Welcome email exception:', error.message);
     return {
       success: false,
-      message: 'Welcome email request failed unexpectedly',
+      message: 'Welcome email request failed',
       toEmail,
-      error: error.message
+      error: result.error
     };
   }
+
+  console.log('[SENDGRID_SYNC] Welcome email accepted', {
+    toEmail,
+    keySource,
+    keyFingerprint,
+    senderSource: senderIdentity.source,
+    fromEmail: resolvedFromEmail,
+    transport: transport.name,
+    messageId: result.messageId
+  });
+
+  return {
+    success: true,
+    message: `Welcome email accepted by ${transport.name}`,
+    toEmail,
+    messageId: result.messageId
+  };
 }
 
 const PLATFORM_STORE_OWNERS_LIST = 'markket:store_owners';
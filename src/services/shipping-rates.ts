@@ -0,0 +1,363 @@
+/**
+ * Shipping rates (store shipping profile)
+ *
+ * Each store configures `store-setting.shipping_settings`:
+ * {
+ *   enabled: true,
+ *   currency: 'USD',
+ *   zones: [{
+ *     name: 'Domestic', countries: ['US'], regions?: ['US-AK', 'US-HI'], default?: true, free_over?: 75,
+ *     rates: [
+ *       { name: 'Standard', type: 'flat', amount: 6, min_days?: 3, max_days?: 7, free_over?: 100 },
+ *       { name: 'Express', type: 'tiered', tiers: [{ min_subtotal: 0, amount: 15 }, { min_subtotal: 50, amount: 9 }] },
+ *     ],
+ *   }],
+ * }
+ *
+ * resolveCheckoutShipping() is used by the stripe.link and stripe.cart actions when shipping is collected:
+ * - allowed countries = zone countries, narrowed by every requested price's PRICES[].ships_to
+ * - the zone comes from the buyer destination (country / region) when given, else the `default` (or first) zone
+ * - each zone rate becomes a Stripe shipping rate (fixed amount, cached per process) in `shipping_options`
+ *
+ * Stripe only lets the buyer pick among the options, it does not filter them by address: send the destination
+ * when zones have different prices. The paid amount is recorded in order.extra.shipping and becomes the first
+ * shipment's ShippingCost.
+ */
+
+import { getStripeClient } from '../api/markket/services/stripe';
+
+const STORE_SETTING_UID = 'api::store.store-setting';
+
+const MAX_SHIPPING_OPTIONS = 5;
+const MAX_ZONES = 20;
+const RATE_TYPES = ['flat', 'tiered'];
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const REGION_PATTERN = /^[A-Z]{2}-[A-Z0-9]{1,3}$/;
+
+export interface ShippingTier {
+  min_subtotal: number;
+  amount: number;
+}
+
+export interface ShippingRateConfig {
+  name: string;
+  type: 'flat' | 'tiered';
+  amount?: number;
+  tiers?: ShippingTier[];
+  free_over?: number | null;
+  min_days?: number | null;
+  max_days?: number | null;
+}
+
+export interface ShippingZone {
+  name: string;
+  countries: string[];
+  regions: string[];
+  default: boolean;
+  free_over: number | null;
+  rates: ShippingRateConfig[];
+}
+
+export interface ShippingProfile {
+  enabled: boolean;
+  currency: string;
+  zones: ShippingZone[];
+}
+
+export interface ShippingQuoteOption {
+  name: string;
+  amount: number;
+  currency: string;
+  free: boolean;
+  min_days: number | null;
+  max_days: number | null;
+}
+
+export type CheckoutShipping =
+  | { ok: true; configured: false }
+  | {
+    ok: true;
+    configured: true;
+    zone: string;
+    countries: string[];
+    options: ShippingQuoteOption[];
+    shipping_rate_ids: string[];
+  }
+  | { ok: false; code: 'shipping_unavailable' | 'shipping_currency_mismatch'; error: string };
+
+const stripeRateCache = new Map<string, string>();
+
+function readAmount(value: any): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * 100) / 100 : null;
+}
+
+function readDays(value: any): number | null {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function readCodes(value: any, pattern: RegExp): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map((code) => String(code || '').trim().toUpperCase()).filter((code) => pattern.test(code))));
+}
+
+/**
+ * Validate a shipping_settings payload. Returns the normalized profile or the first problem found.
+ */
+export function validateShippingProfile(input: any): { ok: true; profile: ShippingProfile } | { ok: false; error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, error: 'shipping_settings must be an object' };
+  }
+
+  const zonesInput = Array.isArray(input.zones) ? input.zones : [];
+  if (zonesInput.length > MAX_ZONES) {
+    return { ok: false, error: `shipping_settings supports up to ${MAX_ZONES} zones` };
+  }
+
+  const zones: ShippingZone[] = [];
+  for (const [zoneIndex, zone] of zonesInput.entries()) {
+    const name = String(zone?.name || '').trim() || `Zone ${zoneIndex + 1}`;
+    const countries = readCodes(zone?.countries, COUNTRY_PATTERN);
+    const regions = readCodes(zone?.regions, REGION_PATTERN);
+
+    if (countries.length === 0) {
+      return { ok: false, error: `Zone "${name}" needs at least one ISO country code` };
+    }
+
+    const ratesInput = Array.isArray(zone?.rates) ? zone.rates : [];
+    if (ratesInput.length === 0 || ratesInput.length > MAX_SHIPPING_OPTIONS) {
+      return { ok: false, error: `Zone "${name}" needs between 1 and ${MAX_SHIPPING_OPTIONS} rates` };
+    }
+
+    const rates: ShippingRateConfig[] = [];
+    for (const rate of ratesInput) {
+      const rateName = String(rate?.name || '').trim();
+      const type = String(rate?.type || 'flat').trim();
+
+      if (!rateName) {
+        return { ok: false, error: `Every rate of zone "${name}" needs a name` };
+      }
+      if (!RATE_TYPES.includes(type)) {
+        return { ok: false, error: `Rate "${rateName}" type must be one of: ${RATE_TYPES.join(', ')}` };
+      }
+
+      const normalized: ShippingRateConfig = {
+        name: rateName,
+        type: type as ShippingRateConfig['type'],
+        free_over: readAmount(rate.free_over),
+        min_days: readDays(rate.min_days),
+        max_days: readDays(rate.max_days),
+      };
+
+      if (type === 'flat') {
+        normalized.amount = readAmount(rate.amount);
+        if (normalized.amount === null) {
+          return { ok: false, error: `Rate "${rateName}" needs an amount of 0 or more` };
+        }
+      } else {
+        const tiers = (Array.isArray(rate.tiers) ? rate.tiers : [])
+          .map((tier: any) => ({ min_subtotal: readAmount(tier?.min_subtotal), amount: readAmount(tier?.amount) }))
+          .filter((tier: any) => tier.min_subtotal !== null && tier.amount !== null)
+          .sort((left: ShippingTier, right: ShippingTier) => left.min_subtotal - right.min_subtotal);
+
+        if (tiers.length === 0) {
+          return { ok: false, error: `Rate "${rateName}" needs tiers with min_subtotal and amount` };
+        }
+        normalized.tiers = tiers;
+      }
+
+      rates.push(normalized);
+    }
+
+    zones.push({
+      name,
+      countries,
+      regions: regions.filter((region) => countries.includes(region.slice(0, 2))),
+      default: zone?.default === true,
+      free_over: readAmount(zone?.free_over),
+      rates,
+    });
+  }
+
+  return {
+    ok: true,
+    profile: {
+      enabled: input.enabled !== false && zones.length > 0,
+      currency: String(input.currency || 'USD').trim().toUpperCase() || 'USD',
+      zones,
+    },
+  };
+}
+
+/** Shipping profile of a store, or null when none is configured (or it is invalid / disabled). */
+export function resolveShippingProfile(settings: any): ShippingProfile | null {
+  if (!settings?.shipping_settings) return null;
+
+  const validation = validateShippingProfile(settings.shipping_settings);
+  if (validation.ok === false) {
+    console.warn('[SHIPPING_RATES] Ignoring invalid shipping_settings', { error: validation.error });
+    return null;
+  }
+
+  return validation.profile.enabled ? validation.profile : null;
+}
+
+/**
+ * Zone for a destination: region match first, then country. Without a destination the `default` (or first) zone.
+ */
+export function findShippingZone(profile: ShippingProfile, destination: { country?: string | null; region?: string | null } = {}): ShippingZone | null {
+  const country = String(destination.country || '').trim().toUpperCase();
+  const region = String(destination.region || '').trim().toUpperCase();
+
+  if (!country) {
+    return profile.zones.find((zone) => zone.default) || profile.zones[0] || null;
+  }
+
+  const regionCode = region && !region.includes('-') ? `${country}-${region}` : region;
+  return profile.zones.find((zone) => regionCode && zone.regions.includes(regionCode))
+    || profile.zones.find((zone) => zone.countries.includes(country) && zone.regions.length === 0)
+    || profile.zones.find((zone) => zone.countries.includes(country))
+    || null;
+}
+
+/**
+ * Cost of every rate of a zone for an order subtotal (in the profile currency).
+ */
+export function quoteShippingZone(profile: ShippingProfile, zone: ShippingZone, subtotal: number): ShippingQuoteOption[] {
+  return zone.rates.map((rate) => {
+    let amount = rate.amount ?? 0;
+    if (rate.type === 'tiered') {
+      const tier = [...(rate.tiers || [])].reverse().find((entry) => subtotal >= entry.min_subtotal);
+      amount = tier ? tier.amount : rate.tiers?.[0]?.amount ?? 0;
+    }
+
+    const freeOver = rate.free_over ?? zone.free_over;
+    const free = freeOver !== null && freeOver !== undefined && subtotal >= freeOver;
+
+    return {
+      name: rate.name,
+      amount: free ? 0 : amount,
+      currency: profile.currency,
+      free: free || amount === 0,
+      min_days: rate.min_days ?? null,
+      max_days: rate.max_days ?? null,
+    };
+  }).slice(0, MAX_SHIPPING_OPTIONS);
+}
+
+/**
+ * Countries every requested price ships to (PRICES[].ships_to; empty means no restriction).
+ */
+export function resolvePriceShipsTo(product: any, requestedPriceIds: string[]): string[] | null {
+  const prices = Array.isArray(product?.PRICES) ? product.PRICES : [];
+  let allowed: string[] | null = null;
+
+  for (const priceId of requestedPriceIds) {
+    const price = prices.find((entry: any) => entry.STRIPE_ID === priceId);
+    const shipsTo = readCodes(price?.ships_to, COUNTRY_PATTERN);
+    if (shipsTo.length === 0) continue;
+    allowed = allowed === null ? shipsTo : allowed.filter((country) => shipsTo.includes(country));
+  }
+
+  return allowed;
+}
+
+async function ensureStripeShippingRate(isTest: boolean, option: ShippingQuoteOption): Promise<string> {
+  const cacheKey = [isTest ? 'test' : 'live', option.currency, Math.round(option.amount * 100), option.name, option.min_days, option.max_days].join(':');
+  const cached = stripeRateCache.get(cacheKey);
+  if (cached) return cached;
+
+  const client = getStripeClient(isTest);
+  if (!client) {
+    throw new Error('Stripe is not configured');
+  }
+
+  const deliveryEstimate: Record<string, any> = {};
+  if (option.min_days) deliveryEstimate.minimum = { unit: 'business_day', value: option.min_days };
+  if (option.max_days) deliveryEstimate.maximum = { unit: 'business_day', value: option.max_days };
+
+  const rate = await client.shippingRates.create({
+    display_name: option.name,
+    type: 'fixed_amount',
+    fixed_amount: { amount: Math.round(option.amount * 100), currency: option.currency.toLowerCase() },
+    ...(Object.keys(deliveryEstimate).length > 0 ? { delivery_estimate: deliveryEstimate } : {}),
+    metadata: { source: 'markket.shipping_settings' },
+  });
+
+  stripeRateCache.set(cacheKey, rate.id);
+  return rate.id;
+}
+
+/**
+ * Shipping for a checkout link: allowed countries and Stripe shipping rate ids from the store profile.
+ * `configured: false` when the store has no shipping profile (legacy address-only collection).
+ */
+export async function resolveCheckoutShipping(strapi: any, input: {
+  storeDocumentId?: string | null;
+  /** Products in the link with their requested Stripe price ids (one for stripe.link, several for carts) */
+  items: Array<{ product: any; priceIds: string[] }>;
+  subtotal: number;
+  destination?: { country?: string | null; region?: string | null };
+  isTest: boolean;
+}): Promise<CheckoutShipping> {
+  if (!input.storeDocumentId) {
+    return { ok: true, configured: false };
+  }
+
+  const settings = await strapi.documents(STORE_SETTING_UID).findFirst({
+    filters: { store: { documentId: { $eq: input.storeDocumentId } } },
+    fields: ['shipping_settings'],
+  });
+
+  const profile = resolveShippingProfile(settings);
+  if (!profile) {
+    return { ok: true, configured: false };
+  }
+
+  // Stripe rejects shipping rates in another currency than the line items
+  const priceCurrencies = new Set<string>();
+  for (const item of input.items) {
+    for (const price of item.product?.PRICES || []) {
+      if (item.priceIds.includes(price?.STRIPE_ID)) {
+        priceCurrencies.add(String(price.Currency || 'USD').toUpperCase());
+      }
+    }
+  }
+  const mismatch = [...priceCurrencies].find((currency) => currency !== profile.currency);
+  if (mismatch) {
+    return {
+      ok: false,
+      code: 'shipping_currency_mismatch',
+      error: `Shipping rates are in ${profile.currency} but these items are priced in ${mismatch}; update the store shipping currency`,
+    };
+  }
+
+  const zone = findShippingZone(profile, input.destination);
+  if (!zone) {
+    return { ok: false, code: 'shipping_unavailable', error: `This store does not ship to ${input.destination?.country}` };
+  }
+
+  let shipsTo: string[] | null = null;
+  for (const item of input.items) {
+    const itemShipsTo = resolvePriceShipsTo(item.product, item.priceIds);
+    if (itemShipsTo === null) continue;
+    shipsTo = shipsTo === null ? itemShipsTo : shipsTo.filter((country) => itemShipsTo.includes(country));
+  }
+  const destinationCountry = String(input.destination?.country || '').trim().toUpperCase();
+  const zoneCountries = destinationCountry ? [destinationCountry] : zone.countries;
+  const countries = shipsTo === null ? zoneCountries : zoneCountries.filter((country) => shipsTo.includes(country));
+
+  if (countries.length === 0) {
+    return { ok: false, code: 'shipping_unavailable', error: `These items do not ship to ${destinationCountry || zone.name}` };
+  }
+
+  const options = quoteShippingZone(profile, zone, input.subtotal);
+  const shippingRateIds: string[] = [];
+  for (const option of options) {
+    shippingRateIds.push(await ensureStripeShippingRate(input.isTest, option));
+  }
+
+  return { ok: true, configured: true, zone: zone.name, countries, options, shipping_rate_ids: shippingRateIds };
+}
@@ -0,0 +1,250 @@
+/**
+ * Shopify Admin REST client
+ *
+ * The importer (shopify-import.ts) only talks to a ShopifyClient, so it runs with:
+ * - createShopifyHttpClient: Admin API over fetch (X-Shopify-Access-Token), Link header pagination,
+ *   one retry after a 429. `fetchImpl` can be swapped for a mock. Only *.myshopify.com shops are called and
+ *   images only come from https://cdn.shopify.com.
+ * - createFixtureShopifyClient: JSON files from a directory, no network. Used when SHOPIFY_FIXTURES_DIR is set.
+ *   `collections/123/products.json` is read from `collections_123_products.json`, images from `images/<file name>`.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DEFAULT_SHOPIFY_API_VERSION = '2024-10';
+
+const DEFAULT_TIMEOUT_MS = 20 * 1000;
+const DEFAULT_RETRY_AFTER_S = 2;
+const MAX_PAGES = 200;
+const SHOP_DOMAIN_SUFFIX = '.myshopify.com';
+const SHOP_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+const SHOPIFY_CDN_HOSTS = ['cdn.shopify.com'];
+
+export interface ShopifyVariant {
+  id: number;
+  title: string;
+  price: string;
+  sku?: string | null;
+  position?: number;
+  inventory_item_id?: number;
+  inventory_quantity?: number;
+  inventory_management?: string | null;
+}
+
+export interface ShopifyImage {
+  id: number;
+  src: string;
+  alt?: string | null;
+  position?: number;
+}
+
+export interface ShopifyProduct {
+  id: number;
+  title: string;
+  handle: string;
+  body_html?: string | null;
+  status?: 'active' | 'draft' | 'archived';
+  updated_at?: string;
+  variants?: ShopifyVariant[];
+  images?: ShopifyImage[];
+  image?: ShopifyImage | null;
+}
+
+export interface ShopifyCollection {
+  id: number;
+  title: string;
+  handle?: string;
+}
+
+export interface ShopifyInventoryLevel {
+  inventory_item_id: number;
+  location_id: number;
+  available: number | null;
+}
+
+export interface ShopifyResponse<T = any> {
+  body: T;
+  /** page_info cursor of the next page, from the Link header */
+  nextPageInfo: string | null;
+}
+
+export interface ShopifyClient {
+  name: 'http' | 'fixtures' | string;
+  get<T = any>(resource: string, query?: Record<string, string | number>): Promise<ShopifyResponse<T>>;
+  download(url: string): Promise<{ buffer: Buffer; mimeType: string; fileName: string }>;
+}
+
+export interface ShopifyHttpSettings {
+  /** my-shop.myshopify.com */
+  shop_domain: string;
+  access_token: string;
+  api_version?: string;
+  timeout?: number;
+  fetchImpl?: typeof fetch;
+}
+
+function fileNameFromUrl(url: string): string {
+  try {
+    return path.basename(new URL(url).pathname) || 'image';
+  } catch {
+    return path.basename(String(url).split('?')[0]) || 'image';
+  }
+}
+
+function mimeTypeFromName(fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase();
+  return {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.avif': 'image/avif',
+  }[extension] || 'application/octet-stream';
+}
+
+function readNextPageInfo(link: string | null): string | null {
+  if (!link) return null;
+
+  const next = link.split(',').find((part) => part.includes('rel="next"'));
+  const match = next?.match(/[?&]page_info=([^&>]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+/**
+ * `my-shop`, `my-shop.myshopify.com` or `https://my-shop.myshopify.com/...` -> `my-shop.myshopify.com`.
+ * Anything that is not a *.myshopify.com shop (custom domains included) is '' so the access token never leaves Shopify.
+ */
+export function normalizeShopDomain(value: string): string {
+  const domain = String(value || '').trim().toLowerCase().replace(/^https?:\/\//, '').replace(/[/?#].*$/, '');
+  const name = domain.endsWith(SHOP_DOMAIN_SUFFIX) ? domain.slice(0, -SHOP_DOMAIN_SUFFIX.length) : domain;
+  return SHOP_NAME_PATTERN.test(name) ? `${name}${SHOP_DOMAIN_SUFFIX}` : '';
+}
+
+/**
+ * Product images are only downloaded over https from the Shopify CDN.
+ */
+export function isShopifyCdnUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && !url.port && !url.username && !url.password
+      && SHOPIFY_CDN_HOSTS.includes(url.hostname.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+export function createShopifyHttpClient(settings: ShopifyHttpSettings): ShopifyClient {
+  const shopDomain = normalizeShopDomain(settings.shop_domain);
+  const apiVersion = settings.api_version || DEFAULT_SHOPIFY_API_VERSION;
+  const fetchImpl = settings.fetchImpl || fetch;
+  const timeout = settings.timeout || DEFAULT_TIMEOUT_MS;
+
+  if (!shopDomain || !settings.access_token) {
+    throw new Error('Shopify shop domain (<name>.myshopify.com) and access_token are required');
+  }
+
+  const request = async (url: string, retried = false): Promise<Response> => {
+    const response = await fetchImpl(url, {
+      headers: {
+        'X-Shopify-Access-Token': settings.access_token,
+        Accept: 'application/json',
+      },
+      signal: AbortSignal.timeout(timeout),
+    });
+
+    if (response.status === 429 && !retried) {
+      const retryAfter = Number(response.headers.get('Retry-After')) || DEFAULT_RETRY_AFTER_S;
+      await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+      return request(url, true);
+    }
+
+    return response;
+  };
+
+  return {
+    name: 'http',
+    async get(resource, query = {}) {
+      const params = new URLSearchParams(Object.entries(query).map(([key, value]) => [key, String(value)]));
+      const url = `https://${shopDomain}/admin/api/${apiVersion}/${resource.replace(/^\/+/, '')}${params.toString() ? `?${params}` : ''}`;
+      const response = await request(url);
+
+      if (!response.ok) {
+        const detail = (await response.text().catch(() => '')).slice(0, 300);
+        throw new Error(`Shopify ${resource} HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+
+      return {
+        body: await response.json() as any,
+        nextPageInfo: readNextPageInfo(response.headers.get('Link')),
+      };
+    },
+    async download(url) {
+      if (!isShopifyCdnUrl(url)) {
+        throw new Error('Image is not an https cdn.shopify.com URL');
+      }
+
+      const response = await fetchImpl(url, { redirect: 'error', signal: AbortSignal.timeout(timeout) });
+      if (!response.ok) {
+        throw new Error(`Image download HTTP ${response.status}`);
+      }
+
+      const fileName = fileNameFromUrl(url);
+      return {
+        buffer: Buffer.from(await response.arrayBuffer()),
+        mimeType: (response.headers.get('Content-Type') || mimeTypeFromName(fileName)).split(';')[0].trim(),
+        fileName,
+      };
+    },
+  };
+}
+
+export function createFixtureShopifyClient(directory: string): ShopifyClient {
+  return {
+    name: 'fixtures',
+    async get(resource) {
+      const fileName = resource.replace(/^\/+/, '').replace(/\//g, '_');
+      const content = await fs.readFile(path.join(directory, fileName), 'utf8').catch(() => null);
+      if (content === null) {
+        throw new Error(`Shopify fixture not found: ${fileName}`);
+      }
+
+      return { body: JSON.parse(content), nextPageInfo: null };
+    },
+    async download(url) {
+      const fileName = fileNameFromUrl(url);
+      return {
+        buffer: await fs.readFile(path.join(directory, 'images', fileName)),
+        mimeType: mimeTypeFromName(fileName),
+        fileName,
+      };
+    },
+  };
+}
+
+/**
+ * Read every page of a list resource. Shopify only accepts `limit` (and `fields`) next to `page_info`.
+ */
+export async function listAllShopify<T>(
+  client: ShopifyClient,
+  resource: string,
+  key: string,
+  query: Record<string, string | number> = {},
+): Promise<T[]> {
+  const items: T[] = [];
+  let pageInfo: string | null = null;
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const pageQuery: Record<string, string | number> = pageInfo
+      ? { limit: query.limit || 250, ...(query.fields ? { fields: query.fields } : {}), page_info: pageInfo }
+      : { limit: 250, ...query };
+    const response = await client.get(resource, pageQuery);
+
+    items.push(...((response.body?.[key] || []) as T[]));
+    pageInfo = response.nextPageInfo;
+    if (!pageInfo) break;
+  }
+
+  return items;
+}
@@ -0,0 +1,840 @@
+/**
+ * Shopify catalog importer
+ *
+ * Store extension `markket:shopify`: credentials { access_token }, config ShopifyExtensionData
+ * (shop domain from config.store_name, or the extension url).
+ *
+ * Only <name>.myshopify.com shops are accepted (custom domains are not) and images only come from cdn.shopify.com.
+ *
+ * Every run is a report on api::product.product-import (queued -> processing -> completed | failed):
+ * - products: Shopify products -> store products, matched on the product's own `markket:shopify` extension
+ *   (url = https://<shop>/admin/products/<id>; meta keeps product_id, updated_at, collections and image_ids)
+ *   - variants -> PRICES, matched on extra.shopify_variant_id; STRIPE_ID and hand-made prices are kept
+ *   - images -> Thumbnail (featured image) and Slides, each Shopify image uploaded once
+ *   - collections (custom + smart) -> Tag labels (categories only relate to articles)
+ *   - products whose updated_at and collections did not change are skipped
+ * - inventory: PRICES[].inventory from the location_id inventory levels (or variant inventory_quantity),
+ *   under the product inventory lock and logged to the inventory ledger with reason `import`
+ *
+ * Scheduling: manual runs start in setImmediate; processShopifySync() (cron in src/index.ts) resumes queued
+ * runs and queues an inventory run when sync_inventory is on and sync_interval has elapsed.
+ * Orders (sync_orders) are not imported yet.
+ *
+ * Offline: pass `client` to processShopifyImport, or set SHOPIFY_FIXTURES_DIR (see shopify-client.ts).
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { decryptCredentials } from './encryption';
+import { withJobLock } from './job-lock';
+import { acquireInventoryLock, releaseInventoryLock } from './inventory-reservation';
+import { recordInventoryMovement } from './inventory-ledger';
+import {
+  createFixtureShopifyClient,
+  createShopifyHttpClient,
+  listAllShopify,
+  normalizeShopDomain,
+  type ShopifyClient,
+  type ShopifyCollection,
+  type ShopifyInventoryLevel,
+  type ShopifyProduct,
+  type ShopifyVariant,
+} from './shopify-client';
+import type { ShopifyExtensionData } from './extension-types';
+
+const PRODUCT_UID = 'api::product.product';
+const STORE_UID = 'api::store.store';
+const IMPORT_UID = 'api::product.product-import';
+const EXTENSION_COMPONENT_UID = 'common.extensions_config';
+
+export const SHOPIFY_EXTENSION_KEY = 'markket:shopify';
+
+const DEFAULT_SYNC_INTERVAL_S = 60 * 60;
+const MIN_SYNC_INTERVAL_S = 5 * 60;
+const MAX_ITEM_ERRORS = 500;
+const PROGRESS_EVERY = 25;
+const MAX_IMAGES_PER_PRODUCT = 10;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const INVENTORY_LEVEL_BATCH = 50;
+const PRODUCT_IDS_BATCH = 100;
+const STORE_PRODUCTS_PAGE = 100;
+const IMPORT_LOCK_TTL_MS = 60 * 60 * 1000;
+const CRON_LOCK_KEY = 'cron:shopify-sync';
+const CRON_LOCK_TTL_MS = 60 * 60 * 1000;
+const CRON_BATCH_LIMIT = 3;
+
+export type ShopifyImportKind = 'products' | 'inventory';
+
+export type ShopifyImportResult =
+  | { ok: true; data: any }
+  | { ok: false; code: 'invalid' | 'not_found' | 'conflict'; error: string };
+
+interface ImportCounters {
+  total_count: number;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  failed_count: number;
+  inventory_updated_count: number;
+  images_count: number;
+}
+
+interface ImportRun {
+  store: any;
+  extension: any;
+  config: Partial<ShopifyExtensionData>;
+  client: ShopifyClient;
+  counters: ImportCounters;
+  itemErrors: Array<{ item: string; reason: string }>;
+  fail: (item: string, reason: string) => void;
+  progress: () => Promise<void>;
+}
+
+function isShopifyExtension(extension: any): boolean {
+  const key = String(extension?.key || '');
+  return extension?.active !== false && (key === SHOPIFY_EXTENSION_KEY || key.startsWith(`${SHOPIFY_EXTENSION_KEY}:`));
+}
+
+function readConfig(extension: any): Partial<ShopifyExtensionData> {
+  return extension?.config && typeof extension.config === 'object' ? extension.config : {};
+}
+
+function shopDomainOf(extension: any): string {
+  return normalizeShopDomain(readConfig(extension).store_name || extension?.url || '');
+}
+
+function productAdminUrl(shopDomain: string, productId: number): string {
+  return `https://${shopDomain}/admin/products/${productId}`;
+}
+
+function syncIntervalMs(config: Partial<ShopifyExtensionData>): number {
+  const seconds = Number(config.sync_interval);
+  return Math.max(MIN_SYNC_INTERVAL_S, Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_SYNC_INTERVAL_S) * 1000;
+}
+
+function toImportSummary(job: any) {
+  if (!job) {
+    return null;
+  }
+
+  const { id, ...rest } = job;
+  return rest;
+}
+
+/**
+ * Shopify client for a store extension; SHOPIFY_FIXTURES_DIR swaps in JSON fixtures.
+ */
+export function resolveShopifyClient(extension: any): ShopifyClient {
+  if (process.env.SHOPIFY_FIXTURES_DIR) {
+    return createFixtureShopifyClient(process.env.SHOPIFY_FIXTURES_DIR);
+  }
+
+  const config = readConfig(extension);
+  return createShopifyHttpClient({
+    shop_domain: shopDomainOf(extension),
+    access_token: decryptCredentials(extension.credentials)?.access_token,
+    api_version: config.api_version,
+  });
+}
+
+async function findStoreShopifyExtension(strapi: any, storeDocumentId: string): Promise<{ store: any; extension: any | null }> {
+  const store = await strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    populate: ['extensions'],
+  });
+
+  return { store, extension: (store?.extensions || []).find(isShopifyExtension) || null };
+}
+
+function htmlToText(html: string | null | undefined): string {
+  return String(html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|ul|ol)>/gi, '\n\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Queue a run for the store. Processing starts after the response.
+ */
+export async function createShopifyImport(strapi: any, input: {
+  storeDocumentId: string;
+  kind?: ShopifyImportKind;
+  trigger?: 'manual' | 'interval';
+  requestedBy?: string | null;
+}): Promise<ShopifyImportResult> {
+  const kind = input.kind || 'products';
+  if (!['products', 'inventory'].includes(kind)) {
+    return { ok: false, code: 'invalid', error: 'kind must be products or inventory' };
+  }
+
+  const { store, extension } = await findStoreShopifyExtension(strapi, input.storeDocumentId);
+  if (!store || !extension) {
+    return { ok: false, code: 'not_found', error: 'Shopify extension not configured' };
+  }
+
+  if (!shopDomainOf(extension) && !process.env.SHOPIFY_FIXTURES_DIR) {
+    return { ok: false, code: 'invalid', error: 'Shopify extension needs a <name>.myshopify.com config.store_name or url' };
+  }
+
+  const running = await strapi.documents(IMPORT_UID).count({
+    filters: {
+      store: { documentId: { $eq: input.storeDocumentId } },
+      kind: { $eq: kind },
+      status: { $in: ['queued', 'processing'] },
+    },
+  });
+  if (running > 0) {
+    return { ok: false, code: 'conflict', error: `A Shopify ${kind} import is already running for this store` };
+  }
+
+  const job = await strapi.documents(IMPORT_UID).create({
+    data: {
+      store: input.storeDocumentId,
+      source: 'shopify',
+      extension_key: extension.key,
+      kind,
+      trigger: input.trigger || 'manual',
+      status: 'queued',
+      requested_by: input.requestedBy || null,
+      item_errors: [],
+    },
+  });
+
+  console.log('[SHOPIFY_IMPORT] queued', { importDocumentId: job.documentId, storeDocumentId: input.storeDocumentId, kind });
+
+  setImmediate(async () => {
+    try {
+      await processShopifyImport(strapi, job.documentId);
+    } catch (err: any) {
+      console.error('[SHOPIFY_IMPORT] background run failed', { importDocumentId: job.documentId, error: err.message });
+    }
+  });
+
+  return { ok: true, data: toImportSummary(job) };
+}
+
+async function loadCollectionTitles(client: ShopifyClient): Promise<Map<number, string[]>> {
+  const collections = [
+    ...await listAllShopify<ShopifyCollection>(client, 'custom_collections.json', 'custom_collections', { fields: 'id,title' }),
+    ...await listAllShopify<ShopifyCollection>(client, 'smart_collections.json', 'smart_collections', { fields: 'id,title' }),
+  ];
+
+  const titlesByProduct = new Map<number, string[]>();
+  for (const collection of collections) {
+    const products = await listAllShopify<{ id: number }>(client, `collections/${collection.id}/products.json`, 'products', { fields: 'id' });
+    for (const product of products) {
+      const titles = titlesByProduct.get(product.id) || [];
+      if (collection.title && !titles.includes(collection.title)) {
+        titles.push(collection.title);
+      }
+      titlesByProduct.set(product.id, titles);
+    }
+  }
+
+  return titlesByProduct;
+}
+
+function isTracked(variant: ShopifyVariant): boolean {
+  return variant.inventory_management === 'shopify';
+}
+
+function buildPrices(existingPrices: any[], product: ShopifyProduct, currency: string): any[] {
+  const byVariant = new Map<string, any>();
+  for (const price of existingPrices) {
+    if (price?.extra?.shopify_variant_id) {
+      byVariant.set(String(price.extra.shopify_variant_id), price);
+    }
+  }
+
+  // Hand-made prices stay; Shopify prices follow the variants (removed variants drop out)
+  const kept = existingPrices.filter((price) => !price?.extra?.shopify_variant_id);
+  const variants = [...(product.variants || [])].sort((a, b) => (a.position || 0) - (b.position || 0));
+
+  const imported = variants.map((variant) => {
+    const previous = byVariant.get(String(variant.id)) || {};
+
+    return {
+      ...previous,
+      Name: variant.title && variant.title !== 'Default Title' ? variant.title : product.title,
+      Price: Number(variant.price) || 0,
+      Currency: currency,
+      inventory: isTracked(variant) ? Math.max(0, Number(variant.inventory_quantity) || 0) : null,
+      extra: {
+        ...(previous.extra || {}),
+        shopify_variant_id: String(variant.id),
+        shopify_inventory_item_id: variant.inventory_item_id ? String(variant.inventory_item_id) : null,
+        sku: variant.sku || null,
+      },
+    };
+  });
+
+  return [...kept, ...imported];
+}
+
+function mergeTags(existingTags: any[], previousCollections: string[], collections: string[]): any[] {
+  const kept = existingTags.filter((tag) => !previousCollections.includes(tag?.Label));
+  const labels = new Set(kept.map((tag) => tag?.Label));
+
+  return [
+    ...kept,
+    ...collections.filter((title) => !labels.has(title)).map((title) => ({ Label: title })),
+  ];
+}
+
+async function uploadImage(strapi: any, store: any, file: { buffer: Buffer; mimeType: string; fileName: string }, alt: string) {
+  if (!file.mimeType.startsWith('image/')) {
+    throw new Error(`Unsupported image type: ${file.mimeType}`);
+  }
+  if (file.buffer.length <= 0 || file.buffer.length > MAX_IMAGE_BYTES) {
+    throw new Error(`Image size ${file.buffer.length} is outside 1B-${MAX_IMAGE_BYTES / 1024 / 1024}MB`);
+  }
+
+  // Prefix filenames with store slug to keep uploads easy to identify by store, like tienda uploads.
+  const name = `${store.slug || store.documentId}-${Date.now()}-${file.fileName.replace(/\s+/g, '-')}`;
+  const filepath = path.join(os.tmpdir(), `shopify-${randomUUID()}-${file.fileName.replace(/[^\w.-]/g, '_')}`);
+  await fs.writeFile(filepath, file.buffer);
+
+  try {
+    const [uploaded] = await strapi.plugin('upload').service('upload').upload({
+      data: { fileInfo: { alternativeText: alt, caption: '', name } },
+      files: { filepath, originalFilename: name, mimetype: file.mimeType, size: file.buffer.length },
+    });
+    return uploaded;
+  } finally {
+    await fs.unlink(filepath).catch(() => null);
+  }
+}
+
+async function importImages(strapi: any, run: ImportRun, product: ShopifyProduct, known: Record<string, number>): Promise<Record<string, number>> {
+  const imageIds = { ...known };
+  const images = [...(product.images || [])]
+    .sort((a, b) => (a.position || 0) - (b.position || 0))
+    .slice(0, MAX_IMAGES_PER_PRODUCT);
+
+  for (const image of images) {
+    if (imageIds[image.id] || !image.src) continue;
+
+    try {
+      const file = await run.client.download(image.src);
+      const uploaded = await uploadImage(strapi, run.store, file, image.alt || product.title);
+      imageIds[image.id] = uploaded.id;
+      run.counters.images_count++;
+    } catch (error: any) {
+      run.fail(`image ${image.id} (product ${product.id})`, error.message);
+    }
+  }
+
+  return imageIds;
+}
+
+async function recordImportMovements(strapi: any, run: ImportRun, product: any, before: any[], after: any[], note: string) {
+  const previous = new Map(before.filter((price) => price?.extra?.shopify_variant_id).map((price) => [String(price.extra.shopify_variant_id), price]));
+
+  for (const price of after) {
+    if (!price?.extra?.shopify_variant_id || typeof price.inventory !== 'number') continue;
+
+    const from = previous.get(String(price.extra.shopify_variant_id))?.inventory;
+    const fromCount = typeof from === 'number' ? from : 0;
+    if (fromCount === price.inventory) continue;
+
+    await recordInventoryMovement(strapi, {
+      productDocumentId: product.documentId,
+      storeDocumentId: run.store.documentId,
+      price,
+      before: fromCount,
+      after: price.inventory,
+      reason: 'import',
+      source: 'shopify',
+      note,
+    }, product);
+    run.counters.inventory_updated_count++;
+  }
+}
+
+async function isPublished(strapi: any, documentId: string): Promise<boolean> {
+  const published = await strapi.documents(PRODUCT_UID).findOne({ documentId, status: 'published', fields: ['documentId'] });
+  return Boolean(published);
+}
+
+async function publishProduct(strapi: any, documentId: string): Promise<void> {
+  try {
+    await strapi.documents(PRODUCT_UID).publish({ documentId });
+  } catch (pubErr: any) {
+    console.warn('[SHOPIFY_IMPORT] Publish failed', { productDocumentId: documentId, error: pubErr?.message });
+  }
+}
+
+async function upsertShopifyProduct(
+  strapi: any,
+  run: ImportRun,
+  product: ShopifyProduct,
+  collectionsByProduct: Map<number, string[]> | null,
+): Promise<'created' | 'updated' | 'skipped'> {
+  const shopDomain = shopDomainOf(run.extension) || 'fixtures';
+  const url = productAdminUrl(shopDomain, product.id);
+  const currency = String(run.config.currency || 'usd').toLowerCase();
+
+  const [existing] = await strapi.documents(PRODUCT_UID).findMany({
+    filters: {
+      stores: { documentId: { $eq: run.store.documentId } },
+      extensions: { key: { $eq: SHOPIFY_EXTENSION_KEY }, url: { $eq: url } },
+    },
+    populate: ['PRICES', 'Tag', 'extensions'],
+    limit: 1,
+  }) as any[];
+
+  const productExtension = existing?.extensions?.find((item: any) => item.key === SHOPIFY_EXTENSION_KEY && item.url === url) || null;
+  const meta = productExtension?.meta && typeof productExtension.meta === 'object' ? productExtension.meta : {};
+  const collections = collectionsByProduct ? (collectionsByProduct.get(product.id) || []) : (meta.collections || []);
+
+  const importImagesEnabled = run.config.import_images !== false;
+  // Images that failed last time are retried even when the product did not change
+  const imagesComplete = !importImagesEnabled || [...(product.images || [])]
+    .sort((a, b) => (a.position || 0) - (b.position || 0))
+    .slice(0, MAX_IMAGES_PER_PRODUCT)
+    .every((image) => meta.image_ids?.[image.id]);
+
+  if (
+    existing &&
+    imagesComplete &&
+    meta.updated_at && meta.updated_at === product.updated_at &&
+    JSON.stringify(meta.collections || []) === JSON.stringify(collections)
+  ) {
+    return 'skipped';
+  }
+
+  const imageIds: Record<string, number> = importImagesEnabled
+    ? await importImages(strapi, run, product, meta.image_ids || {})
+    : (meta.image_ids || {});
+  const slides = [...(product.images || [])]
+    .sort((a, b) => (a.position || 0) - (b.position || 0))
+    .map((image) => imageIds[image.id])
+    .filter(Boolean);
+  const thumbnail = (product.image?.id && imageIds[product.image.id]) || slides[0];
+
+  // Built from the copy read under the inventory lock on updates, so sales and manual stock changes made
+  // while images were importing are kept
+  const buildData = (current: any) => {
+    const currentPrices = Array.isArray(current?.PRICES) ? current.PRICES : [];
+    const prices = buildPrices(currentPrices, product, currency);
+    const trackedPrices = prices.filter((price) => price?.extra?.shopify_variant_id && typeof price.inventory === 'number');
+    const firstPrice = prices.find((price) => price?.extra?.shopify_variant_id);
+    const currentExtension = current?.extensions?.find((item: any) => item.key === SHOPIFY_EXTENSION_KEY && item.url === url) || null;
+    const currentMeta = currentExtension?.meta && typeof currentExtension.meta === 'object' ? currentExtension.meta : {};
+
+    const data: Record<string, any> = {
+      Name: product.title,
+      Description: htmlToText(product.body_html),
+      active: product.status === 'active',
+      PRICES: prices,
+      Tag: mergeTags(Array.isArray(current?.Tag) ? current.Tag : [], currentMeta.collections || [], collections),
+      ...(trackedPrices.length ? { quantity: trackedPrices.reduce((sum, price) => sum + price.inventory, 0) } : {}),
+      ...(currency === 'usd' && firstPrice ? { usd_price: firstPrice.Price } : {}),
+      ...(importImagesEnabled && slides.length ? { Thumbnail: thumbnail, Slides: slides } : {}),
+      extensions: [
+        ...(current?.extensions || []).filter((item: any) => item !== currentExtension),
+        {
+          ...(currentExtension || {}),
+          key: SHOPIFY_EXTENSION_KEY,
+          url,
+          active: true,
+          last_run: new Date().toISOString(),
+          meta: {
+            ...currentMeta,
+            product_id: product.id,
+            handle: product.handle,
+            status: product.status || null,
+            updated_at: product.updated_at || null,
+            collections,
+            image_ids: { ...(currentMeta.image_ids || {}), ...imageIds },
+          },
+        },
+      ],
+    };
+
+    return { data, before: currentPrices, prices };
+  };
+
+  const publish = product.status === 'active' && run.config.publish_products !== false;
+
+  if (!existing) {
+    const { data, prices } = buildData(null);
+    const created = await strapi.documents(PRODUCT_UID).create({
+      data: { ...data, slug: product.handle, stores: [run.store.documentId] },
+    });
+    if (publish) {
+      await publishProduct(strapi, created.documentId);
+    }
+    await recordImportMovements(strapi, run, created, [], prices, 'Shopify product import');
+    return 'created';
+  }
+
+  const lock = await acquireInventoryLock(strapi, existing.documentId);
+  if (!lock) {
+    throw new Error('Inventory for this product is being updated, retry the import');
+  }
+
+  try {
+    const current = await strapi.documents(PRODUCT_UID).findOne({
+      documentId: existing.documentId,
+      populate: ['PRICES', 'Tag', 'extensions'],
+    });
+    if (!current) {
+      throw new Error('Product was removed during the import');
+    }
+
+    const { data, before, prices } = buildData(current);
+    await strapi.documents(PRODUCT_UID).update({ documentId: existing.documentId, data });
+    if (publish || (product.status === 'active' && await isPublished(strapi, existing.documentId))) {
+      await publishProduct(strapi, existing.documentId);
+    }
+    await recordImportMovements(strapi, run, current, before, prices, 'Shopify product import');
+  } finally {
+    await releaseInventoryLock(strapi, existing.documentId, lock);
+  }
+
+  return 'updated';
+}
+
+async function importProducts(strapi: any, run: ImportRun): Promise<void> {
+  const collectionsByProduct = run.config.sync_collections !== false ? await loadCollectionTitles(run.client) : null;
+  const products = await listAllShopify<ShopifyProduct>(run.client, 'products.json', 'products');
+  run.counters.total_count = products.length;
+
+  for (let index = 0; index < products.length; index++) {
+    const product = products[index];
+
+    try {
+      const outcome = await upsertShopifyProduct(strapi, run, product, collectionsByProduct);
+      run.counters[`${outcome}_count` as const]++;
+    } catch (error: any) {
+      run.counters.failed_count++;
+      run.fail(`product ${product.id} (${product.handle})`, error.message);
+    }
+
+    if ((index + 1) % PROGRESS_EVERY === 0) {
+      await run.progress();
+    }
+  }
+}
+
+async function loadRemoteInventory(run: ImportRun, prices: any[], productIds: number[]): Promise<(price: any) => number | undefined> {
+  if (run.config.location_id) {
+    const itemIds = Array.from(new Set(prices.map((price) => price?.extra?.shopify_inventory_item_id).filter(Boolean)));
+    const byItem = new Map<string, number>();
+
+    for (let start = 0; start < itemIds.length; start += INVENTORY_LEVEL_BATCH) {
+      const levels = await listAllShopify<ShopifyInventoryLevel>(run.client, 'inventory_levels.json', 'inventory_levels', {
+        location_ids: String(run.config.location_id),
+        inventory_item_ids: itemIds.slice(start, start + INVENTORY_LEVEL_BATCH).join(','),
+      });
+      for (const level of levels) {
+        byItem.set(String(level.inventory_item_id), Math.max(0, Number(level.available) || 0));
+      }
+    }
+
+    return (price) => byItem.get(String(price?.extra?.shopify_inventory_item_id));
+  }
+
+  const byVariant = new Map<string, number>();
+  for (let start = 0; start < productIds.length; start += PRODUCT_IDS_BATCH) {
+    const products = await listAllShopify<ShopifyProduct>(run.client, 'products.json', 'products', {
+      ids: productIds.slice(start, start + PRODUCT_IDS_BATCH).join(','),
+      fields: 'id,variants',
+    });
+    for (const variant of products.flatMap((product) => product.variants || [])) {
+      if (isTracked(variant)) {
+        byVariant.set(String(variant.id), Math.max(0, Number(variant.inventory_quantity) || 0));
+      }
+    }
+  }
+
+  return (price) => byVariant.get(String(price?.extra?.shopify_variant_id));
+}
+
+async function syncInventory(strapi: any, run: ImportRun): Promise<void> {
+  for (let start = 0; ; start += STORE_PRODUCTS_PAGE) {
+    const products = await strapi.documents(PRODUCT_UID).findMany({
+      filters: {
+        stores: { documentId: { $eq: run.store.documentId } },
+        extensions: { key: { $eq: SHOPIFY_EXTENSION_KEY } },
+      },
+      populate: ['PRICES', 'extensions'],
+      sort: ['id:asc'],
+      start,
+      limit: STORE_PRODUCTS_PAGE,
+    }) as any[];
+
+    if (!products.length) break;
+
+    const productIds = products
+      .map((product) => Number(product.extensions?.find((item: any) => item.key === SHOPIFY_EXTENSION_KEY)?.meta?.product_id))
+      .filter(Boolean);
+    const remoteInventory = await loadRemoteInventory(run, products.flatMap((product) => product.PRICES || []), productIds);
+
+    for (const product of products) {
+      run.counters.total_count++;
+
+      const pending = (product.PRICES || []).some((price: any) => {
+        const available = price?.extra?.shopify_variant_id ? remoteInventory(price) : undefined;
+        return available !== undefined && available !== price.inventory;
+      });
+      if (!pending) {
+        run.counters.skipped_count++;
+        continue;
+      }
+
+      const lock = await acquireInventoryLock(strapi, product.documentId);
+      if (!lock) {
+        run.counters.failed_count++;
+        run.fail(`product ${product.documentId}`, 'Inventory for this product is being updated');
+        continue;
+      }
+
+      try {
+        // Re-read under the lock so a sale in between is not overwritten with stale PRICES
+        const current = await strapi.documents(PRODUCT_UID).findOne({ documentId: product.documentId, populate: ['PRICES'] });
+        const before = Array.isArray(current?.PRICES) ? current.PRICES : [];
+        const after = before.map((price: any) => {
+          const available = price?.extra?.shopify_variant_id ? remoteInventory(price) : undefined;
+          return available === undefined ? price : { ...price, inventory: available };
+        });
+
+        await strapi.documents(PRODUCT_UID).update({ documentId: product.documentId, data: { PRICES: after } });
+        if (await isPublished(strapi, product.documentId)) {
+          await publishProduct(strapi, product.documentId);
+        }
+
+        await recordImportMovements(strapi, run, current, before, after, 'Shopify inventory sync');
+        run.counters.updated_count++;
+      } catch (error: any) {
+        run.counters.failed_count++;
+        run.fail(`product ${product.documentId}`, error.message);
+      } finally {
+        await releaseInventoryLock(strapi, product.documentId, lock);
+      }
+    }
+
+    await run.progress();
+    if (products.length < STORE_PRODUCTS_PAGE) break;
+  }
+}
+
+/**
+ * Process (or restart) a queued run. `client` replaces the Shopify client, e.g. with a mock.
+ */
+export async function processShopifyImport(
+  strapi: any,
+  importDocumentId: string,
+  options: { client?: ShopifyClient } = {},
+): Promise<'completed' | 'failed' | 'skipped' | 'locked'> {
+  const run = await withJobLock(strapi, `shopify-import:${importDocumentId}`, IMPORT_LOCK_TTL_MS, async () => {
+    const imports = strapi.documents(IMPORT_UID);
+    const job = await imports.findOne({ documentId: importDocumentId, populate: ['store'] });
+
+    if (!job || !['queued', 'processing'].includes(job.status)) {
+      return 'skipped' as const;
+    }
+
+    const { store, extension } = job.store?.documentId
+      ? await findStoreShopifyExtension(strapi, job.store.documentId)
+      : { store: null, extension: null };
+
+    if (!store || !extension) {
+      await imports.update({
+        documentId: job.documentId,
+        data: { status: 'failed', error: 'Shopify extension not configured or inactive', finished_at: new Date().toISOString() },
+      });
+      return 'failed' as const;
+    }
+
+    // Runs restart from the top; products already imported are skipped by updated_at
+    const counters: ImportCounters = {
+      total_count: 0,
+      created_count: 0,
+      updated_count: 0,
+      skipped_count: 0,
+      failed_count: 0,
+      inventory_updated_count: 0,
+      images_count: 0,
+    };
+    const itemErrors: Array<{ item: string; reason: string }> = [];
+
+    await imports.update({
+      documentId: job.documentId,
+      data: { status: 'processing', started_at: new Date().toISOString(), item_errors: [] },
+    });
+
+    console.log('[SHOPIFY_IMPORT] processing', { importDocumentId: job.documentId, storeDocumentId: store.documentId, kind: job.kind });
+
+    let error: string | null = null;
+    try {
+      const importRun: ImportRun = {
+        store,
+        extension,
+        config: readConfig(extension),
+        client: options.client || resolveShopifyClient(extension),
+        counters,
+        itemErrors,
+        fail: (item, reason) => {
+          if (itemErrors.length < MAX_ITEM_ERRORS) {
+            itemErrors.push({ item, reason });
+          }
+        },
+        progress: () => imports.update({
+          documentId: job.documentId,
+          data: { ...counters, item_errors: itemErrors },
+        }),
+      };
+
+      if (job.kind === 'inventory') {
+        await syncInventory(strapi, importRun);
+      } else {
+        await importProducts(strapi, importRun);
+      }
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    await imports.update({
+      documentId: job.documentId,
+      data: {
+        ...counters,
+        item_errors: itemErrors,
+        status: error ? 'failed' : 'completed',
+        error,
+        finished_at: new Date().toISOString(),
+      },
+    });
+
+    await strapi.db.query(EXTENSION_COMPONENT_UID).update({
+      where: { id: extension.id },
+      data: {
+        run_count: (Number(extension.run_count) || 0) + 1,
+        ...(error ? {} : { last_run: new Date().toISOString() }),
+      },
+    }).catch((err: any) => console.warn('[SHOPIFY_IMPORT] Failed to update extension run', { error: err.message }));
+
+    console.log(`[SHOPIFY_IMPORT] ${error ? 'failed' : 'completed'}`, { importDocumentId: job.documentId, ...counters, error });
+    return error ? 'failed' as const : 'completed' as const;
+  });
+
+  return run.acquired ? run.result! : 'locked';
+}
+
+/**
+ * Cron: resume queued runs, then queue inventory runs for stores with sync_inventory whose interval elapsed.
+ */
+export async function processShopifySync(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    const jobs = await strapi.documents(IMPORT_UID).findMany({
+      filters: { source: { $eq: 'shopify' }, status: { $in: ['queued', 'processing'] } },
+      fields: ['documentId'],
+      sort: ['createdAt:asc'],
+      limit: CRON_BATCH_LIMIT,
+    }) as any[];
+
+    for (const job of jobs) {
+      try {
+        const result = await processShopifyImport(strapi, job.documentId);
+        if (result !== 'locked') {
+          console.log('[SHOPIFY_SYNC_CRON] Processed import', { importDocumentId: job.documentId, result });
+        }
+      } catch (err: any) {
+        console.error('[SHOPIFY_SYNC_CRON] Import failed', { importDocumentId: job.documentId, error: err.message });
+        await strapi.documents(IMPORT_UID).update({
+          documentId: job.documentId,
+          data: { status: 'failed', error: err.message, finished_at: new Date().toISOString() },
+        }).catch(() => null);
+      }
+    }
+
+    const stores = await strapi.documents(STORE_UID).findMany({
+      filters: { extensions: { key: { $startsWith: SHOPIFY_EXTENSION_KEY } } },
+      fields: ['documentId'],
+      populate: ['extensions'],
+      limit: 200,
+    }) as any[];
+
+    for (const store of stores) {
+      const extension = (store.extensions || []).find(isShopifyExtension);
+      const config = readConfig(extension);
+      if (!extension || !config.sync_inventory) continue;
+
+      const [last] = await strapi.documents(IMPORT_UID).findMany({
+        filters: { store: { documentId: { $eq: store.documentId } }, kind: { $eq: 'inventory' } },
+        fields: ['status', 'createdAt'],
+        sort: ['createdAt:desc'],
+        limit: 1,
+      }) as any[];
+      if (last && Date.now() - new Date(last.createdAt).getTime() < syncIntervalMs(config)) continue;
+
+      const result = await createShopifyImport(strapi, { storeDocumentId: store.documentId, kind: 'inventory', trigger: 'interval' });
+      if (result.ok === false && result.code !== 'conflict') {
+        console.warn('[SHOPIFY_SYNC_CRON] Inventory run not queued', { storeDocumentId: store.documentId, error: result.error });
+      }
+    }
+  });
+
+  if (!run.acquired) {
+    console.warn('[SHOPIFY_SYNC_CRON] Previous run still active, skipping overlap');
+  }
+}
+
+/**
+ * Import runs of a store, newest first (without item_errors).
+ */
+export async function listShopifyImports(strapi: any, storeDocumentId: string, input: {
+  kind?: string;
+  page: number;
+  pageSize: number;
+}): Promise<{ items: any[]; total: number }> {
+  const filters: Record<string, any> = {
+    store: { documentId: { $eq: storeDocumentId } },
+    source: { $eq: 'shopify' },
+    ...(input.kind ? { kind: { $eq: input.kind } } : {}),
+  };
+
+  const [jobs, total] = await Promise.all([
+    strapi.documents(IMPORT_UID).findMany({
+      filters,
+      fields: [
+        'kind', 'trigger', 'status', 'extension_key', 'requested_by', 'total_count', 'created_count', 'updated_count',
+        'skipped_count', 'failed_count', 'inventory_updated_count', 'images_count', 'error', 'started_at', 'finished_at', 'createdAt',
+      ],
+      sort: ['createdAt:desc'],
+      start: (input.page - 1) * input.pageSize,
+      limit: input.pageSize,
+    }) as Promise<any[]>,
+    strapi.documents(IMPORT_UID).count({ filters }),
+  ]);
+
+  return { items: jobs.map(toImportSummary), total };
+}
+
+/**
+ * One run of the store with its per-item error report.
+ */
+export async function getShopifyImport(strapi: any, storeDocumentId: string, importDocumentId: string) {
+  const [job] = await strapi.documents(IMPORT_UID).findMany({
+    filters: {
+      documentId: { $eq: importDocumentId },
+      store: { documentId: { $eq: storeDocumentId } },
+      source: { $eq: 'shopify' },
+    },
+    limit: 1,
+  }) as any[];
+
+  return toImportSummary(job);
+}
@@ -0,0 +1,434 @@
+/**
+ * Store member management
+ *
+ * Tienda member endpoints (/stores/:ref/members/..., /stores/:ref/invites/revoke):
+ * - changeMemberRole(): owner / manager / editor / viewer, legacy `store.users` get a membership row
+ * - removeMember(): membership `inactive` and the user is disconnected from `store.users`
+ * - transferOwnership(): moves the store `owner` relation to an active member, the previous owner keeps `demote_to`
+ * Store relation changes are published and re-read; a change that does not land answers `conflict`.
+ * - revokeInvite(): expires pending invite magic codes (meta.revoked_at)
+ *
+ * Safeguards: the last owner cannot be demoted or removed, and the user in the `owner` relation keeps the owner role
+ * until ownership is transferred. Changes run under the job lock `store-members:<storeDocumentId>`.
+ * Every change writes a `member.*` / `invite.revoked` markket audit record; affected users are emailed (non-fatal).
+ */
+
+import { STORE_ROLES, type StoreRole } from './api-auth';
+import { withJobLock } from './job-lock';
+import { sendMail } from './mail-transport';
+import { buildMembershipChangeEmailHtml, type MembershipChange } from './sendgrid-email-templates';
+
+const STORE_UID = 'api::store.store';
+const MEMBERSHIP_UID = 'api::store-membership.store-membership';
+const USER_UID = 'plugin::users-permissions.user';
+const MAGIC_CODE_UID = 'api::auth-magic.magic-code';
+
+const LOCK_TTL_MS = 60 * 1000;
+
+export type MemberChangeResult =
+  | { ok: true; userId: number; role: StoreRole | null; previousRole: StoreRole; changed: boolean }
+  | { ok: false; code: 'invalid' | 'not_found' | 'locked' | 'conflict'; error: string };
+
+export type OwnershipTransferResult =
+  | { ok: true; ownerId: number; previousOwnerId: number | null; previousOwnerRole: StoreRole | null }
+  | { ok: false; code: 'invalid' | 'not_found' | 'locked' | 'conflict'; error: string };
+
+interface MemberActor {
+  id: number;
+  username?: string;
+  email?: string;
+}
+
+function isStoreRole(value: any): value is StoreRole {
+  return STORE_ROLES.includes(value);
+}
+
+function loadStore(strapi: any, storeDocumentId: string) {
+  return strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    populate: ['users', 'owner'],
+  });
+}
+
+async function findMembership(strapi: any, storeDocumentId: string, userId: number) {
+  const rows = await strapi.documents(MEMBERSHIP_UID).findMany({
+    filters: {
+      store: { documentId: storeDocumentId },
+      user: { id: userId },
+    },
+    sort: [{ updatedAt: 'desc' }],
+    limit: 1,
+  });
+  return rows?.[0] || null;
+}
+
+/**
+ * Same precedence as checkStoreAccess: owner relation, active membership, then legacy store.users (editor)
+ * unless an inactive membership says the user was removed.
+ */
+function resolveMemberRole(store: any, membership: any, userId: number): StoreRole | null {
+  if (Number(store?.owner?.id) === userId) return 'owner';
+  if (membership?.status === 'active') return isStoreRole(membership.role) ? membership.role : 'viewer';
+  if (membership) return null;
+  if (Array.isArray(store?.users) && store.users.some((user: any) => Number(user?.id) === userId)) return 'editor';
+  return null;
+}
+
+async function countOwners(strapi: any, store: any): Promise<number> {
+  const ownerIds = new Set<number>();
+  if (store?.owner?.id) ownerIds.add(Number(store.owner.id));
+
+  const rows = await strapi.documents(MEMBERSHIP_UID).findMany({
+    filters: { store: { documentId: store.documentId }, role: 'owner', status: 'active' },
+    populate: ['user'],
+    limit: 200,
+  });
+  for (const row of rows || []) {
+    if (row?.user?.id) ownerIds.add(Number(row.user.id));
+  }
+
+  return ownerIds.size;
+}
+
+async function upsertMembership(strapi: any, storeDocumentId: string, userId: number, role: StoreRole, invitedBy?: number) {
+  const membership = await findMembership(strapi, storeDocumentId, userId);
+  if (membership) {
+    return strapi.documents(MEMBERSHIP_UID).update({
+      documentId: membership.documentId,
+      data: { role, status: 'active' },
+    });
+  }
+
+  return strapi.documents(MEMBERSHIP_UID).create({
+    data: {
+      store: storeDocumentId,
+      user: userId,
+      role,
+      status: 'active',
+      invited_by: invitedBy,
+      joined_at: new Date().toISOString(),
+    },
+  });
+}
+
+/**
+ * Store relation changes (users, owner) are draft edits until published, like tienda updateStore.
+ * Returns the published store re-read after the publish so callers can confirm the change landed.
+ */
+async function updateStoreRelations(strapi: any, storeDocumentId: string, data: Record<string, any>) {
+  await strapi.documents(STORE_UID).update({ documentId: storeDocumentId, data });
+  await strapi.documents(STORE_UID).publish({ documentId: storeDocumentId });
+
+  return strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    status: 'published',
+    populate: ['users', 'owner'],
+  });
+}
+
+function withMembersLock<T>(strapi: any, storeDocumentId: string, work: () => Promise<T>) {
+  return withJobLock(strapi, `store-members:${storeDocumentId}`, LOCK_TTL_MS, work);
+}
+
+const LOCKED = { ok: false as const, code: 'locked' as const, error: 'Store members are being updated, retry shortly' };
+
+function writeAudit(strapi: any, key: string, actor: MemberActor, source: string, content: Record<string, any>): void {
+  const [eventType, eventSubType] = key.split('.');
+
+  strapi.documents('api::markket.markket').create({
+    data: {
+      Key: key,
+      EventType: eventType,
+      EventSubType: eventSubType,
+      Source: source,
+      ReceivedAt: new Date().toISOString(),
+      user_key_or_id: String(actor.id),
+      Content: content,
+    },
+  }).catch((err: any) => {
+    console.warn('[STORE_MEMBERS] audit log failed (non-fatal):', err?.message);
+  });
+}
+
+async function notifyMember(strapi: any, input: {
+  store: any;
+  userId: number;
+  actor: MemberActor;
+  change: MembershipChange;
+  role?: StoreRole | null;
+  previousRole?: StoreRole | null;
+}): Promise<boolean> {
+  try {
+    const member = await strapi.query(USER_UID).findOne({ where: { id: input.userId }, select: ['id', 'username', 'email'] });
+    if (!member?.email) {
+      return false;
+    }
+
+    const storeName = input.store.title || input.store.slug || 'Markketplace';
+    const html = buildMembershipChangeEmailHtml({
+      change: input.change,
+      memberName: member.username,
+      storeName,
+      storeSlug: input.store.slug,
+      changedByName: input.actor.username || input.actor.email,
+      role: input.role || undefined,
+      previousRole: input.previousRole || undefined,
+    });
+
+    const subjects: Record<MembershipChange, string> = {
+      role_changed: `${storeName}: your role is now ${input.role}`,
+      removed: `${storeName}: your access was removed`,
+      ownership_received: `${storeName}: you are now the store owner`,
+      ownership_transferred: `${storeName}: store ownership was transferred`,
+    };
+
+    await sendMail(strapi, {
+      to: member.email,
+      subject: subjects[input.change],
+      text: subjects[input.change],
+      html,
+    }, { storeDocumentId: input.store.documentId });
+
+    return true;
+  } catch (error: any) {
+    console.warn('[STORE_MEMBERS] notification failed (non-fatal):', { userId: input.userId, error: error?.message });
+    return false;
+  }
+}
+
+export async function changeMemberRole(strapi: any, input: {
+  storeDocumentId: string;
+  actor: MemberActor;
+  userId: number;
+  role: string;
+}): Promise<MemberChangeResult> {
+  if (!isStoreRole(input.role)) {
+    return { ok: false, code: 'invalid', error: `role must be one of: ${STORE_ROLES.join(', ')}` };
+  }
+  const role = input.role;
+
+  const run = await withMembersLock(strapi, input.storeDocumentId, async (): Promise<MemberChangeResult & { store?: any }> => {
+    const store = await loadStore(strapi, input.storeDocumentId);
+    const membership = await findMembership(strapi, input.storeDocumentId, input.userId);
+    const previousRole = resolveMemberRole(store, membership, input.userId);
+
+    if (!store || !previousRole) {
+      return { ok: false, code: 'not_found', error: 'Member not found' };
+    }
+
+    if (previousRole === role) {
+      return { ok: true, userId: input.userId, role, previousRole, changed: false };
+    }
+
+    if (Number(store.owner?.id) === input.userId) {
+      return { ok: false, code: 'conflict', error: 'The store owner keeps the owner role, transfer ownership first' };
+    }
+
+    if (previousRole === 'owner' && await countOwners(strapi, store) <= 1) {
+      return { ok: false, code: 'conflict', error: 'Cannot demote the last owner of the store' };
+    }
+
+    await upsertMembership(strapi, store.documentId, input.userId, role, input.actor.id);
+
+    return { ok: true, userId: input.userId, role, previousRole, changed: true, store };
+  });
+
+  if (!run.acquired) return LOCKED;
+
+  const { store, ...result } = run.result as MemberChangeResult & { store?: any };
+  if (result.ok && result.changed) {
+    writeAudit(strapi, 'member.role_changed', input.actor, 'tienda.updateMemberRole', {
+      storeDocumentId: input.storeDocumentId,
+      memberUserId: input.userId,
+      role: result.role,
+      previousRole: result.previousRole,
+    });
+    await notifyMember(strapi, {
+      store,
+      userId: input.userId,
+      actor: input.actor,
+      change: 'role_changed',
+      role: result.role,
+      previousRole: result.previousRole,
+    });
+  }
+
+  return result;
+}
+
+export async function removeMember(strapi: any, input: {
+  storeDocumentId: string;
+  actor: MemberActor;
+  userId: number;
+}): Promise<MemberChangeResult> {
+  const run = await withMembersLock(strapi, input.storeDocumentId, async (): Promise<MemberChangeResult & { store?: any }> => {
+    const store = await loadStore(strapi, input.storeDocumentId);
+    const membership = await findMembership(strapi, input.storeDocumentId, input.userId);
+    const previousRole = resolveMemberRole(store, membership, input.userId);
+
+    if (!store || !previousRole) {
+      return { ok: false, code: 'not_found', error: 'Member not found' };
+    }
+
+    if (Number(store.owner?.id) === input.userId) {
+      return { ok: false, code: 'conflict', error: 'Transfer ownership before removing the store owner' };
+    }
+
+    if (previousRole === 'owner' && await countOwners(strapi, store) <= 1) {
+      return { ok: false, code: 'conflict', error: 'Cannot remove the last owner of the store' };
+    }
+
+    if (membership?.status === 'active') {
+      await strapi.documents(MEMBERSHIP_UID).update({
+        documentId: membership.documentId,
+        data: { status: 'inactive' },
+      });
+    }
+
+    // Legacy access: store.users also grants editor access
+    if (Array.isArray(store.users) && store.users.some((user: any) => Number(user?.id) === input.userId)) {
+      const published = await updateStoreRelations(strapi, store.documentId, {
+        users: { disconnect: [{ id: input.userId }] },
+      });
+      if (published?.users?.some((user: any) => Number(user?.id) === input.userId)) {
+        return { ok: false, code: 'conflict', error: 'Store access was not updated, retry shortly' };
+      }
+    }
+
+    return { ok: true, userId: input.userId, role: null, previousRole, changed: true, store };
+  });
+
+  if (!run.acquired) return LOCKED;
+
+  const { store, ...result } = run.result as MemberChangeResult & { store?: any };
+  if (result.ok) {
+    writeAudit(strapi, 'member.removed', input.actor, 'tienda.removeMember', {
+      storeDocumentId: input.storeDocumentId,
+      memberUserId: input.userId,
+      previousRole: result.previousRole,
+    });
+    await notifyMember(strapi, {
+      store,
+      userId: input.userId,
+      actor: input.actor,
+      change: 'removed',
+      previousRole: result.previousRole,
+    });
+  }
+
+  return result;
+}
+
+export async function transferOwnership(strapi: any, input: {
+  storeDocumentId: string;
+  actor: MemberActor;
+  toUserId: number;
+  demoteTo?: string;
+}): Promise<OwnershipTransferResult> {
+  const demoteTo = input.demoteTo ?? 'manager';
+  if (!isStoreRole(demoteTo)) {
+    return { ok: false, code: 'invalid', error: `demote_to must be one of: ${STORE_ROLES.join(', ')}` };
+  }
+
+  const run = await withMembersLock(strapi, input.storeDocumentId, async (): Promise<OwnershipTransferResult & { store?: any }> => {
+    const store = await loadStore(strapi, input.storeDocumentId);
+    const membership = await findMembership(strapi, input.storeDocumentId, input.toUserId);
+
+    if (!store || !resolveMemberRole(store, membership, input.toUserId)) {
+      return { ok: false, code: 'not_found', error: 'The new owner must be an active member of the store' };
+    }
+
+    const previousOwnerId = store.owner?.id ? Number(store.owner.id) : null;
+    if (previousOwnerId === input.toUserId) {
+      return { ok: false, code: 'conflict', error: 'That user already owns the store' };
+    }
+
+    const published = await updateStoreRelations(strapi, store.documentId, {
+      owner: { set: [{ id: input.toUserId }] },
+    });
+    if (Number(published?.owner?.id) !== input.toUserId) {
+      return { ok: false, code: 'conflict', error: 'Store owner was not updated, retry shortly' };
+    }
+    await upsertMembership(strapi, store.documentId, input.toUserId, 'owner', input.actor.id);
+
+    if (previousOwnerId) {
+      await upsertMembership(strapi, store.documentId, previousOwnerId, demoteTo);
+    }
+
+    return {
+      ok: true,
+      ownerId: input.toUserId,
+      previousOwnerId,
+      previousOwnerRole: previousOwnerId ? demoteTo : null,
+      store,
+    };
+  });
+
+  if (!run.acquired) return LOCKED;
+
+  const { store, ...result } = run.result as OwnershipTransferResult & { store?: any };
+  if (result.ok) {
+    writeAudit(strapi, 'member.ownership_transferred', input.actor, 'tienda.transferOwnership', {
+      storeDocumentId: input.storeDocumentId,
+      ownerUserId: result.ownerId,
+      previousOwnerUserId: result.previousOwnerId,
+      previousOwnerRole: result.previousOwnerRole,
+    });
+    await notifyMember(strapi, { store, userId: result.ownerId, actor: input.actor, change: 'ownership_received', role: 'owner' });
+    if (result.previousOwnerId) {
+      await notifyMember(strapi, {
+        store,
+        userId: result.previousOwnerId,
+        actor: input.actor,
+        change: 'ownership_transferred',
+        role: result.previousOwnerRole,
+        previousRole: 'owner',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Expire every open invite for `email`. Returns how many invite codes were revoked.
+ */
+export async function revokeInvite(strapi: any, input: {
+  storeDocumentId: string;
+  actor: MemberActor;
+  email: string;
+}): Promise<{ ok: true; revoked: number } | { ok: false; code: 'not_found'; error: string }> {
+  const email = input.email.trim().toLowerCase();
+  const now = new Date();
+
+  const invites = await strapi.documents(MAGIC_CODE_UID).findMany({
+    filters: {
+      store: { documentId: input.storeDocumentId },
+      purpose: 'store_invite',
+      email,
+      used: false,
+      expiresAt: { $gt: now.toISOString() },
+    },
+    limit: 100,
+  });
+
+  if (!invites?.length) {
+    return { ok: false, code: 'not_found', error: 'No pending invite for that email' };
+  }
+
+  await Promise.all(invites.map((invite: any) => strapi.documents(MAGIC_CODE_UID).update({
+    documentId: invite.documentId,
+    data: {
+      expiresAt: now.toISOString(),
+      meta: { ...(invite.meta || {}), revoked_at: now.toISOString(), revoked_by: input.actor.id },
+    },
+  })));
+
+  writeAudit(strapi, 'invite.revoked', input.actor, 'tienda.revokeInvite', {
+    storeDocumentId: input.storeDocumentId,
+    inviteeEmail: email,
+    revoked: invites.length,
+  });
+
+  return { ok: true, revoked: invites.length };
+}
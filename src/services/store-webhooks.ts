@@ -0,0 +1,375 @@
+/**
+ * Outbound store webhooks
+ *
+ * Stores subscribe with a `custom:webhook` extension (more than one: `custom:webhook:<name>`):
+ * - url: endpoint receiving the POST
+ * - credentials.secret: HMAC key (encrypted at rest like every extension credential)
+ * - config: WebhookExtensionData (events, retry_attempts, retry_delay, timeout, headers, signature_algorithm)
+ *
+ * emitStoreEvent() writes one api::store.webhook-delivery per subscribed extension and attempts it right away.
+ * Failed attempts are retried by cron with exponential backoff (retry_delay × 2^(attempt - 1)) until
+ * retry_attempts is used up; every attempt is appended to the delivery attempt_log.
+ *
+ * Endpoints must be https and resolve to public addresses (outbound-url.ts); the request is pinned to the checked
+ * addresses and redirects are not followed.
+ * The attempt_log keeps the status code and response headers of each attempt, never the response body.
+ *
+ * Requests carry:
+ * - X-Markket-Event, X-Markket-Delivery (delivery documentId) and X-Markket-Event-Id (same across redeliveries)
+ * - X-Markket-Signature: `t=<unix seconds>,v1=<hex HMAC of "<t>.<raw body>">` when the extension has a secret
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import { decryptCredentials } from './encryption';
+import { withJobLock } from './job-lock';
+import { checkOutboundUrl, type OutboundResponse, postOutbound } from './outbound-url';
+import type { WebhookExtensionData } from './extension-types';
+
+const STORE_UID = 'api::store.store';
+const DELIVERY_UID = 'api::store.webhook-delivery';
+
+export const STORE_WEBHOOK_EVENTS = [
+  'order.paid',
+  'order.refunded',
+  'rsvp.created',
+  'subscriber.created',
+  'product.updated',
+  'inbox.message.received',
+] as const;
+
+export type StoreWebhookEvent = typeof STORE_WEBHOOK_EVENTS[number];
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const MAX_RETRY_ATTEMPTS = 10;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const MAX_TIMEOUT_MS = 30 * 1000;
+const LOGGED_RESPONSE_HEADERS = ['content-type', 'content-length', 'date', 'location', 'retry-after', 'server'];
+const DUE_BATCH_SIZE = 50;
+const ATTEMPT_LOCK_TTL_MS = 2 * 60 * 1000;
+const CRON_LOCK_TTL_MS = 10 * 60 * 1000;
+
+function clampNumber(value: any, fallback: number, min: number, max: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+}
+
+function isWebhookExtension(extension: any): boolean {
+  const key = String(extension?.key || '');
+  return extension?.active !== false && (key === 'custom:webhook' || key.startsWith('custom:webhook:')) && !!extension?.url;
+}
+
+function readConfig(extension: any): Required<Omit<WebhookExtensionData, 'headers'>> & { headers: Record<string, string> } {
+  const config: Partial<WebhookExtensionData> = extension?.config || {};
+
+  return {
+    events: Array.isArray(config.events) ? config.events.map(String) : [],
+    // retry_attempts are retries after the first attempt
+    retry_attempts: clampNumber(config.retry_attempts, DEFAULT_RETRY_ATTEMPTS, 0, MAX_RETRY_ATTEMPTS),
+    retry_delay: clampNumber(config.retry_delay, DEFAULT_RETRY_DELAY_MS, 1000, MAX_RETRY_DELAY_MS),
+    timeout: clampNumber(config.timeout, DEFAULT_TIMEOUT_MS, 1000, MAX_TIMEOUT_MS),
+    headers: config.headers && typeof config.headers === 'object' ? config.headers : {},
+    signature_algorithm: config.signature_algorithm === 'sha512' ? 'sha512' : 'sha256',
+  };
+}
+
+function subscribes(extension: any, event: string): boolean {
+  const { events } = readConfig(extension);
+  return events.includes(event) || events.includes('*');
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string, algorithm: 'sha256' | 'sha512' = 'sha256'): string {
+  const digest = createHmac(algorithm, secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+async function findStoreExtensions(strapi: any, storeDocumentId: string): Promise<any[]> {
+  const store = await strapi.documents(STORE_UID).findOne({
+    documentId: storeDocumentId,
+    populate: ['extensions'],
+  });
+
+  return (store?.extensions || []).filter(isWebhookExtension);
+}
+
+function scheduleAttempt(strapi: any, documentId: string): void {
+  setImmediate(async () => {
+    try {
+      await attemptWebhookDelivery(strapi, documentId);
+    } catch (error: any) {
+      console.error('[STORE_WEBHOOKS] Delivery attempt failed', { documentId, error: error.message });
+    }
+  });
+}
+
+/**
+ * Queue `event` for every store extension subscribed to it. Never throws: webhooks must not break the caller.
+ * With a dedupeKey (order id, refund id...), an event already queued for the same extension is skipped.
+ */
+export async function emitStoreEvent(strapi: any, input: {
+  storeDocumentId?: string | null;
+  event: StoreWebhookEvent;
+  data: Record<string, any>;
+  dedupeKey?: string | null;
+}): Promise<number> {
+  if (!input.storeDocumentId) {
+    return 0;
+  }
+
+  try {
+    const extensions = (await findStoreExtensions(strapi, input.storeDocumentId)).filter((extension) => subscribes(extension, input.event));
+    let queued = 0;
+
+    for (const extension of extensions) {
+      const dedupeKey = input.dedupeKey ? `${input.event}:${input.dedupeKey}` : null;
+
+      const create = async () => {
+        if (dedupeKey) {
+          const existing = await strapi.documents(DELIVERY_UID).findFirst({
+            filters: {
+              store: { documentId: { $eq: input.storeDocumentId } },
+              extension_key: { $eq: extension.key },
+              dedupe_key: { $eq: dedupeKey },
+            },
+            fields: ['documentId'],
+          });
+          if (existing) return null;
+        }
+
+        const eventId = `evt_${randomUUID()}`;
+        const createdAt = new Date().toISOString();
+
+        return strapi.documents(DELIVERY_UID).create({
+          data: {
+            store: input.storeDocumentId,
+            event: input.event,
+            event_id: eventId,
+            dedupe_key: dedupeKey,
+            extension_key: extension.key,
+            url: extension.url,
+            payload: { id: eventId, type: input.event, created_at: createdAt, store: input.storeDocumentId, data: input.data },
+            status: 'pending',
+            attempts: 0,
+            max_attempts: readConfig(extension).retry_attempts + 1,
+            next_attempt_at: createdAt,
+            attempt_log: [],
+          },
+        });
+      };
+
+      // Deduped events are checked under a lock so concurrent writes of the same order/refund queue once
+      const delivery = dedupeKey
+        ? (await withJobLock(strapi, `store-webhook:${input.storeDocumentId}:${extension.key}:${dedupeKey}`, ATTEMPT_LOCK_TTL_MS, create)).result
+        : await create();
+
+      if (delivery) {
+        queued += 1;
+        scheduleAttempt(strapi, delivery.documentId);
+      }
+    }
+
+    return queued;
+  } catch (error: any) {
+    console.error('[STORE_WEBHOOKS] Emit failed', { event: input.event, store: input.storeDocumentId, error: error.message });
+    return 0;
+  }
+}
+
+type PostResult = { ok: boolean; statusCode: number | null; error: string | null; headers: Record<string, string> | null };
+
+function pickResponseHeaders(response: OutboundResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const name of LOGGED_RESPONSE_HEADERS) {
+    const value = response.headers[name];
+    if (value !== undefined) headers[name] = String(value).slice(0, 200);
+  }
+  return headers;
+}
+
+async function postWebhook(delivery: any, extension: any): Promise<PostResult> {
+  const target = await checkOutboundUrl(delivery.url);
+  if (target.ok === false) {
+    return { ok: false, statusCode: null, error: target.error, headers: null };
+  }
+
+  const config = readConfig(extension);
+  const secret = decryptCredentials(extension.credentials)?.secret;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const headers: Record<string, string> = {
+    ...config.headers,
+    'Content-Type': 'application/json',
+    'User-Agent': 'Markket-Webhooks/1.0',
+    'X-Markket-Event': delivery.event,
+    'X-Markket-Event-Id': delivery.event_id,
+    'X-Markket-Delivery': delivery.documentId,
+  };
+
+  if (secret) {
+    headers['X-Markket-Signature'] = signWebhookPayload(String(secret), timestamp, body, config.signature_algorithm);
+  }
+
+  try {
+    // Connects to the addresses checked above; redirects are not followed
+    const response = await postOutbound(target, { headers, body, timeoutMs: config.timeout });
+    const ok = response.status >= 200 && response.status < 300;
+
+    return {
+      ok,
+      statusCode: response.status,
+      error: ok ? null : `HTTP ${response.status}`,
+      headers: pickResponseHeaders(response),
+    };
+  } catch (error: any) {
+    return {
+      ok: false,
+      statusCode: null,
+      error: error?.name === 'TimeoutError' || error?.cause?.name === 'TimeoutError' ? `Timed out after ${config.timeout}ms` : String(error?.message || 'Request failed'),
+      headers: null,
+    };
+  }
+}
+
+/**
+ * Send one attempt of a pending / retrying delivery and schedule the next retry.
+ */
+export async function attemptWebhookDelivery(strapi: any, documentId: string) {
+  const run = await withJobLock(strapi, `webhook-delivery:${documentId}`, ATTEMPT_LOCK_TTL_MS, async () => {
+    const delivery = await strapi.documents(DELIVERY_UID).findOne({ documentId, populate: ['store'] });
+    if (!delivery || !['pending', 'retrying'].includes(delivery.status)) {
+      return delivery;
+    }
+
+    const extensions = delivery.store?.documentId ? await findStoreExtensions(strapi, delivery.store.documentId) : [];
+    const extension = extensions.find((item) => item.key === delivery.extension_key && item.url === delivery.url)
+      || extensions.find((item) => item.key === delivery.extension_key);
+
+    const attempt = Number(delivery.attempts || 0) + 1;
+    const startedAt = Date.now();
+    const result: PostResult = extension
+      ? await postWebhook({ ...delivery, url: extension.url }, extension)
+      : { ok: false, statusCode: null, error: 'Webhook extension was removed or disabled', headers: null };
+
+    const log = [...(Array.isArray(delivery.attempt_log) ? delivery.attempt_log : []), {
+      attempt,
+      at: new Date(startedAt).toISOString(),
+      duration_ms: Date.now() - startedAt,
+      status_code: result.statusCode,
+      error: result.error,
+      headers: result.headers,
+    }];
+
+    const canRetry = !result.ok && !!extension && attempt < Number(delivery.max_attempts || 1);
+    const retryDelay = extension ? readConfig(extension).retry_delay : DEFAULT_RETRY_DELAY_MS;
+
+    return strapi.documents(DELIVERY_UID).update({
+      documentId,
+      data: {
+        status: result.ok ? 'delivered' : canRetry ? 'retrying' : 'failed',
+        attempts: attempt,
+        last_status_code: result.statusCode,
+        last_error: result.error,
+        delivered_at: result.ok ? new Date().toISOString() : null,
+        next_attempt_at: canRetry
+          ? new Date(Date.now() + Math.min(MAX_RETRY_DELAY_MS, retryDelay * 2 ** (attempt - 1))).toISOString()
+          : null,
+        attempt_log: log,
+      },
+    });
+  });
+
+  return run.acquired ? run.result : null;
+}
+
+/**
+ * Cron: attempt deliveries whose next attempt is due.
+ */
+export async function processDueWebhookDeliveries(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, 'cron:store-webhooks', CRON_LOCK_TTL_MS, async () => {
+    const due = await strapi.documents(DELIVERY_UID).findMany({
+      filters: {
+        status: { $in: ['pending', 'retrying'] },
+        next_attempt_at: { $lte: new Date().toISOString() },
+      },
+      fields: ['documentId'],
+      sort: ['next_attempt_at:asc'],
+      limit: DUE_BATCH_SIZE,
+    });
+
+    for (const delivery of due) {
+      await attemptWebhookDelivery(strapi, delivery.documentId);
+    }
+
+    return due.length;
+  });
+
+  if (run.acquired && run.result) {
+    console.log('[STORE_WEBHOOKS] Due deliveries attempted', { count: run.result });
+  }
+}
+
+/**
+ * Send a stored delivery again as a new delivery (same event_id, fresh attempts).
+ */
+export async function redeliverWebhook(strapi: any, delivery: any) {
+  const extensions = await findStoreExtensions(strapi, delivery.store.documentId);
+  const extension = extensions.find((item) => item.key === delivery.extension_key);
+  if (!extension) {
+    return { ok: false as const, error: 'The webhook extension for this delivery was removed or disabled' };
+  }
+
+  const created = await strapi.documents(DELIVERY_UID).create({
+    data: {
+      store: delivery.store.documentId,
+      event: delivery.event,
+      event_id: delivery.event_id,
+      extension_key: extension.key,
+      url: extension.url,
+      payload: delivery.payload,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: 1,
+      next_attempt_at: new Date().toISOString(),
+      attempt_log: [],
+      redelivery_of: delivery.documentId,
+    },
+  });
+
+  return { ok: true as const, delivery: await attemptWebhookDelivery(strapi, created.documentId) || created };
+}
+
+export async function listWebhookDeliveries(strapi: any, storeDocumentId: string, input: {
+  status?: string;
+  event?: string;
+  page: number;
+  pageSize: number;
+}) {
+  const filters: Record<string, any> = { store: { documentId: { $eq: storeDocumentId } } };
+  if (input.status) filters.status = { $eq: input.status };
+  if (input.event) filters.event = { $eq: input.event };
+
+  const [items, total] = await Promise.all([
+    strapi.documents(DELIVERY_UID).findMany({
+      filters,
+      fields: [
+        'event', 'event_id', 'extension_key', 'url', 'status', 'attempts', 'max_attempts', 'next_attempt_at',
+        'delivered_at', 'last_status_code', 'last_error', 'attempt_log', 'redelivery_of', 'createdAt',
+      ],
+      sort: ['createdAt:desc'],
+      start: (input.page - 1) * input.pageSize,
+      limit: input.pageSize,
+    }),
+    strapi.documents(DELIVERY_UID).count({ filters }),
+  ]);
+
+  return { items, total };
+}
+
+export function findWebhookDelivery(strapi: any, storeDocumentId: string, documentId: string) {
+  return strapi.documents(DELIVERY_UID).findFirst({
+    filters: { documentId: { $eq: documentId }, store: { documentId: { $eq: storeDocumentId } } },
+    populate: ['store'],
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Stripe event ledger
+ *
+ * Every verified Stripe webhook is claimed in api::markket.stripe-event by event id before its handler runs
+ * (src/api/markket/services/actions.ts):
+ * - `processed` events are acknowledged again without running handlers (Stripe redeliveries, duplicates)
+ * - `failed` events run again on the next delivery; handlers answer 5xx on failure so Stripe keeps retrying
+ * - an event already being handled elsewhere (job lock `stripe-event:<id>`) is answered with 409 and retried later
+ *
+ * The verified payload is kept so any event, failed ones included, can be replayed through the current handlers
+ * (admin route POST /markket/webhooks/events/:eventId/replay). Replays skip the `processed` check.
+ */
+
+import { acquireJobLock, releaseJobLock } from './job-lock';
+
+const EVENT_UID = 'api::markket.stripe-event';
+
+const PROCESSING_LOCK_TTL_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 2000;
+
+export interface StripeEventClaim {
+  eventId: string;
+  documentId: string;
+  owner: string;
+  attempts: number;
+  replay: boolean;
+}
+
+export type StripeEventClaimResult =
+  | { status: 'claimed'; claim: StripeEventClaim }
+  | { status: 'duplicate'; entry: any }
+  | { status: 'in_progress' };
+
+function lockKey(eventId: string): string {
+  return `stripe-event:${eventId}`;
+}
+
+export function findStripeEvent(strapi: any, eventId: string) {
+  return strapi.documents(EVENT_UID).findFirst({
+    filters: { event_id: { $eq: eventId } },
+  });
+}
+
+/**
+ * Take the event for processing. Returns `duplicate` for events already processed (unless replaying).
+ */
+export async function claimStripeEvent(
+  strapi: any,
+  event: any,
+  options: { replay?: boolean } = {}
+): Promise<StripeEventClaimResult> {
+  const owner = await acquireJobLock(strapi, lockKey(event.id), PROCESSING_LOCK_TTL_MS);
+  if (!owner) {
+    return { status: 'in_progress' };
+  }
+
+  try {
+    const existing = await findStripeEvent(strapi, event.id);
+
+    if (existing?.status === 'processed' && !options.replay) {
+      await releaseJobLock(strapi, lockKey(event.id), owner);
+      return { status: 'duplicate', entry: existing };
+    }
+
+    const attempts = Number(existing?.attempts || 0) + 1;
+    const data = {
+      type: event.type,
+      status: 'processing',
+      attempts,
+      livemode: event.livemode !== false,
+      payload: event,
+    };
+
+    const entry = existing
+      ? await strapi.documents(EVENT_UID).update({ documentId: existing.documentId, data })
+      : await strapi.documents(EVENT_UID).create({
+        data: { ...data, event_id: event.id, received_at: new Date().toISOString() },
+      });
+
+    return {
+      status: 'claimed',
+      claim: { eventId: event.id, documentId: entry.documentId, owner, attempts, replay: !!options.replay },
+    };
+  } catch (error) {
+    await releaseJobLock(strapi, lockKey(event.id), owner);
+    throw error;
+  }
+}
+
+/**
+ * Record the handler outcome and release the event.
+ */
+export async function settleStripeEvent(
+  strapi: any,
+  claim: StripeEventClaim,
+  outcome: { ok: boolean; error?: string | null; recordId?: string | null }
+): Promise<void> {
+  try {
+    await strapi.documents(EVENT_UID).update({
+      documentId: claim.documentId,
+      data: {
+        status: outcome.ok ? 'processed' : 'failed',
+        processed_at: outcome.ok ? new Date().toISOString() : null,
+        last_error: outcome.ok ? null : String(outcome.error || 'Handler failed').slice(0, MAX_ERROR_LENGTH),
+        ...(outcome.recordId ? { last_record_id: outcome.recordId } : {}),
+      },
+    });
+  } finally {
+    try {
+      await releaseJobLock(strapi, lockKey(claim.eventId), claim.owner);
+    } catch (error: any) {
+      console.warn('[STRIPE_EVENTS] lock release failed', { eventId: claim.eventId, error: error.message });
+    }
+  }
+}
+
+/**
+ * Ledger entries for the admin recovery view, newest first.
+ */
+export async function listStripeEvents(strapi: any, input: { status?: string; type?: string; page: number; pageSize: number }) {
+  const filters: Record<string, any> = {};
+  if (input.status) filters.status = { $eq: input.status };
+  if (input.type) filters.type = { $eq: input.type };
+
+  const [items, total] = await Promise.all([
+    strapi.documents(EVENT_UID).findMany({
+      filters,
+      fields: ['event_id', 'type', 'status', 'attempts', 'livemode', 'received_at', 'processed_at', 'last_error', 'last_record_id'],
+      sort: ['updatedAt:desc'],
+      start: (input.page - 1) * input.pageSize,
+      limit: input.pageSize,
+    }),
+    strapi.documents(EVENT_UID).count({ filters }),
+  ]);
+
+  return { items, total };
+}
@@ -0,0 +1,684 @@
+/**
+ * Bulk subscriber CSV import / export.
+ *
+ * Import lifecycle on api::subscriber.subscriber-import:
+ * - createSubscriberImport(): validates header + mapping, stores the CSV -> status: queued
+ * - processSubscriberImport(): queued|processing -> processing -> completed|failed
+ *   - rows are processed in order and progress is saved every PROGRESS_EVERY rows, so an
+ *     interrupted job resumes from processed_rows on the next cron pass
+ *   - the CSV is cleared when the job finishes; row_errors keeps the per-row report
+ *
+ * Row rules:
+ * - email is normalized (trim + lowercase) and deduped within the file and against existing subscribers
+ * - memberships are created on the chosen lists (default: store default list) with source `import:<consent_source>`
+ * - existing unsubscribed/bounced/complained memberships are never resubscribed, and subscribed rows are skipped
+ *   when the subscriber unsubscribed or complained on any list of the store
+ * - an optional status column imports opt-outs (unsubscribed, cleaned/bounced, complained)
+ *
+ * Scheduling:
+ * - started in setImmediate after the CRM request
+ * - processQueuedSubscriberImports() is called from the cron task in src/index.ts (persistent job lock)
+ */
+
+import { parseCsv, toCsv } from './csv';
+import { withJobLock } from './job-lock';
+import { queueListWelcomeEmail } from './list-welcome-email';
+
+const IMPORT_UID = 'api::subscriber.subscriber-import';
+const SUBSCRIBER_UID = 'api::subscriber.subscriber';
+const LIST_UID = 'api::subscriber.subscriber-list';
+const MEMBERSHIP_UID = 'api::subscriber.subscriber-list-membership';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 50000;
+const MAX_ROW_ERRORS = 1000;
+const PROGRESS_EVERY = 100;
+const IMPORT_LOCK_TTL_MS = 2 * 60 * 60 * 1000;
+const CRON_LOCK_KEY = 'cron:subscriber-import';
+const CRON_LOCK_TTL_MS = 2 * 60 * 60 * 1000;
+const CRON_BATCH_LIMIT = 5;
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 100000;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const OPTED_OUT_STATUSES = ['unsubscribed', 'bounced', 'complained'];
+const STORE_OPT_OUT_STATUSES = ['unsubscribed', 'complained'];
+
+export type SubscriberImportField = 'email' | 'status' | 'tags';
+
+export interface SubscriberImportMapping {
+  email: string;
+  status?: string;
+  tags?: string;
+}
+
+export interface SubscriberImportOptions {
+  mapping: SubscriberImportMapping;
+  listDocumentIds: string[];
+  consent_source: string;
+  update_existing: boolean;
+  send_welcome: boolean;
+}
+
+export interface SubscriberImportResult {
+  ok: boolean;
+  action: 'subscriber.import';
+  reason?: string;
+  data?: Record<string, any>;
+}
+
+type RowOutcome = { outcome: 'created' | 'updated' | 'skipped' | 'failed'; reason?: string };
+
+const HEADER_GUESSES: Record<SubscriberImportField, RegExp> = {
+  email: /^(e-?mail|email address|correo|correo electr[oó]nico)$/i,
+  status: /^(status|member status|estado)$/i,
+  tags: /^(tags?|etiquetas?)$/i,
+};
+
+function normalizeEmail(value: any): string {
+  return String(value || '').trim().toLowerCase();
+}
+
+function readPositiveInt(value: any, fallback: number): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Map provider status values (Mailchimp, spreadsheets) to a membership status.
+ */
+function toMembershipStatus(value: any): 'subscribed' | 'unsubscribed' | 'bounced' | 'complained' {
+  const status = String(value || '').trim().toLowerCase();
+  if (['unsubscribed', 'unsubscribe', 'opted_out', 'opted out'].includes(status)) return 'unsubscribed';
+  if (['cleaned', 'bounced', 'bounce', 'invalid'].includes(status)) return 'bounced';
+  if (['complained', 'spam', 'spam_report', 'abuse'].includes(status)) return 'complained';
+  return 'subscribed';
+}
+
+function splitTags(value: any): string[] {
+  return String(value || '')
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Resolve the column mapping against the header row: explicit names first, then header guesses.
+ */
+export function resolveImportMapping(header: string[], mapping: any): { mapping: SubscriberImportMapping | null; reason?: string } {
+  const requested = mapping && typeof mapping === 'object' ? mapping : {};
+  const normalizedHeader = header.map((column) => column.trim());
+  const resolved: Partial<SubscriberImportMapping> = {};
+
+  for (const field of Object.keys(HEADER_GUESSES) as SubscriberImportField[]) {
+    const explicit = String(requested[field] || '').trim();
+    if (explicit) {
+      if (!normalizedHeader.includes(explicit)) {
+        return { mapping: null, reason: `Column "${explicit}" mapped to ${field} is not in the CSV header` };
+      }
+      resolved[field] = explicit;
+      continue;
+    }
+
+    const guess = normalizedHeader.find((column) => HEADER_GUESSES[field].test(column));
+    if (guess) {
+      resolved[field] = guess;
+    }
+  }
+
+  if (!resolved.email) {
+    return { mapping: null, reason: 'No email column found; pass mapping.email' };
+  }
+
+  return { mapping: resolved as SubscriberImportMapping };
+}
+
+async function resolveImportLists(strapi: any, storeDocumentId: string, listDocumentIds: string[]): Promise<{ ids: string[]; reason?: string }> {
+  if (!listDocumentIds.length) {
+    const defaults = await (strapi.documents as any)(LIST_UID).findMany({
+      filters: {
+        store: { documentId: { $eq: storeDocumentId } },
+        is_default: { $eq: true },
+        active: { $eq: true },
+      },
+      fields: ['documentId'],
+      limit: 1,
+    }) as any[];
+
+    return defaults.length
+      ? { ids: [defaults[0].documentId] }
+      : { ids: [], reason: 'Store has no default list; pass listDocumentIds' };
+  }
+
+  const lists = await (strapi.documents as any)(LIST_UID).findMany({
+    filters: {
+      documentId: { $in: listDocumentIds },
+      store: { documentId: { $eq: storeDocumentId } },
+      active: { $eq: true },
+    },
+    fields: ['documentId'],
+    limit: listDocumentIds.length,
+  }) as any[];
+
+  const found = new Set(lists.map((list) => list.documentId));
+  const missing = listDocumentIds.filter((id) => !found.has(id));
+  if (missing.length) {
+    return { ids: [], reason: `Lists not found in store: ${missing.join(', ')}` };
+  }
+
+  return { ids: listDocumentIds };
+}
+
+function toImportSummary(job: any) {
+  if (!job) {
+    return null;
+  }
+
+  const { csv_content, id, ...rest } = job;
+  return rest;
+}
+
+/**
+ * Validate and queue an import job. Processing starts after the response.
+ */
+export async function createSubscriberImport(strapi: any, input: {
+  storeDocumentId: string;
+  csv: string;
+  filename?: string;
+  mapping?: any;
+  listDocumentIds?: string[];
+  consentSource: string;
+  updateExisting?: boolean;
+  sendWelcome?: boolean;
+  requestedBy?: string;
+}): Promise<SubscriberImportResult> {
+  const csv = String(input.csv || '');
+  const consentSource = String(input.consentSource || '').trim().slice(0, 100);
+
+  if (!csv.trim()) {
+    return { ok: false, action: 'subscriber.import', reason: 'CSV content is required' };
+  }
+
+  if (Buffer.byteLength(csv, 'utf8') > MAX_IMPORT_BYTES) {
+    return { ok: false, action: 'subscriber.import', reason: `CSV is larger than ${MAX_IMPORT_BYTES / (1024 * 1024)}MB` };
+  }
+
+  if (!consentSource) {
+    return { ok: false, action: 'subscriber.import', reason: 'consent_source is required (where these contacts opted in)' };
+  }
+
+  const rows = parseCsv(csv);
+  if (rows.length < 2) {
+    return { ok: false, action: 'subscriber.import', reason: 'CSV needs a header row and at least one data row' };
+  }
+
+  if (rows.length - 1 > MAX_IMPORT_ROWS) {
+    return { ok: false, action: 'subscriber.import', reason: `CSV has more than ${MAX_IMPORT_ROWS} rows` };
+  }
+
+  const { mapping, reason: mappingReason } = resolveImportMapping(rows[0], input.mapping);
+  if (!mapping) {
+    return { ok: false, action: 'subscriber.import', reason: mappingReason };
+  }
+
+  const requestedLists = Array.isArray(input.listDocumentIds)
+    ? Array.from(new Set(input.listDocumentIds.map((id) => String(id || '').trim()).filter(Boolean)))
+    : [];
+  const lists = await resolveImportLists(strapi, input.storeDocumentId, requestedLists);
+  if (lists.reason) {
+    return { ok: false, action: 'subscriber.import', reason: lists.reason };
+  }
+
+  const options: SubscriberImportOptions = {
+    mapping,
+    listDocumentIds: lists.ids,
+    consent_source: consentSource,
+    update_existing: input.updateExisting !== false,
+    send_welcome: input.sendWelcome === true,
+  };
+
+  const job = await (strapi.documents as any)(IMPORT_UID).create({
+    data: {
+      store: input.storeDocumentId,
+      status: 'queued',
+      filename: input.filename ? String(input.filename).slice(0, 255) : null,
+      csv_content: csv,
+      options,
+      requested_by: input.requestedBy || null,
+      total_rows: rows.length - 1,
+      processed_rows: 0,
+      row_errors: [],
+    },
+  });
+
+  console.log('[SUBSCRIBER_IMPORT] queued', {
+    importDocumentId: job.documentId,
+    storeDocumentId: input.storeDocumentId,
+    rows: rows.length - 1,
+    lists: lists.ids.length,
+  });
+
+  setImmediate(async () => {
+    try {
+      await processSubscriberImport(strapi, job.documentId);
+    } catch (err: any) {
+      console.error('[SUBSCRIBER_IMPORT] background run failed', { importDocumentId: job.documentId, error: err.message });
+    }
+  });
+
+  return { ok: true, action: 'subscriber.import', data: toImportSummary(job) };
+}
+
+async function findSubscriberByEmail(strapi: any, email: string): Promise<any | null> {
+  const existing = await (strapi.documents as any)(SUBSCRIBER_UID).findMany({
+    filters: { Email: { $eqi: email } },
+    populate: ['stores'],
+    limit: 1,
+  }) as any[];
+
+  return existing?.[0] || null;
+}
+
+async function importRow(strapi: any, storeDocumentId: string, options: SubscriberImportOptions, row: {
+  email: string;
+  status: ReturnType<typeof toMembershipStatus>;
+  tags: string[];
+}): Promise<RowOutcome> {
+  const subscriberDocuments = (strapi.documents as any)(SUBSCRIBER_UID);
+  const membershipDocuments = (strapi.documents as any)(MEMBERSHIP_UID);
+  const now = new Date().toISOString();
+
+  let subscriber = await findSubscriberByEmail(strapi, row.email);
+  let created = false;
+  let changed = false;
+
+  if (!subscriber) {
+    subscriber = await subscriberDocuments.create({
+      data: {
+        Email: row.email,
+        active: true,
+        stores: [storeDocumentId],
+        sync_status: 'pending',
+        newsletter_preferences: { subscribed: true, frequency: 'weekly', topics: [], tags: row.tags },
+      },
+      status: 'published',
+    });
+    created = true;
+  } else {
+    if (!options.update_existing) {
+      return { outcome: 'skipped', reason: 'already_exists' };
+    }
+
+    if (subscriber.active === false && row.status === 'subscribed') {
+      return { outcome: 'skipped', reason: 'subscriber_inactive' };
+    }
+
+    // Respect store-level opt-outs: an unsubscribe or complaint on any list of the store wins over a subscribed row.
+    if (row.status === 'subscribed') {
+      const storeOptOuts = await membershipDocuments.count({
+        filters: {
+          subscriber: { documentId: { $eq: subscriber.documentId } },
+          list: { store: { documentId: { $eq: storeDocumentId } } },
+          status: { $in: STORE_OPT_OUT_STATUSES },
+        },
+      });
+
+      if (storeOptOuts > 0) {
+        return { outcome: 'skipped', reason: 'opted_out' };
+      }
+    }
+
+    const storeIds = (subscriber.stores || []).map((store: any) => store.documentId).filter(Boolean);
+    const preferences = subscriber.newsletter_preferences && typeof subscriber.newsletter_preferences === 'object'
+      ? subscriber.newsletter_preferences
+      : {};
+    const currentTags: string[] = Array.isArray(preferences.tags) ? preferences.tags : [];
+    const mergedTags = Array.from(new Set([...currentTags, ...row.tags]));
+    const data: Record<string, any> = {};
+
+    if (!storeIds.includes(storeDocumentId)) {
+      data.stores = [...storeIds, storeDocumentId];
+    }
+
+    if (mergedTags.length !== currentTags.length) {
+      data.newsletter_preferences = { ...preferences, tags: mergedTags };
+    }
+
+    if (Object.keys(data).length) {
+      await subscriberDocuments.update({
+        documentId: subscriber.documentId,
+        data,
+        status: 'published',
+      });
+      changed = true;
+    }
+  }
+
+  const memberships = created ? [] : await membershipDocuments.findMany({
+    filters: {
+      subscriber: { documentId: { $eq: subscriber.documentId } },
+      list: { documentId: { $in: options.listDocumentIds } },
+    },
+    populate: ['list'],
+    limit: options.listDocumentIds.length,
+  }) as any[];
+
+  const byList = new Map<string, any>(memberships.map((membership) => [membership?.list?.documentId, membership]));
+  let optedOut = false;
+
+  for (const listDocumentId of options.listDocumentIds) {
+    const membership = byList.get(listDocumentId);
+
+    if (!membership) {
+      const next = await membershipDocuments.create({
+        data: {
+          subscriber: subscriber.documentId,
+          list: listDocumentId,
+          status: row.status,
+          subscribed_at: now,
+          source: `import:${options.consent_source}`,
+          ...(row.status !== 'subscribed' ? { unsubscribed_at: now, unsubscribe_reason: 'imported' } : {}),
+          last_synced_at: null,
+        },
+      });
+      changed = true;
+
+      if (options.send_welcome && row.status === 'subscribed' && next?.documentId) {
+        await queueListWelcomeEmail(strapi, next.documentId);
+      }
+      continue;
+    }
+
+    if (OPTED_OUT_STATUSES.includes(membership.status)) {
+      optedOut = true;
+      continue;
+    }
+
+    // Imported opt-outs win over an existing subscription; subscriptions never override pending confirmation.
+    if (row.status !== 'subscribed' && membership.status !== row.status) {
+      await membershipDocuments.update({
+        documentId: membership.documentId,
+        data: {
+          status: row.status,
+          unsubscribed_at: now,
+          unsubscribe_reason: 'imported',
+        },
+      });
+      changed = true;
+    }
+  }
+
+  if (created) {
+    return { outcome: 'created' };
+  }
+
+  if (changed) {
+    return { outcome: 'updated' };
+  }
+
+  return { outcome: 'skipped', reason: optedOut ? 'opted_out' : 'already_member' };
+}
+
+/**
+ * Process (or resume) an import job. Safe to call repeatedly; finished jobs are left untouched.
+ */
+export async function processSubscriberImport(strapi: any, importDocumentId: string): Promise<'completed' | 'failed' | 'skipped' | 'locked'> {
+  const run = await withJobLock(strapi, `subscriber-import:${importDocumentId}`, IMPORT_LOCK_TTL_MS, async () => {
+    const imports = (strapi.documents as any)(IMPORT_UID);
+    const job = await imports.findOne({ documentId: importDocumentId, populate: ['store'] });
+
+    if (!job || !['queued', 'processing'].includes(job.status)) {
+      return 'skipped' as const;
+    }
+
+    const storeDocumentId = job?.store?.documentId;
+    const options = job.options as SubscriberImportOptions;
+    const rows = parseCsv(job.csv_content || '');
+
+    if (!storeDocumentId || !options?.mapping?.email || rows.length < 2) {
+      await imports.update({
+        documentId: job.documentId,
+        data: { status: 'failed', error: 'Import job is missing its store, mapping or CSV', finished_at: new Date().toISOString() },
+      });
+      return 'failed' as const;
+    }
+
+    const header = rows[0].map((column) => column.trim());
+    const column = (field: SubscriberImportField) => {
+      const name = options.mapping[field];
+      return name ? header.indexOf(name) : -1;
+    };
+    const emailIndex = column('email');
+    const statusIndex = column('status');
+    const tagsIndex = column('tags');
+    const dataRows = rows.slice(1);
+
+    const counters = {
+      processed_rows: job.processed_rows || 0,
+      created_count: job.created_count || 0,
+      updated_count: job.updated_count || 0,
+      skipped_count: job.skipped_count || 0,
+      failed_count: job.failed_count || 0,
+    };
+    const rowErrors: Array<{ row: number; email: string; reason: string }> = Array.isArray(job.row_errors) ? [...job.row_errors] : [];
+    const report = (row: number, email: string, reason: string) => {
+      if (rowErrors.length < MAX_ROW_ERRORS) {
+        rowErrors.push({ row, email, reason });
+      }
+    };
+
+    // Rebuild the in-file dedupe set when resuming.
+    const seen = new Set<string>();
+    for (const cells of dataRows.slice(0, counters.processed_rows)) {
+      const email = normalizeEmail(cells[emailIndex]);
+      if (email) seen.add(email);
+    }
+
+    await imports.update({
+      documentId: job.documentId,
+      data: { status: 'processing', started_at: job.started_at || new Date().toISOString() },
+    });
+
+    console.log('[SUBSCRIBER_IMPORT] processing', {
+      importDocumentId: job.documentId,
+      storeDocumentId,
+      from: counters.processed_rows,
+      total: dataRows.length,
+    });
+
+    for (let index = counters.processed_rows; index < dataRows.length; index++) {
+      const cells = dataRows[index];
+      const line = index + 2;
+      const email = normalizeEmail(cells[emailIndex]);
+
+      if (!email || !EMAIL_PATTERN.test(email)) {
+        counters.failed_count++;
+        report(line, email, 'invalid_email');
+      } else if (seen.has(email)) {
+        counters.skipped_count++;
+        report(line, email, 'duplicate_in_file');
+      } else {
+        seen.add(email);
+
+        try {
+          const result = await importRow(strapi, storeDocumentId, options, {
+            email,
+            status: statusIndex >= 0 ? toMembershipStatus(cells[statusIndex]) : 'subscribed',
+            tags: tagsIndex >= 0 ? splitTags(cells[tagsIndex]) : [],
+          });
+
+          counters[`${result.outcome}_count` as const]++;
+          if (result.outcome === 'failed' || (result.outcome === 'skipped' && result.reason)) {
+            report(line, email, result.reason || 'failed');
+          }
+        } catch (err: any) {
+          counters.failed_count++;
+          report(line, email, err?.message || 'write_failed');
+        }
+      }
+
+      counters.processed_rows = index + 1;
+
+      if (counters.processed_rows % PROGRESS_EVERY === 0) {
+        await imports.update({
+          documentId: job.documentId,
+          data: { ...counters, row_errors: rowErrors },
+        });
+      }
+    }
+
+    await imports.update({
+      documentId: job.documentId,
+      data: {
+        ...counters,
+        row_errors: rowErrors,
+        status: 'completed',
+        csv_content: null,
+        finished_at: new Date().toISOString(),
+      },
+    });
+
+    console.log('[SUBSCRIBER_IMPORT] completed', { importDocumentId: job.documentId, ...counters });
+    return 'completed' as const;
+  });
+
+  return run.acquired ? run.result! : 'locked';
+}
+
+/**
+ * Pick up queued or interrupted imports. Called from the cron task registered in src/index.ts.
+ */
+export async function processQueuedSubscriberImports(strapi: any): Promise<void> {
+  const run = await withJobLock(strapi, CRON_LOCK_KEY, CRON_LOCK_TTL_MS, async () => {
+    const jobs = await (strapi.documents as any)(IMPORT_UID).findMany({
+      filters: { status: { $in: ['queued', 'processing'] } },
+      fields: ['documentId'],
+      sort: ['createdAt:asc'],
+      limit: CRON_BATCH_LIMIT,
+    }) as any[];
+
+    for (const job of jobs) {
+      try {
+        const result = await processSubscriberImport(strapi, job.documentId);
+        if (result !== 'locked') {
+          console.log('[SUBSCRIBER_IMPORT_CRON] Processed import', { importDocumentId: job.documentId, result });
+        }
+      } catch (err: any) {
+        console.error('[SUBSCRIBER_IMPORT_CRON] Import failed', { importDocumentId: job.documentId, error: err.message });
+        await (strapi.documents as any)(IMPORT_UID).update({
+          documentId: job.documentId,
+          data: { status: 'failed', error: err.message, finished_at: new Date().toISOString() },
+        }).catch(() => null);
+      }
+    }
+  });
+
+  if (!run.acquired) {
+    console.warn('[SUBSCRIBER_IMPORT_CRON] Previous run still active, skipping overlap');
+  }
+}
+
+/**
+ * Import jobs of a store, newest first (without the stored CSV).
+ */
+export async function listSubscriberImports(strapi: any, storeDocumentId: string, options: { page?: any; pageSize?: any } = {}) {
+  const page = readPositiveInt(options.page, 1);
+  const pageSize = Math.min(readPositiveInt(options.pageSize, 25), 100);
+  const filters = { store: { documentId: { $eq: storeDocumentId } } };
+
+  const [jobs, total] = await Promise.all([
+    (strapi.documents as any)(IMPORT_UID).findMany({
+      filters,
+      fields: ['status', 'filename', 'requested_by', 'total_rows', 'processed_rows', 'created_count', 'updated_count', 'skipped_count', 'failed_count', 'error', 'started_at', 'finished_at', 'createdAt'],
+      sort: ['createdAt:desc'],
+      start: (page - 1) * pageSize,
+      limit: pageSize,
+    }) as Promise<any[]>,
+    (strapi.documents as any)(IMPORT_UID).count({ filters }),
+  ]);
+
+  return {
+    data: jobs.map(toImportSummary),
+    pagination: { page, pageSize, total, pages: Math.ceil(total / pageSize) },
+  };
+}
+
+/**
+ * One import job with its per-row error report.
+ */
+export async function getSubscriberImport(strapi: any, importDocumentId: string) {
+  const job = await (strapi.documents as any)(IMPORT_UID).findOne({
+    documentId: importDocumentId,
+    populate: { store: { fields: ['documentId'] } },
+  });
+
+  return toImportSummary(job);
+}
+
+const EXPORT_COLUMNS = [
+  'email',
+  'status',
+  'subscribed_at',
+  'unsubscribed_at',
+  'unsubscribe_reason',
+  'source',
+  'engagement_score',
+  'last_opened_at',
+  'last_clicked_at',
+  'bounce_count',
+  'bounce_type',
+  'last_bounce_at',
+  'welcome_email_status',
+  'subscriber_active',
+  'tags',
+];
+
+/**
+ * CSV of a list's memberships with status and engagement fields.
+ */
+export async function exportListMembershipsCsv(strapi: any, list: any): Promise<{ filename: string; csv: string; rows: number }> {
+  const rows: any[][] = [];
+
+  for (let start = 0; start < MAX_EXPORT_ROWS; start += EXPORT_PAGE_SIZE) {
+    const page = await (strapi.documents as any)(MEMBERSHIP_UID).findMany({
+      filters: { list: { documentId: { $eq: list.documentId } } },
+      populate: { subscriber: { fields: ['Email', 'active', 'newsletter_preferences'] } },
+      sort: ['id:asc'],
+      start,
+      limit: EXPORT_PAGE_SIZE,
+    }) as any[];
+
+    for (const membership of page) {
+      const subscriber = membership?.subscriber;
+      const tags = Array.isArray(subscriber?.newsletter_preferences?.tags) ? subscriber.newsletter_preferences.tags : [];
+
+      rows.push([
+        normalizeEmail(subscriber?.Email),
+        membership.status,
+        membership.subscribed_at,
+        membership.unsubscribed_at,
+        membership.unsubscribe_reason,
+        membership.source,
+        membership.engagement_score,
+        membership.last_opened_at,
+        membership.last_clicked_at,
+        membership.bounce_count,
+        membership.bounce_type,
+        membership.last_bounce_at,
+        membership.welcome_email_status,
+        subscriber ? subscriber.active !== false : '',
+        tags.join(';'),
+      ]);
+    }
+
+    if (page.length < EXPORT_PAGE_SIZE) break;
+  }
+
+  const slug = String(list.slug || list.documentId).replace(/[^a-z0-9-_]/gi, '-');
+
+  return {
+    filename: `${slug}-members-${new Date().toISOString().slice(0, 10)}.csv`,
+    csv: toCsv(EXPORT_COLUMNS, rows),
+    rows: rows.length,
+  };
+}
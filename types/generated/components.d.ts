@@ -23,12 +23,14 @@ export interface CommonAddress extends Struct.ComponentSchema {
   };
 }
 
-export interface CommonExtension extends Struct.ComponentSchema {
-  collectionName: 'components_common_extensions';
+export interface CommonExtensionsConfig extends Struct.ComponentSchema {
+  collectionName: 'components_common_extensions_config';
   info: {
     description: 'Flexible extension system for integrations. Handlers live in markket-next. Use encryption service for credentials.';
     displayName: 'Extension';
     icon: 'plug';
+    pluralName: 'Extensions';
+    singularName: 'Extension';
   };
   attributes: {
     active: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
@@ -43,6 +45,24 @@ export interface CommonExtension extends Struct.ComponentSchema {
   };
 }
 
+export interface CommonExtra extends Struct.ComponentSchema {
+  collectionName: 'components_common_extras';
+  info: {
+    description: 'Extensible, optional content for interactive clients';
+    displayName: 'Extras';
+    icon: 'stars';
+  };
+  attributes: {
+    active: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    content: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    key: Schema.Attribute.String & Schema.Attribute.Required;
+    meta: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        url: '';
+      }>;
+  };
+}
+
 export interface CommonInboxMetadata extends Struct.ComponentSchema {
   collectionName: 'components_common_inbox_metadata';
   info: {
@@ -53,15 +73,33 @@ export interface CommonInboxMetadata extends Struct.ComponentSchema {
   attributes: {
     envelopeFrom: Schema.Attribute.Email;
     envelopeTo: Schema.Attribute.Email;
+    messageId: Schema.Attribute.String;
     rawFrom: Schema.Attribute.String;
     rawTo: Schema.Attribute.String;
     receivedAt: Schema.Attribute.DateTime;
     routingKey: Schema.Attribute.String;
     sentAt: Schema.Attribute.DateTime;
-    source: Schema.Attribute.String & Schema.Attribute.Required & Schema.Attribute.DefaultTo<'sendgrid-inbound'>;
+    source: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'sendgrid-inbound'>;
     subject: Schema.Attribute.String;
     threadKey: Schema.Attribute.String;
-    messageId: Schema.Attribute.String;
+  };
+}
+
+export interface CommonNavigationSettings extends Struct.ComponentSchema {
+  collectionName: 'components_common_navigation_settings';
+  info: {
+    description: 'Toggle which sections appear in store navigation';
+    displayName: 'Navigation Settings';
+  };
+  attributes: {
+    show_about: Schema.Attribute.Boolean;
+    show_blog: Schema.Attribute.Boolean;
+    show_events: Schema.Attribute.Boolean;
+    show_home: Schema.Attribute.Boolean;
+    show_newsletter: Schema.Attribute.Boolean;
+    show_shop: Schema.Attribute.Boolean;
   };
 }
 
@@ -72,8 +110,11 @@ export interface CommonPaymentAttempts extends Struct.ComponentSchema {
     icon: 'scissors';
   };
   attributes: {
+    amount: Schema.Attribute.Decimal;
     buyer_email: Schema.Attribute.String;
+    currency: Schema.Attribute.String;
     reason: Schema.Attribute.String;
+    refund_id: Schema.Attribute.String;
     session_id: Schema.Attribute.String;
     Status: Schema.Attribute.Enumeration<
       [
@@ -97,30 +138,42 @@ export interface CommonPrices extends Struct.ComponentSchema {
     icon: 'music';
   };
   attributes: {
+    billing_interval: Schema.Attribute.Enumeration<
+      ['day', 'week', 'month', 'year']
+    >;
+    billing_interval_count: Schema.Attribute.Integer &
+      Schema.Attribute.DefaultTo<0>;
+    billing_type: Schema.Attribute.Enumeration<['one_time', 'recurring']> &
+      Schema.Attribute.DefaultTo<'one_time'>;
     Currency: Schema.Attribute.String;
     Description: Schema.Attribute.Text;
-    extensions: Schema.Attribute.Component<'common.extension', true>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
     extra: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
     hidden: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
     inventory: Schema.Attribute.Integer;
     Name: Schema.Attribute.String;
     Price: Schema.Attribute.Decimal;
+    ships_to: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
     STRIPE_ID: Schema.Attribute.String;
   };
 }
 
-export interface CommonProductSnapshop extends Struct.ComponentSchema {
-  collectionName: 'components_common_product_snapshops';
+export interface CommonProductSnapshot extends Struct.ComponentSchema {
+  collectionName: 'components_common_product_snapshots';
   info: {
-    displayName: 'PRODUCT_SNAPSHOP';
+    displayName: 'Product Snapshot';
     icon: 'clock';
   };
   attributes: {
+    Currency: Schema.Attribute.String;
     Name: Schema.Attribute.String;
-    Price: Schema.Attribute.Decimal;
     product: Schema.Attribute.Relation<'oneToOne', 'api::product.product'>;
     Quantity: Schema.Attribute.Integer;
     Short_description: Schema.Attribute.String;
+    Stripe_price_id: Schema.Attribute.String;
+    Stripe_product_id: Schema.Attribute.String;
+    Total_Price: Schema.Attribute.Decimal;
+    Unit_Price: Schema.Attribute.Decimal;
   };
 }
 
@@ -196,14 +249,16 @@ export interface CommonUrls extends Struct.ComponentSchema {
 }
 
 declare module '@strapi/strapi' {
-  export module Public {
+  export namespace Public {
     export interface ComponentSchemas {
       'common.address': CommonAddress;
-      'common.extension': CommonExtension;
+      'common.extensions_config': CommonExtensionsConfig;
+      'common.extra': CommonExtra;
       'common.inbox-metadata': CommonInboxMetadata;
+      'common.navigation-settings': CommonNavigationSettings;
       'common.payment-attempts': CommonPaymentAttempts;
       'common.prices': CommonPrices;
-      'common.product-snapshop': CommonProductSnapshop;
+      'common.product-snapshot': CommonProductSnapshot;
       'common.seo': CommonSeo;
       'common.tag': CommonTag;
       'common.urls': CommonUrls;
@@ -26,6 +26,11 @@ export interface AdminApiToken extends Struct.CollectionTypeSchema {
       Schema.Attribute.SetMinMaxLength<{
         minLength: 1;
       }>;
+    adminPermissions: Schema.Attribute.Relation<
+      'oneToMany',
+      'admin::permission'
+    >;
+    adminUserOwner: Schema.Attribute.Relation<'manyToOne', 'admin::user'>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -39,6 +44,9 @@ export interface AdminApiToken extends Struct.CollectionTypeSchema {
         minLength: 1;
       }>;
     expiresAt: Schema.Attribute.DateTime;
+    kind: Schema.Attribute.Enumeration<['content-api', 'admin']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'content-api'>;
     lastUsedAt: Schema.Attribute.DateTime;
     lifespan: Schema.Attribute.BigInteger;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
@@ -56,7 +64,6 @@ export interface AdminApiToken extends Struct.CollectionTypeSchema {
     >;
     publishedAt: Schema.Attribute.DateTime;
     type: Schema.Attribute.Enumeration<['read-only', 'full-access', 'custom']> &
-      Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<'read-only'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
@@ -134,6 +141,7 @@ export interface AdminPermission extends Struct.CollectionTypeSchema {
         minLength: 1;
       }>;
     actionParameters: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
+    apiToken: Schema.Attribute.Relation<'manyToOne', 'admin::api-token'>;
     conditions: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
@@ -241,6 +249,7 @@ export interface AdminSession extends Struct.CollectionTypeSchema {
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<'oneToMany', 'admin::session'> &
       Schema.Attribute.Private;
+    metadata: Schema.Attribute.JSON & Schema.Attribute.Private;
     origin: Schema.Attribute.String &
       Schema.Attribute.Required &
       Schema.Attribute.Private;
@@ -385,6 +394,8 @@ export interface AdminUser extends Struct.CollectionTypeSchema {
     };
   };
   attributes: {
+    apiTokens: Schema.Attribute.Relation<'oneToMany', 'admin::api-token'> &
+      Schema.Attribute.Private;
     blocked: Schema.Attribute.Boolean &
       Schema.Attribute.Private &
       Schema.Attribute.DefaultTo<false>;
@@ -421,6 +432,8 @@ export interface AdminUser extends Struct.CollectionTypeSchema {
     publishedAt: Schema.Attribute.DateTime;
     registrationToken: Schema.Attribute.String & Schema.Attribute.Private;
     resetPasswordToken: Schema.Attribute.String & Schema.Attribute.Private;
+    resetPasswordTokenExpiresAt: Schema.Attribute.DateTime &
+      Schema.Attribute.Private;
     roles: Schema.Attribute.Relation<'manyToMany', 'admin::role'> &
       Schema.Attribute.Private;
     updatedAt: Schema.Attribute.DateTime;
@@ -464,6 +477,11 @@ export interface ApiAlbumAlbum extends Struct.CollectionTypeSchema {
       }>;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::album.album'>;
+    owner: Schema.Attribute.Relation<
+      'oneToOne',
+      'plugin::users-permissions.user'
+    >;
+    pages: Schema.Attribute.Relation<'manyToMany', 'api::page.page'>;
     publishedAt: Schema.Attribute.DateTime;
     SEO: Schema.Attribute.Component<'common.seo', false>;
     slug: Schema.Attribute.String;
@@ -498,6 +516,7 @@ export interface ApiAlbumTrack extends Struct.CollectionTypeSchema {
     };
   };
   attributes: {
+    albums: Schema.Attribute.Relation<'manyToMany', 'api::album.album'>;
     content: Schema.Attribute.Blocks &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -516,6 +535,10 @@ export interface ApiAlbumTrack extends Struct.CollectionTypeSchema {
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::album.track'>;
     media: Schema.Attribute.Media<undefined, true>;
+    owner: Schema.Attribute.Relation<
+      'oneToOne',
+      'plugin::users-permissions.user'
+    >;
     publishedAt: Schema.Attribute.DateTime;
     SEO: Schema.Attribute.Component<'common.seo', false>;
     slug: Schema.Attribute.String;
@@ -607,14 +630,23 @@ export interface ApiAuthMagicMagicCode extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Private;
     maxAttempts: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<3>;
+    maxUses: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<1>;
+    meta: Schema.Attribute.JSON;
     phone: Schema.Attribute.String;
     publishedAt: Schema.Attribute.DateTime;
+    purpose: Schema.Attribute.Enumeration<
+      ['auth_login', 'subscribe_confirm', 'unsubscribe', 'store_invite']
+    > &
+      Schema.Attribute.DefaultTo<'auth_login'>;
+    reusable: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
     shortner: Schema.Attribute.Relation<'oneToOne', 'api::shortner.shortner'>;
     store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    useCount: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
     used: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    usedAt: Schema.Attribute.DateTime;
     userAgent: Schema.Attribute.Text;
   };
 }
@@ -644,6 +676,10 @@ export interface ApiCategoryCategory extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Private;
     Name: Schema.Attribute.String & Schema.Attribute.Required;
+    owner: Schema.Attribute.Relation<
+      'oneToOne',
+      'plugin::users-permissions.user'
+    >;
     publishedAt: Schema.Attribute.DateTime;
     SEO: Schema.Attribute.Component<'common.seo', false>;
     slug: Schema.Attribute.String & Schema.Attribute.Required;
@@ -654,6 +690,96 @@ export interface ApiCategoryCategory extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiDiscountDiscount extends Struct.CollectionTypeSchema {
+  collectionName: 'discounts';
+  info: {
+    description: 'Store discount codes applied when creating checkout links';
+    displayName: 'Discount Code';
+    pluralName: 'discounts';
+    singularName: 'discount';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    active: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    applies_to: Schema.Attribute.Enumeration<['store', 'products']> &
+      Schema.Attribute.DefaultTo<'store'>;
+    code: Schema.Attribute.String & Schema.Attribute.Required;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text;
+    discount_type: Schema.Attribute.Enumeration<['percent', 'fixed']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'percent'>;
+    expires_at: Schema.Attribute.DateTime;
+    extra: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
+    first_order_only: Schema.Attribute.Boolean &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::discount.discount'
+    > &
+      Schema.Attribute.Private;
+    max_uses: Schema.Attribute.Integer;
+    min_subtotal: Schema.Attribute.Decimal;
+    products: Schema.Attribute.Relation<'manyToMany', 'api::product.product'>;
+    publishedAt: Schema.Attribute.DateTime;
+    starts_at: Schema.Attribute.DateTime;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    times_used: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    value: Schema.Attribute.Decimal & Schema.Attribute.Required;
+  };
+}
+
+export interface ApiEventReminderEventReminder
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'event_reminders';
+  info: {
+    description: 'Scheduled email reminder records for events. One reminder per event. Status tracks lifecycle.';
+    displayName: 'Event Reminder';
+    pluralName: 'event-reminders';
+    singularName: 'event-reminder';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    cancelled_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    event: Schema.Attribute.Relation<'manyToOne', 'api::event.event'>;
+    failed_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::event-reminder.event-reminder'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    recipients_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    scheduled_for: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    sent_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['pending', 'sent', 'failed', 'cancelled']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'pending'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    subject: Schema.Attribute.String;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiEventEvent extends Struct.CollectionTypeSchema {
   collectionName: 'events';
   info: {
@@ -697,7 +823,7 @@ export interface ApiEventEvent extends Struct.CollectionTypeSchema {
         };
       }>;
     endDate: Schema.Attribute.DateTime;
-    extensions: Schema.Attribute.Component<'common.extension', true> &
+    extensions: Schema.Attribute.Component<'common.extensions_config', true> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: false;
@@ -705,6 +831,7 @@ export interface ApiEventEvent extends Struct.CollectionTypeSchema {
       }>;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::event.event'>;
+    locations: Schema.Attribute.Component<'common.address', true>;
     maxCapacity: Schema.Attribute.Integer &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -725,6 +852,7 @@ export interface ApiEventEvent extends Struct.CollectionTypeSchema {
         };
       }>;
     publishedAt: Schema.Attribute.DateTime;
+    rsvps: Schema.Attribute.Relation<'oneToMany', 'api::rsvp.rsvp'>;
     SEO: Schema.Attribute.Component<'common.seo', false> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -764,6 +892,8 @@ export interface ApiEventEvent extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    timezone: Schema.Attribute.String &
+      Schema.Attribute.DefaultTo<'America/New_York'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -797,7 +927,7 @@ export interface ApiExtensionExtension extends Struct.SingleTypeSchema {
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    extensions: Schema.Attribute.Component<'common.extension', true> &
+    extensions: Schema.Attribute.Component<'common.extensions_config', true> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: false;
@@ -900,19 +1030,28 @@ export interface ApiInboxInbox extends Struct.CollectionTypeSchema {
   };
   attributes: {
     Archived: Schema.Attribute.Boolean;
+    BodyHtml: Schema.Attribute.Text;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    Direction: Schema.Attribute.String & Schema.Attribute.DefaultTo<'incoming'>;
     email: Schema.Attribute.Email & Schema.Attribute.Required;
+    Estado: Schema.Attribute.String & Schema.Attribute.DefaultTo<'new'>;
+    FromAddress: Schema.Attribute.Email;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::inbox.inbox'> &
       Schema.Attribute.Private;
     Message: Schema.Attribute.Text;
+    MessageId: Schema.Attribute.String;
+    Metadata: Schema.Attribute.Component<'common.inbox-metadata', false>;
     Name: Schema.Attribute.String & Schema.Attribute.Required;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'>;
     parentMessageId: Schema.Attribute.Relation<'oneToOne', 'api::inbox.inbox'>;
-    Metadata: Schema.Attribute.Component<'common.inbox-metadata', false>;
     publishedAt: Schema.Attribute.DateTime;
+    RoutingKey: Schema.Attribute.String;
     store: Schema.Attribute.Relation<'oneToOne', 'api::store.store'>;
+    ThreadKey: Schema.Attribute.String;
+    ToAddress: Schema.Attribute.Email;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -923,6 +1062,40 @@ export interface ApiInboxInbox extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiJobLockJobLock extends Struct.CollectionTypeSchema {
+  collectionName: 'job_locks';
+  info: {
+    description: 'Persistent leases for cron jobs and background sends. One row per lock key, shared across processes.';
+    displayName: 'Job Lock';
+    pluralName: 'job-locks';
+    singularName: 'job-lock';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    acquired_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    key: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::job-lock.job-lock'
+    > &
+      Schema.Attribute.Private;
+    locked_until: Schema.Attribute.DateTime;
+    owner: Schema.Attribute.String;
+    publishedAt: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiMarkketMarkket extends Struct.CollectionTypeSchema {
   collectionName: 'markkets';
   info: {
@@ -939,6 +1112,8 @@ export interface ApiMarkketMarkket extends Struct.CollectionTypeSchema {
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    EventSubType: Schema.Attribute.String;
+    EventType: Schema.Attribute.String;
     Key: Schema.Attribute.String & Schema.Attribute.Required;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
@@ -947,26 +1122,80 @@ export interface ApiMarkketMarkket extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Private;
     publishedAt: Schema.Attribute.DateTime;
+    ReceivedAt: Schema.Attribute.DateTime;
+    RequestPath: Schema.Attribute.String;
+    Source: Schema.Attribute.String;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
     user_key_or_id: Schema.Attribute.String;
+    Webhook: Schema.Attribute.String;
+  };
+}
+
+export interface ApiMarkketStripeEvent extends Struct.CollectionTypeSchema {
+  collectionName: 'stripe_events';
+  info: {
+    description: 'Processed Stripe webhook events keyed by event id: dedupe, failed handler state and the payload for replays.';
+    displayName: 'Stripe Event';
+    pluralName: 'stripe-events';
+    singularName: 'stripe-event';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    attempts: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    event_id: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique;
+    last_error: Schema.Attribute.Text;
+    last_record_id: Schema.Attribute.String;
+    livemode: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::markket.stripe-event'
+    > &
+      Schema.Attribute.Private;
+    payload: Schema.Attribute.JSON;
+    processed_at: Schema.Attribute.DateTime;
+    publishedAt: Schema.Attribute.DateTime;
+    received_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['processing', 'processed', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'processing'>;
+    type: Schema.Attribute.String;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
   };
 }
 
 export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
   collectionName: 'orders';
   info: {
-    description: '';
+    description: 'Customer promises and commitments to a product';
     displayName: 'Order';
     pluralName: 'orders';
     singularName: 'order';
   };
   options: {
-    draftAndPublish: true;
+    draftAndPublish: false;
   };
   attributes: {
     Amount: Schema.Attribute.Decimal;
+    billing_interval: Schema.Attribute.Enumeration<
+      ['day', 'week', 'month', 'year']
+    >;
+    billing_interval_count: Schema.Attribute.Integer &
+      Schema.Attribute.DefaultTo<0>;
+    billing_type: Schema.Attribute.Enumeration<['one_time', 'recurring']> &
+      Schema.Attribute.DefaultTo<'one_time'>;
     buyer: Schema.Attribute.Relation<
       'oneToOne',
       'plugin::users-permissions.user'
@@ -975,9 +1204,10 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
     Currency: Schema.Attribute.String;
-    Details: Schema.Attribute.Component<'common.product-snapshop', true>;
-    extensions: Schema.Attribute.Component<'common.extension', true>;
+    Details: Schema.Attribute.Component<'common.product-snapshot', true>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
     extra: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
+    inboxMessages: Schema.Attribute.Relation<'oneToMany', 'api::inbox.inbox'>;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::order.order'> &
       Schema.Attribute.Private;
@@ -992,6 +1222,7 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
       [
         'open',
         'pending',
+        'paid',
         'complete',
         'refunded',
         'shipped',
@@ -1002,6 +1233,7 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
     >;
     store: Schema.Attribute.Relation<'oneToOne', 'api::store.store'>;
     STRIPE_PAYMENT_ID: Schema.Attribute.String;
+    stripe_payment_intent: Schema.Attribute.String;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -1009,6 +1241,72 @@ export interface ApiOrderOrder extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiOrderSubscription extends Struct.CollectionTypeSchema {
+  collectionName: 'order_subscriptions';
+  info: {
+    description: 'Stripe subscriptions started from recurring PRICES, kept in sync from customer.subscription.* and invoice webhooks.';
+    displayName: 'Order Subscription';
+    pluralName: 'subscriptions';
+    singularName: 'subscription';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    amount: Schema.Attribute.Decimal;
+    billing_interval: Schema.Attribute.Enumeration<
+      ['day', 'week', 'month', 'year']
+    >;
+    billing_interval_count: Schema.Attribute.Integer &
+      Schema.Attribute.DefaultTo<1>;
+    cancel_at_period_end: Schema.Attribute.Boolean &
+      Schema.Attribute.DefaultTo<false>;
+    canceled_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    currency: Schema.Attribute.String;
+    current_period_end: Schema.Attribute.DateTime;
+    current_period_start: Schema.Attribute.DateTime;
+    email: Schema.Attribute.Email;
+    ended_at: Schema.Attribute.DateTime;
+    extra: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
+    failed_payments: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    is_test: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    last_invoice_id: Schema.Attribute.String;
+    last_payment_error: Schema.Attribute.Text;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::order.subscription'
+    > &
+      Schema.Attribute.Private;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'>;
+    publishedAt: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      [
+        'incomplete',
+        'incomplete_expired',
+        'trialing',
+        'active',
+        'past_due',
+        'unpaid',
+        'paused',
+        'canceled',
+      ]
+    > &
+      Schema.Attribute.DefaultTo<'incomplete'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    stripe_customer_id: Schema.Attribute.String;
+    stripe_subscription_id: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiPagePage extends Struct.CollectionTypeSchema {
   collectionName: 'pages';
   info: {
@@ -1051,6 +1349,10 @@ export interface ApiPagePage extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    owner: Schema.Attribute.Relation<
+      'oneToOne',
+      'plugin::users-permissions.user'
+    >;
     publishedAt: Schema.Attribute.DateTime;
     SEO: Schema.Attribute.Component<'common.seo', false> &
       Schema.Attribute.SetPluginOptions<{
@@ -1082,10 +1384,106 @@ export interface ApiPagePage extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiProductInventoryMovement
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'inventory_movements';
+  info: {
+    description: 'Append-only ledger of PRICES inventory changes: what changed, why, and who or what changed it.';
+    displayName: 'Inventory Movement';
+    pluralName: 'inventory-movements';
+    singularName: 'inventory-movement';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    actor: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    change: Schema.Attribute.Integer & Schema.Attribute.Required;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    inventory_after: Schema.Attribute.Integer;
+    inventory_before: Schema.Attribute.Integer;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::product.inventory-movement'
+    > &
+      Schema.Attribute.Private;
+    note: Schema.Attribute.Text;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'>;
+    price_name: Schema.Attribute.String;
+    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'>;
+    publishedAt: Schema.Attribute.DateTime;
+    reason: Schema.Attribute.Enumeration<
+      ['sale', 'refund', 'adjustment', 'import']
+    > &
+      Schema.Attribute.Required;
+    source: Schema.Attribute.String;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    stripe_price_id: Schema.Attribute.String & Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiProductInventoryReservation
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'inventory_reservations';
+  info: {
+    description: 'Short-lived stock holds for checkout links, counted against PRICES inventory until paid, released or expired.';
+    displayName: 'Inventory Reservation';
+    pluralName: 'inventory-reservations';
+    singularName: 'inventory-reservation';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    expires_at: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::product.inventory-reservation'
+    > &
+      Schema.Attribute.Private;
+    order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'>;
+    product: Schema.Attribute.Relation<'manyToOne', 'api::product.product'>;
+    publishedAt: Schema.Attribute.DateTime;
+    quantity: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    release_reason: Schema.Attribute.String;
+    released_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['active', 'consumed', 'released', 'expired']
+    > &
+      Schema.Attribute.DefaultTo<'active'>;
+    stripe_payment_link: Schema.Attribute.String;
+    stripe_price_id: Schema.Attribute.String & Schema.Attribute.Required;
+    stripe_test: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiProductProduct extends Struct.CollectionTypeSchema {
   collectionName: 'products';
   info: {
-    description: '';
+    description: 'Attributes and stripe information';
     displayName: 'Product';
     pluralName: 'products';
     singularName: 'product';
@@ -1099,18 +1497,8 @@ export interface ApiProductProduct extends Struct.CollectionTypeSchema {
     };
   };
   attributes: {
-    active: Schema.Attribute.Boolean &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    amountSold: Schema.Attribute.Integer &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
+    active: Schema.Attribute.Boolean;
+    amountSold: Schema.Attribute.Integer;
     attributes: Schema.Attribute.RichText &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -1130,12 +1518,8 @@ export interface ApiProductProduct extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
-    extensions: Schema.Attribute.Component<'common.extension', true> &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: false;
-        };
-      }>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
+    extras: Schema.Attribute.Component<'common.extra', true>;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -1148,66 +1532,88 @@ export interface ApiProductProduct extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
-    PRICES: Schema.Attribute.Component<'common.prices', true> &
+    PRICES: Schema.Attribute.Component<'common.prices', true>;
+    publishedAt: Schema.Attribute.DateTime;
+    quantity: Schema.Attribute.Integer;
+    SEO: Schema.Attribute.Component<'common.seo', false> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: true;
         };
       }>;
-    publishedAt: Schema.Attribute.DateTime;
-    quantity: Schema.Attribute.Integer &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    SEO: Schema.Attribute.Component<'common.seo', false> &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    SKU: Schema.Attribute.String &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    Slides: Schema.Attribute.Media<'images', true> &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    slug: Schema.Attribute.UID<'Name'> &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    stores: Schema.Attribute.Relation<'manyToMany', 'api::store.store'>;
-    Tag: Schema.Attribute.Component<'common.tag', true> &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }>;
-    Thumbnail: Schema.Attribute.Media<'images'> &
+    SKU: Schema.Attribute.String;
+    Slides: Schema.Attribute.Media<'images', true>;
+    slug: Schema.Attribute.String;
+    stores: Schema.Attribute.Relation<'manyToMany', 'api::store.store'>;
+    Tag: Schema.Attribute.Component<'common.tag', true> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: true;
         };
       }>;
+    Thumbnail: Schema.Attribute.Media<'images'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    usd_price: Schema.Attribute.Decimal &
-      Schema.Attribute.SetPluginOptions<{
-        i18n: {
-          localized: true;
-        };
-      }> &
+    usd_price: Schema.Attribute.Decimal & Schema.Attribute.DefaultTo<0>;
+  };
+}
+
+export interface ApiProductProductImport extends Struct.CollectionTypeSchema {
+  collectionName: 'product_imports';
+  info: {
+    description: 'Per-run reports of external catalog imports (Shopify products and inventory syncs) - counters and per-item errors';
+    displayName: 'Product Import';
+    pluralName: 'product-imports';
+    singularName: 'product-import';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  pluginOptions: {
+    i18n: {
+      localized: false;
+    };
+  };
+  attributes: {
+    created_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    extension_key: Schema.Attribute.String;
+    failed_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    finished_at: Schema.Attribute.DateTime;
+    images_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    inventory_updated_count: Schema.Attribute.Integer &
       Schema.Attribute.DefaultTo<0>;
+    item_errors: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    kind: Schema.Attribute.Enumeration<['products', 'inventory']> &
+      Schema.Attribute.DefaultTo<'products'>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::product.product-import'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    requested_by: Schema.Attribute.String;
+    skipped_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    source: Schema.Attribute.String & Schema.Attribute.DefaultTo<'shopify'>;
+    started_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['queued', 'processing', 'completed', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'queued'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'> &
+      Schema.Attribute.Required;
+    total_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    trigger: Schema.Attribute.Enumeration<['manual', 'interval']> &
+      Schema.Attribute.DefaultTo<'manual'>;
+    updated_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
   };
 }
 
@@ -1238,12 +1644,18 @@ export interface ApiRsvpRsvp extends Struct.CollectionTypeSchema {
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
     email: Schema.Attribute.Email & Schema.Attribute.Required;
-    event: Schema.Attribute.Relation<'oneToOne', 'api::event.event'> &
+    event: Schema.Attribute.Relation<'manyToOne', 'api::event.event'> &
       Schema.Attribute.Required;
+    last_synced_at: Schema.Attribute.DateTime;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::rsvp.rsvp'>;
     name: Schema.Attribute.String;
     publishedAt: Schema.Attribute.DateTime;
+    sendgrid_contact_id: Schema.Attribute.String;
+    sendgrid_list_id: Schema.Attribute.String;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    sync_status: Schema.Attribute.Enumeration<['pending', 'synced', 'failed']> &
+      Schema.Attribute.DefaultTo<'pending'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -1255,7 +1667,7 @@ export interface ApiRsvpRsvp extends Struct.CollectionTypeSchema {
       }> &
       Schema.Attribute.DefaultTo<0>;
     user: Schema.Attribute.Relation<
-      'manyToMany',
+      'manyToOne',
       'plugin::users-permissions.user'
     >;
   };
@@ -1274,18 +1686,20 @@ export interface ApiShipmentShipment extends Struct.CollectionTypeSchema {
   };
   attributes: {
     buyer: Schema.Attribute.Relation<
-      'oneToOne',
+      'manyToOne',
       'plugin::users-permissions.user'
     >;
     Carrier: Schema.Attribute.String;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    DeliveredDate: Schema.Attribute.Date;
     EstimatedDeliveryDate: Schema.Attribute.Date;
     fulfilled_by: Schema.Attribute.Relation<
-      'oneToOne',
+      'manyToOne',
       'plugin::users-permissions.user'
     >;
+    items: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
@@ -1294,10 +1708,11 @@ export interface ApiShipmentShipment extends Struct.CollectionTypeSchema {
       Schema.Attribute.Private;
     order: Schema.Attribute.Relation<'manyToOne', 'api::order.order'>;
     publishedAt: Schema.Attribute.DateTime;
+    shipment_status: Schema.Attribute.String;
     ShippedDate: Schema.Attribute.Date;
     ShippingCost: Schema.Attribute.Decimal;
-    Status: Schema.Attribute.String;
-    store: Schema.Attribute.Relation<'oneToOne', 'api::store.store'>;
+    status_history: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
     TrackingCode: Schema.Attribute.String;
     TrackingLink: Schema.Attribute.String;
     updatedAt: Schema.Attribute.DateTime;
@@ -1349,6 +1764,102 @@ export interface ApiShortnerShortner extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiStoreMembershipStoreMembership
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'store_memberships';
+  info: {
+    description: 'Track store membership and future store-scoped roles';
+    displayName: 'Store Membership';
+    pluralName: 'store-memberships';
+    singularName: 'store-membership';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  pluginOptions: {
+    i18n: {
+      localized: false;
+    };
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    invited_by: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    joined_at: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::store-membership.store-membership'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    role: Schema.Attribute.Enumeration<
+      ['owner', 'editor', 'manager', 'viewer']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'editor'>;
+    status: Schema.Attribute.Enumeration<['active', 'inactive']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'active'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'> &
+      Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    > &
+      Schema.Attribute.Required;
+  };
+}
+
+export interface ApiStoreMetaStoreMeta extends Struct.CollectionTypeSchema {
+  collectionName: 'store_metas';
+  info: {
+    description: 'Visibility and summary data for stores';
+    displayName: 'Store Meta';
+    pluralName: 'store-metas';
+    singularName: 'store-meta';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    _debug: Schema.Attribute.JSON;
+    content_summary: Schema.Attribute.JSON;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    has_events: Schema.Attribute.Boolean;
+    has_upcoming_events: Schema.Attribute.Boolean;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::store-meta.store-meta'
+    > &
+      Schema.Attribute.Private;
+    magic_pages_detected: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    settings_overrides: Schema.Attribute.JSON;
+    show_about: Schema.Attribute.Boolean;
+    show_blog: Schema.Attribute.Boolean;
+    show_events: Schema.Attribute.Boolean;
+    show_home: Schema.Attribute.Boolean;
+    show_newsletter: Schema.Attribute.Boolean;
+    show_shop: Schema.Attribute.Boolean;
+    store: Schema.Attribute.Relation<'oneToOne', 'api::store.store'>;
+    summary: Schema.Attribute.JSON;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiStoreStore extends Struct.CollectionTypeSchema {
   collectionName: 'stores';
   info: {
@@ -1395,7 +1906,8 @@ export interface ApiStoreStore extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
-    extensions: Schema.Attribute.Component<'common.extension', true> &
+    events: Schema.Attribute.Relation<'manyToMany', 'api::event.event'>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
           localized: false;
@@ -1407,6 +1919,7 @@ export interface ApiStoreStore extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    is_headless: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
     locale: Schema.Attribute.String;
     localizations: Schema.Attribute.Relation<'oneToMany', 'api::store.store'>;
     Logo: Schema.Attribute.Media<'images' | 'files' | 'videos' | 'audios'> &
@@ -1415,7 +1928,22 @@ export interface ApiStoreStore extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    memberships: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::store-membership.store-membership'
+    >;
+    meta: Schema.Attribute.Relation<'oneToOne', 'api::store-meta.store-meta'>;
+    owner: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    products: Schema.Attribute.Relation<'manyToMany', 'api::product.product'>;
     publishedAt: Schema.Attribute.DateTime;
+    referred: Schema.Attribute.Relation<'oneToMany', 'api::store.store'>;
+    referred_by_store: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::store.store'
+    >;
     SEO: Schema.Attribute.Component<'common.seo', false> &
       Schema.Attribute.SetPluginOptions<{
         i18n: {
@@ -1446,6 +1974,10 @@ export interface ApiStoreStore extends Struct.CollectionTypeSchema {
           localized: true;
         };
       }>;
+    subscribers: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::subscriber.subscriber'
+    >;
     title: Schema.Attribute.String &
       Schema.Attribute.Required &
       Schema.Attribute.SetPluginOptions<{
@@ -1507,9 +2039,22 @@ export interface ApiStoreStoreSetting extends Struct.CollectionTypeSchema {
     > &
       Schema.Attribute.Private;
     meta: Schema.Attribute.JSON;
+    navigation: Schema.Attribute.Component<'common.navigation-settings', false>;
+    newsletter_settings: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        archive_enabled: true;
+        archive_title: 'Newsletter Archive';
+        archive_url_pattern: '/newsletter/{store_slug}/{newsletter_slug}';
+        confirmation_expiry_hours: 48;
+        double_opt_in: false;
+        preview_template: 'default';
+        show_in_footer: true;
+        unsubscribe_page_url: '/unsubscribe';
+      }>;
     notification_settings: Schema.Attribute.JSON;
     publishedAt: Schema.Attribute.DateTime;
     reply_to_email: Schema.Attribute.Email;
+    shipping_settings: Schema.Attribute.JSON;
     social_links: Schema.Attribute.JSON;
     store: Schema.Attribute.Relation<'oneToOne', 'api::store.store'>;
     store_name_override: Schema.Attribute.String;
@@ -1521,6 +2066,204 @@ export interface ApiStoreStoreSetting extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiStoreWebhookDelivery extends Struct.CollectionTypeSchema {
+  collectionName: 'webhook_deliveries';
+  info: {
+    description: 'Outbound store webhook POSTs (custom:webhook extensions) with their attempts, retries and responses.';
+    displayName: 'Webhook Delivery';
+    pluralName: 'webhook-deliveries';
+    singularName: 'webhook-delivery';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    attempt_log: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    attempts: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    dedupe_key: Schema.Attribute.String;
+    delivered_at: Schema.Attribute.DateTime;
+    event: Schema.Attribute.String & Schema.Attribute.Required;
+    event_id: Schema.Attribute.String & Schema.Attribute.Required;
+    extension_key: Schema.Attribute.String;
+    last_error: Schema.Attribute.Text;
+    last_status_code: Schema.Attribute.Integer;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::store.webhook-delivery'
+    > &
+      Schema.Attribute.Private;
+    max_attempts: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<1>;
+    next_attempt_at: Schema.Attribute.DateTime;
+    payload: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    redelivery_of: Schema.Attribute.String;
+    status: Schema.Attribute.Enumeration<
+      ['pending', 'retrying', 'delivered', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'pending'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    url: Schema.Attribute.String & Schema.Attribute.Required;
+  };
+}
+
+export interface ApiSubscriberNewsletter extends Struct.CollectionTypeSchema {
+  collectionName: 'newsletters';
+  info: {
+    description: 'Newsletter campaigns sent via SendGrid Marketing API';
+    displayName: 'Newsletter Edition';
+    pluralName: 'newsletters';
+    singularName: 'newsletter';
+  };
+  options: {
+    draftAndPublish: true;
+  };
+  attributes: {
+    archive_link_text: Schema.Attribute.String &
+      Schema.Attribute.DefaultTo<'View in browser'>;
+    archive_url: Schema.Attribute.String;
+    cancelled_at: Schema.Attribute.DateTime;
+    content: Schema.Attribute.RichText & Schema.Attribute.Required;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    delivery_status: Schema.Attribute.Enumeration<
+      ['pending', 'processing', 'delivered', 'partially_delivered', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'pending'>;
+    email_includes_archive_link: Schema.Attribute.Boolean &
+      Schema.Attribute.DefaultTo<true>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
+    html_content: Schema.Attribute.Text;
+    is_public: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::subscriber.newsletter'
+    > &
+      Schema.Attribute.Private;
+    plain_text_content: Schema.Attribute.Text;
+    preview_text: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 150;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    scheduled_at: Schema.Attribute.DateTime;
+    send_runs: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    send_stats: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        archive_views: 0;
+        bounce_rate: 0;
+        bounces: 0;
+        clicks: 0;
+        delivered: 0;
+        invalid_emails: 0;
+        last_updated_at: '';
+        opens: 0;
+        sent: 0;
+        spam_reports: 0;
+        total_recipients: 0;
+        unique_clicks: 0;
+        unique_opens: 0;
+        unsubscribes: 0;
+      }>;
+    sendgrid_campaign_id: Schema.Attribute.String;
+    sendgrid_single_send_id: Schema.Attribute.String;
+    sending_status: Schema.Attribute.Enumeration<
+      ['draft', 'scheduled', 'sending', 'sent', 'paused', 'cancelled', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'draft'>;
+    sent_at: Schema.Attribute.DateTime;
+    slug: Schema.Attribute.UID<'title'> & Schema.Attribute.Required;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'> &
+      Schema.Attribute.Required;
+    subject: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    target_lists: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::subscriber.subscriber-list'
+    >;
+    title: Schema.Attribute.String & Schema.Attribute.Required;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiSubscriberNewsletterEvent
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'newsletter_events';
+  info: {
+    description: 'Track individual email events from SendGrid webhooks';
+    displayName: 'Newsletter Event';
+    pluralName: 'newsletter-events';
+    singularName: 'newsletter-event';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    bounce_reason: Schema.Attribute.Text;
+    bounce_type: Schema.Attribute.Enumeration<['hard', 'soft', 'block']>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    email: Schema.Attribute.Email & Schema.Attribute.Required;
+    event_data: Schema.Attribute.JSON;
+    event_type: Schema.Attribute.Enumeration<
+      [
+        'processed',
+        'dropped',
+        'delivered',
+        'deferred',
+        'bounce',
+        'open',
+        'click',
+        'spam_report',
+        'unsubscribe',
+        'group_unsubscribe',
+        'group_resubscribe',
+      ]
+    > &
+      Schema.Attribute.Required;
+    ip: Schema.Attribute.String;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::subscriber.newsletter-event'
+    > &
+      Schema.Attribute.Private;
+    newsletter: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::subscriber.newsletter'
+    >;
+    processed: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    publishedAt: Schema.Attribute.DateTime;
+    sendgrid_event_id: Schema.Attribute.String & Schema.Attribute.Unique;
+    sendgrid_message_id: Schema.Attribute.String;
+    subscriber: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::subscriber.subscriber'
+    >;
+    timestamp: Schema.Attribute.DateTime & Schema.Attribute.Required;
+    unsubscribe_reason: Schema.Attribute.Text;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    url: Schema.Attribute.String;
+    user_agent: Schema.Attribute.String;
+  };
+}
+
 export interface ApiSubscriberSubscriber extends Struct.CollectionTypeSchema {
   collectionName: 'subscribers';
   info: {
@@ -1539,15 +2282,35 @@ export interface ApiSubscriberSubscriber extends Struct.CollectionTypeSchema {
       Schema.Attribute.Private;
     Email: Schema.Attribute.Email & Schema.Attribute.Required;
     EmailVerified: Schema.Attribute.DateTime;
-    extensions: Schema.Attribute.Component<'common.extension', true>;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
+    last_synced_at: Schema.Attribute.DateTime;
+    lists: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::subscriber.subscriber-list'
+    >;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
       'api::subscriber.subscriber'
     > &
       Schema.Attribute.Private;
+    newsletter_preferences: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        frequency: 'weekly';
+        subscribed: true;
+        tags: [];
+        topics: [];
+      }>;
+    odoo_partner_ids: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<{}>;
     publishedAt: Schema.Attribute.DateTime;
+    sendgrid_contact_id: Schema.Attribute.String;
+    sendgrid_list_ids: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
     stores: Schema.Attribute.Relation<'manyToMany', 'api::store.store'>;
+    sync_status: Schema.Attribute.Enumeration<
+      ['pending', 'synced', 'failed', 'unsubscribed']
+    > &
+      Schema.Attribute.DefaultTo<'pending'>;
+    unsubscribed_at: Schema.Attribute.DateTime;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -1558,6 +2321,288 @@ export interface ApiSubscriberSubscriber extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiSubscriberSubscriberImport
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'subscriber_imports';
+  info: {
+    description: 'CSV subscriber import jobs per store - progress, counters and per-row error report';
+    displayName: 'Subscriber Import';
+    pluralName: 'subscriber-imports';
+    singularName: 'subscriber-import';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  pluginOptions: {
+    i18n: {
+      localized: false;
+    };
+  };
+  attributes: {
+    created_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    csv_content: Schema.Attribute.Text & Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    failed_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    filename: Schema.Attribute.String;
+    finished_at: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::subscriber.subscriber-import'
+    > &
+      Schema.Attribute.Private;
+    options: Schema.Attribute.JSON;
+    processed_rows: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    publishedAt: Schema.Attribute.DateTime;
+    requested_by: Schema.Attribute.String;
+    row_errors: Schema.Attribute.JSON & Schema.Attribute.DefaultTo<[]>;
+    skipped_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    started_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['queued', 'processing', 'completed', 'failed']
+    > &
+      Schema.Attribute.DefaultTo<'queued'>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'> &
+      Schema.Attribute.Required;
+    total_rows: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updated_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiSubscriberSubscriberList
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'subscriber_lists';
+  info: {
+    description: 'Email lists synced with SendGrid - one default per store';
+    displayName: 'Subscriber List';
+    pluralName: 'subscriber-lists';
+    singularName: 'subscriber-list';
+  };
+  options: {
+    draftAndPublish: true;
+  };
+  attributes: {
+    active: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    auto_subscribe_rules: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        enabled: false;
+        match_preferences: [];
+        match_tags: [];
+        rules: [];
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text;
+    extensions: Schema.Attribute.Component<'common.extensions_config', true>;
+    health: Schema.Attribute.Enumeration<
+      ['excellent', 'good', 'fair', 'poor', 'critical']
+    > &
+      Schema.Attribute.DefaultTo<'excellent'>;
+    is_default: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    last_synced_at: Schema.Attribute.DateTime;
+    list_type: Schema.Attribute.Enumeration<
+      ['default', 'segment', 'campaign', 'custom']
+    > &
+      Schema.Attribute.DefaultTo<'default'>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::subscriber.subscriber-list'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String & Schema.Attribute.Required;
+    newsletters: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::subscriber.newsletter'
+    >;
+    publishedAt: Schema.Attribute.DateTime;
+    sendgrid_list_id: Schema.Attribute.String & Schema.Attribute.Unique;
+    sendgrid_list_name: Schema.Attribute.String;
+    slug: Schema.Attribute.UID<'name'> & Schema.Attribute.Required;
+    stats: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        active_subscribers: 0;
+        avg_bounce_rate: 0;
+        avg_click_rate: 0;
+        avg_open_rate: 0;
+        bounced: 0;
+        complained: 0;
+        complaint_rate: 0;
+        deliverability_score: 100;
+        last_campaign_sent: null;
+        last_computed_at: null;
+        pending: 0;
+        total_campaigns_sent: 0;
+        total_subscribers: 0;
+        unsubscribed: 0;
+      }>;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'> &
+      Schema.Attribute.Required;
+    subscribers: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::subscriber.subscriber'
+    >;
+    sync_status: Schema.Attribute.Enumeration<['pending', 'synced', 'failed']> &
+      Schema.Attribute.DefaultTo<'pending'>;
+    unsubscribe_settings: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        confirmation_page_url: null;
+        custom_unsubscribe_url: null;
+        require_reason: false;
+        scope: 'store';
+        unsubscribe_group_id: null;
+        use_sendgrid_groups: true;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    welcome_email: Schema.Attribute.JSON &
+      Schema.Attribute.DefaultTo<{
+        body: null;
+        delay_hours: 0;
+        enabled: false;
+        subject: null;
+        template_id: null;
+      }>;
+  };
+}
+
+export interface ApiSubscriberSubscriberListMembership
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'subscriber_list_memberships';
+  info: {
+    description: 'Track subscription status per list - enables store-level unsubscribe';
+    displayName: 'Subscriber List Membership';
+    pluralName: 'subscriber-list-memberships';
+    singularName: 'subscriber-list-membership';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  pluginOptions: {
+    i18n: {
+      localized: false;
+    };
+  };
+  attributes: {
+    bounce_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    bounce_type: Schema.Attribute.Enumeration<
+      ['none', 'soft', 'hard', 'block']
+    > &
+      Schema.Attribute.DefaultTo<'none'>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    engagement_score: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<100>;
+    last_bounce_at: Schema.Attribute.DateTime;
+    last_clicked_at: Schema.Attribute.DateTime;
+    last_opened_at: Schema.Attribute.DateTime;
+    last_synced_at: Schema.Attribute.DateTime;
+    list: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::subscriber.subscriber-list'
+    > &
+      Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::subscriber.subscriber-list-membership'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    sendgrid_contact_id: Schema.Attribute.String;
+    source: Schema.Attribute.String;
+    status: Schema.Attribute.Enumeration<
+      [
+        'pending',
+        'subscribed',
+        'unsubscribed',
+        'bounced',
+        'complained',
+        'invalid',
+      ]
+    > &
+      Schema.Attribute.DefaultTo<'subscribed'>;
+    subscribed_at: Schema.Attribute.DateTime;
+    subscriber: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::subscriber.subscriber'
+    > &
+      Schema.Attribute.Required;
+    unsubscribe_reason: Schema.Attribute.Text;
+    unsubscribed_at: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    welcome_email_due_at: Schema.Attribute.DateTime;
+    welcome_email_sent_at: Schema.Attribute.DateTime;
+    welcome_email_status: Schema.Attribute.Enumeration<
+      ['none', 'pending', 'sent', 'failed', 'skipped']
+    > &
+      Schema.Attribute.DefaultTo<'none'>;
+  };
+}
+
+export interface ApiUserContextUserContext extends Struct.CollectionTypeSchema {
+  collectionName: 'user_contexts';
+  info: {
+    description: 'Store-aware messaging context snapshots for SMS and WhatsApp users';
+    displayName: 'User Context';
+    pluralName: 'user-contexts';
+    singularName: 'user-context';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    channel: Schema.Attribute.Enumeration<['sms', 'whatsapp']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'sms'>;
+    conversation_summary: Schema.Attribute.Text;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    external_user_key: Schema.Attribute.String & Schema.Attribute.Required;
+    last_inbound_at: Schema.Attribute.DateTime;
+    last_outbound_at: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::user-context.user-context'
+    > &
+      Schema.Attribute.Private;
+    message_count: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    phone: Schema.Attribute.String;
+    publishedAt: Schema.Attribute.DateTime;
+    recent_messages: Schema.Attribute.JSON;
+    store: Schema.Attribute.Relation<'manyToOne', 'api::store.store'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    user_snapshot: Schema.Attribute.JSON;
+    working_memory: Schema.Attribute.JSON;
+  };
+}
+
 export interface PluginContentReleasesRelease
   extends Struct.CollectionTypeSchema {
   collectionName: 'strapi_releases';
@@ -1815,12 +2860,13 @@ export interface PluginUploadFile extends Struct.CollectionTypeSchema {
     };
   };
   attributes: {
-    alternativeText: Schema.Attribute.String;
-    caption: Schema.Attribute.String;
+    alternativeText: Schema.Attribute.Text;
+    caption: Schema.Attribute.Text;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
     ext: Schema.Attribute.String;
+    focalPoint: Schema.Attribute.JSON;
     folder: Schema.Attribute.Relation<'manyToOne', 'plugin::upload.folder'> &
       Schema.Attribute.Private;
     folderPath: Schema.Attribute.String &
@@ -1840,7 +2886,7 @@ export interface PluginUploadFile extends Struct.CollectionTypeSchema {
       Schema.Attribute.Private;
     mime: Schema.Attribute.String & Schema.Attribute.Required;
     name: Schema.Attribute.String & Schema.Attribute.Required;
-    previewUrl: Schema.Attribute.String;
+    previewUrl: Schema.Attribute.Text;
     provider: Schema.Attribute.String & Schema.Attribute.Required;
     provider_metadata: Schema.Attribute.JSON;
     publishedAt: Schema.Attribute.DateTime;
@@ -1849,7 +2895,7 @@ export interface PluginUploadFile extends Struct.CollectionTypeSchema {
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    url: Schema.Attribute.String & Schema.Attribute.Required;
+    url: Schema.Attribute.Text & Schema.Attribute.Required;
     width: Schema.Attribute.Integer;
   };
 }
@@ -2042,6 +3088,7 @@ export interface PluginUsersPermissionsUser
       'plugin::users-permissions.user'
     > &
       Schema.Attribute.Private;
+    owned_stores: Schema.Attribute.Relation<'oneToMany', 'api::store.store'>;
     password: Schema.Attribute.Password &
       Schema.Attribute.Private &
       Schema.Attribute.SetMinMaxLength<{
@@ -2060,6 +3107,10 @@ export interface PluginUsersPermissionsUser
       'plugin::users-permissions.role'
     >;
     rsvps: Schema.Attribute.Relation<'oneToMany', 'api::rsvp.rsvp'>;
+    store_memberships: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::store-membership.store-membership'
+    >;
     stores: Schema.Attribute.Relation<'manyToMany', 'api::store.store'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
@@ -2075,7 +3126,7 @@ export interface PluginUsersPermissionsUser
 }
 
 declare module '@strapi/strapi' {
-  export module Public {
+  export namespace Public {
     export interface ContentTypeSchemas {
       'admin::api-token': AdminApiToken;
       'admin::api-token-permission': AdminApiTokenPermission;
@@ -2090,21 +3141,38 @@ declare module '@strapi/strapi' {
       'api::article.article': ApiArticleArticle;
       'api::auth-magic.magic-code': ApiAuthMagicMagicCode;
       'api::category.category': ApiCategoryCategory;
+      'api::discount.discount': ApiDiscountDiscount;
+      'api::event-reminder.event-reminder': ApiEventReminderEventReminder;
       'api::event.event': ApiEventEvent;
       'api::extension.extension': ApiExtensionExtension;
       'api::forms.form-response': ApiFormsFormResponse;
       'api::forms.forms': ApiFormsForms;
       'api::inbox.inbox': ApiInboxInbox;
+      'api::job-lock.job-lock': ApiJobLockJobLock;
       'api::markket.markket': ApiMarkketMarkket;
+      'api::markket.stripe-event': ApiMarkketStripeEvent;
       'api::order.order': ApiOrderOrder;
+      'api::order.subscription': ApiOrderSubscription;
       'api::page.page': ApiPagePage;
+      'api::product.inventory-movement': ApiProductInventoryMovement;
+      'api::product.inventory-reservation': ApiProductInventoryReservation;
       'api::product.product': ApiProductProduct;
+      'api::product.product-import': ApiProductProductImport;
       'api::rsvp.rsvp': ApiRsvpRsvp;
       'api::shipment.shipment': ApiShipmentShipment;
       'api::shortner.shortner': ApiShortnerShortner;
+      'api::store-membership.store-membership': ApiStoreMembershipStoreMembership;
+      'api::store-meta.store-meta': ApiStoreMetaStoreMeta;
       'api::store.store': ApiStoreStore;
       'api::store.store-setting': ApiStoreStoreSetting;
+      'api::store.webhook-delivery': ApiStoreWebhookDelivery;
+      'api::subscriber.newsletter': ApiSubscriberNewsletter;
+      'api::subscriber.newsletter-event': ApiSubscriberNewsletterEvent;
       'api::subscriber.subscriber': ApiSubscriberSubscriber;
+      'api::subscriber.subscriber-import': ApiSubscriberSubscriberImport;
+      'api::subscriber.subscriber-list': ApiSubscriberSubscriberList;
+      'api::subscriber.subscriber-list-membership': ApiSubscriberSubscriberListMembership;
+      'api::user-context.user-context': ApiUserContextUserContext;
       'plugin::content-releases.release': PluginContentReleasesRelease;
       'plugin::content-releases.release-action': PluginContentReleasesReleaseAction;
       'plugin::i18n.locale': PluginI18NLocale;